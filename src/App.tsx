@@ -1,15 +1,36 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import type { Color } from '@rumenx/chess/types';
 import { ChessBoard } from './components/ChessBoard/ChessBoard';
-import { useChessBackendGame } from './hooks/useChessBackendGame';
+import { useChessBackendGame, type AiMoveOutcome } from './hooks/useChessBackendGame';
+import { useEvaluation } from './hooks/useEvaluation';
 import { useBackend, BACKEND_PRESETS, type BackendId } from './providers';
-import { ChessAI, type AIDifficulty } from './services/ChessAI';
+import {
+  ChessAI,
+  type AIDifficulty,
+  type SearchClock,
+  type SearchProgress,
+} from './services/ChessAI';
+import { AISearchAbortedError } from './services/AIService';
+import { Strength } from './services/Strength';
+import { PERSONALITIES, Personality, type AIPersonality } from './services/Personality';
+import { PolyglotBook, bookMoveKey } from './services/OpeningBook';
+import { AttackMap } from './services/AttackMap';
+import { GameReview, type GameReviewResult } from './services/GameReview';
+import { HINT_SEARCH, Hints, type Hint, type HintRecord, type HintTier } from './services/Hints';
 import MoveHistory from './components/MoveHistory/MoveHistory';
+import EvaluationBar from './components/EvaluationBar/EvaluationBar';
+import EvaluationGraph from './components/EvaluationGraph/EvaluationGraph';
+import GameReviewPanel from './components/GameReviewPanel/GameReviewPanel';
+import HintPanel from './components/HintPanel/HintPanel';
+import GamePicker from './components/GamePicker/GamePicker';
 import PromotionDialog from './components/PromotionDialog/PromotionDialog';
 import { buildPGN } from './utils/pgn';
 import { loadJSON, saveJSON, remove as removeStorage } from './utils/persist';
 import './App.scss';
 
+/** Rating picked when switching the AI from a difficulty level to a rating */
+const DEFAULT_AI_ELO = 1200;
+
 function App() {
   // Backend context
   const {
@@ -22,6 +43,7 @@ function App() {
     checkConnection,
     capabilities,
     setBackendUrl,
+    provider,
   } = useBackend();
 
   // Persistent settings
@@ -35,6 +57,7 @@ function App() {
   const [showCoordinates, setShowCoordinates] = useState<boolean>(() =>
     loadJSON('rc_showCoords', true)
   );
+  const [showThreats, setShowThreats] = useState<boolean>(() => loadJSON('rc_showThreats', false));
   const [aiDifficulty, setAiDifficulty] = useState<AIDifficulty>(() => {
     const raw: unknown = loadJSON('rc_aiDifficulty', 'harmless');
     const allowed: AIDifficulty[] = ['harmless', 'easy', 'medium', 'hard', 'expert', 'godlike'];
@@ -42,6 +65,17 @@ function App() {
       ? (raw as AIDifficulty)
       : 'harmless';
   });
+  // A target rating replaces the difficulty level when set
+  const [aiElo, setAiElo] = useState<number | null>(() => {
+    const raw: unknown = loadJSON('rc_aiElo', null);
+    return typeof raw === 'number' && raw >= Strength.MIN_ELO && raw <= Strength.MAX_ELO
+      ? raw
+      : null;
+  });
+  const [aiPersonality, setAiPersonality] = useState<AIPersonality>(() => {
+    const raw: unknown = loadJSON('rc_aiPersonality', 'balanced');
+    return Personality.isPersonality(raw) ? raw : 'balanced';
+  });
   const [showColorDebug, setShowColorDebug] = useState<boolean>(() =>
     loadJSON('rc_showColorDebug', false)
   );
@@ -68,9 +102,18 @@ function App() {
   useEffect(() => {
     saveJSON('rc_showCoords', showCoordinates);
   }, [showCoordinates]);
+  useEffect(() => {
+    saveJSON('rc_showThreats', showThreats);
+  }, [showThreats]);
   useEffect(() => {
     saveJSON('rc_aiDifficulty', aiDifficulty);
   }, [aiDifficulty]);
+  useEffect(() => {
+    saveJSON('rc_aiElo', aiElo);
+  }, [aiElo]);
+  useEffect(() => {
+    saveJSON('rc_aiPersonality', aiPersonality);
+  }, [aiPersonality]);
   useEffect(() => {
     saveJSON('rc_showColorDebug', showColorDebug);
   }, [showColorDebug]);
@@ -95,11 +138,22 @@ function App() {
     undoMove,
     resetGame,
     getFEN,
+    loadPGN,
     engine,
     pendingPromotion,
     makeMove,
-    goToPly,
+    requestAiMove,
+    requestHint,
     currentPly,
+    initialFen,
+    plyFens,
+    goToPly,
+    remoteGameId,
+    tree,
+    currentNodeId,
+    goToNode,
+    promoteVariation,
+    deleteVariation,
     whiteTimeMs,
     blackTimeMs,
     timeControl,
@@ -108,7 +162,15 @@ function App() {
     timeoutWinner,
     loading: gameLoading,
     error: gameError,
-  } = useChessBackendGame();
+    syncNotice,
+    streaming,
+    offline,
+    remoteGames,
+    refreshRemoteGames,
+    resumeRemoteGame,
+    deleteRemoteGame,
+    forkRemoteGame,
+  } = useChessBackendGame(undefined, { aiPersonality });
 
   // Time control preset state (minutes + increment seconds)
   const [tcPreset, setTcPreset] = useState<{ m: number | null; inc: number }>(() =>
@@ -122,9 +184,99 @@ function App() {
   }, [tcPreset, setTimeControlPreset]);
 
   const [aiThinking, setAiThinking] = useState(false);
-  const [hintMove, setHintMove] = useState<{ from: string; to: string } | null>(null);
+
+  const [aiProgress, setAiProgress] = useState<SearchProgress | null>(null);
+  // How the AI's last move was found, shown while the game is at the ply it played
+  const [aiMoveInfo, setAiMoveInfo] = useState<(AiMoveOutcome & { ply: number }) | null>(null);
+  // Moves the AI took from its opening book, marked in the move list
+  const [bookMoves, setBookMoves] = useState<ReadonlySet<string>>(() => new Set());
+  // File name of a Polyglot book loaded for the local AI; null uses the bundled lines
+  const [bookName, setBookName] = useState<string | null>(null);
+
+  // The AI's clock, read when a search starts. Kept in a ref so clock ticks
+  // don't restart (and so abort) the search effect.
+  const aiClock = useRef<SearchClock | undefined>(undefined);
+  useEffect(() => {
+    aiClock.current =
+      timeControl.initialMs === null
+        ? undefined
+        : {
+            remainingMs: playerColor === 'white' ? blackTimeMs : whiteTimeMs,
+            incrementMs: timeControl.incrementMs,
+          };
+  }, [timeControl, playerColor, whiteTimeMs, blackTimeMs]);
+  // The hint for the position it was asked in and how much of it is shown
+  const [hint, setHint] = useState<{ hint: Hint; tier: HintTier } | null>(null);
+  const [hintPending, setHintPending] = useState(false);
+  // Hints asked for in the game `tree` belongs to
+  const [hintLog, setHintLog] = useState<{ tree: typeof tree; records: HintRecord[] }>(() => ({
+    tree,
+    records: [],
+  }));
+  const hintsUsed = hintLog.tree === tree ? hintLog.records : [];
   const [inlineMessage, setInlineMessage] = useState<string | null>(null);
 
+  // Post-game review of the mainline; it only applies while the mainline is unchanged
+  const mainline = tree.getMainline();
+  const mainlineKey = mainline.map((node) => node.id).join(' ');
+  const [gameReview, setGameReview] = useState<{
+    tree: typeof tree;
+    key: string;
+    result: GameReviewResult;
+  } | null>(null);
+  const [reviewProgress, setReviewProgress] = useState<{ done: number; total: number } | null>(
+    null
+  );
+  const reviewAbort = useRef<AbortController | null>(null);
+  const review =
+    gameReview?.tree === tree && gameReview.key === mainlineKey ? gameReview.result : null;
+
+  const startReview = async () => {
+    const controller = new AbortController();
+    reviewAbort.current = controller;
+    const reviewed = { tree, key: mainlineKey };
+    setReviewProgress({ done: 0, total: mainline.length + 1 });
+    try {
+      const result = await GameReview.analyze(tree.startFen, mainline, {
+        signal: controller.signal,
+        onProgress: (done, total) => setReviewProgress({ done, total }),
+      });
+      setGameReview({ ...reviewed, result });
+    } catch (err) {
+      if (!(err instanceof AISearchAbortedError)) setInlineMessage('Review failed');
+    } finally {
+      if (reviewAbort.current === controller) {
+        reviewAbort.current = null;
+        setReviewProgress(null);
+      }
+    }
+  };
+
+  // Analysis shares the AI worker, so it waits while the AI is searching or a review runs
+  const evalFens = useMemo(() => [initialFen, ...plyFens], [initialFen, plyFens]);
+  const evaluation = useEvaluation({
+    fens: evalFens,
+    currentPly,
+    provider,
+    remoteGameId,
+    paused: aiThinking || reviewProgress !== null,
+  });
+
+  // A hint only applies to the position it was asked in, so moving on clears it
+  const activeHint = hint?.hint.fen === evalFens[currentPly] ? hint : null;
+  const nextHintTier = activeHint ? Hints.nextTier(activeHint.tier) : 'piece';
+
+  const threats = useMemo(
+    () =>
+      showThreats
+        ? [
+            ...AttackMap.threatenedPieces(board, 'white'),
+            ...AttackMap.threatenedPieces(board, 'black'),
+          ]
+        : undefined,
+    [board, showThreats]
+  );
+
   const formatClock = useCallback(
     (ms: number) => {
       if (timeControl.initialMs === null) return '∞';
@@ -166,26 +318,48 @@ function App() {
   // AI logic
   useEffect(() => {
     if (!aiEnabled || isGameOver || isTimeout) return;
+    // Wait for a remote game being created or rebuilt; the board may still change
+    if (gameLoading) return;
+    // Browsing earlier moves must not make the AI branch off a sideline
+    if (currentPly < history.length) return;
     const isAITurn = turn !== playerColor;
     if (!isAITurn) return;
-    let cancelled = false;
+    // Aborted by the cleanup below on undo, reset, backend switch or any other re-run
+    const controller = new AbortController();
     const think = async () => {
       setAiThinking(true);
       const baseDelay = history.length === 0 && playerColor === 'black' ? 50 : 150;
       await new Promise((r) => setTimeout(r, baseDelay));
-      if (cancelled) return;
-      const move = ChessAI.computeBestMove(engine, aiDifficulty);
-      if (move) {
-        makeMove(move.from, move.to);
-        if (!cancelled) setAiThinking(false);
-      } else {
-        setAiThinking(false);
+      if (controller.signal.aborted) return;
+      try {
+        const fen = engine.getFEN();
+        const outcome = await requestAiMove({
+          search: {
+            level: aiElo === null ? aiDifficulty : Strength.levelFor(aiElo),
+            elo: aiElo ?? undefined,
+            personality: aiPersonality,
+            clock: aiClock.current,
+          },
+          onProgress: setAiProgress,
+          signal: controller.signal,
+        });
+        const { move } = outcome;
+        if (move && outcome.fromBook) {
+          setBookMoves((prev) => new Set(prev).add(bookMoveKey(fen, move)));
+        }
+        if (move) setAiMoveInfo({ ...outcome, ply: history.length + 1 });
+      } catch (err) {
+        if (err instanceof AISearchAbortedError) return;
+        setInlineMessage(err instanceof Error ? err.message : 'AI search failed');
       }
+      setAiThinking(false);
+      setAiProgress(null);
     };
     think();
     return () => {
-      cancelled = true;
+      controller.abort();
       setAiThinking(false);
+      setAiProgress(null);
     };
   }, [
     turn,
@@ -194,9 +368,14 @@ function App() {
     isTimeout,
     playerColor,
     engine,
-    makeMove,
+    requestAiMove,
     aiDifficulty,
+    aiElo,
+    aiPersonality,
     history.length,
+    currentPly,
+    backendId,
+    gameLoading,
   ]);
 
   const handlePlayerColorChange = (color: Color) => {
@@ -222,38 +401,80 @@ function App() {
   };
 
   const handleDifficultyChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    if (e.target.value === 'elo') {
+      setAiElo((elo) => elo ?? DEFAULT_AI_ELO);
+      return;
+    }
+    setAiElo(null);
     setAiDifficulty(e.target.value as AIDifficulty);
   };
 
-  const requestHint = () => {
-    // Only show hints when it's the player's turn (not AI's turn)
-    const isPlayersTurn = !aiEnabled || turn === playerColor;
-    if (!isPlayersTurn || isGameOver || aiThinking) return;
-    const move = ChessAI.computeBestMove(engine, 'easy');
-    if (move) setHintMove({ from: move.from, to: move.to });
+  const handleBookFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const input = e.target;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+    try {
+      ChessAI.setOpeningBook(PolyglotBook.fromBinary(await file.arrayBuffer()));
+      setBookName(file.name);
+    } catch (err) {
+      setInlineMessage(err instanceof Error ? err.message : 'Could not load book');
+    }
   };
 
-  // Clear hint when the hinted move is made
-  useEffect(() => {
-    if (!hintMove) return;
-    const last = history[history.length - 1];
-    const isHintedMoveMade = last && (last.from === hintMove.from || last.to === hintMove.to);
-    if (isHintedMoveMade) {
-      // Schedule state update to avoid synchronous update in effect
-      const timer = setTimeout(() => setHintMove(null), 0);
-      return () => clearTimeout(timer);
+  const restoreBundledBook = () => {
+    ChessAI.setOpeningBook(undefined);
+    setBookName(null);
+  };
+
+  const recordHint = (fen: string, tier: HintTier) =>
+    setHintLog((log) => ({
+      tree,
+      records: Hints.record(log.tree === tree ? log.records : [], fen, currentPly, tier),
+    }));
+
+  const showHint = async () => {
+    // Only show hints when it's the player's turn (not AI's turn)
+    const isPlayersTurn = !aiEnabled || turn === playerColor;
+    if (!isPlayersTurn || isGameOver || aiThinking || hintPending) return;
+    const fen = engine.getFEN();
+    // Asking again in the same position reveals the next tier
+    if (activeHint) {
+      const tier = Hints.nextTier(activeHint.tier);
+      if (!tier) return;
+      setHint({ ...activeHint, tier });
+      recordHint(fen, tier);
+      return;
     }
-  }, [history, hintMove]);
+    setHintPending(true);
+    try {
+      const candidate = await requestHint({ search: HINT_SEARCH });
+      const found = candidate && (await Hints.explainMove(fen, candidate));
+      // Drop the hint if the position changed while searching
+      if (found && engine.getFEN() === fen) {
+        setHint({ hint: found, tier: 'piece' });
+        recordHint(fen, 'piece');
+      }
+    } catch (err) {
+      if (!(err instanceof AISearchAbortedError)) setInlineMessage('Hint search failed');
+    } finally {
+      setHintPending(false);
+    }
+  };
 
   const resetSettings = () => {
     removeStorage('rc_playerColor');
     removeStorage('rc_aiEnabled');
     removeStorage('rc_showCoords');
     removeStorage('rc_aiDifficulty');
+    removeStorage('rc_aiElo');
+    removeStorage('rc_aiPersonality');
     setPlayerColor('white');
     setAiEnabled(true);
     setShowCoordinates(true);
     setAiDifficulty('harmless');
+    setAiElo(null);
+    setAiPersonality('balanced');
   };
 
   const statusMessage = inlineMessage
@@ -366,6 +587,18 @@ function App() {
             )}
           </div>
 
+          {backendId !== 'local' && (
+            <GamePicker
+              games={remoteGames}
+              activeId={remoteGameId}
+              busy={gameLoading}
+              onRefresh={() => void refreshRemoteGames()}
+              onResume={(id) => void resumeRemoteGame(id)}
+              onFork={(id) => void forkRemoteGame(id)}
+              onDelete={(id) => void deleteRemoteGame(id)}
+            />
+          )}
+
           {/* Game Settings */}
           <div className="board-settings">
             <h3 className="board-settings__title">Game Settings</h3>
@@ -400,7 +633,7 @@ function App() {
                 <select
                   id="ai-difficulty"
                   className="board-settings__select"
-                  value={aiDifficulty}
+                  value={aiElo === null ? aiDifficulty : 'elo'}
                   onChange={handleDifficultyChange}
                 >
                   <option value="harmless">Harmless (Random)</option>
@@ -409,7 +642,64 @@ function App() {
                   <option value="hard">Hard (Depth 3)</option>
                   <option value="expert">Expert (Depth 4)</option>
                   <option value="godlike">Godlike (Depth 5)</option>
+                  <option value="elo">Rating (Elo)</option>
                 </select>
+                {aiElo !== null && (
+                  <>
+                    <label className="board-settings__label" htmlFor="ai-elo">
+                      AI Rating: {aiElo}
+                    </label>
+                    <input
+                      id="ai-elo"
+                      type="range"
+                      min={Strength.MIN_ELO}
+                      max={Strength.MAX_ELO}
+                      step={100}
+                      value={aiElo}
+                      onChange={(e) => setAiElo(Number(e.target.value))}
+                    />
+                  </>
+                )}
+              </div>
+            )}
+            {aiEnabled && (
+              <div className="board-settings__option">
+                <label className="board-settings__label" htmlFor="ai-personality">
+                  AI Style:
+                </label>
+                <select
+                  id="ai-personality"
+                  className="board-settings__select"
+                  value={aiPersonality}
+                  onChange={(e) => setAiPersonality(e.target.value as AIPersonality)}
+                  title={PERSONALITIES[aiPersonality].description}
+                >
+                  {Personality.IDS.map((id) => (
+                    <option key={id} value={id} title={PERSONALITIES[id].description}>
+                      {PERSONALITIES[id].label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+            {aiEnabled && (
+              <div className="board-settings__option">
+                <label className="board-settings__label" htmlFor="ai-book">
+                  Opening Book: {bookName ?? 'Built-in'}
+                </label>
+                <input
+                  id="ai-book"
+                  className="board-settings__select"
+                  type="file"
+                  accept=".bin"
+                  onChange={handleBookFile}
+                  title="Load a Polyglot (.bin) opening book for the AI"
+                />
+                {bookName !== null && (
+                  <button className="board-settings__button" onClick={restoreBundledBook}>
+                    Use built-in book
+                  </button>
+                )}
               </div>
             )}
             <div className="board-settings__option">
@@ -474,6 +764,16 @@ function App() {
                 <span>Show Coordinates</span>
               </label>
             </div>
+            <div className="board-settings__option">
+              <label className="board-settings__checkbox">
+                <input
+                  type="checkbox"
+                  checked={showThreats}
+                  onChange={(e) => setShowThreats(e.target.checked)}
+                />
+                <span>Show Attacked &amp; Hanging Pieces</span>
+              </label>
+            </div>
             <div className="board-settings__option">
               <button
                 className="board-settings__button"
@@ -490,7 +790,11 @@ function App() {
               <button
                 className="board-settings__button"
                 onClick={() => {
-                  const pgn = buildPGN(history, engine, { result });
+                  const pgn = buildPGN(history, engine, {
+                    result,
+                    tree,
+                    review: review ?? undefined,
+                  });
                   navigator.clipboard.writeText(pgn);
                   alert('PGN copied to clipboard!');
                 }}
@@ -499,6 +803,24 @@ function App() {
                 📑 Copy PGN
               </button>
             </div>
+            <div className="board-settings__option">
+              <button
+                className="board-settings__button"
+                onClick={() => {
+                  const pgn = window.prompt('Paste PGN');
+                  if (!pgn) return;
+                  try {
+                    const parsed = loadPGN(pgn);
+                    setInlineMessage(`Loaded ${parsed.moves.length} plies`);
+                  } catch (err) {
+                    alert(err instanceof Error ? err.message : 'Could not load PGN');
+                  }
+                }}
+                title="Load a game from PGN"
+              >
+                📥 Load PGN
+              </button>
+            </div>
             <div className="board-settings__option">
               <button
                 className="board-settings__button"
@@ -558,21 +880,30 @@ function App() {
         {/* Center Column */}
         <div className="layout-3col__center">
           <div className="app__board-container">
-            <ChessBoard
-              board={board}
-              selectedSquare={selectedSquare}
-              legalMoves={legalMoves}
-              lastMove={lastMove}
-              isCheck={isCheck}
-              turn={turn}
-              onSquareClick={handleSquareClick}
-              orientation={boardOrientation}
-              showCoordinates={showCoordinates}
-              highlightActivePieces
-              hintMove={hintMove}
-              showColorDebug={showColorDebug}
-              showMappingDebug={showMappingDebug}
-            />
+            <div className="app__board-row">
+              <EvaluationBar score={evaluation.current} orientation={boardOrientation} />
+              <ChessBoard
+                board={board}
+                selectedSquare={selectedSquare}
+                legalMoves={legalMoves}
+                lastMove={lastMove}
+                isCheck={isCheck}
+                turn={turn}
+                onSquareClick={handleSquareClick}
+                orientation={boardOrientation}
+                showCoordinates={showCoordinates}
+                highlightActivePieces
+                hintMove={
+                  activeHint && {
+                    from: activeHint.hint.move.from,
+                    to: activeHint.tier === 'piece' ? undefined : activeHint.hint.move.to,
+                  }
+                }
+                threats={threats}
+                showColorDebug={showColorDebug}
+                showMappingDebug={showMappingDebug}
+              />
+            </div>
             {pendingPromotion && (
               <PromotionDialog
                 color={turn}
@@ -588,10 +919,36 @@ function App() {
               {gameError && (
                 <div className="board-info__banner board-info__banner--error">⚠️ {gameError}</div>
               )}
+              {offline && (
+                <div className="board-info__banner board-info__banner--notice">
+                  📡 Server unreachable — moves are kept and sent once it is back
+                </div>
+              )}
+              {syncNotice && (
+                <div className="board-info__banner board-info__banner--notice">🔄 {syncNotice}</div>
+              )}
               <div className="board-info__row">
                 <span className="board-info__status">{statusMessage}</span>
                 {aiEnabled && turn !== playerColor && !isGameOver && !isTimeout && (
-                  <span className="board-info__pill">🤖 AI {aiThinking ? 'Thinking' : 'Move'}</span>
+                  <span className="board-info__pill">
+                    🤖 AI {aiThinking ? 'Thinking' : 'Move'}
+                    {aiThinking && aiProgress && (
+                      <>
+                        {' '}
+                        · depth {aiProgress.depth} · {aiProgress.nodes.toLocaleString()} nodes
+                        {aiProgress.bestMove &&
+                          ` · ${aiProgress.bestMove.san ?? aiProgress.bestMove.to}`}
+                      </>
+                    )}
+                  </span>
+                )}
+                {!aiThinking && aiMoveInfo?.ply === currentPly && (
+                  <span className="board-info__pill">
+                    🤖 {aiMoveInfo.source === 'server' ? backends[backendId].label : 'Local'} engine
+                    {aiMoveInfo.depth !== undefined && ` · depth ${aiMoveInfo.depth}`}
+                    {aiMoveInfo.thinkingTimeMs !== undefined &&
+                      ` · ${Math.round(aiMoveInfo.thinkingTimeMs)} ms`}
+                  </span>
                 )}
                 {isCheck && !isGameOver && !isTimeout && (
                   <span className="board-info__pill board-info__pill--warn">♚ Check</span>
@@ -613,7 +970,10 @@ function App() {
                 <span className="board-info__divider" />
                 <span>Mode: {aiEnabled ? 'vs AI' : 'Local'}</span>
                 <span className="board-info__divider" />
-                <span>Engine: {backends[backendId].label}</span>
+                <span title={streaming ? 'Receiving live updates from the server' : undefined}>
+                  Engine: {backends[backendId].label}
+                  {streaming && ' · live'}
+                </span>
                 <span className="board-info__divider" />
                 <span>Moves: {history.length}</span>
                 {timeControl.initialMs !== null && (
@@ -705,19 +1065,39 @@ function App() {
               </button>
               <button
                 className="game-controls__button game-controls__button--secondary"
-                onClick={requestHint}
-                disabled={aiThinking || isGameOver || isTimeout}
-                title="Show a hint move"
+                onClick={showHint}
+                disabled={aiThinking || isGameOver || isTimeout || hintPending || !nextHintTier}
+                title={activeHint ? 'Show more of the hint' : 'Show a hint'}
               >
-                💡 Hint
+                💡 {activeHint ? 'More' : 'Hint'}
               </button>
             </div>
           </div>
+          <HintPanel
+            text={activeHint && Hints.text(activeHint.hint, activeHint.tier)}
+            pending={hintPending}
+            used={hintsUsed}
+          />
           <MoveHistory
-            history={history}
-            engineContext={engine}
+            tree={tree}
+            currentNodeId={currentNodeId}
+            onSelectNode={goToNode}
+            onPromoteVariation={promoteVariation}
+            onDeleteVariation={deleteVariation}
+            bookMoves={bookMoves}
+            review={review}
+          />
+          <GameReviewPanel
+            review={review}
+            progress={reviewProgress}
+            canReview={(isGameOver || isTimeout) && mainline.length > 0}
+            onReview={startReview}
+            onCancel={() => reviewAbort.current?.abort()}
+          />
+          <EvaluationGraph
+            scores={evaluation.plies}
             currentPly={currentPly}
-            onSelectMove={goToPly}
+            onSelectPly={goToPly}
           />
         </div>
       </main>
@@ -2,6 +2,7 @@ import { useMemo } from 'react';
 import type { Piece as ChessPiece, Move as ChessMove } from '@rumenx/chess/types';
 import { Square } from './Square';
 import { ChessEngine } from '../../services/ChessEngine';
+import type { ThreatenedPiece } from '../../services/AttackMap';
 import './ChessBoard.scss';
 
 export interface ChessBoardProps {
@@ -15,7 +16,10 @@ export interface ChessBoardProps {
   orientation?: 'white' | 'black';
   showCoordinates?: boolean;
   highlightActivePieces?: boolean;
-  hintMove?: { from: string; to: string } | null;
+  /** Hint squares; `to` is left out while only the piece to move is revealed */
+  hintMove?: { from: string; to?: string } | null;
+  /** Attacked pieces of either side to outline, hanging ones more strongly */
+  threats?: ThreatenedPiece[];
   showColorDebug?: boolean;
   showMappingDebug?: boolean;
 }
@@ -32,6 +36,7 @@ export function ChessBoard({
   showCoordinates = true,
   highlightActivePieces = false,
   hintMove = null,
+  threats,
   showColorDebug = false,
   showMappingDebug = false,
 }: ChessBoardProps) {
@@ -73,6 +78,7 @@ export function ChessBoard({
         const isActivePiece = highlightActivePieces && piece?.color === turn;
         const isHintFrom = hintMove?.from === square;
         const isHintTo = hintMove?.to === square;
+        const threat = threats?.find((t) => t.square === square);
         squares.push(
           <Square
             key={square}
@@ -87,6 +93,7 @@ export function ChessBoard({
             onClick={onSquareClick}
             isHintFrom={isHintFrom}
             isHintTo={isHintTo}
+            threat={threat ? (threat.hanging ? 'hanging' : 'attacked') : null}
             showColorDebug={showColorDebug}
             debugInfo={
               showMappingDebug ? { engineRow: r, engineCol: c, renderedSquare: square } : undefined
@@ -113,6 +120,7 @@ export function ChessBoard({
     turn,
     hintMove?.from,
     hintMove?.to,
+    threats,
     showColorDebug,
     showMappingDebug,
   ]);
@@ -53,6 +53,8 @@ export interface SquareProps {
   isHintFrom?: boolean;
   /** Hint move destination */
   isHintTo?: boolean;
+  /** Threat overlay: the piece here is attacked, or attacked and hanging */
+  threat?: 'attacked' | 'hanging' | null;
   /** Show debug badge with piece color */
   showColorDebug?: boolean;
   /** Extra mapping debug info */
@@ -76,6 +78,7 @@ export function Square({
   isActivePiece = false,
   isHintFrom = false,
   isHintTo = false,
+  threat = null,
   showColorDebug = false,
   debugInfo,
 }: SquareProps) {
@@ -100,6 +103,7 @@ export function Square({
     isActivePiece && 'chess-square--active-piece',
     isHintFrom && 'chess-square--hint-from',
     isHintTo && 'chess-square--hint-to',
+    threat && `chess-square--${threat}`,
   ]
     .filter(Boolean)
     .join(' ');
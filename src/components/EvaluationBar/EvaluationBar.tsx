@@ -0,0 +1,37 @@
+import { formatEval, whiteExpectation, type EvalScore } from '../../utils/evaluation';
+import './EvaluationBar.scss';
+
+interface EvaluationBarProps {
+  /** Score of the shown position; null while it is being analysed */
+  score: EvalScore | null;
+  /** White's share sits at the bottom when the board shows white at the bottom */
+  orientation: 'white' | 'black';
+}
+
+/** Vertical bar beside the board: white's share of it is white's expected score */
+export function EvaluationBar({ score, orientation }: EvaluationBarProps) {
+  const white = score ? whiteExpectation(score) : 0.5;
+  const label = score ? formatEval(score) : '…';
+  // The label sits at the end of the side that is better
+  const whiteAhead = !score || white >= 0.5;
+  return (
+    <div
+      className={`evaluation-bar evaluation-bar--${orientation}`}
+      role="meter"
+      aria-label="Evaluation"
+      aria-valuemin={0}
+      aria-valuemax={100}
+      aria-valuenow={Math.round(white * 100)}
+      aria-valuetext={score ? label : 'Analysing'}
+    >
+      <div className="evaluation-bar__white" style={{ flexBasis: `${white * 100}%` }} />
+      <span
+        className={`evaluation-bar__label evaluation-bar__label--${whiteAhead ? 'white' : 'black'}`}
+      >
+        {label}
+      </span>
+    </div>
+  );
+}
+
+export default EvaluationBar;
@@ -0,0 +1,84 @@
+import { formatEval, whiteExpectation, type EvalScore } from '../../utils/evaluation';
+import './EvaluationGraph.scss';
+
+interface EvaluationGraphProps {
+  /** Score after each ply, index 0 being the starting position */
+  scores: (EvalScore | null)[];
+  currentPly: number;
+  onSelectPly?: (ply: number) => void;
+}
+
+const WIDTH = 300;
+const HEIGHT = 80;
+
+/** Move number of a ply: "12." after white's move, "12..." after black's */
+function plyLabel(ply: number): string {
+  if (ply === 0) return 'Start';
+  const moveNumber = Math.ceil(ply / 2);
+  return ply % 2 === 1 ? `${moveNumber}.` : `${moveNumber}...`;
+}
+
+/**
+ * White's expected score over the game, one point per ply. Plies still being
+ * analysed are left out of the line; clicking a point jumps to that ply.
+ */
+export function EvaluationGraph({ scores, currentPly, onSelectPly }: EvaluationGraphProps) {
+  if (scores.length < 2) return null;
+  const x = (ply: number) => (ply / (scores.length - 1)) * WIDTH;
+  const y = (score: EvalScore) => (1 - whiteExpectation(score)) * HEIGHT;
+  const points = scores.flatMap((score, ply) => (score ? [{ ply, score }] : []));
+  const line = points.map(({ ply, score }) => `${x(ply)},${y(score)}`).join(' ');
+  const area = points.length
+    ? `${x(points[0].ply)},${HEIGHT} ${line} ${x(points[points.length - 1].ply)},${HEIGHT}`
+    : '';
+
+  return (
+    <div className="evaluation-graph">
+      <h3 className="evaluation-graph__title">Evaluation</h3>
+      <svg
+        className="evaluation-graph__chart"
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        preserveAspectRatio="none"
+        role="group"
+        aria-label="Evaluation by ply"
+      >
+        <line
+          className="evaluation-graph__axis"
+          x1={0}
+          y1={HEIGHT / 2}
+          x2={WIDTH}
+          y2={HEIGHT / 2}
+        />
+        {area && <polygon className="evaluation-graph__area" points={area} />}
+        {line && <polyline className="evaluation-graph__line" points={line} />}
+        <line
+          className="evaluation-graph__cursor"
+          x1={x(currentPly)}
+          y1={0}
+          x2={x(currentPly)}
+          y2={HEIGHT}
+        />
+        {points.map(({ ply, score }) => (
+          <circle
+            key={ply}
+            className={`evaluation-graph__point ${ply === currentPly ? 'evaluation-graph__point--current' : ''}`}
+            cx={x(ply)}
+            cy={y(score)}
+            r={ply === currentPly ? 3 : 2}
+            role="button"
+            tabIndex={0}
+            aria-label={`${plyLabel(ply)} ${formatEval(score)}`}
+            onClick={() => onSelectPly?.(ply)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' || e.key === ' ') onSelectPly?.(ply);
+            }}
+          >
+            <title>{`${plyLabel(ply)} ${formatEval(score)}`}</title>
+          </circle>
+        ))}
+      </svg>
+    </div>
+  );
+}
+
+export default EvaluationGraph;
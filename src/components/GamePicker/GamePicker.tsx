@@ -0,0 +1,89 @@
+import type { NormGameState } from '../../providers/types';
+import './GamePicker.scss';
+
+interface GamePickerProps {
+  /** Games on the server; null until first listed */
+  games: NormGameState[] | null;
+  /** Id of the game on the board */
+  activeId: string | null;
+  /** A game is being created, resumed or forked */
+  busy: boolean;
+  onRefresh: () => void;
+  onResume: (gameId: string) => void;
+  onFork: (gameId: string) => void;
+  onDelete: (gameId: string) => void;
+}
+
+const describe = (game: NormGameState) => {
+  const moves = `${game.moveCount} ${game.moveCount === 1 ? 'move' : 'moves'}`;
+  if (game.gameOver) return `${moves} · ${game.result}`;
+  return `${moves} · ${game.turn === 'white' ? 'White' : 'Black'} to move`;
+};
+
+export function GamePicker({
+  games,
+  activeId,
+  busy,
+  onRefresh,
+  onResume,
+  onFork,
+  onDelete,
+}: GamePickerProps) {
+  return (
+    <div className="game-picker">
+      <div className="game-picker__header">
+        <h3 className="game-picker__title">Server Games</h3>
+        <button className="game-picker__button" onClick={onRefresh} disabled={busy} type="button">
+          🔄 {games ? 'Refresh' : 'List'}
+        </button>
+      </div>
+      {games && !games.length && <p className="game-picker__empty">No games on the server</p>}
+      {games && games.length > 0 && (
+        <ul className="game-picker__list">
+          {games.map((game) => {
+            const active = game.id === activeId;
+            return (
+              <li
+                key={game.id}
+                className={`game-picker__game ${active ? 'game-picker__game--active' : ''}`}
+              >
+                <span className="game-picker__id" title={game.id}>
+                  {game.id}
+                </span>
+                <span className="game-picker__details">{describe(game)}</span>
+                <span className="game-picker__actions">
+                  <button
+                    className="game-picker__button"
+                    onClick={() => onResume(game.id)}
+                    disabled={busy || active}
+                    type="button"
+                  >
+                    {active ? 'Playing' : 'Resume'}
+                  </button>
+                  <button
+                    className="game-picker__button"
+                    onClick={() => onFork(game.id)}
+                    disabled={busy}
+                    type="button"
+                  >
+                    Fork
+                  </button>
+                  <button
+                    className="game-picker__button game-picker__button--danger"
+                    onClick={() => onDelete(game.id)}
+                    disabled={busy}
+                    type="button"
+                  >
+                    Delete
+                  </button>
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default GamePicker;
@@ -0,0 +1,88 @@
+import type { Color } from '@rumenx/chess/types';
+import {
+  GameReview,
+  type GameReviewResult,
+  type MoveClassification,
+} from '../../services/GameReview';
+import './GameReviewPanel.scss';
+
+interface GameReviewPanelProps {
+  review: GameReviewResult | null;
+  /** Positions analysed so far while a review runs */
+  progress: { done: number; total: number } | null;
+  /** The game is over and has moves to review */
+  canReview: boolean;
+  onReview: () => void;
+  onCancel: () => void;
+}
+
+const COUNTED: MoveClassification[] = ['inaccuracy', 'mistake', 'blunder'];
+const SIDES: Color[] = ['white', 'black'];
+
+const formatAccuracy = (accuracy: number | null) =>
+  accuracy === null ? '—' : `${accuracy.toFixed(1)}%`;
+
+export function GameReviewPanel({
+  review,
+  progress,
+  canReview,
+  onReview,
+  onCancel,
+}: GameReviewPanelProps) {
+  if (!review && !progress && !canReview) return null;
+
+  const count = (color: Color, classification: MoveClassification) =>
+    review?.moves.filter((m) => m.color === color && m.classification === classification).length ??
+    0;
+
+  return (
+    <div className="game-review">
+      <h3 className="game-review__title">Game Review</h3>
+      {progress ? (
+        <div className="game-review__progress" aria-live="polite">
+          <progress value={progress.done} max={progress.total} />
+          <span>
+            Analysing {progress.done}/{progress.total}
+          </span>
+          <button className="game-review__button" onClick={onCancel}>
+            Cancel
+          </button>
+        </div>
+      ) : (
+        !review && (
+          <button className="game-review__button" onClick={onReview}>
+            🔍 Review game
+          </button>
+        )
+      )}
+      {review && (
+        <table className="game-review__summary">
+          <thead>
+            <tr>
+              <th />
+              <th>Accuracy</th>
+              {COUNTED.map((c) => (
+                <th key={c} title={GameReview.label(c)}>
+                  {GameReview.glyph(c)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {SIDES.map((side) => (
+              <tr key={side}>
+                <th scope="row">{side === 'white' ? 'White' : 'Black'}</th>
+                <td>{formatAccuracy(review.accuracy[side])}</td>
+                {COUNTED.map((c) => (
+                  <td key={c}>{count(side, c)}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+export default GameReviewPanel;
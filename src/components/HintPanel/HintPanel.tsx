@@ -0,0 +1,33 @@
+import type { HintRecord } from '../../services/Hints';
+import './HintPanel.scss';
+
+interface HintPanelProps {
+  /** The hint for the current position at the tier revealed so far */
+  text: string | null;
+  /** A hint is being searched for */
+  pending: boolean;
+  /** Hints asked for this game */
+  used: HintRecord[];
+}
+
+export function HintPanel({ text, pending, used }: HintPanelProps) {
+  if (!text && !pending && !used.length) return null;
+
+  const fullMoves = used.filter((r) => r.tier === 'move').length;
+
+  return (
+    <div className="hint-panel">
+      <p className="hint-panel__text" aria-live="polite">
+        {pending ? 'Thinking…' : text}
+      </p>
+      {used.length > 0 && (
+        <p className="hint-panel__usage">
+          Hints this game: {used.length}
+          {fullMoves > 0 && ` (${fullMoves} shown in full)`}
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default HintPanel;
@@ -1,49 +1,243 @@
-import { formatMove, chunkMoves } from '../../utils/chessNotation';
-import type { ChessEngine } from '../../services/ChessEngine';
-import type { Move } from '@rumenx/chess/types';
+import type { ReactNode } from 'react';
+import { ROOT_NODE_ID, type GameNode, type GameTree } from '../../services/GameTree';
+import { bookMoveKey } from '../../services/OpeningBook';
+import { GameReview, type GameReviewResult, type MoveReview } from '../../services/GameReview';
 import './MoveHistory.scss';
 
 interface MoveHistoryProps {
-  history: Move[];
-  onSelectMove?: (index: number) => void;
-  engineContext?: ChessEngine;
-  currentPly?: number; // current displayed ply index
+  tree: GameTree;
+  currentNodeId: string;
+  onSelectNode?: (nodeId: string) => void;
+  onPromoteVariation?: (nodeId: string) => void;
+  onDeleteVariation?: (nodeId: string) => void;
+  /** Moves the AI played from its opening book, keyed by bookMoveKey */
+  bookMoves?: ReadonlySet<string>;
+  /** Post-game review of the mainline: glyphs on flagged moves and the better alternative */
+  review?: GameReviewResult | null;
+}
+
+interface MoveRow {
+  fullMove: number;
+  white?: GameNode;
+  black?: GameNode;
+  /** Sidelines branching off the last move of this row */
+  variations: GameNode[];
+}
+
+/** Alternatives to `node` when it is its parent's main continuation */
+function alternativesOf(tree: GameTree, node: GameNode): GameNode[] {
+  const parent = tree.parent(node.id);
+  if (!parent || parent.children[0] !== node.id) return [];
+  return parent.children.slice(1).map((id) => tree.getNode(id));
+}
+
+function groupRows(tree: GameTree): MoveRow[] {
+  const rows: MoveRow[] = [];
+  for (const node of tree.getMainline()) {
+    const last = rows[rows.length - 1];
+    const canJoin = last && !last.black && !last.variations.length;
+    if (node.color === 'black' && canJoin && last.fullMove === node.moveNumber) {
+      last.black = node;
+    } else if (node.color === 'black') {
+      rows.push({ fullMove: node.moveNumber, black: node, variations: [] });
+    } else {
+      rows.push({ fullMove: node.moveNumber, white: node, variations: [] });
+    }
+    rows[rows.length - 1].variations = alternativesOf(tree, node);
+  }
+  return rows;
 }
 
 export function MoveHistory({
-  history,
-  onSelectMove,
-  engineContext,
-  currentPly,
+  tree,
+  currentNodeId,
+  onSelectNode,
+  onPromoteVariation,
+  onDeleteVariation,
+  bookMoves,
+  review,
 }: MoveHistoryProps) {
-  const rows = chunkMoves(history);
+  const rows = groupRows(tree);
+  const reviews = new Map<string, MoveReview>(review?.moves.map((m) => [m.nodeId, m]));
+  const flagged = (node?: GameNode) => {
+    const move = node && reviews.get(node.id);
+    return move && GameReview.isFlagged(move) ? move : null;
+  };
+  const current = tree.getNode(currentNodeId);
+  const onMainline = tree.isMainline(currentNodeId);
+
+  const moveClass = (node: GameNode) => {
+    if (node.id === currentNodeId) return 'is-active is-current';
+    return tree.isAncestor(node.id, currentNodeId) ? 'is-active' : '';
+  };
+
+  const bookMark = (node: GameNode) => {
+    const parent = tree.parent(node.id);
+    if (!bookMoves || !parent || !node.move) return null;
+    if (!bookMoves.has(bookMoveKey(parent.fen, node.move))) return null;
+    return (
+      <span className="move-history__book" title="Book move">
+        📖
+      </span>
+    );
+  };
+
+  const glyph = (node: GameNode) => {
+    const move = flagged(node);
+    if (!move) return null;
+    return (
+      <span
+        className={`move-history__glyph move-history__glyph--${move.classification}`}
+        title={GameReview.comment(move)}
+      >
+        {GameReview.glyph(move.classification)}
+      </span>
+    );
+  };
+
+  const renderMove = (node?: GameNode) => (
+    <button
+      className={`move-history__move-btn ${node ? moveClass(node) : ''}`}
+      onClick={() => node && onSelectNode?.(node.id)}
+      disabled={!node}
+    >
+      {node ? node.san : ''}
+      {node && glyph(node)}
+      {node && bookMark(node)}
+    </button>
+  );
+
+  // Flagged moves of a row with the move the engine preferred
+  const renderBetter = (row: MoveRow) =>
+    [row.white, row.black].map((node) => {
+      const move = flagged(node);
+      if (!node || !move?.bestSan) return null;
+      return (
+        <div key={node.id} className="move-history__better">
+          {node.color === 'white' ? `${node.moveNumber}.` : `${node.moveNumber}...`} {node.san}
+          {GameReview.glyph(move.classification)} — {move.bestSan} was best
+          {move.motif && <span className="move-history__motif">{move.motif}</span>}
+        </div>
+      );
+    });
+
+  // Sidelines are printed inline, PGN style, with nested variations in parentheses
+  const renderLine = (first: GameNode): ReactNode[] => {
+    const parts: ReactNode[] = [];
+    let showNumber = true;
+    for (let node: GameNode | null = first; node; node = tree.child(node.id)) {
+      const number =
+        node.color === 'white'
+          ? `${node.moveNumber}.`
+          : showNumber
+            ? `${node.moveNumber}...`
+            : null;
+      parts.push(
+        <button
+          key={node.id}
+          className={`move-history__variation-move ${moveClass(node)}`}
+          onClick={() => onSelectNode?.(node!.id)}
+        >
+          {number && <span className="move-history__variation-number">{number}</span>}
+          {node.san}
+          {bookMark(node)}
+        </button>
+      );
+      const alternatives = alternativesOf(tree, node);
+      for (const alt of alternatives) {
+        parts.push(
+          <span key={`(${alt.id}`} className="move-history__variation is-nested">
+            ({renderLine(alt)})
+          </span>
+        );
+      }
+      showNumber = alternatives.length > 0;
+    }
+    return parts;
+  };
+
+  const parent = tree.parent(currentNodeId);
+  const child = tree.child(currentNodeId);
+  const prevSibling = tree.sibling(currentNodeId, -1);
+  const nextSibling = tree.sibling(currentNodeId, 1);
+
   return (
     <div className="move-history">
       <h3 className="move-history__title">Moves</h3>
-      {history.length === 0 && <div className="move-history__empty">No moves yet</div>}
-      {history.length > 0 && (
+      {rows.length === 0 && <div className="move-history__empty">No moves yet</div>}
+      {rows.length > 0 && (
         <ol className="move-history__list" start={1}>
           {rows.map((row, i) => (
-            <li key={i} className="move-history__row">
-              <span className="move-history__number">{row.fullMove}.</span>
-              <button
-                className={`move-history__move-btn ${currentPly !== undefined && currentPly > i * 2 ? 'is-active' : ''}`}
-                onClick={() => onSelectMove?.(i * 2)}
-                disabled={!row.white}
-              >
-                {row.white ? formatMove(row.white, i * 2, engineContext) : ''}
-              </button>
-              <button
-                className={`move-history__move-btn ${currentPly !== undefined && currentPly > i * 2 + 1 ? 'is-active' : ''}`}
-                onClick={() => onSelectMove?.(i * 2 + 1)}
-                disabled={!row.black}
-              >
-                {row.black ? formatMove(row.black, i * 2 + 1, engineContext) : ''}
-              </button>
+            <li key={i} className="move-history__entry">
+              <div className="move-history__row">
+                <span className="move-history__number">{row.fullMove}.</span>
+                {renderMove(row.white)}
+                {renderMove(row.black)}
+              </div>
+              {renderBetter(row)}
+              {row.variations.map((alt) => (
+                <div key={alt.id} className="move-history__variation">
+                  {renderLine(alt)}
+                </div>
+              ))}
             </li>
           ))}
         </ol>
       )}
+      {rows.length > 0 && (
+        <div className="move-history__controls">
+          <button
+            className="move-history__control"
+            onClick={() => parent && onSelectNode?.(parent.id)}
+            disabled={!parent}
+            title="Previous move"
+          >
+            ◀
+          </button>
+          <button
+            className="move-history__control"
+            onClick={() => child && onSelectNode?.(child.id)}
+            disabled={!child}
+            title="Next move"
+          >
+            ▶
+          </button>
+          <button
+            className="move-history__control"
+            onClick={() => prevSibling && onSelectNode?.(prevSibling.id)}
+            disabled={!prevSibling}
+            title="Previous variation"
+          >
+            ▲
+          </button>
+          <button
+            className="move-history__control"
+            onClick={() => nextSibling && onSelectNode?.(nextSibling.id)}
+            disabled={!nextSibling}
+            title="Next variation"
+          >
+            ▼
+          </button>
+          {!onMainline && onPromoteVariation && (
+            <button
+              className="move-history__control"
+              onClick={() => onPromoteVariation(currentNodeId)}
+              title="Move this variation up"
+            >
+              Promote
+            </button>
+          )}
+          {current.id !== ROOT_NODE_ID && onDeleteVariation && (
+            <button
+              className="move-history__control"
+              onClick={() => onDeleteVariation(currentNodeId)}
+              title="Delete from this move on"
+            >
+              Delete
+            </button>
+          )}
+        </div>
+      )}
     </div>
   );
 }
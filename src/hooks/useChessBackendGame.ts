@@ -12,19 +12,71 @@
 import { useState, useCallback, useMemo, useEffect, useRef } from 'react';
 import type { Move as ChessMove, Piece, Color, GameStatus } from '@rumenx/chess/types';
 import { useBackend } from '../providers/BackendContext';
+import { ApiError } from '../providers/RemoteProvider';
+import { loadJSON, saveJSON } from '../utils/persist';
 import { ChessEngine } from '../services/ChessEngine';
-import type { NormGameState } from '../providers/types';
+import type {
+  BackendId,
+  CreateGameOptions,
+  NormGameEvent,
+  NormGameState,
+  NormMove,
+} from '../providers/types';
+import { RemoteSync, type RemoteOpKind } from '../services/RemoteSync';
+import { AIService, AISearchAbortedError } from '../services/AIService';
+import type { SearchMove, SearchOptions, SearchProgress } from '../services/ChessAI';
+import { parsePGN, STANDARD_START_FEN, type ParsedPGN } from '../utils/pgn';
+import { GameTree, ROOT_NODE_ID, samePosition } from '../services/GameTree';
+import { useGameTree } from './useGameTree';
 
 // ---------------------------------------------------------------------------
 // Return type (mirrors useChessGame as closely as possible)
 // ---------------------------------------------------------------------------
 
+export interface AiRequestOptions {
+  /** Local search settings; `level` is also the difficulty sent to a server */
+  search: SearchOptions;
+  /** Search progress: a local search's, or a server's as its stream reports it */
+  onProgress?: (progress: SearchProgress) => void;
+  /** Aborting rejects with AISearchAbortedError */
+  signal?: AbortSignal;
+}
+
+export interface AiMoveOutcome {
+  /** The move played, null when there was none */
+  move: ChessMove | null;
+  /** Whose engine chose it */
+  source: 'server' | 'local';
+  depth?: number;
+  thinkingTimeMs?: number;
+  /** As reported by the server: pawns from white's point of view */
+  evaluation?: number;
+  /** Local only: taken from the opening book */
+  fromBook?: boolean;
+}
+
+export interface AiHintOutcome {
+  move: SearchMove;
+  source: 'server' | 'local';
+  /** Local only: search score for the side to move */
+  score?: number;
+  /** Local only: `score` is an exact tablebase distance to mate */
+  fromTablebase?: boolean;
+}
+
 export interface BackendGameHook {
   // State
   board: (Piece | null)[][];
   turn: Color;
   status: GameStatus;
+  /** Moves on the line through the current node (path plus main continuation) */
   history: ChessMove[];
+  /** Starting position of the game (not necessarily the standard start) */
+  initialFen: string;
+  /** FEN after each ply of `history` */
+  plyFens: string[];
+  tree: GameTree;
+  currentNodeId: string;
   selectedSquare: string | null;
   legalMoves: ChessMove[];
   currentPly: number;
@@ -32,14 +84,25 @@ export interface BackendGameHook {
 
   // Actions
   makeMove: (from: string, to: string, promotion?: string) => ChessMove | null;
+  /** Let the AI move: the server's engine when the backend has one, local search otherwise */
+  requestAiMove: (options: AiRequestOptions) => Promise<AiMoveOutcome>;
+  /** Best move for the side to move, from the server's hint endpoint or a local search */
+  requestHint: (options: AiRequestOptions) => Promise<AiHintOutcome | null>;
   undoMove: () => ChessMove | null;
   selectSquare: (square: string | null) => void;
   resetGame: (startingColor?: Color) => void;
   loadFEN: (fen: string) => void;
+  loadPGN: (pgn: string) => ParsedPGN;
   getFEN: () => string;
   isValidMoveTarget: (square: string) => boolean;
   getAllLegalMoves: () => ChessMove[];
   goToPly: (plyIndex: number) => void;
+  goToNode: (nodeId: string) => void;
+  goToParent: () => void;
+  goToChild: (index?: number) => void;
+  goToSibling: (offset: number) => void;
+  promoteVariation: (nodeId: string) => void;
+  deleteVariation: (nodeId: string) => void;
   setPendingPromotion: (val: { from: string; to: string } | null) => void;
 
   // Computed values
@@ -66,12 +129,45 @@ export interface BackendGameHook {
   remoteGameId: string | null;
   loading: boolean;
   error: string | null;
+  /** Set for a few seconds after the board was rolled back or resynced with the server */
+  syncNotice: string | null;
+  /** The game's event stream is connected, so moves made elsewhere show up as they happen */
+  streaming: boolean;
+  /** The server is out of reach; moves are kept and sent in order once it answers again */
+  offline: boolean;
+  /** Games the server holds, once listed */
+  remoteGames: NormGameState[] | null;
+  refreshRemoteGames: () => Promise<void>;
+  /** Switch to another of the server's games */
+  resumeRemoteGame: (gameId: string) => Promise<void>;
+  /** Delete a server game; deleting the current one starts a new game */
+  deleteRemoteGame: (gameId: string) => Promise<void>;
+  /** Copy a server game, moves included, into a new game and switch to it */
+  forkRemoteGame: (gameId: string) => Promise<void>;
 }
 
 // ---------------------------------------------------------------------------
 // Hook implementation
 // ---------------------------------------------------------------------------
 
+/** Remote game last played on each backend, reattached to after a reload */
+const STORAGE_KEY_REMOTE_GAMES = 'rc_remoteGames';
+
+/** How often the backend is checked while moves wait for it */
+const OFFLINE_CHECK_MS = 5_000;
+
+/** How long a rollback / resync notice stays up */
+const SYNC_NOTICE_MS = 4_000;
+
+const OP_LABELS: Record<RemoteOpKind, string> = {
+  move: 'move',
+  undo: 'undo',
+  load: 'position',
+};
+
+const errorMessage = (err: unknown, fallback: string) =>
+  err instanceof Error ? err.message : fallback;
+
 /**
  * A backend-aware chess game hook.
  *
@@ -79,8 +175,11 @@ export interface BackendGameHook {
  * ChessEngine approach — the same code that worked before, just wrapped.
  * Remote providers overlay async operations on top.
  */
-export function useChessBackendGame(initialFEN?: string): BackendGameHook {
-  const { backendId, provider } = useBackend();
+export function useChessBackendGame(
+  initialFEN?: string,
+  gameOptions?: Omit<CreateGameOptions, 'fen'>
+): BackendGameHook {
+  const { backendId, provider, connected, checkConnection } = useBackend();
 
   // -----------------------------------------------------------------------
   // Core engine state (used by BOTH local and remote paths)
@@ -89,8 +188,6 @@ export function useChessBackendGame(initialFEN?: string): BackendGameHook {
   const [board, setBoard] = useState<(Piece | null)[][]>(() => engine.getBoard());
   const [turn, setTurn] = useState<Color>(() => engine.getTurn());
   const [status, setStatus] = useState<GameStatus>(() => engine.getStatus());
-  const [history, setHistory] = useState<ChessMove[]>(() => engine.getHistory());
-  const [currentPly, setCurrentPly] = useState<number>(() => engine.getHistory().length);
   const [selectedSquare, setSelectedSquare] = useState<string | null>(null);
   const [legalMoves, setLegalMoves] = useState<ChessMove[]>([]);
   const [pendingPromotion, setPendingPromotion] = useState<{
@@ -110,9 +207,38 @@ export function useChessBackendGame(initialFEN?: string): BackendGameHook {
 
   // Remote-specific
   const [remoteGameId, setRemoteGameId] = useState<string | null>(null);
+  // Tree node the server's (linear) game is currently at
+  const remoteNodeId = useRef<string>(ROOT_NODE_ID);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Operations that failed with the server out of reach wait for it to come back
+  const [offline, setOffline] = useState(false);
+  // The server is authoritative: local moves are confirmed against its FEN
+  const [remoteSync] = useState(
+    () =>
+      new RemoteSync({
+        isOffline: (err) => err instanceof ApiError && err.unreachable,
+        onOfflineChange: setOffline,
+      })
+  );
+  // FEN the server should be at once every queued operation has applied
+  const remoteFen = useRef<string | null>(null);
+  const [syncNotice, setSyncNotice] = useState<string | null>(null);
+  const [streaming, setStreaming] = useState(false);
+  const [remoteGames, setRemoteGames] = useState<NormGameState[] | null>(null);
+  // Set while a server AI move is awaited; its stream's progress goes to onProgress
+  const serverAiMove = useRef<
+    (Pick<AiRequestOptions, 'onProgress'> & { done: Promise<unknown> }) | null
+  >(null);
+  // The server plays its move whatever happens locally, so undo and
+  // navigation wait for it rather than leave the board where it won't land
+  const [serverAiPending, setServerAiPending] = useState(false);
   const isRemote = backendId !== 'local';
+  // Read when a remote game is created; changing them must not start a new game
+  const gameOptionsRef = useRef(gameOptions);
+  useEffect(() => {
+    gameOptionsRef.current = gameOptions;
+  });
 
   // -----------------------------------------------------------------------
   // Sync helpers (local engine)
@@ -122,30 +248,159 @@ export function useChessBackendGame(initialFEN?: string): BackendGameHook {
     setBoard(engine.getBoard());
     setTurn(engine.getTurn());
     setStatus(engine.getStatus());
-    setHistory(engine.getHistory());
   }, [engine]);
 
+  /** Refresh the board after the tree moved the engine to another node */
+  const afterNavigation = useCallback(() => {
+    updateGameState();
+    setSelectedSquare(null);
+    setLegalMoves([]);
+  }, [updateGameState]);
+
+  const {
+    tree,
+    currentNodeId,
+    currentNode,
+    history,
+    initialFen,
+    plyFens,
+    currentPly,
+    recordMove,
+    undo: undoTreeMove,
+    goToPly,
+    goToNode,
+    goToParent,
+    goToChild,
+    goToSibling,
+    promoteVariation,
+    deleteVariation,
+    loadTree,
+  } = useGameTree(engine, afterNavigation);
+
   // -----------------------------------------------------------------------
   // Remote helpers — apply NormGameState onto local engine for display
   // -----------------------------------------------------------------------
 
+  /** Make `gameId` the current remote game, and the one to reattach to on this backend */
+  const rememberRemoteGame = useCallback(
+    (gameId: string) => {
+      setRemoteGameId(gameId);
+      const saved = loadJSON<Partial<Record<BackendId, string>>>(STORAGE_KEY_REMOTE_GAMES, {});
+      saveJSON(STORAGE_KEY_REMOTE_GAMES, { ...saved, [backendId]: gameId });
+    },
+    [backendId]
+  );
+
+  /**
+   * @param startFen - FEN the remote game was created from, if known. The
+   *   remote move history is replayed from it so time travel keeps working;
+   *   otherwise the tree starts at the remote's current position.
+   */
   const applyRemoteState = useCallback(
-    (state: NormGameState) => {
-      // Load the FEN to synchronise the local engine so board / turn / status
-      // derived from it match the remote state
-      engine.loadFEN(state.fen);
-      updateGameState();
-      setCurrentPly(state.moveCount);
-      setRemoteGameId(state.id);
+    (state: NormGameState, startFen?: string) => {
+      const candidates = startFen ? [startFen, STANDARD_START_FEN] : [STANDARD_START_FEN];
+      const remoteTree = GameTree.fromHistory(state.moveHistory, state.fen, candidates);
+      // Replaying the tree synchronises the local engine, so board / turn /
+      // status derived from it match the remote state
+      loadTree(remoteTree);
+      remoteNodeId.current = remoteTree.lineEnd(ROOT_NODE_ID).id;
+      remoteFen.current = state.fen;
+      remoteSync.reset();
+      rememberRemoteGame(state.id);
     },
-    [engine, updateGameState]
+    [loadTree, remoteSync, rememberRemoteGame]
   );
 
+  /**
+   * Create a server game from `startFen` and play `moves` on it one by one,
+   * the only way to give a server a game's history
+   */
+  const createWithMoves = useCallback(
+    async (
+      startFen: string | undefined,
+      moves: { from: string; to: string; promotion?: string }[]
+    ) => {
+      let state = await provider.createGame({ ...gameOptionsRef.current, fen: startFen });
+      for (const m of moves) {
+        state = await provider.makeMove(state.id, m.from, m.to, m.promotion);
+      }
+      return state;
+    },
+    [provider]
+  );
+
+  // Sync outcomes settle after later renders, so they use the latest tree actions
+  const treeActions = useRef({ deleteVariation, loadTree });
+  // The game on the board; a reset or load swaps in another tree
+  const currentTree = useRef(tree);
+  useEffect(() => {
+    treeActions.current = { deleteVariation, loadTree };
+    currentTree.current = tree;
+  });
+
+  /**
+   * Mirror an operation already applied locally on the server. When the
+   * server refuses it `rollback` undoes it locally; when the server reports
+   * any other position its state replaces the local game.
+   */
+  const syncRemote = useCallback(
+    (
+      gameId: string,
+      kind: RemoteOpKind,
+      send: () => Promise<NormGameState>,
+      expectedFen: string,
+      rollback: (state: NormGameState) => void
+    ) => {
+      const previousFen = remoteFen.current ?? expectedFen;
+      remoteFen.current = expectedFen;
+      const startFen = tree.startFen;
+      const op = { kind, send, fetch: () => provider.getGame(gameId), expectedFen, previousFen };
+      void remoteSync.enqueue(op).then((outcome) => {
+        if (outcome.type === 'rejected') {
+          remoteFen.current = outcome.state.fen;
+          rollback(outcome.state);
+          setSyncNotice(
+            `Server rejected the ${OP_LABELS[kind]} (${errorMessage(outcome.error, 'refused')}); rolled back`
+          );
+        } else if (outcome.type === 'diverged') {
+          applyRemoteState(outcome.state, startFen);
+          setSyncNotice('Resynced with server');
+        } else if (outcome.type === 'unreachable') {
+          setError(errorMessage(outcome.error, `Remote ${OP_LABELS[kind]} failed`));
+        }
+      });
+    },
+    [tree, provider, remoteSync, applyRemoteState]
+  );
+
+  // Replay held operations once a connection check succeeds: polled while
+  // offline, and whenever the backend turns connected (e.g. the Retry button)
+  useEffect(() => {
+    if (!offline) return;
+    const timer = setInterval(() => {
+      void checkConnection().then((ok) => {
+        if (ok) remoteSync.resume();
+      });
+    }, OFFLINE_CHECK_MS);
+    return () => clearInterval(timer);
+  }, [offline, checkConnection, remoteSync]);
+
+  useEffect(() => {
+    if (connected) remoteSync.resume();
+  }, [connected, remoteSync]);
+
+  useEffect(() => {
+    if (!syncNotice) return;
+    const timer = setTimeout(() => setSyncNotice(null), SYNC_NOTICE_MS);
+    return () => clearTimeout(timer);
+  }, [syncNotice]);
+
   // Auto-create remote game on mount / backend switch
   const didInit = useRef(false);
   useEffect(() => {
     if (!isRemote) {
       didInit.current = false;
+      remoteSync.reset();
       return;
     }
     if (didInit.current) return;
@@ -157,35 +412,43 @@ export function useChessBackendGame(initialFEN?: string): BackendGameHook {
       setLoading(true);
       setError(null);
       try {
-        const state = await provider.createGame({ fen: initialFEN });
-        applyRemoteState(state);
+        // Reattach to the game left on this backend, if the server still has it
+        const savedId = loadJSON<Partial<Record<BackendId, string>>>(STORAGE_KEY_REMOTE_GAMES, {})[
+          backendId
+        ];
+        // Only a game the server no longer has is replaced; other failures keep the saved id
+        const saved = savedId
+          ? await provider.getGame(savedId).catch((err: unknown) => {
+              if (err instanceof ApiError && err.kind === 'not-found') return null;
+              throw err;
+            })
+          : null;
+        if (saved) {
+          applyRemoteState(saved, initialFEN);
+        } else {
+          const state = await provider.createGame({ ...gameOptionsRef.current, fen: initialFEN });
+          applyRemoteState(state, initialFEN);
+        }
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to create game');
       } finally {
         setLoading(false);
       }
     })();
-  }, [isRemote, provider, initialFEN, applyRemoteState]);
+  }, [isRemote, backendId, provider, initialFEN, applyRemoteState, remoteSync]);
 
   // -----------------------------------------------------------------------
   // makeMove
   // -----------------------------------------------------------------------
 
-  const makeMove = useCallback(
-    (from: string, to: string, promotion?: string): ChessMove | null => {
-      // Promotion gating
-      if (!promotion) {
-        const moves = engine.getLegalMovesFrom(from);
-        const target = moves.find((m) => m.to === to);
-        if (target && target.promotion && target.piece.type === 'pawn') {
-          setPendingPromotion({ from, to });
-          return null;
-        }
-      }
-
-      // Apply locally first (optimistic for remote, authoritative for local)
+  /** Play a move on the local engine and tree, without telling the server */
+  const playLocally = useCallback(
+    (from: string, to: string, promotion?: string) => {
+      const parentId = currentNodeId;
       const move = engine.makeMove(from, to, promotion);
       if (!move) return null;
+      // Playing from a past position starts a sideline instead of truncating
+      const node = recordMove(move);
 
       // Apply increment
       if (timeControl.initialMs !== null && !timeoutWinner) {
@@ -200,16 +463,7 @@ export function useChessBackendGame(initialFEN?: string): BackendGameHook {
       setSelectedSquare(null);
       setLegalMoves([]);
       setPendingPromotion(null);
-      setCurrentPly(engine.getHistory().length);
-
-      // Fire-and-forget remote sync
-      if (isRemote && remoteGameId) {
-        provider.makeMove(remoteGameId, from, to, promotion).catch((err) => {
-          setError(err instanceof Error ? err.message : 'Remote move failed');
-        });
-      }
-
-      return move;
+      return { move, node, parentId };
     },
     [
       engine,
@@ -217,32 +471,302 @@ export function useChessBackendGame(initialFEN?: string): BackendGameHook {
       timeControl.initialMs,
       timeControl.incrementMs,
       timeoutWinner,
-      isRemote,
-      remoteGameId,
-      provider,
+      currentNodeId,
+      recordMove,
     ]
   );
 
+  const makeMove = useCallback(
+    (from: string, to: string, promotion?: string): ChessMove | null => {
+      // The server game is being replaced; a move now would have nowhere to go
+      if (isRemote && loading) return null;
+
+      // Promotion gating
+      if (!promotion) {
+        const moves = engine.getLegalMovesFrom(from);
+        const target = moves.find((m) => m.to === to);
+        if (target && target.promotion && target.piece.type === 'pawn') {
+          setPendingPromotion({ from, to });
+          return null;
+        }
+      }
+
+      // Apply locally first (optimistic for remote, authoritative for local)
+      const played = playLocally(from, to, promotion);
+      if (!played) return null;
+      const { move, node, parentId } = played;
+
+      // Confirmed against the server in the background. The server only
+      // knows one line, so a move played away from its position is sent as
+      // the resulting FEN.
+      if (isRemote && remoteGameId) {
+        const gameId = remoteGameId;
+        const previousNodeId = remoteNodeId.current;
+        const onServerLine = previousNodeId === parentId;
+        remoteNodeId.current = node.id;
+        syncRemote(
+          gameId,
+          onServerLine ? 'move' : 'load',
+          () =>
+            onServerLine
+              ? provider.makeMove(gameId, from, to, promotion)
+              : provider.loadFen(gameId, node.fen),
+          node.fen,
+          () => {
+            remoteNodeId.current = previousNodeId;
+            treeActions.current.deleteVariation(node.id);
+          }
+        );
+      }
+
+      return move;
+    },
+    [engine, playLocally, isRemote, loading, remoteGameId, provider, syncRemote]
+  );
+
+  // -----------------------------------------------------------------------
+  // AI moves and hints — the server's engine when it has one, else local
+  // -----------------------------------------------------------------------
+
+  /**
+   * The remote game to ask, once every queued operation has settled and
+   * the server is at the position on the board; null to search locally
+   */
+  const serverGameFor = useCallback(
+    async (capability: 'ai' | 'hint'): Promise<string | null> => {
+      if (!isRemote || !remoteGameId || !provider.capabilities[capability]) return null;
+      // Offline the queue will not settle until the server is back; search locally meanwhile
+      if (remoteSync.offline) return null;
+      const gameId = remoteGameId;
+      // A cancelled server AI move still lands, and the position must be read after it
+      await serverAiMove.current?.done.catch(() => undefined);
+      await remoteSync.idle();
+      const fen = remoteFen.current;
+      return fen && samePosition(fen, engine.getFEN()) ? gameId : null;
+    },
+    [isRemote, remoteGameId, provider, remoteSync, engine]
+  );
+
+  const requestAiMove = useCallback(
+    async ({ search, onProgress, signal }: AiRequestOptions): Promise<AiMoveOutcome> => {
+      const requestedFen = engine.getFEN();
+      const gameId = await serverGameFor('ai');
+      // Another AI move may have landed while waiting
+      if (signal?.aborted || engine.getFEN() !== requestedFen) throw new AISearchAbortedError();
+      const fen = requestedFen;
+
+      if (gameId) {
+        // The server plays the move itself, so it is only mirrored locally
+        const done = provider.aiMove(gameId, search.level);
+        serverAiMove.current = { onProgress, done };
+        setServerAiPending(true);
+        let result;
+        try {
+          result = await done;
+        } finally {
+          serverAiMove.current = null;
+          setServerAiPending(false);
+        }
+        // Cancelling can't take the move back on the server, so it is still
+        // mirrored unless a reset or load replaced the game meanwhile
+        if (signal?.aborted && currentTree.current !== tree) throw new AISearchAbortedError();
+        const { from, to, promotion } = result.move;
+        const played = engine.getFEN() === fen ? playLocally(from, to, promotion) : null;
+        if (played && samePosition(played.node.fen, result.game.fen)) {
+          remoteNodeId.current = played.node.id;
+          remoteFen.current = result.game.fen;
+        } else {
+          applyRemoteState(result.game, tree.startFen);
+          setSyncNotice('Resynced with server');
+        }
+        if (signal?.aborted) throw new AISearchAbortedError();
+        return {
+          move: played?.move ?? null,
+          source: 'server',
+          depth: result.depth,
+          thinkingTimeMs: result.thinkingTimeMs,
+          evaluation: result.evaluation,
+        };
+      }
+
+      const result = await AIService.search({ fen, options: search, onProgress, signal });
+      // An undo or navigation may have landed before the abort did
+      const move =
+        result.bestMove && engine.getFEN() === fen
+          ? makeMove(result.bestMove.from, result.bestMove.to, result.bestMove.promotion)
+          : null;
+      return {
+        move,
+        source: 'local',
+        depth: result.depth,
+        thinkingTimeMs: result.elapsedMs,
+        fromBook: result.fromBook,
+      };
+    },
+    [serverGameFor, engine, provider, playLocally, applyRemoteState, tree, makeMove]
+  );
+
+  const requestHint = useCallback(
+    async ({ search, signal }: AiRequestOptions): Promise<AiHintOutcome | null> => {
+      const gameId = await serverGameFor('hint');
+      if (signal?.aborted) throw new AISearchAbortedError();
+      if (gameId) {
+        const { from, to, promotion, san } = await provider.aiHint(gameId, search.level);
+        return { move: { from, to, promotion, san }, source: 'server' };
+      }
+      const result = await AIService.search({ fen: engine.getFEN(), options: search, signal });
+      if (!result.bestMove) return null;
+      return {
+        move: result.bestMove,
+        source: 'local',
+        score: result.score,
+        fromTablebase: result.fromTablebase,
+      };
+    },
+    [serverGameFor, provider, engine]
+  );
+
+  // -----------------------------------------------------------------------
+  // Pushed events — remote games on backends that stream
+  // -----------------------------------------------------------------------
+
+  /**
+   * Adopt a position the server pushed. Ignored while local operations are
+   * in flight (their outcomes reconcile) and while the server's AI move is
+   * awaited (its response is mirrored). A single move on from the server's
+   * position is played onto the tree; anything else replaces the game.
+   */
+  const adoptPushedState = useCallback(
+    (state: NormGameState, move?: NormMove) => {
+      if (remoteSync.pending > 0 || serverAiMove.current) return;
+      if (remoteFen.current && samePosition(remoteFen.current, state.fen)) return;
+      const atServerNode = currentNodeId === remoteNodeId.current;
+      const played = move && atServerNode ? playLocally(move.from, move.to, move.promotion) : null;
+      if (played && samePosition(played.node.fen, state.fen)) {
+        remoteNodeId.current = played.node.id;
+        remoteFen.current = state.fen;
+      } else {
+        applyRemoteState(state, tree.startFen);
+      }
+    },
+    [remoteSync, currentNodeId, playLocally, applyRemoteState, tree]
+  );
+
+  const handlePushedEvent = useCallback(
+    (event: NormGameEvent) => {
+      switch (event.type) {
+        case 'move':
+          adoptPushedState(event.game, event.move);
+          break;
+        case 'state':
+          adoptPushedState(event.game);
+          break;
+        case 'thinking': {
+          const cp = Math.round((event.evaluation ?? 0) * 100);
+          serverAiMove.current?.onProgress?.({
+            depth: event.depth ?? 0,
+            nodes: event.nodes ?? 0,
+            bestMove: event.bestMove ?? null,
+            score: engine.getTurn() === 'white' ? cp : -cp,
+          });
+          break;
+        }
+        case 'clock':
+          // The server's clocks are authoritative; local ticking carries on from them
+          if (timeControl.initialMs === null) break;
+          setWhiteTimeMs(event.whiteMs);
+          setBlackTimeMs(event.blackMs);
+          setLastTick(Date.now());
+          break;
+        case 'gameOver':
+          if (event.game) adoptPushedState(event.game);
+          if (event.reason === 'timeout' && event.result !== '1/2-1/2') {
+            setTimeoutWinner(event.result === '1-0' ? 'white' : 'black');
+          }
+          break;
+      }
+    },
+    [adoptPushedState, engine, timeControl.initialMs]
+  );
+
+  // Events arrive between renders, so the subscription calls the latest handler
+  const pushedEventHandler = useRef(handlePushedEvent);
+  useEffect(() => {
+    pushedEventHandler.current = handlePushedEvent;
+  });
+
+  useEffect(() => {
+    if (!isRemote || !remoteGameId || !provider.capabilities.websocket) return;
+    const gameId = remoteGameId;
+    let reconnecting = false;
+    const subscription = provider.subscribe(gameId, {
+      onEvent: (event) => pushedEventHandler.current(event),
+      onStatus: (status) => {
+        setStreaming(status === 'open');
+        if (status === 'connecting') reconnecting = true;
+        if (status !== 'open' || !reconnecting) return;
+        // Events sent while disconnected are lost, so catch up from a snapshot
+        reconnecting = false;
+        provider
+          .getGame(gameId)
+          .then((state) => pushedEventHandler.current({ type: 'state', game: state }))
+          .catch(() => undefined);
+      },
+    });
+    return () => subscription.close();
+  }, [isRemote, remoteGameId, provider]);
+
   // -----------------------------------------------------------------------
   // undoMove
   // -----------------------------------------------------------------------
 
   const undoMove = useCallback((): ChessMove | null => {
-    const move = engine.undo();
+    if (serverAiMove.current) return null;
+    const undoneId = currentNodeId;
+    const move = undoTreeMove();
     if (move) {
-      updateGameState();
-      setSelectedSquare(null);
-      setLegalMoves([]);
-      setCurrentPly(engine.getHistory().length);
-
-      if (isRemote && remoteGameId) {
-        provider.undoMove(remoteGameId).catch((err) => {
-          setError(err instanceof Error ? err.message : 'Remote undo failed');
-        });
+      if (isRemote && remoteGameId && remoteNodeId.current === undoneId) {
+        const gameId = remoteGameId;
+        const parentId = currentNode.parentId ?? ROOT_NODE_ID;
+        remoteNodeId.current = parentId;
+        // The undone move may be gone from the tree, so a refused undo resyncs
+        syncRemote(
+          gameId,
+          'undo',
+          () => provider.undoMove(gameId),
+          tree.getNode(parentId).fen,
+          (state) => applyRemoteState(state, tree.startFen)
+        );
       }
     }
     return move;
-  }, [engine, updateGameState, isRemote, remoteGameId, provider]);
+  }, [
+    currentNodeId,
+    currentNode,
+    undoTreeMove,
+    isRemote,
+    remoteGameId,
+    provider,
+    tree,
+    syncRemote,
+    applyRemoteState,
+  ]);
+
+  // Browsing the tree waits for a server AI move as undo does
+  const navigation = useMemo(() => {
+    const unlessServerMoving =
+      <A extends unknown[]>(go: (...args: A) => unknown) =>
+      (...args: A): void => {
+        if (!serverAiMove.current) go(...args);
+      };
+    return {
+      goToPly: unlessServerMoving(goToPly),
+      goToNode: unlessServerMoving(goToNode),
+      goToParent: unlessServerMoving(goToParent),
+      goToChild: unlessServerMoving(goToChild),
+      goToSibling: unlessServerMoving(goToSibling),
+    };
+  }, [goToPly, goToNode, goToParent, goToChild, goToSibling]);
 
   // -----------------------------------------------------------------------
   // selectSquare
@@ -273,15 +797,16 @@ export function useChessBackendGame(initialFEN?: string): BackendGameHook {
 
   const resetGame = useCallback(
     (startingColor: Color = 'white') => {
-      if (startingColor === 'white') {
-        engine.reset();
+      const startFen =
+        startingColor === 'black'
+          ? 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR b KQkq - 0 1'
+          : undefined;
+      if (startFen) {
+        engine.loadFEN(startFen);
       } else {
-        engine.loadFEN('rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR b KQkq - 0 1');
+        engine.reset();
       }
-      updateGameState();
-      setSelectedSquare(null);
-      setLegalMoves([]);
-      setCurrentPly(engine.getHistory().length);
+      loadTree(new GameTree(engine.getFEN()));
       setTimeoutWinner(null);
       if (timeControl.initialMs !== null) {
         setWhiteTimeMs(timeControl.initialMs);
@@ -296,20 +821,16 @@ export function useChessBackendGame(initialFEN?: string): BackendGameHook {
       // Create new remote game
       if (isRemote) {
         didInit.current = false;
+        remoteSync.reset();
         setLoading(true);
         provider
-          .createGame({
-            fen:
-              startingColor === 'black'
-                ? 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR b KQkq - 0 1'
-                : undefined,
-          })
-          .then(applyRemoteState)
+          .createGame({ ...gameOptionsRef.current, fen: startFen })
+          .then((state) => applyRemoteState(state, startFen))
           .catch((err) => setError(err instanceof Error ? err.message : 'Reset failed'))
           .finally(() => setLoading(false));
       }
     },
-    [engine, updateGameState, timeControl.initialMs, isRemote, provider, applyRemoteState]
+    [engine, loadTree, timeControl.initialMs, isRemote, provider, applyRemoteState, remoteSync]
   );
 
   // -----------------------------------------------------------------------
@@ -318,19 +839,149 @@ export function useChessBackendGame(initialFEN?: string): BackendGameHook {
 
   const loadFEN = useCallback(
     (fen: string) => {
+      const previous = { tree, nodeId: currentNodeId, remoteNodeId: remoteNodeId.current };
       engine.loadFEN(fen);
-      updateGameState();
-      setSelectedSquare(null);
-      setLegalMoves([]);
-      setCurrentPly(engine.getHistory().length);
+      loadTree(new GameTree(engine.getFEN()));
 
       if (isRemote && remoteGameId) {
-        provider.loadFen(remoteGameId, fen).catch((err) => {
-          setError(err instanceof Error ? err.message : 'Remote FEN load failed');
-        });
+        const gameId = remoteGameId;
+        remoteNodeId.current = ROOT_NODE_ID;
+        syncRemote(
+          gameId,
+          'load',
+          () => provider.loadFen(gameId, fen),
+          engine.getFEN(),
+          () => {
+            remoteNodeId.current = previous.remoteNodeId;
+            treeActions.current.loadTree(previous.tree, previous.nodeId);
+          }
+        );
       }
     },
-    [engine, updateGameState, isRemote, remoteGameId, provider]
+    [engine, tree, currentNodeId, loadTree, isRemote, remoteGameId, provider, syncRemote]
+  );
+
+  // -----------------------------------------------------------------------
+  // loadPGN
+  // -----------------------------------------------------------------------
+
+  const loadPGN = useCallback(
+    (pgn: string): ParsedPGN => {
+      // Parse first so a broken PGN leaves the current game untouched
+      const parsed = parsePGN(pgn);
+      const previousTree = tree;
+      const previousNodeId = currentNodeId;
+      const mainlineEnd = parsed.tree.lineEnd(ROOT_NODE_ID).id;
+      loadTree(parsed.tree, mainlineEnd);
+      setPendingPromotion(null);
+
+      // Remote backends only know FEN loads, so rebuild the mainline move by move.
+      // The old game is detached meanwhile so nothing is sent to it; on failure
+      // the board goes back to it.
+      if (isRemote) {
+        const previous = {
+          gameId: remoteGameId,
+          remoteNodeId: remoteNodeId.current,
+          remoteFen: remoteFen.current,
+        };
+        setRemoteGameId(null);
+        remoteNodeId.current = mainlineEnd;
+        remoteSync.reset();
+        setLoading(true);
+        void (async () => {
+          try {
+            const state = await createWithMoves(parsed.startFen, parsed.moves);
+            remoteFen.current = state.fen;
+            rememberRemoteGame(state.id);
+          } catch (err) {
+            treeActions.current.loadTree(previousTree, previousNodeId);
+            remoteNodeId.current = previous.remoteNodeId;
+            remoteFen.current = previous.remoteFen;
+            setRemoteGameId(previous.gameId);
+            setError(err instanceof Error ? err.message : 'Remote PGN load failed');
+          } finally {
+            setLoading(false);
+          }
+        })();
+      }
+
+      return parsed;
+    },
+    [
+      tree,
+      currentNodeId,
+      loadTree,
+      isRemote,
+      remoteGameId,
+      remoteSync,
+      createWithMoves,
+      rememberRemoteGame,
+    ]
+  );
+
+  // -----------------------------------------------------------------------
+  // Server games — list, resume, delete, fork
+  // -----------------------------------------------------------------------
+
+  const refreshRemoteGames = useCallback(async () => {
+    if (!isRemote) return;
+    try {
+      setRemoteGames(await provider.listGames());
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to list games'));
+    }
+  }, [isRemote, provider]);
+
+  /** Run a game-switching action with the loading flag up and errors reported */
+  const switchRemoteGame = useCallback(async (action: () => Promise<void>, fallback: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      await action();
+      setTimeoutWinner(null);
+    } catch (err) {
+      setError(errorMessage(err, fallback));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const resumeRemoteGame = useCallback(
+    (gameId: string) =>
+      switchRemoteGame(async () => {
+        applyRemoteState(await provider.getGame(gameId));
+      }, 'Failed to resume game'),
+    [switchRemoteGame, provider, applyRemoteState]
+  );
+
+  const forkRemoteGame = useCallback(
+    (gameId: string) =>
+      switchRemoteGame(async () => {
+        const source = await provider.getGame(gameId);
+        // Keep the history when it replays from the standard start; else fork the position
+        const sourceTree = GameTree.fromHistory(source.moveHistory, source.fen, [
+          STANDARD_START_FEN,
+        ]);
+        const moves = sourceTree.getMainline().flatMap((node) => (node.move ? [node.move] : []));
+        const state = await createWithMoves(sourceTree.startFen, moves);
+        applyRemoteState(state, sourceTree.startFen);
+        await refreshRemoteGames();
+      }, 'Failed to fork game'),
+    [switchRemoteGame, provider, createWithMoves, applyRemoteState, refreshRemoteGames]
+  );
+
+  const deleteRemoteGame = useCallback(
+    async (gameId: string) => {
+      try {
+        await provider.deleteGame(gameId);
+      } catch (err) {
+        setError(errorMessage(err, 'Failed to delete game'));
+        return;
+      }
+      if (gameId === remoteGameId) resetGame();
+      await refreshRemoteGames();
+    },
+    [provider, remoteGameId, resetGame, refreshRemoteGames]
   );
 
   const getFEN = useCallback(() => engine.getFEN(), [engine]);
@@ -346,23 +997,6 @@ export function useChessBackendGame(initialFEN?: string): BackendGameHook {
 
   const getAllLegalMoves = useCallback(() => engine.getLegalMoves(), [engine]);
 
-  const goToPly = useCallback(
-    (plyIndex: number) => {
-      if (plyIndex < 0 || plyIndex > history.length) return;
-      const full = [...history];
-      engine.reset();
-      for (let i = 0; i < plyIndex; i++) {
-        const m = full[i];
-        engine.makeMove(m.from, m.to, m.promotion);
-      }
-      updateGameState();
-      setSelectedSquare(null);
-      setLegalMoves([]);
-      setCurrentPly(plyIndex);
-    },
-    [engine, history, updateGameState]
-  );
-
   // -----------------------------------------------------------------------
   // Computed
   // -----------------------------------------------------------------------
@@ -381,11 +1015,8 @@ export function useChessBackendGame(initialFEN?: string): BackendGameHook {
   );
 
   const result = useMemo(() => engine.getResult(), [engine]);
-  const lastMove = useMemo(
-    () => (history.length > 0 ? history[history.length - 1] : null),
-    [history]
-  );
-  const canUndo = useMemo(() => history.length > 0, [history]);
+  const lastMove = currentNode.move;
+  const canUndo = currentPly > 0 && !serverAiPending;
 
   const isTimeout = useMemo(() => timeoutWinner !== null, [timeoutWinner]);
   const finalResult = useMemo(() => {
@@ -450,19 +1081,28 @@ export function useChessBackendGame(initialFEN?: string): BackendGameHook {
     turn,
     status,
     history,
+    initialFen,
+    plyFens,
+    tree,
+    currentNodeId,
     selectedSquare,
     legalMoves,
     currentPly,
     pendingPromotion,
     makeMove,
+    requestAiMove,
+    requestHint,
     undoMove,
     selectSquare,
     resetGame,
     loadFEN,
+    loadPGN,
     getFEN,
     isValidMoveTarget,
     getAllLegalMoves,
-    goToPly,
+    ...navigation,
+    promoteVariation,
+    deleteVariation,
     setPendingPromotion,
     isGameOver,
     isCheck,
@@ -483,5 +1123,13 @@ export function useChessBackendGame(initialFEN?: string): BackendGameHook {
     remoteGameId,
     loading,
     error,
+    syncNotice,
+    streaming,
+    offline,
+    remoteGames,
+    refreshRemoteGames,
+    resumeRemoteGame,
+    deleteRemoteGame,
+    forkRemoteGame,
   };
 }
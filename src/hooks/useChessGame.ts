@@ -1,6 +1,8 @@
 import { useState, useCallback, useMemo, useEffect } from 'react';
 import type { Move as ChessMove, Color, GameStatus, Piece } from '@rumenx/chess/types';
 import { ChessEngine } from '../services/ChessEngine';
+import { GameTree } from '../services/GameTree';
+import { useGameTree } from './useGameTree';
 
 /**
  * Custom hook for managing chess game state
@@ -11,8 +13,6 @@ export function useChessGame(initialFEN?: string) {
   const [board, setBoard] = useState<(Piece | null)[][]>(() => engine.getBoard());
   const [turn, setTurn] = useState<Color>(() => engine.getTurn());
   const [status, setStatus] = useState<GameStatus>(() => engine.getStatus());
-  const [history, setHistory] = useState<ChessMove[]>(() => engine.getHistory());
-  const [currentPly, setCurrentPly] = useState<number>(() => engine.getHistory().length); // points to length when at latest
   const [selectedSquare, setSelectedSquare] = useState<string | null>(null);
   const [legalMoves, setLegalMoves] = useState<ChessMove[]>([]);
   const [pendingPromotion, setPendingPromotion] = useState<{ from: string; to: string } | null>(
@@ -34,9 +34,38 @@ export function useChessGame(initialFEN?: string) {
     setBoard(engine.getBoard());
     setTurn(engine.getTurn());
     setStatus(engine.getStatus());
-    setHistory(engine.getHistory());
   }, [engine]);
 
+  /**
+   * Refresh the board after the game tree moved the engine to another node
+   */
+  const afterNavigation = useCallback(() => {
+    updateGameState();
+    setSelectedSquare(null);
+    setLegalMoves([]);
+  }, [updateGameState]);
+
+  // Move history as a tree of variations; `history` is the line being viewed
+  const {
+    tree,
+    currentNodeId,
+    currentNode,
+    history,
+    initialFen,
+    plyFens,
+    currentPly,
+    recordMove,
+    undo: undoTreeMove,
+    goToPly,
+    goToNode,
+    goToParent,
+    goToChild,
+    goToSibling,
+    promoteVariation,
+    deleteVariation,
+    loadTree,
+  } = useGameTree(engine, afterNavigation);
+
   /**
    * Make a move on the board
    * @param from - Source square (e.g., "e2")
@@ -57,6 +86,8 @@ export function useChessGame(initialFEN?: string) {
       }
       const move = engine.makeMove(from, to, promotion);
       if (move) {
+        // From a past position this starts a sideline instead of truncating
+        recordMove(move);
         // Apply increment to side that moved if time control active
         if (timeControl.initialMs !== null && !timeoutWinner) {
           if (move.piece.color === 'white') {
@@ -69,29 +100,25 @@ export function useChessGame(initialFEN?: string) {
         setSelectedSquare(null);
         setLegalMoves([]);
         setPendingPromotion(null);
-        setCurrentPly(engine.getHistory().length);
       }
       return move;
     },
-    [engine, updateGameState, timeControl.initialMs, timeControl.incrementMs, timeoutWinner]
+    [
+      engine,
+      updateGameState,
+      recordMove,
+      timeControl.initialMs,
+      timeControl.incrementMs,
+      timeoutWinner,
+    ]
   );
 
   /**
-   * Undo the last move
+   * Undo the last move (steps back to the parent node; a move with no
+   * continuation is removed from the tree)
    * @returns The undone move or null if no moves to undo
    */
-  const undoMove = useCallback((): ChessMove | null => {
-    const move = engine.undo();
-
-    if (move) {
-      updateGameState();
-      setSelectedSquare(null);
-      setLegalMoves([]);
-      setCurrentPly(engine.getHistory().length);
-    }
-
-    return move;
-  }, [engine, updateGameState]);
+  const undoMove = useCallback((): ChessMove | null => undoTreeMove(), [undoTreeMove]);
 
   /**
    * Select a square on the board
@@ -153,10 +180,7 @@ export function useChessGame(initialFEN?: string) {
         // Standard initial position but black to move
         engine.loadFEN('rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR b KQkq - 0 1');
       }
-      updateGameState();
-      setSelectedSquare(null);
-      setLegalMoves([]);
-      setCurrentPly(engine.getHistory().length);
+      loadTree(new GameTree(engine.getFEN()));
       // Reset clocks
       setTimeoutWinner(null);
       if (timeControl.initialMs !== null) {
@@ -169,7 +193,7 @@ export function useChessGame(initialFEN?: string) {
         setLastTick(null);
       }
     },
-    [engine, updateGameState, timeControl.initialMs]
+    [engine, loadTree, timeControl.initialMs]
   );
 
   /**
@@ -179,12 +203,9 @@ export function useChessGame(initialFEN?: string) {
   const loadFEN = useCallback(
     (fen: string) => {
       engine.loadFEN(fen);
-      updateGameState();
-      setSelectedSquare(null);
-      setLegalMoves([]);
-      setCurrentPly(engine.getHistory().length);
+      loadTree(new GameTree(engine.getFEN()));
     },
-    [engine, updateGameState]
+    [engine, loadTree]
   );
 
   /**
@@ -234,41 +255,14 @@ export function useChessGame(initialFEN?: string) {
   const result = useMemo(() => engine.getResult(), [engine]);
 
   /**
-   * Get the last move from history
-   */
-  const lastMove = useMemo(
-    () => (history.length > 0 ? history[history.length - 1] : null),
-    [history]
-  );
-
-  /**
-   * Can undo (has moves in history)
+   * The move that led to the current position
    */
-  const canUndo = useMemo(() => history.length > 0, [history]);
+  const lastMove = currentNode.move;
 
   /**
-   * Jump to a specific ply (half-move) in the game history
-   * Rebuild position by resetting and replaying moves up to plyIndex
+   * Can undo (not at the starting position)
    */
-  const goToPly = useCallback(
-    (plyIndex: number) => {
-      if (plyIndex < 0 || plyIndex > history.length) return;
-      // Save full history
-      const full = [...history];
-      // Reset engine
-      engine.reset();
-      // Replay moves up to plyIndex
-      for (let i = 0; i < plyIndex; i++) {
-        const m = full[i];
-        engine.makeMove(m.from, m.to, m.promotion);
-      }
-      updateGameState();
-      setSelectedSquare(null);
-      setLegalMoves([]);
-      setCurrentPly(plyIndex);
-    },
-    [engine, history, updateGameState]
-  );
+  const canUndo = currentPly > 0;
 
   // Clock ticking effect (animation frame based for smoothness)
   useEffect(() => {
@@ -331,6 +325,10 @@ export function useChessGame(initialFEN?: string) {
     turn,
     status,
     history,
+    initialFen,
+    plyFens,
+    tree,
+    currentNodeId,
     selectedSquare,
     legalMoves,
     currentPly,
@@ -346,6 +344,12 @@ export function useChessGame(initialFEN?: string) {
     isValidMoveTarget,
     getAllLegalMoves,
     goToPly,
+    goToNode,
+    goToParent,
+    goToChild,
+    goToSibling,
+    promoteVariation,
+    deleteVariation,
     setPendingPromotion,
 
     // Computed values
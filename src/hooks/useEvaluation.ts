@@ -0,0 +1,97 @@
+import { useEffect, useRef, useState } from 'react';
+import type { ChessProvider } from '../providers/types';
+import { AIService, AISearchAbortedError } from '../services/AIService';
+import type { AnalysisOptions } from '../services/ChessAI';
+import { analysisScore, fromNormAnalysis, type EvalScore } from '../utils/evaluation';
+
+/** Per-ply scores for the graph: cheap enough to run through a whole game */
+const GRAPH_ANALYSIS: AnalysisOptions = { lines: 1, depth: 3, nodeLimit: 20_000 };
+/** The shown position is analysed for longer, refining as it deepens */
+const LIVE_ANALYSIS: AnalysisOptions = { lines: 1, timeLimitMs: 1_500 };
+
+export interface UseEvaluationOptions {
+  /** Starting position followed by the position after each ply */
+  fens: string[];
+  currentPly: number;
+  /**
+   * Provider asked for the live position when it supports analysis and the
+   * remote game is at that position; the local engine covers everything else
+   */
+  provider?: ChessProvider;
+  remoteGameId?: string | null;
+  /** Start no new analyses, e.g. while the AI searches in the same worker */
+  paused?: boolean;
+}
+
+export interface EvaluationState {
+  /** Score of the position at `currentPly`, null until known */
+  current: EvalScore | null;
+  /** Score for every entry of `fens`, null until known */
+  plies: (EvalScore | null)[];
+}
+
+/**
+ * Engine scores for the position on the board and for every ply of the game.
+ * One analysis runs at a time, the shown position first; scores are cached by
+ * FEN, so stepping through the game or transposing reuses them.
+ */
+export function useEvaluation({
+  fens,
+  currentPly,
+  provider,
+  remoteGameId,
+  paused = false,
+}: UseEvaluationOptions): EvaluationState {
+  const [graph, setGraph] = useState<Record<string, EvalScore | null>>({});
+  const [live, setLive] = useState<Record<string, EvalScore | null>>({});
+  // Bumped when an analysis was cancelled so the queue moves on
+  const [retry, setRetry] = useState(0);
+  const busy = useRef(false);
+  const currentFen = fens[currentPly];
+  const remoteLive =
+    !!provider?.capabilities.analysis && !!remoteGameId && currentPly === fens.length - 1;
+
+  useEffect(() => {
+    if (paused || busy.current) return;
+    const finish = (store: () => void) => {
+      busy.current = false;
+      store();
+    };
+    const failed = (err: unknown): null => {
+      if (err instanceof AISearchAbortedError) throw err;
+      return null;
+    };
+    const cancelled = () => finish(() => setRetry((n) => n + 1));
+
+    if (currentFen && !(currentFen in live)) {
+      const fen = currentFen;
+      const store = (score: EvalScore | null) => setLive((prev) => ({ ...prev, [fen]: score }));
+      const local = () =>
+        AIService.analyze({
+          fen,
+          options: LIVE_ANALYSIS,
+          onProgress: (progress) => store(analysisScore(progress, fen)),
+        }).then((result) => analysisScore(result, fen));
+      busy.current = true;
+      const analysis =
+        remoteLive && provider && remoteGameId
+          ? provider.getAnalysis(remoteGameId).then(fromNormAnalysis, local)
+          : local();
+      analysis.catch(failed).then((score) => finish(() => store(score)), cancelled);
+      return;
+    }
+
+    const fen = fens.find((f) => !(f in graph));
+    if (!fen) return;
+    busy.current = true;
+    AIService.analyze({ fen, options: GRAPH_ANALYSIS })
+      .then((result) => analysisScore(result, fen))
+      .catch(failed)
+      .then((score) => finish(() => setGraph((prev) => ({ ...prev, [fen]: score }))), cancelled);
+  }, [fens, currentFen, graph, live, retry, paused, remoteLive, provider, remoteGameId]);
+
+  return {
+    current: (currentFen && (live[currentFen] ?? graph[currentFen])) || null,
+    plies: fens.map((fen) => live[fen] ?? graph[fen] ?? null),
+  };
+}
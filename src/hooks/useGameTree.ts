@@ -0,0 +1,179 @@
+import { useState, useCallback, useMemo } from 'react';
+import type { Move as ChessMove } from '@rumenx/chess/types';
+import type { ChessEngine } from '../services/ChessEngine';
+import { GameTree, ROOT_NODE_ID, type GameNode } from '../services/GameTree';
+
+/** Put the engine on `nodeId` by replaying its path from the tree's start */
+function replayTo(engine: ChessEngine, tree: GameTree, nodeId: string): void {
+  engine.loadFEN(tree.startFen);
+  for (const node of tree.getPath(nodeId)) {
+    const move = node.move!;
+    engine.makeMove(move.from, move.to, move.promotion);
+  }
+}
+
+/**
+ * Variation-tree navigation shared by the game hooks.
+ *
+ * The engine always holds the position of the current node, replayed from the
+ * tree's starting FEN (not the standard start) so its history matches the path
+ * to that node. Later moves stay in the tree, so stepping back loses nothing.
+ * `onNavigate` runs after the engine moved so callers can refresh the board.
+ */
+export function useGameTree(engine: ChessEngine, onNavigate?: () => void) {
+  // GameTree is mutated in place; re-wrapping it marks the state as changed
+  const [treeState, setTreeState] = useState(() => ({ tree: new GameTree(engine.getFEN()) }));
+  const { tree } = treeState;
+  const [currentNodeId, setCurrentNodeId] = useState<string>(ROOT_NODE_ID);
+  const touch = useCallback(() => setTreeState((s) => ({ tree: s.tree })), []);
+
+  /**
+   * Line through the current node: the path from the root plus the main
+   * continuation after it. This is what the flat move history shows.
+   */
+  const line = useMemo<GameNode[]>(
+    () => treeState.tree.getLine(currentNodeId),
+    [treeState, currentNodeId]
+  );
+  const history = useMemo<ChessMove[]>(() => line.map((n) => n.move!), [line]);
+  /** FEN after each ply of `history` (index 0 is the position after ply 1) */
+  const plyFens = useMemo<string[]>(() => line.map((n) => n.fen), [line]);
+  const currentNode = tree.getNode(currentNodeId);
+
+  /** Replay the engine onto `nodeId` and make it current */
+  const goToNode = useCallback(
+    (nodeId: string): boolean => {
+      if (!tree.hasNode(nodeId)) return false;
+      replayTo(engine, tree, nodeId);
+      setCurrentNodeId(nodeId);
+      onNavigate?.();
+      return true;
+    },
+    [engine, tree, onNavigate]
+  );
+
+  /** Record a move the engine just played from the current node */
+  const recordMove = useCallback(
+    (move: ChessMove): GameNode => {
+      const node = tree.addMove(currentNodeId, move);
+      setCurrentNodeId(node.id);
+      touch();
+      return node;
+    },
+    [tree, currentNodeId, touch]
+  );
+
+  /**
+   * Step back one move. A move with no continuation is removed from the tree;
+   * otherwise only the position changes so the line can be replayed.
+   */
+  const undo = useCallback((): ChessMove | null => {
+    const node = tree.getNode(currentNodeId);
+    if (!node.parentId) return null;
+    if (node.children.length === 0) {
+      tree.deleteBranch(node.id);
+      touch();
+    }
+    goToNode(node.parentId);
+    return node.move;
+  }, [tree, currentNodeId, goToNode, touch]);
+
+  /** Jump to a ply (0 = start) on the current line */
+  const goToPly = useCallback(
+    (ply: number): boolean => {
+      if (ply < 0 || ply > line.length) return false;
+      return goToNode(ply === 0 ? ROOT_NODE_ID : line[ply - 1].id);
+    },
+    [line, goToNode]
+  );
+
+  const goToParent = useCallback(
+    () => (currentNode.parentId ? goToNode(currentNode.parentId) : false),
+    [currentNode, goToNode]
+  );
+
+  const goToChild = useCallback(
+    (index = 0) => {
+      const child = tree.child(currentNodeId, index);
+      return child ? goToNode(child.id) : false;
+    },
+    [tree, currentNodeId, goToNode]
+  );
+
+  const goToSibling = useCallback(
+    (offset: number) => {
+      const sibling = tree.sibling(currentNodeId, offset);
+      return sibling ? goToNode(sibling.id) : false;
+    },
+    [tree, currentNodeId, goToNode]
+  );
+
+  const promoteVariation = useCallback(
+    (nodeId: string) => {
+      tree.promoteVariation(nodeId);
+      touch();
+    },
+    [tree, touch]
+  );
+
+  const promoteToMainline = useCallback(
+    (nodeId: string) => {
+      tree.promoteToMainline(nodeId);
+      touch();
+    },
+    [tree, touch]
+  );
+
+  /** Delete a node and its continuation, leaving the deleted line if needed */
+  const deleteVariation = useCallback(
+    (nodeId: string) => {
+      if (nodeId === ROOT_NODE_ID || !tree.hasNode(nodeId)) return;
+      const leaving = tree.isAncestor(nodeId, currentNodeId);
+      const parent = tree.deleteBranch(nodeId);
+      touch();
+      if (leaving) goToNode(parent.id);
+    },
+    [tree, currentNodeId, goToNode, touch]
+  );
+
+  /**
+   * Replace the tree, e.g. after loading a FEN, a PGN or a remote game, and
+   * move the engine to `nodeId` (the end of the mainline by default).
+   */
+  const loadTree = useCallback(
+    (next: GameTree, nodeId?: string) => {
+      const target = nodeId ?? next.lineEnd(ROOT_NODE_ID).id;
+      replayTo(engine, next, target);
+      setTreeState({ tree: next });
+      setCurrentNodeId(target);
+      onNavigate?.();
+    },
+    [engine, onNavigate]
+  );
+
+  return {
+    tree,
+    currentNodeId,
+    currentNode,
+    line,
+    history,
+    initialFen: tree.startFen,
+    plyFens,
+    currentPly: currentNode.ply,
+    recordMove,
+    undo,
+    goToNode,
+    goToPly,
+    goToParent,
+    goToChild,
+    goToSibling,
+    promoteVariation,
+    promoteToMainline,
+    deleteVariation,
+    loadTree,
+  };
+}
+
+export type GameTreeHook = ReturnType<typeof useGameTree>;
+
+export default useGameTree;
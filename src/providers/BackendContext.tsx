@@ -45,8 +45,8 @@ export interface BackendContextValue {
   setBackendUrl: (id: BackendId, url: string) => void;
   /** All available backend configs (with persisted URL overrides) */
   backends: Record<BackendId, BackendConfig>;
-  /** Re-check connectivity */
-  checkConnection: () => Promise<void>;
+  /** Re-check connectivity; resolves with whether the backend answered */
+  checkConnection: () => Promise<boolean>;
   /** True while checking connectivity */
   checking: boolean;
 }
@@ -126,7 +126,7 @@ export function BackendProvider({ children }: { children: ReactNode }) {
     if (backendId === 'local' || backendId === 'js') {
       setConnected(true);
       setConnectionError(null);
-      return;
+      return true;
     }
     setChecking(true);
     const cfg = backends[backendId];
@@ -136,13 +136,15 @@ export function BackendProvider({ children }: { children: ReactNode }) {
       if (res.ok) {
         setConnected(true);
         setConnectionError(null);
-      } else {
-        setConnected(false);
-        setConnectionError(`Health check returned ${res.status}`);
+        return true;
       }
+      setConnected(false);
+      setConnectionError(`Health check returned ${res.status}`);
+      return false;
     } catch (err) {
       setConnected(false);
       setConnectionError(err instanceof Error ? err.message : 'Cannot reach backend');
+      return false;
     } finally {
       setChecking(false);
     }
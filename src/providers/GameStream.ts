@@ -0,0 +1,98 @@
+/**
+ * GameStream — a game's event stream over a WebSocket.
+ *
+ * Messages are JSON objects in the backend's own shape; the adapter's
+ * normEvent turns them into NormGameEvents and anything it does not know
+ * is ignored. A dropped connection is retried with backoff until close().
+ */
+
+import type {
+  GameStreamHandlers,
+  GameStreamStatus,
+  GameSubscription,
+  NormGameEvent,
+} from './types';
+
+/** Delay before each reconnect attempt; the last one repeats */
+export const RECONNECT_DELAYS_MS = [500, 1_000, 2_000, 5_000];
+
+export interface GameStreamOptions {
+  /** ws:// or wss:// URL of the stream */
+  url: string;
+  normEvent: (raw: Record<string, unknown>) => NormGameEvent | null;
+  handlers: GameStreamHandlers;
+  reconnectDelaysMs?: number[];
+}
+
+/** ws:// for http://, wss:// for https:// */
+export function toWebSocketUrl(httpUrl: string): string {
+  return httpUrl.replace(/^http/, 'ws');
+}
+
+export class GameStream implements GameSubscription {
+  private readonly options: GameStreamOptions;
+  private socket: WebSocket | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private attempts = 0;
+  private closed = false;
+
+  /** Connects straight away; status changes are only reported from socket callbacks */
+  constructor(options: GameStreamOptions) {
+    this.options = options;
+    this.connect();
+  }
+
+  get status(): GameStreamStatus {
+    if (this.closed) return 'closed';
+    return this.socket?.readyState === WebSocket.OPEN ? 'open' : 'connecting';
+  }
+
+  close(): void {
+    if (this.closed) return;
+    this.closed = true;
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.socket?.close();
+    this.socket = null;
+    this.options.handlers.onStatus?.('closed');
+  }
+
+  private connect(): void {
+    const socket = new WebSocket(this.options.url);
+    this.socket = socket;
+    socket.onopen = () => {
+      this.attempts = 0;
+      this.options.handlers.onStatus?.('open');
+    };
+    socket.onmessage = (message) => {
+      const event = this.parse(message.data);
+      if (event) this.options.handlers.onEvent(event);
+    };
+    socket.onclose = () => {
+      if (this.closed || socket !== this.socket) return;
+      this.options.handlers.onStatus?.('connecting');
+      this.scheduleReconnect();
+    };
+  }
+
+  private scheduleReconnect(): void {
+    const delays = this.options.reconnectDelaysMs ?? RECONNECT_DELAYS_MS;
+    const delay = delays[Math.min(this.attempts, delays.length - 1)];
+    this.attempts++;
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      if (!this.closed) this.connect();
+    }, delay);
+  }
+
+  private parse(data: unknown): NormGameEvent | null {
+    if (typeof data !== 'string') return null;
+    try {
+      const raw: unknown = JSON.parse(data);
+      return raw && typeof raw === 'object'
+        ? this.options.normEvent(raw as Record<string, unknown>)
+        : null;
+    } catch {
+      return null;
+    }
+  }
+}
@@ -7,11 +7,22 @@
  */
 
 import type { Move as LibMove, Piece as LibPiece } from '@rumenx/chess/types';
-import { ChessAI, type AIDifficulty } from '../services/ChessAI';
+import {
+  ChessAI,
+  type AIDifficulty,
+  type AnalysisProgress,
+  type SearchMove,
+} from '../services/ChessAI';
+import { Personality, type AIPersonality } from '../services/Personality';
+import { AIService } from '../services/AIService';
 import { ChessEngine } from '../services/ChessEngine';
+import { toWhiteScore } from '../utils/evaluation';
 import type {
+  AnalysisRequest,
   ChessProvider,
   CreateGameOptions,
+  GameStreamHandlers,
+  GameSubscription,
   NormAiMoveResult,
   NormAnalysis,
   NormGameState,
@@ -45,6 +56,34 @@ function toNormMove(m: LibMove): NormMove {
   };
 }
 
+function searchMoveToNorm(m: SearchMove): NormMove {
+  return { from: m.from, to: m.to, san: m.san, promotion: m.promotion };
+}
+
+/** Engine lines (side-to-move centipawns) as pawns from white's point of view */
+function analysisToNorm(progress: AnalysisProgress, turn: PlayerColor): NormAnalysis {
+  const sign = turn === 'white' ? 1 : -1;
+  const lines = progress.lines.map((line) => {
+    const mate = ChessAI.mateIn(line.score);
+    return {
+      evaluation: (sign * line.score) / 100,
+      mate: mate === null ? undefined : sign * mate,
+      pv: line.pv.map(searchMoveToNorm),
+      depth: progress.depth,
+    };
+  });
+  const [best] = lines;
+  return {
+    evaluation: best?.evaluation ?? 0,
+    bestMove: best?.pv[0],
+    depth: progress.depth,
+    mate: best?.mate,
+    pv: best?.pv ?? [],
+    lines,
+    nodes: progress.nodes,
+  };
+}
+
 function gameToNorm(id: string, engine: ChessEngine): NormGameState {
   const status = engine.getStatus() as GameStatusNorm;
   const history = engine.getHistory();
@@ -75,7 +114,7 @@ export class LocalProvider implements ChessProvider {
     undo: true,
     ai: true,
     hint: true,
-    analysis: false, // no deep analysis in-browser (only simple eval)
+    analysis: true, // multi-PV analysis in the AI worker
     chat: false,
     websocket: false,
     pgn: true,
@@ -83,7 +122,10 @@ export class LocalProvider implements ChessProvider {
   };
 
   /** In-memory game store: id → { engine, meta } */
-  private games = new Map<string, { engine: ChessEngine; aiEngine: ChessEngine }>();
+  private games = new Map<
+    string,
+    { engine: ChessEngine; aiEngine: ChessEngine; personality?: AIPersonality }
+  >();
 
   // -- helpers --------------------------------------------------------------
 
@@ -98,7 +140,10 @@ export class LocalProvider implements ChessProvider {
   async createGame(options?: CreateGameOptions): Promise<NormGameState> {
     const id = `local-${nextLocalId++}`;
     const engine = new ChessEngine(options?.fen);
-    this.games.set(id, { engine, aiEngine: engine });
+    const personality = Personality.isPersonality(options?.aiPersonality)
+      ? options.aiPersonality
+      : undefined;
+    this.games.set(id, { engine, aiEngine: engine, personality });
     return gameToNorm(id, engine);
   }
 
@@ -110,6 +155,10 @@ export class LocalProvider implements ChessProvider {
     this.games.delete(gameId);
   }
 
+  async listGames(): Promise<NormGameState[]> {
+    return [...this.games].map(([id, { engine }]) => gameToNorm(id, engine));
+  }
+
   // -- Moves ----------------------------------------------------------------
 
   async makeMove(
@@ -146,27 +195,41 @@ export class LocalProvider implements ChessProvider {
 
   async aiMove(gameId: string, difficulty: string = 'medium'): Promise<NormAiMoveResult> {
     const engine = this.getEngine(gameId);
-    const start = performance.now();
-    const move = ChessAI.computeBestMove(engine, difficulty as AIDifficulty);
+    const fen = engine.getFEN();
+    const { personality } = this.games.get(gameId)!;
+    const result = await AIService.search({
+      fen,
+      options: { level: difficulty as AIDifficulty, personality },
+    });
+    const move = result.bestMove;
     if (!move) throw new Error('AI could not find a move');
+    // The game may have moved on while the worker was searching
+    if (engine.getFEN() !== fen) throw new Error('Position changed during AI search');
 
     // Apply the move
+    const turn = engine.getTurn();
     const applied = engine.makeMove(move.from, move.to, move.promotion);
     if (!applied) throw new Error('AI move was illegal');
 
-    const elapsed = performance.now() - start;
     return {
       move: toNormMove(applied),
       game: gameToNorm(gameId, engine),
-      thinkingTimeMs: Math.round(elapsed),
+      evaluation: Number.isFinite(result.score)
+        ? toWhiteScore(result.score, turn).cp / 100
+        : undefined,
+      thinkingTimeMs: result.elapsedMs,
+      depth: result.depth,
     };
   }
 
   async aiHint(gameId: string, difficulty: string = 'easy'): Promise<NormMove> {
     const engine = this.getEngine(gameId);
-    const move = ChessAI.computeBestMove(engine, difficulty as AIDifficulty);
+    const { bestMove: move } = await AIService.search({
+      fen: engine.getFEN(),
+      options: { level: difficulty as AIDifficulty },
+    });
     if (!move) throw new Error('No hint available');
-    return { from: move.from, to: move.to, san: move.san };
+    return { from: move.from, to: move.to, san: move.san, promotion: move.promotion };
   }
 
   // -- Position -------------------------------------------------------------
@@ -184,9 +247,34 @@ export class LocalProvider implements ChessProvider {
     return '';
   }
 
+  /**
+   * Analyse the game's position in the AI worker. Without a `depth` the
+   * analysis deepens until its time limit, passing each depth's lines to
+   * `onUpdate`; abort `signal` to stop it.
+   */
+  async getAnalysis(
+    gameId: string,
+    depth?: number,
+    options: AnalysisRequest = {}
+  ): Promise<NormAnalysis> {
+    const engine = this.getEngine(gameId);
+    const turn = engine.getTurn() as PlayerColor;
+    const { onUpdate } = options;
+    const result = await AIService.analyze({
+      fen: engine.getFEN(),
+      options: { lines: options.lines, depth, timeLimitMs: options.timeLimitMs },
+      onProgress: onUpdate && ((progress) => onUpdate(analysisToNorm(progress, turn))),
+      signal: options.signal,
+    });
+    return analysisToNorm(result, turn);
+  }
+
+  // -- Streaming ------------------------------------------------------------
+
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  async getAnalysis(_gameId: string, _depth?: number): Promise<NormAnalysis> {
-    throw new Error('Analysis not supported in local mode');
+  subscribe(_gameId: string, _handlers: GameStreamHandlers): GameSubscription {
+    // Local games only change through this provider's own calls
+    throw new Error('Streaming is not supported by the local backend');
   }
 
   // -- Cleanup --------------------------------------------------------------
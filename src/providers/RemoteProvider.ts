@@ -6,10 +6,14 @@
  */
 
 import { ADAPTERS, type BackendAdapter } from './adapters';
+import { GameStream, toWebSocketUrl } from './GameStream';
 import type {
+  AnalysisRequest,
   BackendId,
   ChessProvider,
   CreateGameOptions,
+  GameStreamHandlers,
+  GameSubscription,
   NormAiMoveResult,
   NormAnalysis,
   NormGameState,
@@ -59,45 +63,173 @@ const REMOTE_CAPS: Record<string, ProviderCapabilities> = {
 // HTTP helpers
 // ---------------------------------------------------------------------------
 
-class ApiError extends Error {
+/**
+ * What went wrong with a request:
+ *   - network    — no response (server down, DNS, CORS, connection reset)
+ *   - timeout    — no response within the request's time limit
+ *   - validation — the server refused the request (4xx other than 404)
+ *   - not-found  — the game or route does not exist (404)
+ *   - server     — the server failed (5xx, or a body that would not parse)
+ */
+export type ApiErrorKind = 'network' | 'timeout' | 'validation' | 'not-found' | 'server';
+
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  /** HTTP status; 0 when no response arrived */
   readonly status: number;
   readonly code: string;
 
-  constructor(status: number, code: string, message: string) {
+  constructor(kind: ApiErrorKind, status: number, code: string, message: string) {
     super(message);
     this.name = 'ApiError';
+    this.kind = kind;
     this.status = status;
     this.code = code;
   }
+
+  /** Categorise an error response by its status */
+  static fromResponse(status: number, code: string, message: string): ApiError {
+    const kind = status === 404 ? 'not-found' : status >= 500 ? 'server' : 'validation';
+    return new ApiError(kind, status, code, message);
+  }
+
+  /** The server was not reached, so nothing it holds changed */
+  get unreachable(): boolean {
+    return this.kind === 'network' || this.kind === 'timeout';
+  }
+
+  /** Sending the same request again may succeed */
+  get retryable(): boolean {
+    return this.unreachable || this.kind === 'server';
+  }
+}
+
+export interface RemoteProviderOptions {
+  /** Time limit per request (default 10 s) */
+  timeoutMs?: number;
+  /** Time limit for AI moves, hints and analysis, which search before answering (default 60 s) */
+  searchTimeoutMs?: number;
+  /** Retries for idempotent requests that fail retryably (default 2) */
+  retries?: number;
+  /** Delay before the first retry, doubled for each one after (default 200 ms) */
+  retryDelayMs?: number;
+}
+
+const DEFAULT_OPTIONS: Required<RemoteProviderOptions> = {
+  timeoutMs: 10_000,
+  searchTimeoutMs: 60_000,
+  retries: 2,
+  retryDelayMs: 200,
+};
+
+interface RequestPolicy {
+  timeoutMs: number;
+  /** 0 for requests that must not be sent twice */
+  retries: number;
+  retryDelayMs: number;
 }
 
-async function request<T>(url: string, init?: RequestInit): Promise<T> {
-  const res = await fetch(url, {
-    ...init,
-    headers: {
-      'Content-Type': 'application/json',
-      ...(init?.headers ?? {}),
-    },
+const errorText = (err: unknown, fallback: string) =>
+  err instanceof Error ? err.message : fallback;
+
+/** Wait `ms`, cut short (with a rejection) when `signal` aborts */
+function delay(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
   });
+}
 
-  // Handle PGN (text/plain) responses
-  const ct = res.headers.get('content-type') ?? '';
-  if (ct.includes('text/plain')) {
-    const text = await res.text();
-    if (!res.ok) throw new ApiError(res.status, 'HTTP_ERROR', text);
-    return text as unknown as T;
-  }
+/**
+ * One attempt at a request. The time limit covers reading the body too. A
+ * caller's abort is rethrown as is, so it is never mistaken for a timeout.
+ */
+async function send<T>(url: string, init: RequestInit, timeoutMs: number): Promise<T> {
+  const callerSignal = init.signal;
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  if (callerSignal?.aborted) abort();
+  callerSignal?.addEventListener('abort', abort);
+  const timer = setTimeout(abort, timeoutMs);
+  const timedOut = () => controller.signal.aborted && !callerSignal?.aborted;
+  const timeout = () => new ApiError('timeout', 0, 'TIMEOUT', `No response within ${timeoutMs} ms`);
+
+  try {
+    let res: Response;
+    try {
+      res = await fetch(url, {
+        ...init,
+        signal: controller.signal,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(init.headers ?? {}),
+        },
+      });
+    } catch (err) {
+      if (timedOut()) throw timeout();
+      if (callerSignal?.aborted) throw err;
+      throw new ApiError('network', 0, 'NETWORK_ERROR', errorText(err, 'Network error'));
+    }
 
-  const body = await res.json();
+    // The time limit can also run out while the body is still arriving
+    const { status } = res;
+    const read = async <B>(body: () => Promise<B>): Promise<B> => {
+      try {
+        return await body();
+      } catch (err) {
+        if (timedOut()) throw timeout();
+        if (callerSignal?.aborted) throw err;
+        throw new ApiError('server', status, 'BAD_RESPONSE', errorText(err, 'Unreadable body'));
+      }
+    };
+
+    // Handle PGN (text/plain) responses
+    const ct = res.headers.get('content-type') ?? '';
+    if (ct.includes('text/plain')) {
+      const text = await read(() => res.text());
+      if (!res.ok) throw ApiError.fromResponse(res.status, 'HTTP_ERROR', text);
+      return text as unknown as T;
+    }
+
+    const body = await read(() => res.json());
 
-  if (!res.ok) {
-    // Normalise error extraction across backends
-    const errObj = body?.error;
-    const code = typeof errObj === 'object' ? errObj?.code : (errObj ?? 'UNKNOWN');
-    const msg = typeof errObj === 'object' ? errObj?.message : (body?.message ?? res.statusText);
-    throw new ApiError(res.status, String(code), String(msg));
+    if (!res.ok) {
+      // Normalise error extraction across backends
+      const errObj = body?.error;
+      const code = typeof errObj === 'object' ? errObj?.code : (errObj ?? 'UNKNOWN');
+      const msg = typeof errObj === 'object' ? errObj?.message : (body?.message ?? res.statusText);
+      throw ApiError.fromResponse(res.status, String(code), String(msg));
+    }
+    return body as T;
+  } finally {
+    clearTimeout(timer);
+    callerSignal?.removeEventListener('abort', abort);
+  }
+}
+
+/** Send a request, retrying retryable failures with exponential backoff */
+async function request<T>(url: string, init: RequestInit, policy: RequestPolicy): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await send<T>(url, init, policy.timeoutMs);
+    } catch (err) {
+      if (!(err instanceof ApiError)) throw err;
+      // A retried DELETE finds nothing when an earlier attempt landed but went unanswered
+      if (attempt > 0 && init.method === 'DELETE' && err.kind === 'not-found') {
+        return undefined as T;
+      }
+      if (!err.retryable || attempt >= policy.retries) throw err;
+      await delay(policy.retryDelayMs * 2 ** attempt, init.signal);
+    }
   }
-  return body as T;
 }
 
 // ---------------------------------------------------------------------------
@@ -109,19 +241,41 @@ export class RemoteProvider implements ChessProvider {
   readonly capabilities: ProviderCapabilities;
   private baseUrl: string;
   private adapter: BackendAdapter;
+  private streams = new Set<GameStream>();
+  private options: Required<RemoteProviderOptions>;
 
-  constructor(backendId: BackendId, baseUrl: string) {
+  constructor(backendId: BackendId, baseUrl: string, options: RemoteProviderOptions = {}) {
     if (backendId === 'local') throw new Error('Use LocalProvider for local backend');
     this.backendId = backendId;
     this.baseUrl = baseUrl.replace(/\/+$/, '');
     this.adapter = ADAPTERS[backendId];
     this.capabilities = REMOTE_CAPS[backendId] ?? REMOTE_CAPS.rust;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
   }
 
   private url(path: string): string {
     return `${this.baseUrl}${this.adapter.apiPrefix}${path}`;
   }
 
+  /**
+   * Request an API path. GETs, DELETEs and requests flagged `idempotent`
+   * are retried; `search` requests get the longer time limit.
+   */
+  private call<T>(
+    path: string,
+    init: RequestInit = {},
+    flags: { idempotent?: boolean; search?: boolean } = {}
+  ): Promise<T> {
+    const { timeoutMs, searchTimeoutMs, retries, retryDelayMs } = this.options;
+    const method = init.method ?? 'GET';
+    const idempotent = flags.idempotent ?? (method === 'GET' || method === 'DELETE');
+    return request<T>(this.url(path), init, {
+      timeoutMs: flags.search ? searchTimeoutMs : timeoutMs,
+      retries: idempotent ? retries : 0,
+      retryDelayMs,
+    });
+  }
+
   // -- Game lifecycle -------------------------------------------------------
 
   async createGame(options?: CreateGameOptions): Promise<NormGameState> {
@@ -131,13 +285,17 @@ export class RemoteProvider implements ChessProvider {
     if (options?.fen) body.fen = options.fen;
     if (options?.aiEnabled !== undefined) body.aiEnabled = options.aiEnabled;
     if (options?.aiDifficulty) body.aiDifficulty = options.aiDifficulty;
+    if (options?.aiPersonality) {
+      if (this.backendId === 'go') body.ai_personality = options.aiPersonality;
+      else body.aiPersonality = options.aiPersonality;
+    }
     if (options?.aiColor) {
       // go-chess uses snake_case
       if (this.backendId === 'go') body.ai_color = options.aiColor;
       else body.aiColor = options.aiColor;
     }
 
-    const raw = await request<Record<string, unknown>>(this.url('/games'), {
+    const raw = await this.call<Record<string, unknown>>('/games', {
       method: 'POST',
       body: JSON.stringify(body),
     });
@@ -145,12 +303,17 @@ export class RemoteProvider implements ChessProvider {
   }
 
   async getGame(gameId: string): Promise<NormGameState> {
-    const raw = await request<Record<string, unknown>>(this.url(`/games/${gameId}`));
+    const raw = await this.call<Record<string, unknown>>(`/games/${gameId}`);
     return this.adapter.normGame(raw);
   }
 
   async deleteGame(gameId: string): Promise<void> {
-    await request<unknown>(this.url(`/games/${gameId}`), { method: 'DELETE' });
+    await this.call<unknown>(`/games/${gameId}`, { method: 'DELETE' });
+  }
+
+  async listGames(): Promise<NormGameState[]> {
+    const raw = await this.call<unknown>('/games');
+    return this.adapter.normGameList(raw);
   }
 
   // -- Moves ----------------------------------------------------------------
@@ -163,7 +326,7 @@ export class RemoteProvider implements ChessProvider {
   ): Promise<NormGameState> {
     const body: Record<string, unknown> = { from, to };
     if (promotion) body.promotion = promotion;
-    const raw = await request<Record<string, unknown>>(this.url(`/games/${gameId}/moves`), {
+    const raw = await this.call<Record<string, unknown>>(`/games/${gameId}/moves`, {
       method: 'POST',
       body: JSON.stringify(body),
     });
@@ -174,7 +337,7 @@ export class RemoteProvider implements ChessProvider {
     if (!this.capabilities.undo) {
       throw new Error(`Undo is not supported by the ${this.backendId} backend`);
     }
-    const raw = await request<Record<string, unknown>>(this.url(`/games/${gameId}/undo`), {
+    const raw = await this.call<Record<string, unknown>>(`/games/${gameId}/undo`, {
       method: 'POST',
     });
     return this.adapter.normGame(raw);
@@ -182,9 +345,7 @@ export class RemoteProvider implements ChessProvider {
 
   async getLegalMoves(gameId: string, fromSquare?: string): Promise<NormLegalMove[]> {
     const qs = fromSquare ? `?from=${fromSquare}` : '';
-    const raw = await request<Record<string, unknown>>(
-      this.url(`/games/${gameId}/legal-moves${qs}`)
-    );
+    const raw = await this.call<Record<string, unknown>>(`/games/${gameId}/legal-moves${qs}`);
     return this.adapter.normLegalMoves(raw);
   }
 
@@ -194,10 +355,11 @@ export class RemoteProvider implements ChessProvider {
     const body: Record<string, unknown> = {
       [this.adapter.aiDifficultyField]: difficulty,
     };
-    const raw = await request<Record<string, unknown>>(this.url(`/games/${gameId}/ai-move`), {
-      method: 'POST',
-      body: JSON.stringify(body),
-    });
+    const raw = await this.call<Record<string, unknown>>(
+      `/games/${gameId}/ai-move`,
+      { method: 'POST', body: JSON.stringify(body) },
+      { search: true }
+    );
     return this.adapter.normAiMove(raw);
   }
 
@@ -205,10 +367,12 @@ export class RemoteProvider implements ChessProvider {
     const body: Record<string, unknown> = {
       [this.adapter.aiDifficultyField]: difficulty,
     };
-    const raw = await request<Record<string, unknown>>(this.url(`/games/${gameId}/ai-hint`), {
-      method: 'POST',
-      body: JSON.stringify(body),
-    });
+    // A hint leaves the game alone, so it is safe to ask twice
+    const raw = await this.call<Record<string, unknown>>(
+      `/games/${gameId}/ai-hint`,
+      { method: 'POST', body: JSON.stringify(body) },
+      { search: true, idempotent: true }
+    );
     // ai-hint returns a similar shape to ai-move
     const result = this.adapter.normAiMove(raw);
     return result.move;
@@ -217,26 +381,61 @@ export class RemoteProvider implements ChessProvider {
   // -- Position -------------------------------------------------------------
 
   async loadFen(gameId: string, fen: string): Promise<NormGameState> {
-    const raw = await request<Record<string, unknown>>(this.url(`/games/${gameId}/fen`), {
-      method: 'POST',
-      body: JSON.stringify({ fen }),
-    });
+    // Loading the same FEN twice leaves the same position
+    const raw = await this.call<Record<string, unknown>>(
+      `/games/${gameId}/fen`,
+      { method: 'POST', body: JSON.stringify({ fen }) },
+      { idempotent: true }
+    );
     return this.adapter.normGame(raw);
   }
 
   async getPgn(gameId: string): Promise<string> {
-    return request<string>(this.url(`/games/${gameId}/pgn`));
+    return this.call<string>(`/games/${gameId}/pgn`);
   }
 
-  async getAnalysis(gameId: string, depth?: number): Promise<NormAnalysis> {
-    const qs = depth ? `?depth=${depth}` : '';
-    const raw = await request<Record<string, unknown>>(this.url(`/games/${gameId}/analysis${qs}`));
+  async getAnalysis(
+    gameId: string,
+    depth?: number,
+    options: AnalysisRequest = {}
+  ): Promise<NormAnalysis> {
+    const params = new URLSearchParams();
+    if (depth) params.set('depth', String(depth));
+    if (options.lines) params.set(this.adapter.multiPvParam, String(options.lines));
+    const qs = params.toString() ? `?${params}` : '';
+    const raw = await this.call<Record<string, unknown>>(
+      `/games/${gameId}/analysis${qs}`,
+      { signal: options.signal },
+      { search: true }
+    );
     return this.adapter.normAnalysis(raw);
   }
 
+  // -- Streaming ------------------------------------------------------------
+
+  subscribe(gameId: string, handlers: GameStreamHandlers): GameSubscription {
+    const { streamPath, normEvent } = this.adapter;
+    if (!this.capabilities.websocket || !streamPath || !normEvent) {
+      throw new Error(`Streaming is not supported by the ${this.backendId} backend`);
+    }
+    const stream = new GameStream({
+      url: toWebSocketUrl(this.url(streamPath(gameId))),
+      normEvent,
+      handlers,
+    });
+    this.streams.add(stream);
+    return {
+      close: () => {
+        this.streams.delete(stream);
+        stream.close();
+      },
+    };
+  }
+
   // -- Cleanup --------------------------------------------------------------
 
   dispose(): void {
-    // Nothing to clean up for basic HTTP (WebSocket cleanup would go here)
+    for (const stream of this.streams) stream.close();
+    this.streams.clear();
   }
 }
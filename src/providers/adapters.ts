@@ -9,6 +9,8 @@ import type {
   GameStatusNorm,
   NormAiMoveResult,
   NormAnalysis,
+  NormAnalysisLine,
+  NormGameEvent,
   NormGameState,
   NormLegalMove,
   NormMove,
@@ -27,6 +29,13 @@ function assertColor(c: string | undefined): PlayerColor {
   return 'white';
 }
 
+/** Game list responses: a bare array, or wrapped as `{ games: [...] }` */
+function gameListItems(raw: unknown): Record<string, unknown>[] {
+  if (Array.isArray(raw)) return raw as Record<string, unknown>[];
+  const games = (raw as Record<string, unknown> | null)?.games;
+  return Array.isArray(games) ? (games as Record<string, unknown>[]) : [];
+}
+
 // ===========================================================================
 // rust-chess adapter  (camelCase, /api/...)
 // ===========================================================================
@@ -130,6 +139,10 @@ function rustNormBoard(raw: unknown): (NormPiece | null)[][] | undefined {
   );
 }
 
+export function rustNormGameList(raw: unknown): NormGameState[] {
+  return gameListItems(raw).map(rustNormGame);
+}
+
 export function rustNormLegalMoves(raw: Record<string, unknown>): NormLegalMove[] {
   const moves = (raw.moves as Record<string, unknown>[] | undefined) ?? [];
   return moves.map((m) => ({
@@ -150,14 +163,65 @@ export function rustNormAiMove(raw: Record<string, unknown>): NormAiMoveResult {
   };
 }
 
+function rustNormLine(raw: Record<string, unknown>): NormAnalysisLine {
+  return {
+    evaluation: (raw.evaluation as number) ?? 0,
+    mate: raw.mate as number | undefined,
+    pv: ((raw.pv as Record<string, unknown>[] | undefined) ?? []).map(rustNormMove),
+    depth: raw.depth as number | undefined,
+  };
+}
+
 export function rustNormAnalysis(raw: Record<string, unknown>): NormAnalysis {
+  const lines = (raw.lines as Record<string, unknown>[] | undefined)?.map(rustNormLine);
   return {
     evaluation: (raw.evaluation as number) ?? 0,
-    bestMove: raw.bestMove ? rustNormMove(raw.bestMove as Record<string, unknown>) : undefined,
+    bestMove: raw.bestMove
+      ? rustNormMove(raw.bestMove as Record<string, unknown>)
+      : lines?.[0]?.pv[0],
     depth: raw.depth as number | undefined,
+    mate: raw.mate as number | undefined,
+    pv: raw.pv ? (raw.pv as Record<string, unknown>[]).map(rustNormMove) : lines?.[0]?.pv,
+    lines,
+    nodes: raw.nodes as number | undefined,
   };
 }
 
+/** rust-chess stream messages: `{ type: 'move' | 'state' | 'aiThinking' | 'clock' | 'gameOver', ... }` */
+export function rustNormEvent(raw: Record<string, unknown>): NormGameEvent | null {
+  const game = raw.game ? rustNormGame(raw.game as Record<string, unknown>) : undefined;
+  switch (raw.type) {
+    case 'move':
+      if (!game || !raw.move) return null;
+      return { type: 'move', move: rustNormMove(raw.move as Record<string, unknown>), game };
+    case 'state':
+      return game ? { type: 'state', game } : null;
+    case 'aiThinking':
+      return {
+        type: 'thinking',
+        depth: raw.depth as number | undefined,
+        nodes: raw.nodes as number | undefined,
+        evaluation: raw.evaluation as number | undefined,
+        bestMove: raw.bestMove ? rustNormMove(raw.bestMove as Record<string, unknown>) : undefined,
+      };
+    case 'clock':
+      return {
+        type: 'clock',
+        whiteMs: Number(raw.whiteTimeMs ?? 0),
+        blackMs: Number(raw.blackTimeMs ?? 0),
+      };
+    case 'gameOver':
+      return {
+        type: 'gameOver',
+        result: String(raw.result ?? game?.result ?? '*'),
+        reason: raw.reason as string | undefined,
+        game,
+      };
+    default:
+      return null;
+  }
+}
+
 // ===========================================================================
 // go-chess adapter  (snake_case, /api/...)
 // ===========================================================================
@@ -237,6 +301,10 @@ function goNormPiece(raw: unknown): NormPiece | undefined {
   return undefined;
 }
 
+export function goNormGameList(raw: unknown): NormGameState[] {
+  return gameListItems(raw).map(goNormGame);
+}
+
 export function goNormLegalMoves(raw: Record<string, unknown>): NormLegalMove[] {
   const moves = (raw.legal_moves as Record<string, unknown>[] | undefined) ?? [];
   return moves.map((m) => ({
@@ -257,14 +325,65 @@ export function goNormAiMove(raw: Record<string, unknown>): NormAiMoveResult {
   };
 }
 
+function goNormLine(raw: Record<string, unknown>): NormAnalysisLine {
+  return {
+    evaluation: (raw.evaluation as number) ?? (raw.evaluation_cp as number) ?? 0,
+    mate: raw.mate_in as number | undefined,
+    pv: ((raw.pv as Record<string, unknown>[] | undefined) ?? []).map(goNormMove),
+    depth: raw.depth as number | undefined,
+  };
+}
+
 export function goNormAnalysis(raw: Record<string, unknown>): NormAnalysis {
+  const lines = (raw.lines as Record<string, unknown>[] | undefined)?.map(goNormLine);
   return {
     evaluation: (raw.evaluation as number) ?? (raw.evaluation_cp as number) ?? 0,
-    bestMove: raw.best_move ? goNormMove(raw.best_move as Record<string, unknown>) : undefined,
+    bestMove: raw.best_move
+      ? goNormMove(raw.best_move as Record<string, unknown>)
+      : lines?.[0]?.pv[0],
     depth: raw.depth as number | undefined,
+    mate: raw.mate_in as number | undefined,
+    pv: raw.pv ? (raw.pv as Record<string, unknown>[]).map(goNormMove) : lines?.[0]?.pv,
+    lines,
+    nodes: raw.nodes as number | undefined,
   };
 }
 
+/** go-chess stream messages: `{ type: 'move' | 'state' | 'ai_thinking' | 'clock' | 'game_over', ... }` */
+export function goNormEvent(raw: Record<string, unknown>): NormGameEvent | null {
+  const game = raw.game ? goNormGame(raw.game as Record<string, unknown>) : undefined;
+  switch (raw.type) {
+    case 'move':
+      if (!game || !raw.move) return null;
+      return { type: 'move', move: goNormMove(raw.move as Record<string, unknown>), game };
+    case 'state':
+      return game ? { type: 'state', game } : null;
+    case 'ai_thinking':
+      return {
+        type: 'thinking',
+        depth: raw.depth as number | undefined,
+        nodes: raw.nodes as number | undefined,
+        evaluation: (raw.evaluation as number) ?? (raw.evaluation_cp as number | undefined),
+        bestMove: raw.best_move ? goNormMove(raw.best_move as Record<string, unknown>) : undefined,
+      };
+    case 'clock':
+      return {
+        type: 'clock',
+        whiteMs: Number(raw.white_time_ms ?? 0),
+        blackMs: Number(raw.black_time_ms ?? 0),
+      };
+    case 'game_over':
+      return {
+        type: 'gameOver',
+        result: String(raw.result ?? game?.result ?? '*'),
+        reason: raw.reason as string | undefined,
+        game,
+      };
+    default:
+      return null;
+  }
+}
+
 // ===========================================================================
 // js-chess / npm-chess adapter  (camelCase, /api/v1/...)
 // ===========================================================================
@@ -326,6 +445,10 @@ function jsNormPiece(raw: unknown): NormPiece | undefined {
   return undefined;
 }
 
+export function jsNormGameList(raw: unknown): NormGameState[] {
+  return gameListItems(raw).map(jsNormGame);
+}
+
 export function jsNormLegalMoves(raw: Record<string, unknown>): NormLegalMove[] {
   const moves = (raw.moves as Record<string, unknown>[] | undefined) ?? [];
   return moves.map((m) => ({
@@ -349,11 +472,27 @@ export function jsNormAiMove(raw: Record<string, unknown>): NormAiMoveResult {
   };
 }
 
+function jsNormLine(raw: Record<string, unknown>): NormAnalysisLine {
+  return {
+    evaluation: (raw.evaluation as number) ?? 0,
+    mate: raw.mate as number | undefined,
+    pv: ((raw.pv as Record<string, unknown>[] | undefined) ?? []).map(jsNormMove),
+    depth: raw.depth as number | undefined,
+  };
+}
+
 export function jsNormAnalysis(raw: Record<string, unknown>): NormAnalysis {
+  const lines = (raw.lines as Record<string, unknown>[] | undefined)?.map(jsNormLine);
   return {
     evaluation: (raw.evaluation as number) ?? 0,
-    bestMove: raw.bestMove ? jsNormMove(raw.bestMove as Record<string, unknown>) : undefined,
+    bestMove: raw.bestMove
+      ? jsNormMove(raw.bestMove as Record<string, unknown>)
+      : lines?.[0]?.pv[0],
     depth: raw.depth as number | undefined,
+    mate: raw.mate as number | undefined,
+    pv: raw.pv ? (raw.pv as Record<string, unknown>[]).map(jsNormMove) : lines?.[0]?.pv,
+    lines,
+    nodes: raw.nodes as number | undefined,
   };
 }
 
@@ -365,36 +504,52 @@ export interface BackendAdapter {
   /** Path prefix (no trailing slash) */
   apiPrefix: string;
   normGame: (raw: Record<string, unknown>) => NormGameState;
+  normGameList: (raw: unknown) => NormGameState[];
   normLegalMoves: (raw: Record<string, unknown>) => NormLegalMove[];
   normAiMove: (raw: Record<string, unknown>) => NormAiMoveResult;
   normAnalysis: (raw: Record<string, unknown>) => NormAnalysis;
   /** Field name for difficulty in AI move request */
   aiDifficultyField: string;
+  /** Query parameter for the number of analysis lines */
+  multiPvParam: string;
+  /** WebSocket path of a game's event stream, for backends that stream */
+  streamPath?: (gameId: string) => string;
+  normEvent?: (raw: Record<string, unknown>) => NormGameEvent | null;
 }
 
 export const ADAPTERS: Record<string, BackendAdapter> = {
   rust: {
     apiPrefix: '/api',
     normGame: rustNormGame,
+    normGameList: rustNormGameList,
     normLegalMoves: rustNormLegalMoves,
     normAiMove: rustNormAiMove,
     normAnalysis: rustNormAnalysis,
     aiDifficultyField: 'difficulty',
+    multiPvParam: 'multiPv',
+    streamPath: (gameId) => `/games/${gameId}/ws`,
+    normEvent: rustNormEvent,
   },
   go: {
     apiPrefix: '/api',
     normGame: goNormGame,
+    normGameList: goNormGameList,
     normLegalMoves: goNormLegalMoves,
     normAiMove: goNormAiMove,
     normAnalysis: goNormAnalysis,
     aiDifficultyField: 'level',
+    multiPvParam: 'multi_pv',
+    streamPath: (gameId) => `/ws/games/${gameId}`,
+    normEvent: goNormEvent,
   },
   js: {
     apiPrefix: '/api/v1',
     normGame: jsNormGame,
+    normGameList: jsNormGameList,
     normLegalMoves: jsNormLegalMoves,
     normAiMove: jsNormAiMove,
     normAnalysis: jsNormAnalysis,
     aiDifficultyField: 'difficulty',
+    multiPvParam: 'multiPv',
   },
 };
@@ -13,6 +13,12 @@ export type {
   NormLegalMove,
   NormAiMoveResult,
   NormAnalysis,
+  NormAnalysisLine,
+  AnalysisRequest,
+  NormGameEvent,
+  GameStreamStatus,
+  GameStreamHandlers,
+  GameSubscription,
   PlayerColor,
   GameStatusNorm,
   ProviderCapabilities,
@@ -20,5 +26,7 @@ export type {
 
 export { BACKEND_PRESETS } from './types';
 export { LocalProvider } from './LocalProvider';
-export { RemoteProvider } from './RemoteProvider';
+export { RemoteProvider, ApiError } from './RemoteProvider';
+export type { ApiErrorKind, RemoteProviderOptions } from './RemoteProvider';
+export { GameStream } from './GameStream';
 export { BackendProvider, useBackend } from './BackendContext';
@@ -107,15 +107,63 @@ export interface NormLegalMove {
 export interface NormAiMoveResult {
   move: NormMove;
   game: NormGameState;
+  /** Same scale and point of view as NormAnalysis.evaluation */
   evaluation?: number;
   thinkingTimeMs?: number;
   depth?: number;
 }
 
+export interface NormAnalysisLine {
+  /** Same scale and point of view as NormAnalysis.evaluation */
+  evaluation: number;
+  /** Moves to mate: positive when white mates, negative when black does */
+  mate?: number;
+  /** Principal variation, starting with the line's first move */
+  pv: NormMove[];
+  depth?: number;
+}
+
 export interface NormAnalysis {
+  /** Pawns, from white's point of view */
   evaluation: number;
   bestMove?: NormMove;
   depth?: number;
+  /** Moves to mate in the best line, as in NormAnalysisLine */
+  mate?: number;
+  /** Principal variation of the best line */
+  pv?: NormMove[];
+  /** Best lines first (multi-PV); the first matches evaluation and bestMove */
+  lines?: NormAnalysisLine[];
+  nodes?: number;
+}
+
+// ---------------------------------------------------------------------------
+// Game streaming
+// ---------------------------------------------------------------------------
+
+/** An update the server pushes about a subscribed game */
+export type NormGameEvent =
+  /** A move was played, by either side or the server's AI */
+  | { type: 'move'; move: NormMove; game: NormGameState }
+  /** The game changed some other way (undo, FEN load), or a snapshot on connect */
+  | { type: 'state'; game: NormGameState }
+  /** The server's AI is searching; evaluation as in NormAnalysis */
+  | { type: 'thinking'; depth?: number; nodes?: number; evaluation?: number; bestMove?: NormMove }
+  | { type: 'clock'; whiteMs: number; blackMs: number }
+  /** Game over; `reason` is 'timeout' when a flag fell, which the board cannot show */
+  | { type: 'gameOver'; result: string; reason?: string; game?: NormGameState };
+
+export type GameStreamStatus = 'connecting' | 'open' | 'closed';
+
+export interface GameStreamHandlers {
+  onEvent: (event: NormGameEvent) => void;
+  /** Connection changes; 'open' again after a reconnect means events may have been missed */
+  onStatus?: (status: GameStreamStatus) => void;
+}
+
+/** A live subscription to a game's events */
+export interface GameSubscription {
+  close(): void;
 }
 
 // ---------------------------------------------------------------------------
@@ -167,6 +215,9 @@ export interface ChessProvider {
   /** Delete a game */
   deleteGame(gameId: string): Promise<void>;
 
+  /** Games the backend currently holds */
+  listGames(): Promise<NormGameState[]>;
+
   // -- Moves ----------------------------------------------------------------
 
   /** Make a move */
@@ -195,7 +246,12 @@ export interface ChessProvider {
   getPgn(gameId: string): Promise<string>;
 
   /** Get position analysis */
-  getAnalysis(gameId: string, depth?: number): Promise<NormAnalysis>;
+  getAnalysis(gameId: string, depth?: number, options?: AnalysisRequest): Promise<NormAnalysis>;
+
+  // -- Streaming ------------------------------------------------------------
+
+  /** Subscribe to a game's pushed events (throws unless capabilities.websocket) */
+  subscribe(gameId: string, handlers: GameStreamHandlers): GameSubscription;
 
   // -- Cleanup --------------------------------------------------------------
 
@@ -203,6 +259,20 @@ export interface ChessProvider {
   dispose(): void;
 }
 
+// ---------------------------------------------------------------------------
+// Analysis options
+// ---------------------------------------------------------------------------
+
+export interface AnalysisRequest {
+  /** Number of lines wanted (multi-PV); backends may return fewer */
+  lines?: number;
+  /** Time to spend, for engines that keep refining until stopped */
+  timeLimitMs?: number;
+  /** Called with each refinement before the final analysis resolves */
+  onUpdate?: (analysis: NormAnalysis) => void;
+  signal?: AbortSignal;
+}
+
 // ---------------------------------------------------------------------------
 // Create-game options
 // ---------------------------------------------------------------------------
@@ -213,5 +283,7 @@ export interface CreateGameOptions {
   fen?: string;
   aiEnabled?: boolean;
   aiDifficulty?: string;
+  /** AI playing style (see Personality); backends without styles ignore it */
+  aiPersonality?: string;
   aiColor?: PlayerColor;
 }
@@ -0,0 +1,269 @@
+import {
+  ChessAI,
+  type AnalysisOptions,
+  type AnalysisProgress,
+  type AnalysisResult,
+  type SearchMove,
+  type SearchOptions,
+  type SearchProgress,
+  type SearchResult,
+} from './ChessAI';
+import { ChessEngine } from './ChessEngine';
+import type { TablebaseData, TablebaseMaterial } from './Tablebase';
+
+// ---------------------------------------------------------------------------
+// Worker message protocol
+// ---------------------------------------------------------------------------
+
+// Tablebases the worker builds are sent back and handed to its replacement,
+// so restarting the worker to stop a search doesn't throw them away
+export type AIWorkerRequest =
+  | { type: 'search'; id: number; fen: string; options: SearchOptions }
+  | { type: 'analyze'; id: number; fen: string; options: AnalysisOptions }
+  | { type: 'tables'; tables: TablebaseData[] };
+
+export type AIWorkerResponse =
+  | { type: 'tables'; tables: TablebaseData[] }
+  | { type: 'progress'; id: number; progress: SearchProgress }
+  | { type: 'result'; id: number; result: SearchResult }
+  | { type: 'analysis-progress'; id: number; progress: AnalysisProgress }
+  | { type: 'analysis'; id: number; result: AnalysisResult }
+  | { type: 'error'; id: number; message: string };
+
+// ---------------------------------------------------------------------------
+// Service
+// ---------------------------------------------------------------------------
+
+export interface AISearchRequest {
+  fen: string;
+  options: SearchOptions;
+  onProgress?: (progress: SearchProgress) => void;
+  /** Aborting rejects the search with AISearchAbortedError */
+  signal?: AbortSignal;
+}
+
+export interface AIAnalysisRequest {
+  fen: string;
+  options: AnalysisOptions;
+  /** Called with the lines after every completed depth */
+  onProgress?: (progress: AnalysisProgress) => void;
+  /** Aborting rejects the analysis with AISearchAbortedError */
+  signal?: AbortSignal;
+}
+
+export class AISearchAbortedError extends Error {
+  constructor() {
+    super('AI search aborted');
+    this.name = 'AISearchAbortedError';
+  }
+}
+
+type PendingSearch = { id: number; reject: (err: Error) => void } & (
+  | { type: 'search'; request: AISearchRequest; resolve: (result: SearchResult) => void }
+  | { type: 'analyze'; request: AIAnalysisRequest; resolve: (result: AnalysisResult) => void }
+);
+
+/**
+ * Runs ChessAI searches in a Web Worker so deep searches don't block the UI
+ * or the clocks. Where workers are unavailable (tests, SSR) the search runs
+ * on the calling thread instead. The worker gets one job at a time, so a
+ * queued job can be cancelled without disturbing the one that is running.
+ */
+export class AIService {
+  private static workerPromise: Promise<Worker | null> | null = null;
+  /** Jobs not yet settled, oldest first */
+  private static pending = new Map<number, PendingSearch>();
+  private static nextId = 1;
+  /** The job given to the worker (or being run), and whether it was posted yet */
+  private static running: { id: number; posted: boolean } | null = null;
+  /** Tablebases the worker has built, restored into a restarted worker */
+  private static tables = new Map<TablebaseMaterial, TablebaseData>();
+
+  /**
+   * Search a position. Progress is streamed to `onProgress` while the search
+   * runs; the promise settles with the final result. Book moves are answered
+   * on the calling thread, so a book set with ChessAI.setOpeningBook applies.
+   */
+  static search(request: AISearchRequest): Promise<SearchResult> {
+    if (request.signal?.aborted) return Promise.reject(new AISearchAbortedError());
+    if (request.options.useBook !== false) {
+      const bestMove = this.bookMove(request);
+      if (bestMove) {
+        return Promise.resolve({
+          depth: 0,
+          nodes: 0,
+          bestMove,
+          score: 0,
+          elapsedMs: 0,
+          fromBook: true,
+        });
+      }
+      request = { ...request, options: { ...request.options, useBook: false } };
+    }
+    return new Promise((resolve, reject) => {
+      this.enqueue({ type: 'search', id: this.nextId++, request, resolve, reject });
+    });
+  }
+
+  /**
+   * Analyse a position for its best lines (see ChessAI.analyze). The lines
+   * are streamed to `onProgress` as the analysis deepens; abort the signal
+   * to stop it early.
+   */
+  static analyze(request: AIAnalysisRequest): Promise<AnalysisResult> {
+    if (request.signal?.aborted) return Promise.reject(new AISearchAbortedError());
+    return new Promise((resolve, reject) => {
+      this.enqueue({ type: 'analyze', id: this.nextId++, request, resolve, reject });
+    });
+  }
+
+  /** Abort every running search, e.g. when the game is reset or the backend changes */
+  static cancelAll(): void {
+    const jobs = [...this.pending.values()];
+    this.pending.clear();
+    for (const job of jobs) job.reject(new AISearchAbortedError());
+    this.restartWorker();
+  }
+
+  // -- internals ------------------------------------------------------------
+
+  private static enqueue(job: PendingSearch): void {
+    this.pending.set(job.id, job);
+    job.request.signal?.addEventListener('abort', () => this.abort(job.id), { once: true });
+    void this.dispatchNext();
+  }
+
+  private static getWorker(): Promise<Worker | null> {
+    if (!this.workerPromise) {
+      // The worker module uses import.meta, so it is only loaded where Worker exists
+      this.workerPromise =
+        typeof Worker === 'undefined'
+          ? Promise.resolve(null)
+          : import('./createAIWorker')
+              .then(({ createAIWorker }) => {
+                const worker = createAIWorker();
+                worker.addEventListener('message', (e: MessageEvent<AIWorkerResponse>) =>
+                  this.handleMessage(e.data)
+                );
+                worker.addEventListener('error', (e) => this.handleCrash(e.message));
+                if (this.tables.size) {
+                  const request: AIWorkerRequest = {
+                    type: 'tables',
+                    tables: [...this.tables.values()],
+                  };
+                  worker.postMessage(request);
+                }
+                return worker;
+              })
+              .catch(() => null);
+    }
+    return this.workerPromise;
+  }
+
+  /** Start the oldest waiting job once the previous one has settled */
+  private static async dispatchNext(): Promise<void> {
+    if (this.running) return;
+    const job = this.pending.values().next().value;
+    if (!job) return;
+    const running = { id: job.id, posted: false };
+    this.running = running;
+    const workerPromise = this.getWorker();
+    const worker = await workerPromise;
+    // Aborted while loading, or the worker was restarted (which dispatches again)
+    if (this.running !== running || workerPromise !== this.workerPromise) return;
+    if (!worker) {
+      this.runInThread(job);
+      return;
+    }
+    running.posted = true;
+    const message: AIWorkerRequest =
+      job.type === 'search'
+        ? { type: 'search', id: job.id, fen: job.request.fen, options: job.request.options }
+        : { type: 'analyze', id: job.id, fen: job.request.fen, options: job.request.options };
+    worker.postMessage(message);
+  }
+
+  private static bookMove({ fen, options }: AISearchRequest): SearchMove | null {
+    try {
+      return ChessAI.bookMove(new ChessEngine(fen), options.level);
+    } catch {
+      return null; // Invalid positions are left for the search to report
+    }
+  }
+
+  private static runInThread(job: PendingSearch): void {
+    try {
+      const engine = new ChessEngine(job.request.fen);
+      if (job.type === 'search') {
+        const result = ChessAI.search(engine, job.request.options, job.request.onProgress);
+        if (this.settle(job.id)) job.resolve(result);
+      } else {
+        const result = ChessAI.analyze(engine, job.request.options, job.request.onProgress);
+        if (this.settle(job.id)) job.resolve(result);
+      }
+    } catch (err) {
+      this.settle(job.id)?.reject(err instanceof Error ? err : new Error(String(err)));
+    }
+  }
+
+  private static handleMessage(message: AIWorkerResponse): void {
+    if (message.type === 'tables') {
+      for (const table of message.tables) this.tables.set(table.material, table);
+      return;
+    }
+    const job = this.pending.get(message.id);
+    if (!job) return;
+    if (message.type === 'error') {
+      this.settle(message.id);
+      job.reject(new Error(message.message));
+    } else if (message.type === 'progress' && job.type === 'search') {
+      job.request.onProgress?.(message.progress);
+    } else if (message.type === 'analysis-progress' && job.type === 'analyze') {
+      job.request.onProgress?.(message.progress);
+    } else if (message.type === 'result' && job.type === 'search') {
+      this.settle(message.id);
+      job.resolve(message.result);
+    } else if (message.type === 'analysis' && job.type === 'analyze') {
+      this.settle(message.id);
+      job.resolve(message.result);
+    }
+  }
+
+  private static handleCrash(reason: string): void {
+    const jobs = [...this.pending.values()];
+    this.pending.clear();
+    for (const job of jobs) job.reject(new Error(`AI worker failed: ${reason}`));
+    this.restartWorker();
+  }
+
+  private static abort(id: number): void {
+    const busy = this.running?.id === id && this.running.posted;
+    if (busy) this.running = null;
+    const job = this.settle(id);
+    if (!job) return;
+    job.reject(new AISearchAbortedError());
+    // The search loop is synchronous inside the worker, so terminating is the
+    // only way to stop it; a job still waiting is just dropped
+    if (busy) this.restartWorker();
+  }
+
+  private static restartWorker(): void {
+    const previous = this.workerPromise;
+    this.workerPromise = null;
+    this.running = null;
+    void previous?.then((worker) => worker?.terminate());
+    void this.dispatchNext();
+  }
+
+  private static settle(id: number): PendingSearch | undefined {
+    const job = this.pending.get(id);
+    this.pending.delete(id);
+    if (this.running?.id === id) {
+      this.running = null;
+      void this.dispatchNext();
+    }
+    return job;
+  }
+}
+
+export default AIService;
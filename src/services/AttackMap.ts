@@ -0,0 +1,240 @@
+import type {
+  Color,
+  Piece as ChessPiece,
+  PieceType,
+  Square as ChessSquare,
+} from '@rumenx/chess/types';
+import {
+  KING_STEPS,
+  KNIGHT_STEPS,
+  onBoard,
+  toCoords,
+  toSquare,
+  type Step,
+} from '../utils/boardGeometry';
+
+/** Board as returned by ChessEngine.getBoard (row 0 = rank 1) */
+export type BoardGrid = (ChessPiece | null)[][];
+
+export interface Attacker {
+  square: ChessSquare;
+  piece: ChessPiece;
+  /**
+   * Pinned to its own king along a line the target is not on: it still
+   * attacks the square (the enemy king may not step there) but cannot
+   * capture on it
+   */
+  pinned: boolean;
+}
+
+/** A slider lined up on a square behind exactly one other piece */
+export interface XRayAttacker {
+  square: ChessSquare;
+  piece: ChessPiece;
+  /** The piece in between */
+  through: ChessSquare;
+}
+
+/** A piece that may not leave the line between its king and an enemy slider */
+export interface Pin {
+  square: ChessSquare;
+  piece: ChessPiece;
+  pinnedBy: ChessSquare;
+  king: ChessSquare;
+}
+
+export interface ThreatenedPiece {
+  square: ChessSquare;
+  piece: ChessPiece;
+  attackers: Attacker[];
+  defenders: Attacker[];
+  /** Attacked with no defender, or attacked by something worth less */
+  hanging: boolean;
+}
+
+/** Exchange values for judging whether an attacked piece is hanging */
+export const EXCHANGE_VALUES: Record<PieceType, number> = {
+  pawn: 1,
+  knight: 3,
+  bishop: 3,
+  rook: 5,
+  queen: 9,
+  king: 100,
+};
+
+export const opponent = (color: Color): Color => (color === 'white' ? 'black' : 'white');
+
+/** Whether a piece of this type slides along `step` */
+function slidesAlong(type: PieceType, step: Step): boolean {
+  const diagonal = step[0] !== 0 && step[1] !== 0;
+  return type === 'queen' || type === (diagonal ? 'bishop' : 'rook');
+}
+
+/** The first two pieces met walking from a square, with their coordinates */
+function firstTwo(board: BoardGrid, row: number, col: number, [dr, dc]: Step) {
+  const found: { row: number; col: number; piece: ChessPiece }[] = [];
+  for (let r = row + dr, c = col + dc; onBoard(r, c) && found.length < 2; r += dr, c += dc) {
+    const piece = board[r][c];
+    if (piece) found.push({ row: r, col: c, piece });
+  }
+  return found;
+}
+
+/**
+ * Square control computed from the board alone: which pieces attack and
+ * defend a square, absolute pins, x-rays through one piece, and pieces left
+ * en prise. En passant is ignored, as attacks on squares usually are.
+ */
+export class AttackMap {
+  /** Pieces of `byColor` attacking `square`, pinned ones flagged */
+  static attackers(board: BoardGrid, square: ChessSquare, byColor: Color): Attacker[] {
+    const [row, col] = toCoords(square);
+    const found: { square: ChessSquare; piece: ChessPiece }[] = [];
+    const at = (r: number, c: number, types: PieceType[]) => {
+      const piece = onBoard(r, c) ? board[r][c] : null;
+      if (piece && piece.color === byColor && types.includes(piece.type)) {
+        found.push({ square: toSquare(r, c), piece });
+      }
+    };
+
+    // A white pawn attacks upwards, so it sits a row below the square
+    const pawnRow = byColor === 'white' ? row - 1 : row + 1;
+    at(pawnRow, col - 1, ['pawn']);
+    at(pawnRow, col + 1, ['pawn']);
+    for (const [dr, dc] of KNIGHT_STEPS) at(row + dr, col + dc, ['knight']);
+    for (const [dr, dc] of KING_STEPS) at(row + dr, col + dc, ['king']);
+    for (const step of KING_STEPS) {
+      const [first] = firstTwo(board, row, col, step);
+      if (first && first.piece.color === byColor && slidesAlong(first.piece.type, step)) {
+        found.push({ square: toSquare(first.row, first.col), piece: first.piece });
+      }
+    }
+
+    const pins = this.pins(board, byColor);
+    return found.map((attacker) => {
+      const pin = pins.find((p) => p.square === attacker.square);
+      return { ...attacker, pinned: !!pin && !this.onPinLine(pin, square) };
+    });
+  }
+
+  /** Squares the piece on `square` attacks, occupied or not; none for an empty square */
+  static attackedFrom(board: BoardGrid, square: ChessSquare): ChessSquare[] {
+    const [row, col] = toCoords(square);
+    const piece = board[row][col];
+    if (!piece) return [];
+    const targets: ChessSquare[] = [];
+    const jump = (steps: readonly Step[]) => {
+      for (const [dr, dc] of steps) {
+        if (onBoard(row + dr, col + dc)) targets.push(toSquare(row + dr, col + dc));
+      }
+    };
+    if (piece.type === 'pawn') {
+      const dr = piece.color === 'white' ? 1 : -1;
+      jump([
+        [dr, -1],
+        [dr, 1],
+      ]);
+    } else if (piece.type === 'knight') {
+      jump(KNIGHT_STEPS);
+    } else if (piece.type === 'king') {
+      jump(KING_STEPS);
+    } else {
+      for (const step of KING_STEPS.filter((s) => slidesAlong(piece.type, s))) {
+        for (let r = row + step[0], c = col + step[1]; onBoard(r, c); r += step[0], c += step[1]) {
+          targets.push(toSquare(r, c));
+          if (board[r][c]) break;
+        }
+      }
+    }
+    return targets;
+  }
+
+  /** Pieces of the occupant's colour guarding `square`; none for an empty square */
+  static defenders(board: BoardGrid, square: ChessSquare): Attacker[] {
+    const [row, col] = toCoords(square);
+    const piece = board[row][col];
+    return piece ? this.attackers(board, square, piece.color) : [];
+  }
+
+  /** Sliders of `byColor` that would attack `square` if one piece moved out of the way */
+  static xRayAttackers(board: BoardGrid, square: ChessSquare, byColor: Color): XRayAttacker[] {
+    const [row, col] = toCoords(square);
+    const xRays: XRayAttacker[] = [];
+    for (const step of KING_STEPS) {
+      const [first, second] = firstTwo(board, row, col, step);
+      if (!second || second.piece.color !== byColor || !slidesAlong(second.piece.type, step)) {
+        continue;
+      }
+      xRays.push({
+        square: toSquare(second.row, second.col),
+        piece: second.piece,
+        through: toSquare(first.row, first.col),
+      });
+    }
+    return xRays;
+  }
+
+  /** Pieces of `color` pinned to their own king */
+  static pins(board: BoardGrid, color: Color): Pin[] {
+    const king = this.findKing(board, color);
+    if (!king) return [];
+    const [row, col] = toCoords(king);
+    const pins: Pin[] = [];
+    for (const step of KING_STEPS) {
+      const [first, second] = firstTwo(board, row, col, step);
+      if (!second || first.piece.color !== color) continue;
+      if (second.piece.color === color || !slidesAlong(second.piece.type, step)) continue;
+      pins.push({
+        square: toSquare(first.row, first.col),
+        piece: first.piece,
+        pinnedBy: toSquare(second.row, second.col),
+        king,
+      });
+    }
+    return pins;
+  }
+
+  /** Pieces of `color` the opponent attacks, with whether each is hanging */
+  static threatenedPieces(board: BoardGrid, color: Color): ThreatenedPiece[] {
+    const threatened: ThreatenedPiece[] = [];
+    for (let row = 0; row < 8; row++) {
+      for (let col = 0; col < 8; col++) {
+        const piece = board[row][col];
+        if (!piece || piece.color !== color || piece.type === 'king') continue;
+        const square = toSquare(row, col);
+        const attackers = this.attackers(board, square, opponent(color)).filter((a) => !a.pinned);
+        if (!attackers.length) continue;
+        const defenders = this.attackers(board, square, color).filter((d) => !d.pinned);
+        const cheapest = Math.min(...attackers.map((a) => EXCHANGE_VALUES[a.piece.type]));
+        const hanging = !defenders.length || cheapest < EXCHANGE_VALUES[piece.type];
+        threatened.push({ square, piece, attackers, defenders, hanging });
+      }
+    }
+    return threatened;
+  }
+
+  static findKing(board: BoardGrid, color: Color): ChessSquare | null {
+    for (let row = 0; row < 8; row++) {
+      for (let col = 0; col < 8; col++) {
+        const piece = board[row][col];
+        if (piece?.type === 'king' && piece.color === color) return toSquare(row, col);
+      }
+    }
+    return null;
+  }
+
+  /** Whether `square` lies between the pinned piece's king and pinner, the pinner included */
+  private static onPinLine(pin: Pin, square: ChessSquare): boolean {
+    const [kr, kc] = toCoords(pin.king);
+    const [pr, pc] = toCoords(pin.pinnedBy);
+    const [sr, sc] = toCoords(square);
+    const dr = Math.sign(pr - kr);
+    const dc = Math.sign(pc - kc);
+    for (let r = kr + dr, c = kc + dc; r !== pr + dr || c !== pc + dc; r += dr, c += dc) {
+      if (r === sr && c === sc) return true;
+    }
+    return false;
+  }
+}
+
+export default AttackMap;
@@ -1,11 +1,211 @@
 import type { Move as ChessMove, Piece as ChessPiece } from '@rumenx/chess/types';
 import { ChessEngine } from './ChessEngine';
+import { EVAL_PROFILES, Evaluator, type EvalWeights } from './Evaluator';
+import { LineBook, pickBookMove, type OpeningBook } from './OpeningBook';
+import { OPENING_LINES } from './openingLines';
+import { Personality, type AIPersonality } from './Personality';
+import { CANDIDATE_MOVES, Strength, type ScoredMove, type StrengthProfile } from './Strength';
+import { Tablebase, type TablebaseMaterial, type TablebaseProbe } from './Tablebase';
+import { TranspositionTable } from './TranspositionTable';
+import { Zobrist, squareIndex } from './Zobrist';
+import { seededRandom } from '../utils/random';
+
+/** Serializable move, safe to post between threads */
+export interface SearchMove {
+  from: string;
+  to: string;
+  promotion?: string;
+  san?: string;
+}
+
+/** Clock of the side to move, used to keep the search from flagging */
+export interface SearchClock {
+  remainingMs: number;
+  incrementMs: number;
+}
+
+export interface SearchOptions {
+  level: AIDifficulty;
+  /** Search exactly this deep, ignoring the level's time and node budgets */
+  depth?: number;
+  /** Overrides the level's time budget */
+  timeLimitMs?: number;
+  /** Overrides the level's node budget */
+  nodeLimit?: number;
+  clock?: SearchClock;
+  /** Overrides the level's evaluation profile */
+  weights?: EvalWeights;
+  /** Consult the opening book before searching (default true) */
+  useBook?: boolean;
+  /** Play and score tablebase endgames perfectly (default true) */
+  useTablebase?: boolean;
+  /**
+   * Play at roughly this rating (see Strength): replaces the level's depth,
+   * budgets and evaluation, and sometimes picks a lesser move on purpose
+   */
+  elo?: number;
+  /** Playing style layered on the level or rating (see Personality) */
+  personality?: AIPersonality;
+  /** Seed for random move choices, for reproducible games */
+  seed?: number;
+}
+
+/** Limits for one search: iterative deepening stops at whichever is hit first */
+export interface SearchBudget {
+  maxDepth: number;
+  timeMs: number;
+  nodes: number;
+}
+
+export interface SearchProgress {
+  depth: number;
+  nodes: number;
+  bestMove: SearchMove | null;
+  /**
+   * Score of `bestMove` in centipawns for the side to move. Mates score
+   * ±(MATE_SCORE - plies to mate); see ChessAI.mateIn.
+   */
+  score: number;
+}
+
+export interface SearchResult extends SearchProgress {
+  elapsedMs: number;
+  /** The move came from the opening book rather than a search */
+  fromBook?: boolean;
+  /** The move came from an endgame tablebase; `score` is the exact distance to mate */
+  fromTablebase?: boolean;
+}
+
+export interface AnalysisOptions {
+  /** Number of best lines to report (multi-PV, default 3) */
+  lines?: number;
+  /** Stop after this depth (default: keep deepening until the time or node limit) */
+  depth?: number;
+  timeLimitMs?: number;
+  nodeLimit?: number;
+  /** Evaluation profile (default: the strongest level's) */
+  weights?: EvalWeights;
+}
+
+export interface AnalysisLine {
+  /** Score for the side to move, as in SearchProgress */
+  score: number;
+  /** Principal variation, starting with the line's first move */
+  pv: SearchMove[];
+}
+
+export interface AnalysisProgress {
+  depth: number;
+  nodes: number;
+  /** Best line first */
+  lines: AnalysisLine[];
+}
+
+export interface AnalysisResult extends AnalysisProgress {
+  elapsedMs: number;
+}
+
+function toSearchMove(move: ChessMove): SearchMove {
+  return { from: move.from, to: move.to, promotion: move.promotion, san: move.san };
+}
+
+/** Time and node budgets per level (depth caps come from depthForLevel) */
+const LEVEL_BUDGETS: Record<AIDifficulty, { timeMs: number; nodes: number }> = {
+  harmless: { timeMs: 0, nodes: 0 },
+  random: { timeMs: 0, nodes: 0 },
+  easy: { timeMs: 250, nodes: 5_000 },
+  medium: { timeMs: 750, nodes: 25_000 },
+  hard: { timeMs: 1_500, nodes: 100_000 },
+  expert: { timeMs: 3_000, nodes: 300_000 },
+  godlike: { timeMs: 6_000, nodes: 1_000_000 },
+};
+
+/**
+ * Opening book variety per level (see pickBookMove): weaker levels roam the
+ * whole book, stronger ones stick to the main lines. Levels without an entry
+ * play without a book.
+ */
+const BOOK_VARIETY: Partial<Record<AIDifficulty, number>> = {
+  easy: 1,
+  medium: 0.8,
+  hard: 0.6,
+  expert: 0.5,
+  godlike: 0.35,
+};
+
+/** Analysis runs until stopped by one of these limits */
+const ANALYSIS_BUDGET: SearchBudget = { maxDepth: 32, timeMs: 10_000, nodes: 5_000_000 };
+const DEFAULT_ANALYSIS_LINES = 3;
+
+/** Searches from positions with at most this many pieces probe the tablebases at every node */
+const TABLEBASE_PROBE_PIECES = 5;
+/**
+ * Tables built before such a search, quick enough not to hold it up. KBNK
+ * takes seconds, so it is only built once a game reaches it.
+ */
+const SEARCH_TABLEBASES: TablebaseMaterial[] = ['KQK', 'KRK', 'KPK'];
+
+/** Expected number of moves still to play when sharing out the clock */
+const MOVES_TO_GO = 30;
+/** Never think for less than this, however low the clock */
+const MIN_THINK_MS = 20;
+/** Nodes between clock checks */
+const LIMIT_CHECK_INTERVAL = 64;
+/** Quiescence search stops resolving captures this many plies past the horizon */
+const MAX_QUIESCENCE_PLY = 8;
+/** Checking moves are only searched on the first quiescence plies */
+const QUIESCENCE_CHECK_PLIES = 1;
+
+/** Score of being mated on the board; mate in n plies scores MATE_SCORE - n */
+export const MATE_SCORE = 100_000;
+/** Scores beyond this are mates */
+const MATE_THRESHOLD = MATE_SCORE - 1_000;
+
+/** Transposition table slots per search (2^16) */
+const TABLE_SIZE_BITS = 16;
+/** History scores are indexed by from/to square */
+const HISTORY_SIZE = 64 * 64;
+/** History scores are halved once one passes this, keeping them below killers */
+const HISTORY_LIMIT = 100_000;
+const ORDER_TABLE_MOVE = 1e9;
+const ORDER_CAPTURE = 1e7;
+const ORDER_KILLER = 1e6;
+
+const PROMOTION_CODES: Record<string, number> = { queen: 1, rook: 2, bishop: 3, knight: 4 };
+const PROMOTION_VALUES: Record<string, number> = {
+  queen: 900,
+  rook: 500,
+  bishop: 300,
+  knight: 300,
+};
+
+interface SearchContext {
+  nodes: number;
+  /** Set once a limit is hit; the unfinished iteration is discarded */
+  stopped: boolean;
+  /** Limits only apply once an iteration has produced a move */
+  enforceLimits: boolean;
+  deadline: number;
+  nodeLimit: number;
+  weights: EvalWeights;
+  table: TranspositionTable;
+  /** Up to two quiet moves per ply that recently caused a cut-off */
+  killers: number[][];
+  history: Int32Array;
+  /** Score positions found in the tablebases exactly */
+  tablebases: boolean;
+  /** Capture plies resolved past the horizon */
+  quiescencePlies: number;
+}
 
 /**
  * Simple AI opponent that makes random legal moves
  * This can be extended later with more sophisticated algorithms
  */
 export class ChessAI {
+  /** undefined until first use, when the bundled book is parsed */
+  private static openingBook: OpeningBook | null | undefined;
+
   /** Difficulty levels mapping to search depth (practical limits to keep UI responsive) */
   static depthForLevel(level: AIDifficulty): number {
     switch (level) {
@@ -27,6 +227,91 @@ export class ChessAI {
     }
   }
 
+  /** Depth cap plus time and node budgets for a difficulty level */
+  static budgetForLevel(level: AIDifficulty): SearchBudget {
+    const { timeMs, nodes } = LEVEL_BUDGETS[level] ?? LEVEL_BUDGETS.harmless;
+    return { maxDepth: this.depthForLevel(level), timeMs, nodes };
+  }
+
+  /**
+   * Fit a time budget to the clock: a share of the remaining time spread over
+   * the moves still to play plus most of the increment, and never more than a
+   * tenth of what is left.
+   */
+  static allocateTime(budgetMs: number, clock?: SearchClock): number {
+    if (!clock) return budgetMs;
+    const share = clock.remainingMs / MOVES_TO_GO + clock.incrementMs * 0.75;
+    return Math.max(MIN_THINK_MS, Math.min(budgetMs, share, clock.remainingMs / 10));
+  }
+
+  /**
+   * Moves until mate encoded in a search score: positive when the side the
+   * score belongs to mates, negative when it gets mated, null for no mate.
+   */
+  static mateIn(score: number): number | null {
+    if (Math.abs(score) < MATE_THRESHOLD) return null;
+    const plies = MATE_SCORE - Math.abs(score);
+    return Math.sign(score) * Math.ceil(plies / 2);
+  }
+
+  /** The book consulted before searching; defaults to the bundled opening lines */
+  static getOpeningBook(): OpeningBook | null {
+    if (this.openingBook === undefined) this.openingBook = LineBook.parse(OPENING_LINES);
+    return this.openingBook;
+  }
+
+  /**
+   * Replace the opening book, e.g. with an imported PolyglotBook; null
+   * disables it and undefined restores the bundled lines
+   */
+  static setOpeningBook(book: OpeningBook | null | undefined): void {
+    this.openingBook = book;
+  }
+
+  /**
+   * Pick a book move for the engine's position with the level's variety
+   * @returns A legal book move, or null when out of book or the level plays without one
+   */
+  static bookMove(
+    engine: ChessEngine,
+    level: AIDifficulty,
+    random: () => number = Math.random
+  ): SearchMove | null {
+    const variety = BOOK_VARIETY[level];
+    const book = variety === undefined ? null : this.getOpeningBook();
+    if (!book || variety === undefined) return null;
+
+    // Imported books may hold moves that are illegal here (hash collisions, bad data)
+    const legalMoves = engine.getLegalMoves();
+    const legalFor = (m: { from: string; to: string; promotion?: string }) =>
+      legalMoves.find(
+        (l) => l.from === m.from && l.to === m.to && (!m.promotion || l.promotion === m.promotion)
+      );
+    const candidates = book.movesFor(engine.getFEN()).filter((m) => legalFor(m));
+    const pick = pickBookMove(candidates, variety, random);
+    const move = pick && legalFor(pick);
+    return move ? toSearchMove(move) : null;
+  }
+
+  /**
+   * Perfect play from the endgame tablebases (see Tablebase)
+   * @returns The move with its exact score, or null outside the tables or in a drawn position
+   */
+  static tablebaseMove(engine: ChessEngine): { move: SearchMove; score: number } | null {
+    const hit = Tablebase.bestMove(engine.getFEN());
+    const best = hit?.result !== 'draw' && hit?.move;
+    if (!hit || !best) return null;
+    const move = engine
+      .getLegalMoves()
+      .find(
+        (m) =>
+          m.from === best.from &&
+          m.to === best.to &&
+          (!best.promotion || m.promotion === best.promotion)
+      );
+    return move ? { move: toSearchMove(move), score: this.tablebaseScore(hit, 0) } : null;
+  }
+
   /**
    * Select a random move from available legal moves
    * @param engine - The chess engine instance
@@ -63,44 +348,257 @@ export class ChessAI {
 
   /**
    * Compute best move for given difficulty without mutating game (except via temporary makes/undos).
-   * Uses a simple material evaluation and minimax with alpha-beta pruning.
+   * Uses the level's evaluation profile and minimax with alpha-beta pruning.
+   * Runs synchronously; UI code should go through AIService so the search runs in a worker.
    */
   static computeBestMove(engine: ChessEngine, level: AIDifficulty): ChessMove | null {
-    const depth = this.depthForLevel(level);
-    if (depth === 0) {
-      const legal = engine.getLegalMoves();
-      if (!legal.length) return null;
-      return legal[Math.floor(Math.random() * legal.length)];
+    return this.searchRoot(engine, { level }).move;
+  }
+
+  /**
+   * Play from the opening book or the endgame tablebases when the position is
+   * in them; otherwise search the engine's position with iterative deepening, reporting progress
+   * after every completed iteration. When the time or node budget runs out the
+   * best move of the last completed iteration is returned.
+   * @returns The best move with its score, the completed depth and the node count
+   */
+  static search(
+    engine: ChessEngine,
+    options: SearchOptions,
+    onProgress?: (progress: SearchProgress) => void
+  ): SearchResult {
+    const start = Date.now();
+    const strength = this.strengthFor(options);
+    // A rating plays the book of the nearest level
+    const level = strength ? Strength.levelFor(strength.elo) : options.level;
+    if (options.useBook !== false) {
+      const random = options.seed === undefined ? Math.random : seededRandom(options.seed);
+      const bookMove = this.bookMove(engine, level, random);
+      if (bookMove) {
+        const elapsedMs = Date.now() - start;
+        return { depth: 0, nodes: 0, bestMove: bookMove, score: 0, elapsedMs, fromBook: true };
+      }
+    }
+    const tablebases = options.useTablebase !== false && (strength?.tablebases ?? true);
+    if (tablebases && this.depthForLevel(level) > 0) {
+      const hit = this.tablebaseMove(engine);
+      if (hit) {
+        const elapsedMs = Date.now() - start;
+        const { move, score } = hit;
+        return { depth: 0, nodes: 0, bestMove: move, score, elapsedMs, fromTablebase: true };
+      }
+    }
+    const { move, ...progress } = this.searchRoot(engine, options, strength, onProgress);
+    return { ...progress, bestMove: move && toSearchMove(move), elapsedMs: Date.now() - start };
+  }
+
+  /**
+   * Analyse a position: iterative deepening that scores the best `lines`
+   * root moves exactly and follows each through the transposition table
+   * for its principal variation. Progress is reported after every depth, so
+   * callers can show the lines refining while it runs.
+   */
+  static analyze(
+    engine: ChessEngine,
+    options: AnalysisOptions = {},
+    onProgress?: (progress: AnalysisProgress) => void
+  ): AnalysisResult {
+    const start = Date.now();
+    const lineCount = Math.max(1, options.lines ?? DEFAULT_ANALYSIS_LINES);
+    const maxDepth = options.depth ?? ANALYSIS_BUDGET.maxDepth;
+    const legalMoves = engine.getLegalMoves();
+    const ctx: SearchContext = {
+      nodes: 0,
+      stopped: false,
+      enforceLimits: false,
+      deadline: start + (options.timeLimitMs ?? ANALYSIS_BUDGET.timeMs),
+      nodeLimit: options.nodeLimit ?? ANALYSIS_BUDGET.nodes,
+      weights: options.weights ?? EVAL_PROFILES.godlike,
+      table: new TranspositionTable(TABLE_SIZE_BITS),
+      killers: [],
+      history: new Int32Array(HISTORY_SIZE),
+      tablebases: false,
+      quiescencePlies: MAX_QUIESCENCE_PLY,
+    };
+    const maximizingColor = engine.getTurn();
+
+    let ordered = this.orderMoves(legalMoves, null, 0, ctx);
+    let result: AnalysisProgress = { depth: 0, nodes: 0, lines: [] };
+    for (let depth = 1; depth <= maxDepth && legalMoves.length; depth++) {
+      const iteration = this.searchDepth(engine, ordered, depth, maximizingColor, ctx, lineCount);
+      if (ctx.stopped || !iteration.move) break;
+      const best = [...iteration.scores].sort((a, b) => b.score - a.score).slice(0, lineCount);
+      result = {
+        depth,
+        nodes: ctx.nodes,
+        lines: best.map(({ move, score }) => ({
+          score,
+          pv: this.principalVariation(engine, move, depth, ctx),
+        })),
+      };
+      onProgress?.(result);
+      // The best lines so far are searched first next time
+      const first = best.map(({ move }) => move);
+      ordered = [...first, ...ordered.filter((m) => !first.includes(m))];
+      ctx.enforceLimits = true;
     }
+    return { ...result, nodes: ctx.nodes, elapsedMs: Date.now() - start };
+  }
 
-    // Soft safeguard: cap effective depth if move count explodes to avoid UI freeze
+  /** The strength profile for an `elo` search, weakened by a short clock */
+  private static strengthFor(options: SearchOptions): StrengthProfile | null {
+    if (options.elo === undefined) return null;
+    return Strength.underPressure(Strength.forElo(options.elo), options.clock);
+  }
+
+  /** Explicit weights win; otherwise the rating's or level's, reshaped by the personality */
+  private static weightsFor(options: SearchOptions, strength: StrengthProfile | null): EvalWeights {
+    if (options.weights) return options.weights;
+    const base = strength?.weights ?? EVAL_PROFILES[options.level] ?? EVAL_PROFILES.medium;
+    return options.personality ? Personality.weights(base, options.personality) : base;
+  }
+
+  private static searchRoot(
+    engine: ChessEngine,
+    options: SearchOptions,
+    strength: StrengthProfile | null = this.strengthFor(options),
+    onProgress?: (progress: SearchProgress) => void
+  ): { move: ChessMove | null; score: number; depth: number; nodes: number } {
+    const budget = strength ?? this.budgetForLevel(options.level);
+    const maxDepth = options.depth ?? budget.maxDepth;
+    const random = options.seed === undefined ? Math.random : seededRandom(options.seed);
     const legalMoves = engine.getLegalMoves();
-    let effectiveDepth = depth;
-    if (legalMoves.length > 60 && effectiveDepth > 3) {
-      effectiveDepth = 3; // emergency throttle
+    if (maxDepth === 0 || !legalMoves.length) {
+      const move = legalMoves.length ? legalMoves[Math.floor(random() * legalMoves.length)] : null;
+      return { move, score: 0, depth: 0, nodes: 0 };
     }
 
+    const pieces = engine
+      .getBoard()
+      .reduce((count, row) => count + row.filter((piece) => piece).length, 0);
+    const tablebases =
+      options.useTablebase !== false &&
+      (strength?.tablebases ?? true) &&
+      pieces <= TABLEBASE_PROBE_PIECES;
+    if (tablebases) SEARCH_TABLEBASES.forEach((material) => Tablebase.generate(material));
+
+    const fixedDepth = options.depth !== undefined;
+    const timeMs = this.allocateTime(options.timeLimitMs ?? budget.timeMs, options.clock);
+    const ctx: SearchContext = {
+      nodes: 0,
+      stopped: false,
+      enforceLimits: false,
+      deadline: fixedDepth && options.timeLimitMs === undefined ? Infinity : Date.now() + timeMs,
+      nodeLimit:
+        fixedDepth && options.nodeLimit === undefined
+          ? Infinity
+          : (options.nodeLimit ?? budget.nodes),
+      weights: this.weightsFor(options, strength),
+      table: new TranspositionTable(TABLE_SIZE_BITS),
+      killers: [],
+      history: new Int32Array(HISTORY_SIZE),
+      tablebases,
+      quiescencePlies: strength?.quiescencePlies ?? MAX_QUIESCENCE_PLY,
+    };
     const maximizingColor = engine.getTurn();
 
+    // A weakened or styled engine needs exact scores for the root moves it may choose among
+    const temperature = (strength?.temperature ?? 0) + Personality.temperature(options.personality);
+    const lines = temperature > 0 ? CANDIDATE_MOVES : 1;
+    let ordered = this.orderMoves(legalMoves, null, 0, ctx);
+    let best: {
+      move: ChessMove | null;
+      score: number;
+      depth: number;
+      scores: ScoredMove<ChessMove>[];
+    } = { move: null, score: 0, depth: 0, scores: [] };
+    for (let depth = 1; depth <= maxDepth; depth++) {
+      const iteration = this.searchDepth(engine, ordered, depth, maximizingColor, ctx, lines);
+      if (ctx.stopped || !iteration.move) break;
+      best = { ...iteration, depth };
+      onProgress?.({
+        depth,
+        nodes: ctx.nodes,
+        bestMove: toSearchMove(iteration.move),
+        score: iteration.score,
+      });
+      // Searching the previous best move first makes the next iteration prune more
+      ordered = [iteration.move, ...ordered.filter((m) => m !== iteration.move)];
+      ctx.enforceLimits = true;
+    }
+    if (temperature > 0) {
+      const pick = Strength.pickMove(best.scores, temperature, random);
+      if (pick) best = { ...best, move: pick.move, score: pick.score };
+    }
+    return { move: best.move, score: best.score, depth: best.depth, nodes: ctx.nodes };
+  }
+
+  /**
+   * One fixed-depth iteration over the root moves. The best `lines` moves are
+   * scored exactly; the rest only need to prove they can't displace them.
+   */
+  private static searchDepth(
+    engine: ChessEngine,
+    moves: ChessMove[],
+    depth: number,
+    maximizingColor: 'white' | 'black',
+    ctx: SearchContext,
+    lines: number = 1
+  ): { move: ChessMove | null; score: number; scores: ScoredMove<ChessMove>[] } {
     let bestMove: ChessMove | null = null;
     let bestScore = -Infinity;
-    // Basic ordering: prioritize captures (bigger swing first) for pruning efficiency at harder levels
-    const ordered = [...legalMoves].sort((a, b) => {
-      const aCap = a.captured ? ChessAI.captureValue(a) : 0;
-      const bCap = b.captured ? ChessAI.captureValue(b) : 0;
-      return bCap - aCap;
-    });
-    for (const move of ordered) {
+    const scores: ScoredMove<ChessMove>[] = [];
+    for (const move of moves) {
       const applied = engine.makeMove(move.from, move.to, move.promotion);
       if (!applied) continue;
-      const score = this.minimax(engine, effectiveDepth - 1, -Infinity, Infinity, maximizingColor);
+      ctx.nodes++;
+      // Moves that can't beat the last of the best lines so far only need to prove that much
+      const alpha =
+        scores.length < lines
+          ? -Infinity
+          : scores.map((s) => s.score).sort((a, b) => b - a)[lines - 1];
+      const score = this.minimax(engine, depth - 1, alpha, Infinity, maximizingColor, ctx, 1);
       engine.undo();
-      if (score > bestScore) {
+      if (ctx.stopped) break;
+      scores.push({ move, score });
+      if (score > bestScore || !bestMove) {
         bestScore = score;
         bestMove = move;
       }
     }
-    return bestMove;
+    return { move: bestMove, score: bestScore, scores };
+  }
+
+  /**
+   * Follow the transposition table's best moves from `first` for up to
+   * `length` plies, stopping at a missing entry, an illegal move or a repetition
+   */
+  private static principalVariation(
+    engine: ChessEngine,
+    first: ChessMove,
+    length: number,
+    ctx: SearchContext
+  ): SearchMove[] {
+    const pv = [toSearchMove(first)];
+    engine.makeMove(first.from, first.to, first.promotion);
+    const seen = new Set<number>();
+    while (pv.length < length) {
+      const key = Zobrist.hash(engine);
+      const tableMove = ctx.table.probe(key)?.bestMove;
+      if (tableMove === undefined || tableMove === null || seen.has(key)) break;
+      seen.add(key);
+      const move = engine.getLegalMoves().find((m) => this.moveKey(m) === tableMove);
+      if (!move || !engine.makeMove(move.from, move.to, move.promotion)) break;
+      pv.push(toSearchMove(move));
+    }
+    for (let i = 0; i < pv.length; i++) engine.undo();
+    return pv;
+  }
+
+  /** Flag the search as stopped once its time or node budget is spent */
+  private static checkLimits(ctx: SearchContext): void {
+    if (!ctx.enforceLimits || ctx.nodes % LIMIT_CHECK_INTERVAL !== 0) return;
+    if (ctx.nodes >= ctx.nodeLimit || Date.now() >= ctx.deadline) ctx.stopped = true;
   }
 
   private static minimax(
@@ -108,65 +606,236 @@ export class ChessAI {
     depth: number,
     alpha: number,
     beta: number,
-    maximizingColor: 'white' | 'black'
+    maximizingColor: 'white' | 'black',
+    ctx: SearchContext,
+    ply: number
   ): number {
-    if (depth === 0 || engine.isGameOver()) {
-      return this.evaluate(engine, maximizingColor);
+    if (ctx.stopped) return 0;
+    if (ctx.tablebases) {
+      // Tables not built yet are skipped (see SEARCH_TABLEBASES)
+      const probe = Tablebase.probe(engine.getFEN(), false);
+      if (probe) {
+        const score = this.tablebaseScore(probe, ply);
+        return engine.getTurn() === maximizingColor ? score : -score;
+      }
+    }
+    if (depth === 0) {
+      return this.quiesce(engine, alpha, beta, maximizingColor, ctx, ply, 0);
+    }
+    if (engine.isGameOver()) {
+      return this.evaluate(engine, maximizingColor, ctx.weights, ply);
+    }
+
+    // A deep enough result for this position may settle the node outright
+    const key = Zobrist.hash(engine);
+    const entry = ctx.table.probe(key);
+    const alphaOrig = alpha;
+    const betaOrig = beta;
+    if (entry && entry.depth >= depth) {
+      const score = this.fromTableScore(entry.score, ply);
+      if (entry.bound === 'exact') return score;
+      if (entry.bound === 'lower') alpha = Math.max(alpha, score);
+      else beta = Math.min(beta, score);
+      if (alpha >= beta) return score;
     }
 
     const legalMoves = engine.getLegalMoves();
     if (legalMoves.length === 0) {
-      return this.evaluate(engine, maximizingColor);
+      return this.evaluate(engine, maximizingColor, ctx.weights, ply);
+    }
+
+    const isMaximizing = engine.getTurn() === maximizingColor;
+    let value = isMaximizing ? -Infinity : Infinity;
+    let bestMove: ChessMove | null = null;
+    for (const move of this.orderMoves(legalMoves, entry?.bestMove ?? null, ply, ctx)) {
+      const applied = engine.makeMove(move.from, move.to, move.promotion);
+      if (!applied) continue;
+      ctx.nodes++;
+      this.checkLimits(ctx);
+      const score = this.minimax(engine, depth - 1, alpha, beta, maximizingColor, ctx, ply + 1);
+      engine.undo();
+      if (ctx.stopped) return value;
+      if (isMaximizing ? score > value : score < value) {
+        value = score;
+        bestMove = move;
+      }
+      if (isMaximizing) alpha = Math.max(alpha, value);
+      else beta = Math.min(beta, value);
+      if (alpha >= beta) {
+        this.recordCutoff(move, depth, ply, ctx);
+        break;
+      }
+    }
+
+    // Scores are from maximizingColor's side at every node, so the bound
+    // follows from the original window whichever side is to move
+    if (bestMove) {
+      ctx.table.store(key, {
+        depth,
+        bound: value <= alphaOrig ? 'upper' : value >= betaOrig ? 'lower' : 'exact',
+        score: this.toTableScore(value, ply),
+        bestMove: this.moveKey(bestMove),
+      });
     }
+    return value;
+  }
 
-    const currentTurn = engine.getTurn();
-    const isMaximizing = currentTurn === maximizingColor;
+  /**
+   * Resolve captures (and, just past the horizon, checks) until the position
+   * is quiet, so the static evaluation never sees a piece left hanging. The
+   * side to move may "stand pat" on the static score unless it is in check.
+   */
+  private static quiesce(
+    engine: ChessEngine,
+    alpha: number,
+    beta: number,
+    maximizingColor: 'white' | 'black',
+    ctx: SearchContext,
+    ply: number,
+    qply: number
+  ): number {
+    if (ctx.stopped) return 0;
+    if (engine.isGameOver()) {
+      return this.evaluate(engine, maximizingColor, ctx.weights, ply);
+    }
 
-    if (isMaximizing) {
-      let value = -Infinity;
-      for (const move of legalMoves) {
-        const applied = engine.makeMove(move.from, move.to, move.promotion);
-        if (!applied) continue;
-        const childValue = this.minimax(engine, depth - 1, alpha, beta, maximizingColor);
-        engine.undo();
-        value = Math.max(value, childValue);
+    const isMaximizing = engine.getTurn() === maximizingColor;
+    const inCheck = engine.isInCheck();
+    let value = isMaximizing ? -Infinity : Infinity;
+    if (!inCheck || qply >= ctx.quiescencePlies) {
+      const standPat = this.evaluate(engine, maximizingColor, ctx.weights, ply);
+      if (qply >= ctx.quiescencePlies) return standPat;
+      value = standPat;
+      if (isMaximizing) alpha = Math.max(alpha, value);
+      else beta = Math.min(beta, value);
+      if (alpha >= beta) return value;
+    }
+
+    // In check every evasion is searched; otherwise only forcing moves
+    const moves = engine
+      .getLegalMoves()
+      .filter(
+        (m) =>
+          inCheck ||
+          m.captured ||
+          m.promotion ||
+          (qply < QUIESCENCE_CHECK_PLIES && (m.check || m.checkmate))
+      )
+      .sort((a, b) => ChessAI.mvvLva(b) - ChessAI.mvvLva(a));
+
+    for (const move of moves) {
+      const applied = engine.makeMove(move.from, move.to, move.promotion);
+      if (!applied) continue;
+      ctx.nodes++;
+      this.checkLimits(ctx);
+      const score = this.quiesce(engine, alpha, beta, maximizingColor, ctx, ply + 1, qply + 1);
+      engine.undo();
+      if (ctx.stopped) break;
+      if (isMaximizing) {
+        value = Math.max(value, score);
         alpha = Math.max(alpha, value);
-        if (alpha >= beta) break; // beta cut-off
-      }
-      return value;
-    } else {
-      let value = Infinity;
-      for (const move of legalMoves) {
-        const applied = engine.makeMove(move.from, move.to, move.promotion);
-        if (!applied) continue;
-        const childValue = this.minimax(engine, depth - 1, alpha, beta, maximizingColor);
-        engine.undo();
-        value = Math.min(value, childValue);
+      } else {
+        value = Math.min(value, score);
         beta = Math.min(beta, value);
-        if (alpha >= beta) break; // alpha cut-off
       }
-      return value;
+      if (alpha >= beta) break;
     }
+    return value;
   }
 
-  /** Simple material evaluation from perspective of maximizingColor */
-  private static evaluate(engine: ChessEngine, maximizingColor: 'white' | 'black'): number {
-    const board = engine.getBoard();
-    let score = 0;
-    for (const row of board) {
-      for (const piece of row) {
-        if (!piece) continue;
-        const value = this.pieceValue(piece);
-        score += piece.color === maximizingColor ? value : -value;
-      }
+  /**
+   * Order moves for alpha-beta: the transposition table's best move, then
+   * captures and promotions by MVV-LVA, then this ply's killer moves, then
+   * quiet moves by their history score.
+   */
+  private static orderMoves(
+    moves: ChessMove[],
+    tableMove: number | null,
+    ply: number,
+    ctx: SearchContext
+  ): ChessMove[] {
+    const killers = ctx.killers[ply] ?? [];
+    return moves
+      .map((move) => {
+        const key = this.moveKey(move);
+        let rank: number;
+        if (key === tableMove) rank = ORDER_TABLE_MOVE;
+        else if (move.captured || move.promotion) rank = ORDER_CAPTURE + this.mvvLva(move);
+        else if (key === killers[0]) rank = ORDER_KILLER;
+        else if (key === killers[1]) rank = ORDER_KILLER - 1;
+        else rank = ctx.history[key % HISTORY_SIZE];
+        return { move, rank };
+      })
+      .sort((a, b) => b.rank - a.rank)
+      .map(({ move }) => move);
+  }
+
+  /** Remember a quiet move that caused a cut-off as a killer and in the history table */
+  private static recordCutoff(move: ChessMove, depth: number, ply: number, ctx: SearchContext) {
+    if (move.captured || move.promotion) return;
+    const key = this.moveKey(move);
+    const killers = (ctx.killers[ply] ??= []);
+    if (killers[0] !== key) ctx.killers[ply] = [key, killers[0]];
+
+    const index = key % HISTORY_SIZE;
+    ctx.history[index] += depth * depth;
+    if (ctx.history[index] > HISTORY_LIMIT) {
+      for (let i = 0; i < HISTORY_SIZE; i++) ctx.history[i] >>= 1;
     }
-    // Basic game over bonuses
+  }
+
+  /** Most valuable victim first, least valuable attacker breaking ties */
+  private static mvvLva(move: ChessMove): number {
+    const promotion = move.promotion ? (PROMOTION_VALUES[move.promotion] ?? 0) : 0;
+    return this.captureValue(move) * 10 + promotion - this.pieceValue(move.piece) / 100;
+  }
+
+  /** Compact move id for the transposition table and killer/history tables */
+  private static moveKey(move: ChessMove): number {
+    const promotion = move.promotion ? (PROMOTION_CODES[move.promotion] ?? 0) : 0;
+    return promotion * 4096 + squareIndex(move.from) * 64 + squareIndex(move.to);
+  }
+
+  /** Tablebase result as a score for the side to move, `ply` plies from the root */
+  private static tablebaseScore({ result, dtm }: TablebaseProbe, ply: number): number {
+    if (result === 'draw') return 0;
+    const mate = MATE_SCORE - ply - dtm;
+    return result === 'win' ? mate : -mate;
+  }
+
+  // Mate scores are stored relative to the node so they stay valid at any ply
+  private static toTableScore(score: number, ply: number): number {
+    if (score >= MATE_THRESHOLD) return score + ply;
+    if (score <= -MATE_THRESHOLD) return score - ply;
+    return score;
+  }
+
+  private static fromTableScore(score: number, ply: number): number {
+    if (score >= MATE_THRESHOLD) return score - ply;
+    if (score <= -MATE_THRESHOLD) return score + ply;
+    return score;
+  }
+
+  /**
+   * Positional evaluation (see Evaluator) from perspective of maximizingColor.
+   * Mates score MATE_SCORE less the plies from the root, so nearer mates win
+   * out and a lost side prefers the longest defence.
+   */
+  private static evaluate(
+    engine: ChessEngine,
+    maximizingColor: 'white' | 'black',
+    weights: EvalWeights,
+    ply: number
+  ): number {
     if (engine.isGameOver()) {
+      const mate = MATE_SCORE - ply;
       const result = engine.getResult();
-      if (result === '1-0') return maximizingColor === 'white' ? Infinity : -Infinity;
-      if (result === '0-1') return maximizingColor === 'black' ? Infinity : -Infinity;
+      if (result === '1-0') return maximizingColor === 'white' ? mate : -mate;
+      if (result === '0-1') return maximizingColor === 'black' ? mate : -mate;
+      return 0;
     }
-    return score;
+    const score = Evaluator.evaluate(engine.getBoard(), weights);
+    return maximizingColor === 'white' ? score : -score;
   }
 
   private static pieceValue(piece: ChessPiece): number {
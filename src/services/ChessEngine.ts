@@ -8,6 +8,14 @@ import type {
   Square as ChessSquare,
   CastlingRights,
 } from '@rumenx/chess/types';
+import {
+  AttackMap,
+  type Attacker,
+  type Pin,
+  type ThreatenedPiece,
+  type XRayAttacker,
+} from './AttackMap';
+import { toCoords, toSquare } from '../utils/boardGeometry';
 
 /**
  * Service class that wraps the @rumenx/chess Game engine
@@ -183,16 +191,62 @@ export class ChessEngine {
   }
 
   /**
-   * Check if a square is under attack by the opponent
+   * Check if a square is attacked by a color, whoever is to move. Pinned
+   * pieces count: they cannot capture there, but a king still may not step
+   * onto the square.
    * @param square - Square to check
    * @param byColor - Color of the attacking pieces
    * @returns True if the square is under attack
    */
   isSquareUnderAttack(square: ChessSquare, byColor: Color): boolean {
-    // This would require access to the internal board methods
-    // For now, we can infer this from legal moves
-    const legalMoves = this.game.getLegalMoves();
-    return legalMoves.some((move) => move.to === square && move.piece.color !== byColor);
+    return this.getAttackers(square, byColor).length > 0;
+  }
+
+  /**
+   * Get the pieces of a color attacking a square
+   * @param square - Target square (e.g., "e4")
+   * @param byColor - Color of the attacking pieces
+   * @returns Attackers, flagged when a pin stops them capturing on the square
+   */
+  getAttackers(square: ChessSquare, byColor: Color): Attacker[] {
+    return AttackMap.attackers(this.getBoard(), square, byColor);
+  }
+
+  /**
+   * Get the pieces guarding the piece on a square
+   * @param square - Square of the defended piece
+   * @returns Defenders of the occupant's color (empty for an empty square)
+   */
+  getDefenders(square: ChessSquare): Attacker[] {
+    return AttackMap.defenders(this.getBoard(), square);
+  }
+
+  /**
+   * Get sliders of a color lined up on a square behind one other piece
+   * @param square - Target square
+   * @param byColor - Color of the sliders
+   * @returns X-ray attackers with the piece they see through
+   */
+  getXRayAttackers(square: ChessSquare, byColor: Color): XRayAttacker[] {
+    return AttackMap.xRayAttackers(this.getBoard(), square, byColor);
+  }
+
+  /**
+   * Get the pieces of a color pinned to their king
+   * @param color - Color of the pinned pieces
+   * @returns Pins with the pinning piece and the king
+   */
+  getPinnedPieces(color: Color): Pin[] {
+    return AttackMap.pins(this.getBoard(), color);
+  }
+
+  /**
+   * Get the pieces of a color that the opponent attacks
+   * @param color - Color of the attacked pieces
+   * @returns Attacked pieces with attackers, defenders and whether they hang
+   */
+  getThreatenedPieces(color: Color): ThreatenedPiece[] {
+    return AttackMap.threatenedPieces(this.getBoard(), color);
   }
 
   /**
@@ -222,24 +276,19 @@ export class ChessEngine {
    * @returns Object with row and col indices (0-7)
    */
   static squareToCoords(square: ChessSquare): { row: number; col: number } {
-    // Adjusted mapping (verified via board discrepancy):
     // row 0 -> rank 1, row 7 -> rank 8 (bottom-up indexing)
-    const file = square.charCodeAt(0) - 'a'.charCodeAt(0);
-    const rank = parseInt(square[1], 10); // 1..8
-    const row = rank - 1; // rank1 -> row0
-    return { row, col: file };
+    const [row, col] = toCoords(square);
+    return { row, col };
   }
 
   /**
    * Convert row/col coordinates to square notation
-   * @param row - Row index (0-7, where 0 is rank 8, 7 is rank 1)
+   * @param row - Row index (0-7, where 0 is rank 1, 7 is rank 8)
    * @param col - Column index (0-7, where 0 is file a)
    * @returns Square in algebraic notation (e.g., "e4")
    */
   static coordsToSquare(row: number, col: number): ChessSquare {
-    const file = String.fromCharCode('a'.charCodeAt(0) + col);
-    const rank = row + 1; // row0 -> rank1
-    return `${file}${rank}` as ChessSquare;
+    return toSquare(row, col);
   }
 }
 
@@ -0,0 +1,452 @@
+import type { Color, Piece as ChessPiece } from '@rumenx/chess/types';
+import type { AIDifficulty } from './ChessAI';
+import {
+  DIAGONALS,
+  KING_STEPS,
+  KNIGHT_STEPS,
+  LINES,
+  onBoard,
+  type Step,
+} from '../utils/boardGeometry';
+
+type Board = (ChessPiece | null)[][];
+type PieceType = ChessPiece['type'];
+
+/**
+ * Weights for each evaluation term. Multipliers scale the built-in tables;
+ * the rest are centipawns per occurrence.
+ */
+export interface EvalWeights {
+  /** Multiplier on piece values */
+  material: number;
+  /** Multiplier on the piece-square tables */
+  pieceSquare: number;
+  /** Penalty per extra pawn on a file */
+  doubledPawn: number;
+  /** Penalty per pawn with no friendly pawn on a neighbouring file */
+  isolatedPawn: number;
+  /** Multiplier on the per-rank passed pawn bonus */
+  passedPawn: number;
+  /** Bonus per pawn sheltering the king (middlegame) */
+  kingShield: number;
+  /** Penalty per open file at or next to the king (middlegame) */
+  kingOpenFile: number;
+  /** Bonus per hit on a square next to the enemy king (middlegame) */
+  kingAttack: number;
+  /** Centipawns per pseudo-legal move of a minor or major piece */
+  mobility: number;
+  bishopPair: number;
+  /** Centipawns per phase unit traded off by the side at least a pawn ahead */
+  simplification: number;
+}
+
+/** Per-term scores, white minus black, already weighted and tapered */
+export interface EvalBreakdown {
+  material: number;
+  pieceSquare: number;
+  pawnStructure: number;
+  kingSafety: number;
+  kingAttack: number;
+  mobility: number;
+  bishopPair: number;
+  simplification: number;
+  total: number;
+}
+
+export const DEFAULT_WEIGHTS: EvalWeights = {
+  material: 1,
+  pieceSquare: 1,
+  doubledPawn: 15,
+  isolatedPawn: 12,
+  passedPawn: 1,
+  kingShield: 10,
+  kingOpenFile: 20,
+  kingAttack: 0,
+  mobility: 3,
+  bishopPair: 40,
+  simplification: 0,
+};
+
+const MATERIAL_ONLY: EvalWeights = {
+  material: 1,
+  pieceSquare: 0,
+  doubledPawn: 0,
+  isolatedPawn: 0,
+  passedPawn: 0,
+  kingShield: 0,
+  kingOpenFile: 0,
+  kingAttack: 0,
+  mobility: 0,
+  bishopPair: 0,
+  simplification: 0,
+};
+
+/** Evaluator per difficulty: weaker levels see less of the position */
+export const EVAL_PROFILES: Record<AIDifficulty, EvalWeights> = {
+  harmless: MATERIAL_ONLY,
+  random: MATERIAL_ONLY,
+  easy: MATERIAL_ONLY,
+  medium: { ...MATERIAL_ONLY, pieceSquare: 1 },
+  hard: { ...DEFAULT_WEIGHTS, mobility: 0, kingShield: 5, kingOpenFile: 10 },
+  expert: DEFAULT_WEIGHTS,
+  godlike: DEFAULT_WEIGHTS,
+};
+
+const PIECE_VALUES: Record<PieceType, number> = {
+  pawn: 100,
+  knight: 320,
+  bishop: 330,
+  rook: 500,
+  queen: 900,
+  king: 0,
+};
+
+/** Game phase weights: 24 with all pieces on the board, 0 with only kings and pawns */
+const PHASE_WEIGHTS: Record<PieceType, number> = {
+  pawn: 0,
+  knight: 1,
+  bishop: 1,
+  rook: 2,
+  queen: 4,
+  king: 0,
+};
+const MAX_PHASE = 24;
+
+// ---------------------------------------------------------------------------
+// Piece-square tables (white's view, rank 8 first, a-file first)
+// ---------------------------------------------------------------------------
+
+// prettier-ignore
+const PAWN_MG = [
+  0, 0, 0, 0, 0, 0, 0, 0,
+  50, 50, 50, 50, 50, 50, 50, 50,
+  10, 10, 20, 30, 30, 20, 10, 10,
+  5, 5, 10, 25, 25, 10, 5, 5,
+  0, 0, 0, 20, 20, 0, 0, 0,
+  5, -5, -10, 0, 0, -10, -5, 5,
+  5, 10, 10, -20, -20, 10, 10, 5,
+  0, 0, 0, 0, 0, 0, 0, 0,
+];
+
+// prettier-ignore
+const PAWN_EG = [
+  0, 0, 0, 0, 0, 0, 0, 0,
+  80, 80, 80, 80, 80, 80, 80, 80,
+  50, 50, 50, 50, 50, 50, 50, 50,
+  30, 30, 30, 30, 30, 30, 30, 30,
+  20, 20, 20, 20, 20, 20, 20, 20,
+  10, 10, 10, 10, 10, 10, 10, 10,
+  5, 5, 5, 5, 5, 5, 5, 5,
+  0, 0, 0, 0, 0, 0, 0, 0,
+];
+
+// prettier-ignore
+const KNIGHT = [
+  -50, -40, -30, -30, -30, -30, -40, -50,
+  -40, -20, 0, 0, 0, 0, -20, -40,
+  -30, 0, 10, 15, 15, 10, 0, -30,
+  -30, 5, 15, 20, 20, 15, 5, -30,
+  -30, 0, 15, 20, 20, 15, 0, -30,
+  -30, 5, 10, 15, 15, 10, 5, -30,
+  -40, -20, 0, 5, 5, 0, -20, -40,
+  -50, -40, -30, -30, -30, -30, -40, -50,
+];
+
+// prettier-ignore
+const BISHOP = [
+  -20, -10, -10, -10, -10, -10, -10, -20,
+  -10, 0, 0, 0, 0, 0, 0, -10,
+  -10, 0, 5, 10, 10, 5, 0, -10,
+  -10, 5, 5, 10, 10, 5, 5, -10,
+  -10, 0, 10, 10, 10, 10, 0, -10,
+  -10, 10, 10, 10, 10, 10, 10, -10,
+  -10, 5, 0, 0, 0, 0, 5, -10,
+  -20, -10, -10, -10, -10, -10, -10, -20,
+];
+
+// prettier-ignore
+const ROOK = [
+  0, 0, 0, 0, 0, 0, 0, 0,
+  5, 10, 10, 10, 10, 10, 10, 5,
+  -5, 0, 0, 0, 0, 0, 0, -5,
+  -5, 0, 0, 0, 0, 0, 0, -5,
+  -5, 0, 0, 0, 0, 0, 0, -5,
+  -5, 0, 0, 0, 0, 0, 0, -5,
+  -5, 0, 0, 0, 0, 0, 0, -5,
+  0, 0, 0, 5, 5, 0, 0, 0,
+];
+
+// prettier-ignore
+const QUEEN = [
+  -20, -10, -10, -5, -5, -10, -10, -20,
+  -10, 0, 0, 0, 0, 0, 0, -10,
+  -10, 0, 5, 5, 5, 5, 0, -10,
+  -5, 0, 5, 5, 5, 5, 0, -5,
+  0, 0, 5, 5, 5, 5, 0, -5,
+  -10, 5, 5, 5, 5, 5, 0, -10,
+  -10, 0, 5, 0, 0, 0, 0, -10,
+  -20, -10, -10, -5, -5, -10, -10, -20,
+];
+
+// prettier-ignore
+const KING_MG = [
+  -30, -40, -40, -50, -50, -40, -40, -30,
+  -30, -40, -40, -50, -50, -40, -40, -30,
+  -30, -40, -40, -50, -50, -40, -40, -30,
+  -30, -40, -40, -50, -50, -40, -40, -30,
+  -20, -30, -30, -40, -40, -30, -30, -20,
+  -10, -20, -20, -20, -20, -20, -20, -10,
+  20, 20, 0, 0, 0, 0, 20, 20,
+  20, 30, 10, 0, 0, 10, 30, 20,
+];
+
+// prettier-ignore
+const KING_EG = [
+  -50, -40, -30, -20, -20, -30, -40, -50,
+  -30, -20, -10, 0, 0, -10, -20, -30,
+  -30, -10, 20, 30, 30, 20, -10, -30,
+  -30, -10, 30, 40, 40, 30, -10, -30,
+  -30, -10, 30, 40, 40, 30, -10, -30,
+  -30, -10, 20, 30, 30, 20, -10, -30,
+  -30, -30, 0, 0, 0, 0, -30, -30,
+  -50, -30, -30, -30, -30, -30, -30, -50,
+];
+
+const PST: Record<PieceType, [mg: number[], eg: number[]]> = {
+  pawn: [PAWN_MG, PAWN_EG],
+  knight: [KNIGHT, KNIGHT],
+  bishop: [BISHOP, BISHOP],
+  rook: [ROOK, ROOK],
+  queen: [QUEEN, QUEEN],
+  king: [KING_MG, KING_EG],
+};
+
+/** Passed pawn bonus by ranks advanced from the pawn's own back rank */
+const PASSED_PAWN_BONUS = [0, 5, 10, 20, 35, 60, 100, 0];
+
+const SLIDER_RAYS: Partial<Record<PieceType, readonly Step[]>> = {
+  bishop: DIAGONALS,
+  rook: LINES,
+  queen: KING_STEPS,
+};
+
+const sign = (color: Color) => (color === 'white' ? 1 : -1);
+
+/** Table index for a piece on board row `row` (row 0 = rank 1) */
+function tableIndex(color: Color, row: number, file: number): number {
+  return (color === 'white' ? 7 - row : row) * 8 + file;
+}
+
+/** Blend middlegame and endgame scores by phase */
+function taper(mg: number, eg: number, phase: number): number {
+  return (mg * phase + eg * (MAX_PHASE - phase)) / MAX_PHASE;
+}
+
+/**
+ * Static position evaluation: material, tapered piece-square tables, pawn
+ * structure, king safety and attack, mobility and the bishop pair. Scores are in
+ * centipawns from white's point of view. Works on a board array (row 0 =
+ * rank 1) so it can run at every leaf without touching the engine.
+ */
+export class Evaluator {
+  static evaluate(board: Board, weights: EvalWeights = DEFAULT_WEIGHTS): number {
+    return this.breakdown(board, weights).total;
+  }
+
+  static breakdown(board: Board, weights: EvalWeights = DEFAULT_WEIGHTS): EvalBreakdown {
+    const phase = this.phase(board);
+    const terms = {
+      material: this.material(board) * weights.material,
+      pieceSquare: this.pieceSquare(board, phase) * weights.pieceSquare,
+      pawnStructure: this.pawnStructure(board, phase, weights),
+      kingSafety: this.kingSafety(board, phase, weights),
+      // Skipped unless a style asks for it; it walks every slider's rays again
+      kingAttack: weights.kingAttack ? this.kingAttack(board, phase) * weights.kingAttack : 0,
+      mobility: this.mobility(board) * weights.mobility,
+      bishopPair: this.bishopPair(board) * weights.bishopPair,
+      simplification: this.simplification(board, phase) * weights.simplification,
+    };
+    const total = Object.values(terms).reduce((sum, v) => sum + v, 0);
+    return { ...terms, total: Math.round(total) };
+  }
+
+  /** Game phase from non-pawn material: 24 = opening, 0 = pawn endgame */
+  static phase(board: Board): number {
+    let phase = 0;
+    for (const row of board) {
+      for (const piece of row) if (piece) phase += PHASE_WEIGHTS[piece.type];
+    }
+    return Math.min(phase, MAX_PHASE);
+  }
+
+  static material(board: Board): number {
+    let score = 0;
+    for (const row of board) {
+      for (const piece of row) if (piece) score += sign(piece.color) * PIECE_VALUES[piece.type];
+    }
+    return score;
+  }
+
+  static pieceSquare(board: Board, phase: number): number {
+    let mg = 0;
+    let eg = 0;
+    board.forEach((rowPieces, row) =>
+      rowPieces.forEach((piece, file) => {
+        if (!piece) return;
+        const [mgTable, egTable] = PST[piece.type];
+        const index = tableIndex(piece.color, row, file);
+        mg += sign(piece.color) * mgTable[index];
+        eg += sign(piece.color) * egTable[index];
+      })
+    );
+    return taper(mg, eg, phase);
+  }
+
+  /** Doubled and isolated pawn penalties plus tapered passed pawn bonuses */
+  static pawnStructure(
+    board: Board,
+    phase: number,
+    weights: EvalWeights = DEFAULT_WEIGHTS
+  ): number {
+    const pawns: Record<Color, { row: number; file: number }[]> = { white: [], black: [] };
+    board.forEach((rowPieces, row) =>
+      rowPieces.forEach((piece, file) => {
+        if (piece?.type === 'pawn') pawns[piece.color].push({ row, file });
+      })
+    );
+
+    let score = 0;
+    for (const color of ['white', 'black'] as const) {
+      const own = pawns[color];
+      const enemy = pawns[color === 'white' ? 'black' : 'white'];
+      const perFile = new Array(8).fill(0);
+      for (const p of own) perFile[p.file]++;
+
+      let side = 0;
+      for (const count of perFile) if (count > 1) side -= (count - 1) * weights.doubledPawn;
+      for (const p of own) {
+        const left = p.file > 0 ? perFile[p.file - 1] : 0;
+        const right = p.file < 7 ? perFile[p.file + 1] : 0;
+        if (!left && !right) side -= weights.isolatedPawn;
+
+        const ahead = (row: number) => (color === 'white' ? row > p.row : row < p.row);
+        const blocked = enemy.some((e) => Math.abs(e.file - p.file) <= 1 && ahead(e.row));
+        if (!blocked) {
+          const advanced = color === 'white' ? p.row : 7 - p.row;
+          const bonus = PASSED_PAWN_BONUS[advanced] * weights.passedPawn;
+          side += taper(bonus / 2, bonus, phase);
+        }
+      }
+      score += sign(color) * side;
+    }
+    return score;
+  }
+
+  /** Pawn shield and open files around each king, scaled by the middlegame phase */
+  static kingSafety(board: Board, phase: number, weights: EvalWeights = DEFAULT_WEIGHTS): number {
+    let score = 0;
+    board.forEach((rowPieces, row) =>
+      rowPieces.forEach((piece, file) => {
+        if (piece?.type !== 'king') return;
+        const forward = piece.color === 'white' ? 1 : -1;
+        let side = 0;
+        for (let f = file - 1; f <= file + 1; f++) {
+          if (f < 0 || f > 7) continue;
+          for (const step of [1, 2]) {
+            const r = row + forward * step;
+            const shield = onBoard(r, f) ? board[r][f] : null;
+            if (shield?.type === 'pawn' && shield.color === piece.color) side += weights.kingShield;
+          }
+          const fileHasOwnPawn = board.some(
+            (rankPieces) => rankPieces[f]?.type === 'pawn' && rankPieces[f]?.color === piece.color
+          );
+          if (!fileHasOwnPawn) side -= weights.kingOpenFile;
+        }
+        score += (sign(piece.color) * side * phase) / MAX_PHASE;
+      })
+    );
+    return score;
+  }
+
+  /** Pseudo-legal move count of knights, bishops, rooks and queens, white minus black */
+  static mobility(board: Board): number {
+    let score = 0;
+    board.forEach((rowPieces, row) =>
+      rowPieces.forEach((piece, file) => {
+        if (!piece) return;
+        const reachable = (r: number, f: number) =>
+          onBoard(r, f) && board[r][f]?.color !== piece.color;
+        let moves = 0;
+        if (piece.type === 'knight') {
+          moves = KNIGHT_STEPS.filter(([dr, df]) => reachable(row + dr, file + df)).length;
+        } else {
+          for (const [dr, df] of SLIDER_RAYS[piece.type] ?? []) {
+            for (let r = row + dr, f = file + df; reachable(r, f); r += dr, f += df) {
+              moves++;
+              if (board[r][f]) break; // capture ends the ray
+            }
+          }
+        }
+        score += sign(piece.color) * moves;
+      })
+    );
+    return score;
+  }
+
+  /**
+   * Hits by knights, bishops, rooks and queens on the enemy king's square
+   * and the squares around it, white minus black, scaled by the middlegame
+   * phase. Unlike kingSafety it only ever looks at the other side's king.
+   */
+  static kingAttack(board: Board, phase: number): number {
+    const kings: Partial<Record<Color, [row: number, file: number]>> = {};
+    board.forEach((rowPieces, row) =>
+      rowPieces.forEach((piece, file) => {
+        if (piece?.type === 'king') kings[piece.color] = [row, file];
+      })
+    );
+    let score = 0;
+    board.forEach((rowPieces, row) =>
+      rowPieces.forEach((piece, file) => {
+        const king = piece && kings[piece.color === 'white' ? 'black' : 'white'];
+        if (!piece || !king) return;
+        const nearKing = (r: number, f: number) =>
+          onBoard(r, f) && Math.abs(r - king[0]) <= 1 && Math.abs(f - king[1]) <= 1;
+        let hits = 0;
+        if (piece.type === 'knight') {
+          hits = KNIGHT_STEPS.filter(([dr, df]) => nearKing(row + dr, file + df)).length;
+        } else {
+          for (const [dr, df] of SLIDER_RAYS[piece.type] ?? []) {
+            for (let r = row + dr, f = file + df; onBoard(r, f); r += dr, f += df) {
+              if (nearKing(r, f)) hits++;
+              if (board[r][f]) break;
+            }
+          }
+        }
+        score += sign(piece.color) * hits;
+      })
+    );
+    return (score * phase) / MAX_PHASE;
+  }
+
+  /** +1 if only white has two or more bishops, -1 if only black does */
+  static bishopPair(board: Board): number {
+    const bishops = { white: 0, black: 0 };
+    for (const row of board) {
+      for (const piece of row) if (piece?.type === 'bishop') bishops[piece.color]++;
+    }
+    return (bishops.white >= 2 ? 1 : 0) - (bishops.black >= 2 ? 1 : 0);
+  }
+
+  /**
+   * Phase units already traded off, counted for the side at least a pawn
+   * ahead: positive when white is up material, negative when black is
+   */
+  static simplification(board: Board, phase: number = this.phase(board)): number {
+    const material = this.material(board);
+    if (Math.abs(material) < PIECE_VALUES.pawn) return 0;
+    return Math.sign(material) * (MAX_PHASE - phase);
+  }
+}
+
+export default Evaluator;
@@ -0,0 +1,195 @@
+import type { Color } from '@rumenx/chess/types';
+import { AIService } from './AIService';
+import type { AnalysisOptions, SearchMove } from './ChessAI';
+import { ChessEngine } from './ChessEngine';
+import type { GameNode } from './GameTree';
+import { Tactics, uncapitalize } from './Tactics';
+import { moveToSAN, sameMove } from '../utils/chessNotation';
+import { analysisScore, formatEval, whiteExpectation, type EvalScore } from '../utils/evaluation';
+
+export type MoveClassification = 'best' | 'good' | 'inaccuracy' | 'mistake' | 'blunder';
+
+/** Engine verdict on a position before the move played from it */
+export interface PositionVerdict {
+  /** White's point of view */
+  score: EvalScore;
+  /** null when the game is over in this position */
+  bestMove: SearchMove | null;
+}
+
+export interface MoveReview {
+  nodeId: string;
+  /** 1-based ply on the reviewed line */
+  ply: number;
+  color: Color;
+  san: string;
+  classification: MoveClassification;
+  /** Expected score the move gave away, 0 to 1, from the mover's side */
+  loss: number;
+  /** 0 to 100, as used for the per-side accuracy */
+  accuracy: number;
+  scoreBefore: EvalScore;
+  scoreAfter: EvalScore;
+  /** The engine's choice when the played move was not it */
+  bestSan?: string;
+  /** For flagged moves, the tactic the opponent's best reply carries out */
+  motif?: string;
+}
+
+export interface GameReviewResult {
+  moves: MoveReview[];
+  /** Mean move accuracy per side; null for a side without moves */
+  accuracy: Record<Color, number | null>;
+}
+
+export interface GameReviewOptions {
+  signal?: AbortSignal;
+  /** Called after each analysed position */
+  onProgress?: (done: number, total: number) => void;
+}
+
+/** Expected-score losses at which a move becomes an inaccuracy, mistake or blunder */
+const THRESHOLDS: [MoveClassification, number][] = [
+  ['blunder', 0.15],
+  ['mistake', 0.1],
+  ['inaccuracy', 0.05],
+];
+
+/** Every position of a reviewed game gets the same modest budget */
+const REVIEW_ANALYSIS: AnalysisOptions = {
+  lines: 1,
+  depth: 6,
+  timeLimitMs: 1_000,
+  nodeLimit: 60_000,
+};
+
+/** PGN annotation glyphs: $6 ?!, $2 ?, $4 ?? */
+const NAGS: Partial<Record<MoveClassification, number>> = { inaccuracy: 6, mistake: 2, blunder: 4 };
+const GLYPHS: Partial<Record<MoveClassification, string>> = {
+  inaccuracy: '?!',
+  mistake: '?',
+  blunder: '??',
+};
+const LABELS: Record<MoveClassification, string> = {
+  best: 'Best move',
+  good: 'Good move',
+  inaccuracy: 'Inaccuracy',
+  mistake: 'Mistake',
+  blunder: 'Blunder',
+};
+
+/**
+ * Post-game review: every position of a line is analysed once, and each move
+ * is judged by how much of the mover's expected score (see whiteExpectation)
+ * it gave away compared with the engine's best move.
+ */
+export class GameReview {
+  /** Analyse the position before each move of `line` and after the last one, then review */
+  static async analyze(
+    startFen: string,
+    line: GameNode[],
+    options: GameReviewOptions = {}
+  ): Promise<GameReviewResult> {
+    const fens = [startFen, ...line.map((node) => node.fen)];
+    const verdicts: PositionVerdict[] = [];
+    for (const fen of fens) {
+      const result = await AIService.analyze({
+        fen,
+        options: REVIEW_ANALYSIS,
+        signal: options.signal,
+      });
+      verdicts.push({
+        score: analysisScore(result, fen),
+        bestMove: result.lines[0]?.pv[0] ?? null,
+      });
+      options.onProgress?.(verdicts.length, fens.length);
+    }
+    return this.review(startFen, line, verdicts);
+  }
+
+  /** Judge each move of `line`; `verdicts` holds one entry per position, the start first */
+  static review(startFen: string, line: GameNode[], verdicts: PositionVerdict[]): GameReviewResult {
+    const engine = new ChessEngine(startFen);
+    const moves = line.map((node, i): MoveReview => {
+      const before = verdicts[i];
+      const after = verdicts[i + 1];
+      const forMover = (score: EvalScore) =>
+        node.color === 'white' ? whiteExpectation(score) : 1 - whiteExpectation(score);
+      const loss = Math.max(0, forMover(before.score) - forMover(after.score));
+      const played = node.move!;
+      const isBest = !!before.bestMove && sameMove(before.bestMove, played);
+      const classification = isBest ? 'best' : this.classify(loss);
+      const bestSan = before.bestMove && !isBest ? this.sanIn(engine, before.bestMove) : undefined;
+      engine.makeMove(played.from, played.to, played.promotion);
+      const motif =
+        NAGS[classification] !== undefined && after.bestMove
+          ? Tactics.afterMove(node.fen, after.bestMove)[0]?.description
+          : undefined;
+      return {
+        nodeId: node.id,
+        ply: i + 1,
+        color: node.color,
+        san: node.san,
+        classification,
+        loss,
+        accuracy: this.moveAccuracy(loss),
+        scoreBefore: before.score,
+        scoreAfter: after.score,
+        bestSan,
+        motif,
+      };
+    });
+    const sideAccuracy = (color: Color) => {
+      const own = moves.filter((m) => m.color === color);
+      if (!own.length) return null;
+      return own.reduce((sum, m) => sum + m.accuracy, 0) / own.length;
+    };
+    return { moves, accuracy: { white: sideAccuracy('white'), black: sideAccuracy('black') } };
+  }
+
+  /** Class for a move that was not the engine's choice */
+  static classify(loss: number): MoveClassification {
+    return THRESHOLDS.find(([, threshold]) => loss >= threshold)?.[0] ?? 'good';
+  }
+
+  /**
+   * Accuracy of a single move from the expected score it lost: 100 for none,
+   * falling off exponentially (the curve lichess fitted to its game data)
+   */
+  static moveAccuracy(loss: number): number {
+    const accuracy = 103.1668 * Math.exp(-4.354 * loss) - 3.1669;
+    return Math.min(100, Math.max(0, accuracy));
+  }
+
+  static nag(classification: MoveClassification): number | undefined {
+    return NAGS[classification];
+  }
+
+  static glyph(classification: MoveClassification): string {
+    return GLYPHS[classification] ?? '';
+  }
+
+  /** e.g. "(+0.30 → -1.20) Mistake. Nf3 was best. Allows knight fork on c7: king and rook." */
+  static comment(move: MoveReview): string {
+    const swing = `(${formatEval(move.scoreBefore)} → ${formatEval(move.scoreAfter)})`;
+    const better = move.bestSan ? ` ${move.bestSan} was best.` : '';
+    const motif = move.motif ? ` Allows ${uncapitalize(move.motif)}.` : '';
+    return `${swing} ${LABELS[move.classification]}.${better}${motif}`;
+  }
+
+  /** Whether a review flags the move, i.e. it has a glyph and an alternative worth showing */
+  static isFlagged(move: MoveReview): boolean {
+    return this.nag(move.classification) !== undefined;
+  }
+
+  static label(classification: MoveClassification): string {
+    return LABELS[classification];
+  }
+
+  private static sanIn(engine: ChessEngine, move: SearchMove): string {
+    const legal = engine.getLegalMoves().find((m) => sameMove(m, move));
+    return legal ? moveToSAN(legal, engine) : (move.san ?? `${move.from}${move.to}`);
+  }
+}
+
+export default GameReview;
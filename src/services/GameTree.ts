@@ -0,0 +1,311 @@
+import type { Color, Move as ChessMove } from '@rumenx/chess/types';
+import { ChessEngine } from './ChessEngine';
+import { moveToSAN } from '../utils/chessNotation';
+
+/**
+ * A node in the game tree. The root holds the starting position and no move;
+ * every other node is the position reached by playing `move` from its parent.
+ * `children[0]` is the main continuation, later children are sidelines.
+ */
+export interface GameNode {
+  id: string;
+  parentId: string | null;
+  move: ChessMove | null;
+  /** SAN derived in the parent position ('' for the root) */
+  san: string;
+  /** FEN after the move (the starting FEN for the root) */
+  fen: string;
+  /** Depth from the root: 0 for the root, 1 for the first move */
+  ply: number;
+  /** Full move number printed before the move */
+  moveNumber: number;
+  /** Side that played the move (side to move for the root) */
+  color: Color;
+  children: string[];
+  comment?: string;
+  /** Comment written before the move, e.g. at the start of a game or variation */
+  commentBefore?: string;
+  nags?: number[];
+}
+
+export const ROOT_NODE_ID = 'root';
+
+/** Minimal move shape for rebuilding a tree from another source's history */
+export interface HistoryMove {
+  from: string;
+  to: string;
+  /** Piece name or letter ('queen' or 'q') */
+  promotion?: string;
+}
+
+const PROMOTION_PIECES: Record<string, string> = {
+  q: 'queen',
+  r: 'rook',
+  b: 'bishop',
+  n: 'knight',
+};
+
+/**
+ * The part of a FEN that identifies a position: placement, side to move and
+ * castling rights. Move clocks and the en passant square (which engines and
+ * servers write differently) are left out.
+ */
+export function positionKey(fen: string): string {
+  return fen.trim().split(/\s+/).slice(0, 3).join(' ');
+}
+
+/** FENs describe the same position, as `positionKey` defines it */
+export function samePosition(a: string, b: string): boolean {
+  return positionKey(a) === positionKey(b);
+}
+
+/**
+ * Game tree with variations.
+ * Playing a move from a past position starts a sideline instead of
+ * overwriting the rest of the line.
+ */
+export class GameTree {
+  private nodes = new Map<string, GameNode>();
+  private nextId = 1;
+
+  constructor(startFen?: string) {
+    const engine = new ChessEngine(startFen);
+    this.nodes.set(ROOT_NODE_ID, {
+      id: ROOT_NODE_ID,
+      parentId: null,
+      move: null,
+      san: '',
+      fen: engine.getFEN(),
+      ply: 0,
+      moveNumber: engine.getFullMoveNumber(),
+      color: engine.getTurn(),
+      children: [],
+    });
+  }
+
+  /** FEN of the starting position */
+  get startFen(): string {
+    return this.root.fen;
+  }
+
+  get root(): GameNode {
+    return this.getNode(ROOT_NODE_ID);
+  }
+
+  getNode(id: string): GameNode {
+    const node = this.nodes.get(id);
+    if (!node) throw new Error(`Unknown game tree node: ${id}`);
+    return node;
+  }
+
+  hasNode(id: string): boolean {
+    return this.nodes.has(id);
+  }
+
+  /**
+   * Add a move played from `parentId`. If the same move already exists as a
+   * child, that node is returned instead of creating a duplicate.
+   * @throws if the move is illegal in the parent position
+   */
+  addMove(parentId: string, move: ChessMove): GameNode {
+    const parent = this.getNode(parentId);
+    const existing = parent.children
+      .map((id) => this.getNode(id))
+      .find(
+        (n) =>
+          n.move &&
+          n.move.from === move.from &&
+          n.move.to === move.to &&
+          (n.move.promotion ?? null) === (move.promotion ?? null)
+      );
+    if (existing) return existing;
+
+    const engine = new ChessEngine(parent.fen);
+    const moveNumber = engine.getFullMoveNumber();
+    const color = engine.getTurn();
+    const san = moveToSAN(move, engine);
+    const applied = engine.makeMove(move.from, move.to, move.promotion);
+    if (!applied) {
+      throw new Error(`Illegal move ${move.from}-${move.to} in ${parent.fen}`);
+    }
+
+    const node: GameNode = {
+      id: `n${this.nextId++}`,
+      parentId,
+      move: applied,
+      san,
+      fen: engine.getFEN(),
+      ply: parent.ply + 1,
+      moveNumber,
+      color,
+      children: [],
+    };
+    this.nodes.set(node.id, node);
+    parent.children.push(node.id);
+    return node;
+  }
+
+  // -- Navigation -----------------------------------------------------------
+
+  parent(id: string): GameNode | null {
+    const { parentId } = this.getNode(id);
+    return parentId ? this.getNode(parentId) : null;
+  }
+
+  /** Child by index (0 = main continuation) */
+  child(id: string, index = 0): GameNode | null {
+    const childId = this.getNode(id).children[index];
+    return childId ? this.getNode(childId) : null;
+  }
+
+  /** All nodes sharing this node's parent, including the node itself */
+  siblings(id: string): GameNode[] {
+    const parent = this.parent(id);
+    return parent ? parent.children.map((c) => this.getNode(c)) : [this.getNode(id)];
+  }
+
+  /** Sibling `offset` positions away (wrapping), or null if there are none */
+  sibling(id: string, offset: number): GameNode | null {
+    const siblings = this.siblings(id);
+    if (siblings.length < 2) return null;
+    const index = siblings.findIndex((n) => n.id === id);
+    return siblings[(index + offset + siblings.length * 2) % siblings.length];
+  }
+
+  /** Nodes from the first move down to `id` (root excluded) */
+  getPath(id: string): GameNode[] {
+    const path: GameNode[] = [];
+    for (
+      let node: GameNode | null = this.getNode(id);
+      node?.parentId;
+      node = this.parent(node.id)
+    ) {
+      path.push(node);
+    }
+    return path.reverse();
+  }
+
+  /** Last node reached by following main continuations from `id` */
+  lineEnd(id: string): GameNode {
+    let node = this.getNode(id);
+    while (node.children.length) node = this.getNode(node.children[0]);
+    return node;
+  }
+
+  /** Path to `id` extended with its main continuation */
+  getLine(id: string): GameNode[] {
+    return this.getPath(this.lineEnd(id).id);
+  }
+
+  getMainline(): GameNode[] {
+    return this.getLine(ROOT_NODE_ID);
+  }
+
+  /** True when `ancestorId` lies on the path from the root to `id` (inclusive) */
+  isAncestor(ancestorId: string, id: string): boolean {
+    for (let node: GameNode | null = this.getNode(id); node; node = this.parent(node.id)) {
+      if (node.id === ancestorId) return true;
+    }
+    return false;
+  }
+
+  isMainline(id: string): boolean {
+    for (
+      let node: GameNode | null = this.getNode(id);
+      node?.parentId;
+      node = this.parent(node.id)
+    ) {
+      if (this.getNode(node.parentId).children[0] !== node.id) return false;
+    }
+    return true;
+  }
+
+  // -- Editing --------------------------------------------------------------
+
+  /** Make every node on the path to `id` the main continuation of its parent */
+  promoteToMainline(id: string): void {
+    for (const node of this.getPath(id)) {
+      const parent = this.getNode(node.parentId!);
+      parent.children = [node.id, ...parent.children.filter((c) => c !== node.id)];
+    }
+  }
+
+  /** Move the variation containing `id` one place up among its siblings */
+  promoteVariation(id: string): void {
+    // Find the point where this line branches off its parent's main continuation
+    for (const node of [...this.getPath(id)].reverse()) {
+      const parent = this.getNode(node.parentId!);
+      const index = parent.children.indexOf(node.id);
+      if (index > 0) {
+        [parent.children[index - 1], parent.children[index]] = [
+          parent.children[index],
+          parent.children[index - 1],
+        ];
+        return;
+      }
+    }
+  }
+
+  /**
+   * Remove a node and everything after it.
+   * @returns The parent of the deleted node
+   */
+  deleteBranch(id: string): GameNode {
+    if (id === ROOT_NODE_ID) throw new Error('Cannot delete the root of the game tree');
+    const parent = this.parent(id)!;
+    parent.children = parent.children.filter((c) => c !== id);
+    const stack = [id];
+    while (stack.length) {
+      const nodeId = stack.pop()!;
+      stack.push(...this.getNode(nodeId).children);
+      this.nodes.delete(nodeId);
+    }
+    return parent;
+  }
+
+  setComment(id: string, comment: string | undefined): void {
+    this.getNode(id).comment = comment || undefined;
+  }
+
+  setCommentBefore(id: string, comment: string | undefined): void {
+    this.getNode(id).commentBefore = comment || undefined;
+  }
+
+  setNags(id: string, nags: number[]): void {
+    this.getNode(id).nags = nags.length ? [...nags] : undefined;
+  }
+
+  /** Build a tree holding a single line of moves */
+  static fromMoves(moves: ChessMove[], startFen?: string): GameTree {
+    const tree = new GameTree(startFen);
+    let cursor = ROOT_NODE_ID;
+    for (const move of moves) cursor = tree.addMove(cursor, move).id;
+    return tree;
+  }
+
+  /**
+   * Rebuild a tree from a bare move list (e.g. a remote game's history) whose
+   * starting position is not known for sure. Each candidate start is tried in
+   * turn and accepted when replaying the moves reaches `fen`; if none does,
+   * the tree is rooted at `fen` with no moves.
+   */
+  static fromHistory(moves: HistoryMove[], fen: string, candidateStarts: string[]): GameTree {
+    for (const startFen of candidateStarts) {
+      const engine = new ChessEngine(startFen);
+      const replayed: ChessMove[] = [];
+      for (const m of moves) {
+        const promotion =
+          m.promotion && (PROMOTION_PIECES[m.promotion.toLowerCase()] ?? m.promotion);
+        const applied = engine.makeMove(m.from, m.to, promotion);
+        if (!applied) break;
+        replayed.push(applied);
+      }
+      if (replayed.length === moves.length && samePosition(engine.getFEN(), fen)) {
+        return GameTree.fromMoves(replayed, startFen);
+      }
+    }
+    return new GameTree(fen);
+  }
+}
+
+export default GameTree;
@@ -0,0 +1,247 @@
+import type { Color, Move as ChessMove, PieceType } from '@rumenx/chess/types';
+import { AIService } from './AIService';
+import { EXCHANGE_VALUES, opponent } from './AttackMap';
+import {
+  ChessAI,
+  MATE_SCORE,
+  type AnalysisOptions,
+  type SearchMove,
+  type SearchOptions,
+} from './ChessAI';
+import { ChessEngine } from './ChessEngine';
+import { capitalize, motifKey, Tactics, uncapitalize, type TacticalMotif } from './Tactics';
+import { moveToSAN, sameMove } from '../utils/chessNotation';
+import { formatEval, toWhiteScore } from '../utils/evaluation';
+
+/** How much of the hint is shown: the piece, then its square, then the move explained */
+export type HintTier = 'piece' | 'square' | 'move';
+
+export const HINT_TIERS: HintTier[] = ['piece', 'square', 'move'];
+
+export interface Hint {
+  fen: string;
+  move: SearchMove;
+  san: string;
+  piece: PieceType;
+  /** Search score for the side to move, as in SearchProgress */
+  score: number;
+  /** Why the move is good, most important first */
+  reasons: string[];
+}
+
+export interface HintSearchData {
+  move: SearchMove;
+  /** Score of `move` for the side to move */
+  score: number;
+  /** Expected continuation after `move`, if known */
+  reply?: SearchMove[];
+  /** `score` is an exact tablebase distance to mate */
+  fromTablebase?: boolean;
+}
+
+/** A move to explain, with what the search that found it knew */
+export interface HintCandidate {
+  move: SearchMove;
+  /** Score for the side to move; worked out from the reply when missing */
+  score?: number;
+  fromTablebase?: boolean;
+}
+
+/** A hint asked for during a game, at the furthest tier revealed */
+export interface HintRecord {
+  fen: string;
+  /** Plies played before the hinted position */
+  ply: number;
+  tier: HintTier;
+}
+
+/** Hints come from a quick search; a server is asked for the same level */
+export const HINT_SEARCH: SearchOptions = { level: 'easy' };
+/** The reply line is only read for material changing hands, so it stays shallow */
+const REPLY_ANALYSIS: AnalysisOptions = { lines: 1, depth: 3, timeLimitMs: 500 };
+
+/** At most this many reasons make it into the explanation */
+const MAX_REASONS = 2;
+/** Tactics the hinted move is credited with escaping when the opponent had them */
+const PARRIED_MOTIFS: TacticalMotif['type'][] = ['fork', 'hanging-piece'];
+
+/**
+ * Hints that reveal a move a step at a time and say why it is good. The
+ * explanation is put together from the search (mate scores, the expected
+ * continuation) and from the board (Tactics), never from the move alone.
+ */
+export class Hints {
+  /**
+   * Explain a move found for `fen`, by a local search or a server's hint
+   * endpoint. The expected reply is analysed for material changing hands
+   * and, when the move came without a score, for the score as well.
+   */
+  static async explainMove(
+    fen: string,
+    found: HintCandidate,
+    signal?: AbortSignal
+  ): Promise<Hint | null> {
+    const engine = new ChessEngine(fen);
+    const { move } = found;
+    if (!engine.makeMove(move.from, move.to, move.promotion)) return null;
+    const { lines } = await AIService.analyze({
+      fen: engine.getFEN(),
+      options: REPLY_ANALYSIS,
+      signal,
+    });
+    const [reply] = lines;
+    const score = found.score ?? this.scoreFromReply(reply?.score ?? null, engine);
+    return this.create(fen, { ...found, score, reply: reply?.pv });
+  }
+
+  /** Build a hint for the position, or null when the search move is not legal there */
+  static create(fen: string, data: HintSearchData): Hint | null {
+    const engine = new ChessEngine(fen);
+    const legal = engine.getLegalMoves().find((m) => sameMove(m, data.move));
+    if (!legal) return null;
+    return {
+      fen,
+      move: data.move,
+      san: moveToSAN(legal, engine),
+      piece: legal.piece.type,
+      score: data.score,
+      reasons: this.explain(fen, data),
+    };
+  }
+
+  /** What a hint shows at each tier */
+  static text(hint: Hint, tier: HintTier): string {
+    const piece = capitalize(hint.piece);
+    if (tier === 'piece') return `Look at your ${hint.piece} on ${hint.move.from}`;
+    if (tier === 'square') return `${piece} to ${hint.move.to}`;
+    return `${hint.san}: ${hint.reasons.join('. ')}.`;
+  }
+
+  /** The tier after `tier`, the first one for a new hint; null once the move is shown */
+  static nextTier(tier: HintTier | null): HintTier | null {
+    if (tier === null) return HINT_TIERS[0];
+    return HINT_TIERS[HINT_TIERS.indexOf(tier) + 1] ?? null;
+  }
+
+  /** Record a hint at `tier`, raising the tier of one already asked for in the same position */
+  static record(records: HintRecord[], fen: string, ply: number, tier: HintTier): HintRecord[] {
+    const existing = records.find((r) => r.fen === fen && r.ply === ply);
+    if (!existing) return [...records, { fen, ply, tier }];
+    if (HINT_TIERS.indexOf(tier) <= HINT_TIERS.indexOf(existing.tier)) return records;
+    return records.map((r) => (r === existing ? { ...r, tier } : r));
+  }
+
+  /**
+   * Reasons to play `data.move`, most important first: mate, material won
+   * along the expected line, a tactic or mate threat the move creates, and
+   * a threat of the opponent's it parries. Falls back to the evaluation.
+   */
+  static explain(fen: string, data: HintSearchData): string[] {
+    const engine = new ChessEngine(fen);
+    const color = engine.getTurn();
+    const reasons: string[] = [];
+
+    const mate = ChessAI.mateIn(data.score);
+    if (mate !== null) {
+      if (mate > 0) reasons.push(mate === 1 ? 'Checkmate' : `Forces mate in ${mate}`);
+      else if (data.fromTablebase) reasons.push(`Mated in ${-mate} with best defence`);
+      else reasons.push('Holds out longest against the mate');
+    }
+
+    const material = this.materialReason(fen, [data.move, ...(data.reply ?? [])]);
+    if (material && mate === null) reasons.push(material);
+
+    const [motif] = Tactics.afterMove(fen, data.move);
+    if (motif) reasons.push(motif.description);
+
+    const after = new ChessEngine(fen);
+    after.makeMove(data.move.from, data.move.to, data.move.promotion);
+    if (mate === null && !after.isInCheck()) {
+      const threat = this.mateInOne(after.getFEN(), color);
+      if (threat) reasons.push(`Threatens ${threat}`);
+    }
+
+    reasons.push(...this.parried(engine, after, color));
+
+    if (!reasons.length) {
+      reasons.push(
+        `Best by the engine's reckoning (${formatEval(toWhiteScore(data.score, color))})`
+      );
+    }
+    return reasons.slice(0, MAX_REASONS);
+  }
+
+  /**
+   * A mating move `color` would have if it could move again in `fen`, as SAN.
+   * The side to move is swapped, so this is only asked when it is not in check.
+   */
+  static mateInOne(fen: string, color: Color): string | null {
+    const fields = fen.split(' ');
+    fields[1] = color === 'white' ? 'w' : 'b';
+    fields[3] = '-';
+    const engine = new ChessEngine(fields.join(' '));
+    for (const move of engine.getLegalMoves()) {
+      engine.makeMove(move.from, move.to, move.promotion);
+      const mates = engine.getStatus() === 'checkmate';
+      engine.undo();
+      if (mates) return moveToSAN(move, engine);
+    }
+    return null;
+  }
+
+  /** The mover's score from the reply's, one ply further from any mate */
+  private static scoreFromReply(replyScore: number | null, after: ChessEngine): number {
+    if (replyScore === null) return after.getStatus() === 'checkmate' ? MATE_SCORE - 1 : 0;
+    const score = -replyScore;
+    return ChessAI.mateIn(score) === null ? score : score - Math.sign(score);
+  }
+
+  /** "Wins a knight", "Wins material (+2)", ... over the expected line */
+  private static materialReason(fen: string, line: SearchMove[]): string | null {
+    const engine = new ChessEngine(fen);
+    const color = engine.getTurn();
+    const won: PieceType[] = [];
+    const lost: PieceType[] = [];
+    for (const step of line) {
+      const move: ChessMove | null = engine.makeMove(step.from, step.to, step.promotion);
+      if (!move) break;
+      const gains = move.piece.color === color ? won : lost;
+      if (move.captured) gains.push(move.captured.type);
+      // A promotion counts as winning the difference in pawns
+      if (move.promotion) {
+        gains.push(...Array<PieceType>(EXCHANGE_VALUES[move.promotion] - 1).fill('pawn'));
+      }
+    }
+    const total = (pieces: PieceType[]) => pieces.reduce((sum, p) => sum + EXCHANGE_VALUES[p], 0);
+    const net = total(won) - total(lost);
+    if (net <= 0) return null;
+    if (won.length === 1 && !lost.length) {
+      return won[0] === 'queen' ? 'Wins the queen' : `Wins a ${won[0]}`;
+    }
+    return `Wins material (+${net})`;
+  }
+
+  /** Opponent threats present before the move and gone after it */
+  private static parried(before: ChessEngine, after: ChessEngine, color: Color): string[] {
+    if (before.isInCheck()) return ['Answers the check'];
+    const reasons: string[] = [];
+    const mateThreat = this.mateInOne(before.getFEN(), opponent(color));
+    if (mateThreat && !this.mateInOne(after.getFEN(), opponent(color))) {
+      reasons.push(`Stops ${mateThreat}`);
+    }
+    const threats = (engine: ChessEngine) =>
+      Tactics.inPosition(engine.getBoard(), opponent(color)).filter((m) =>
+        PARRIED_MOTIFS.includes(m.type)
+      );
+    const remaining = new Set(threats(after).map(motifKey));
+    const [escaped] = threats(before).filter((m) => !remaining.has(motifKey(m)));
+    if (escaped?.type === 'hanging-piece') {
+      reasons.push(`Saves the ${escaped.piece.type} on ${escaped.square}`);
+    } else if (escaped) {
+      reasons.push(`Escapes the ${uncapitalize(escaped.description)}`);
+    }
+    return reasons;
+  }
+}
+
+export default Hints;
@@ -0,0 +1,243 @@
+import type { Move as ChessMove } from '@rumenx/chess/types';
+import { resolveSAN } from '../utils/chessNotation';
+import { ChessEngine } from './ChessEngine';
+import { positionKey } from './GameTree';
+import { POLYGLOT_RANDOM } from './polyglotRandom';
+
+export interface BookMove {
+  from: string;
+  to: string;
+  /** Full piece name, as ChessEngine.makeMove expects */
+  promotion?: string;
+  san?: string;
+  /** Relative frequency; only meaningful against the other moves of the position */
+  weight: number;
+}
+
+/** A source of book moves, looked up by position */
+export interface OpeningBook {
+  movesFor(fen: string): BookMove[];
+}
+
+export class BookFormatError extends Error {
+  /** 1-based line of a text book, when known */
+  readonly line?: number;
+
+  constructor(message: string, line?: number) {
+    super(line ? `Line ${line}: ${message}` : message);
+    this.name = 'BookFormatError';
+    this.line = line;
+  }
+}
+
+/** Book positions are matched on `positionKey`: move counters and en passant don't matter */
+export function bookKey(fen: string): string {
+  return positionKey(fen);
+}
+
+/** Key for "this move was played from this position", e.g. to mark book moves in the UI */
+export function bookMoveKey(fen: string, move: { from: string; to: string }): string {
+  return `${bookKey(fen)} ${move.from}${move.to}`;
+}
+
+/**
+ * Choose a book move by weight. `variety` runs from 0 (always the heaviest
+ * move) through 0.5 (proportional to weight) to 1 (uniform).
+ */
+export function pickBookMove(
+  moves: BookMove[],
+  variety: number,
+  random: () => number = Math.random
+): BookMove | null {
+  if (!moves.length) return null;
+  if (variety <= 0) return moves.reduce((best, m) => (m.weight > best.weight ? m : best));
+
+  const exponent = 1 / Math.min(variety, 1) - 1;
+  const scaled = moves.map((m) => Math.max(m.weight, 1) ** exponent);
+  let roll = random() * scaled.reduce((sum, w) => sum + w, 0);
+  for (let i = 0; i < moves.length; i++) {
+    roll -= scaled[i];
+    if (roll < 0) return moves[i];
+  }
+  return moves[moves.length - 1];
+}
+
+// ---------------------------------------------------------------------------
+// Bundled line book
+// ---------------------------------------------------------------------------
+
+/**
+ * Book built from opening lines in a compact text format, one line per row:
+ *
+ *     # comment
+ *     <weight> <SAN moves from the initial position>
+ *
+ * Every move along a line gets the line's weight; lines sharing a prefix add
+ * up, so popular first moves end up heaviest.
+ */
+export class LineBook implements OpeningBook {
+  private positions = new Map<string, BookMove[]>();
+
+  /** @throws BookFormatError naming the line of the first bad weight or move */
+  static parse(text: string, startFen?: string): LineBook {
+    const book = new LineBook();
+    text.split('\n').forEach((raw, index) => {
+      const line = raw.replace(/#.*/, '').trim();
+      if (!line) return;
+      const [weightToken, ...sans] = line.split(/\s+/);
+      const weight = Number(weightToken);
+      if (!Number.isFinite(weight) || weight <= 0) {
+        throw new BookFormatError(`Expected a positive weight, got "${weightToken}"`, index + 1);
+      }
+      const engine = new ChessEngine(startFen);
+      for (const san of sans) {
+        const fen = engine.getFEN();
+        let move: ChessMove;
+        try {
+          move = resolveSAN(san, engine);
+        } catch (err) {
+          const detail = err instanceof Error ? err.message : String(err);
+          throw new BookFormatError(`${san}: ${detail}`, index + 1);
+        }
+        engine.makeMove(move.from, move.to, move.promotion);
+        book.add(fen, { from: move.from, to: move.to, promotion: move.promotion, san }, weight);
+      }
+    });
+    return book;
+  }
+
+  /** Number of positions in the book */
+  get size(): number {
+    return this.positions.size;
+  }
+
+  add(fen: string, move: Omit<BookMove, 'weight'>, weight: number): void {
+    const key = bookKey(fen);
+    const moves = this.positions.get(key) ?? [];
+    const existing = moves.find((m) => m.from === move.from && m.to === move.to);
+    if (existing) existing.weight += weight;
+    else moves.push({ ...move, weight });
+    this.positions.set(key, moves);
+  }
+
+  movesFor(fen: string): BookMove[] {
+    return this.positions.get(bookKey(fen)) ?? [];
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Polyglot .bin books
+// ---------------------------------------------------------------------------
+
+const POLYGLOT_ENTRY_BYTES = 16;
+const POLYGLOT_PIECES = 'pPnNbBrRqQkK';
+const POLYGLOT_PROMOTIONS = [undefined, 'knight', 'bishop', 'rook', 'queen'];
+// Polyglot writes castling as the king taking its own rook
+const POLYGLOT_CASTLING: Record<string, string> = {
+  e1h1: 'g1',
+  e1a1: 'c1',
+  e8h8: 'g8',
+  e8a8: 'c8',
+};
+
+/**
+ * Polyglot opening book: 16-byte big-endian entries (key, move, weight,
+ * learn) sorted by key. Keys hash positions with the standard 781-entry
+ * Polyglot Random64 table (POLYGLOT_RANDOM unless another is given).
+ */
+export class PolyglotBook implements OpeningBook {
+  static readonly RANDOM_COUNT = 781;
+  private entries = new Map<bigint, { move: number; weight: number }[]>();
+  private random: readonly bigint[];
+
+  private constructor(random: readonly bigint[]) {
+    if (random.length !== PolyglotBook.RANDOM_COUNT) {
+      throw new BookFormatError(
+        `Polyglot needs ${PolyglotBook.RANDOM_COUNT} random keys, got ${random.length}`
+      );
+    }
+    this.random = random;
+  }
+
+  /** @throws BookFormatError when the data is not a whole number of entries */
+  static fromBinary(
+    data: ArrayBuffer | Uint8Array,
+    random: readonly bigint[] = POLYGLOT_RANDOM
+  ): PolyglotBook {
+    const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+    if (bytes.byteLength % POLYGLOT_ENTRY_BYTES !== 0) {
+      throw new BookFormatError(
+        `Polyglot book size ${bytes.byteLength} is not a multiple of ${POLYGLOT_ENTRY_BYTES}`
+      );
+    }
+    const book = new PolyglotBook(random);
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    for (let offset = 0; offset < bytes.byteLength; offset += POLYGLOT_ENTRY_BYTES) {
+      const key = view.getBigUint64(offset);
+      const entry = { move: view.getUint16(offset + 8), weight: view.getUint16(offset + 10) };
+      const list = book.entries.get(key);
+      if (list) list.push(entry);
+      else book.entries.set(key, [entry]);
+    }
+    return book;
+  }
+
+  /** Polyglot hash of a FEN position */
+  static key(fen: string, random: readonly bigint[] = POLYGLOT_RANDOM): bigint {
+    const [placement, turn, castling, enPassant] = fen.split(' ');
+    const board = placement.split('/').reverse(); // rank 1 first
+    let key = 0n;
+    board.forEach((rank, row) => {
+      let file = 0;
+      for (const ch of rank) {
+        if (/\d/.test(ch)) {
+          file += Number(ch);
+          continue;
+        }
+        key ^= random[64 * POLYGLOT_PIECES.indexOf(ch) + 8 * row + file];
+        file++;
+      }
+    });
+
+    ['K', 'Q', 'k', 'q'].forEach((right, i) => {
+      if (castling?.includes(right)) key ^= random[768 + i];
+    });
+
+    // The en passant file only counts when a pawn can actually take
+    if (enPassant && enPassant !== '-') {
+      const file = enPassant.charCodeAt(0) - 97;
+      const pawnRow = turn === 'w' ? 4 : 3;
+      const pawn = turn === 'w' ? 'P' : 'p';
+      const rank = expandRank(board[pawnRow]);
+      if (rank[file - 1] === pawn || rank[file + 1] === pawn) key ^= random[772 + file];
+    }
+
+    if (turn === 'w') key ^= random[780];
+    return key;
+  }
+
+  movesFor(fen: string): BookMove[] {
+    const entries = this.entries.get(PolyglotBook.key(fen, this.random)) ?? [];
+    return entries.map(({ move, weight }) => ({ ...decodePolyglotMove(move, fen), weight }));
+  }
+}
+
+/** Rank string from a FEN placement with digits expanded to '.' */
+function expandRank(rank: string): string {
+  return rank.replace(/\d/g, (n) => '.'.repeat(Number(n)));
+}
+
+function decodePolyglotMove(move: number, fen: string): Omit<BookMove, 'weight'> {
+  const square = (file: number, row: number) => String.fromCharCode(97 + file) + (row + 1);
+  const from = square((move >> 6) & 7, (move >> 9) & 7);
+  let to = square(move & 7, (move >> 3) & 7);
+  const promotion = POLYGLOT_PROMOTIONS[(move >> 12) & 7];
+
+  const castleTo = POLYGLOT_CASTLING[from + to];
+  if (castleTo) {
+    const rows = fen.split(' ')[0].split('/').reverse();
+    const piece = expandRank(rows[Number(from[1]) - 1])[from.charCodeAt(0) - 97];
+    if (piece === 'K' || piece === 'k') to = castleTo;
+  }
+  return promotion ? { from, to, promotion } : { from, to };
+}
@@ -0,0 +1,128 @@
+import { ChessEngine } from './ChessEngine';
+import type { ChessProvider } from '../providers/types';
+import { moveToUCI } from '../utils/chessNotation';
+
+/** Leaf count below each root move, keyed by the move in UCI notation */
+export type PerftDivide = Record<string, number>;
+
+export interface PerftMismatch {
+  move: string;
+  /** null when the move is missing from that side */
+  expected: number | null;
+  actual: number | null;
+}
+
+export interface ProviderPerftOptions {
+  /** Called after each root move has been counted */
+  onRootMove?: (move: string, nodes: number) => void;
+}
+
+/**
+ * Move-generator conformance by perft: the number of leaf positions reachable
+ * in exactly `depth` plies, compared against published counts or between
+ * engines. `divide` splits the count by root move so a disagreement can be
+ * chased down one move at a time.
+ */
+export class Perft {
+  /** Leaf nodes at `depth`; the engine is left in the position it started in */
+  static count(engine: ChessEngine, depth: number): number {
+    this.checkDepth(depth, 0);
+    if (depth === 0) return 1;
+    const moves = engine.getLegalMoves();
+    // Bulk counting: the last ply needs no make/undo
+    if (depth === 1) return moves.length;
+    let nodes = 0;
+    for (const move of moves) {
+      engine.makeMove(move.from, move.to, move.promotion);
+      nodes += this.count(engine, depth - 1);
+      engine.undo();
+    }
+    return nodes;
+  }
+
+  static divide(engine: ChessEngine, depth: number): PerftDivide {
+    this.checkDepth(depth, 1);
+    const divide: PerftDivide = {};
+    for (const move of engine.getLegalMoves()) {
+      engine.makeMove(move.from, move.to, move.promotion);
+      divide[moveToUCI(move)] = this.count(engine, depth - 1);
+      engine.undo();
+    }
+    return divide;
+  }
+
+  static total(divide: PerftDivide): number {
+    return Object.values(divide).reduce((sum, n) => sum + n, 0);
+  }
+
+  /** Divide output as engines print it: one "move: nodes" line per root move, then the total */
+  static format(divide: PerftDivide): string {
+    const lines = Object.keys(divide)
+      .sort()
+      .map((move) => `${move}: ${divide[move]}`);
+    return [...lines, '', `Nodes searched: ${this.total(divide)}`].join('\n');
+  }
+
+  /** Root moves whose counts differ, including moves only one side generates */
+  static compare(expected: PerftDivide, actual: PerftDivide): PerftMismatch[] {
+    const moves = [...new Set([...Object.keys(expected), ...Object.keys(actual)])].sort();
+    return moves
+      .map((move) => ({ move, expected: expected[move] ?? null, actual: actual[move] ?? null }))
+      .filter((m) => m.expected !== m.actual);
+  }
+
+  /**
+   * Divide through a provider's REST surface, so a remote backend's move
+   * generator can be compared with the local one. Every node is a loadFen /
+   * getLegalMoves round trip, so keep the depth small (3 is already a few
+   * hundred requests from the start position).
+   */
+  static async divideProvider(
+    provider: ChessProvider,
+    fen: string,
+    depth: number,
+    options: ProviderPerftOptions = {}
+  ): Promise<PerftDivide> {
+    this.checkDepth(depth, 1);
+    const { id } = await provider.createGame({ fen });
+    const play = async (
+      position: string,
+      move: { from: string; to: string; promotion?: string }
+    ) => {
+      await provider.loadFen(id, position);
+      const state = await provider.makeMove(id, move.from, move.to, move.promotion);
+      return state.fen;
+    };
+    const count = async (position: string, remaining: number): Promise<number> => {
+      if (remaining === 0) return 1;
+      await provider.loadFen(id, position);
+      const moves = await provider.getLegalMoves(id);
+      if (remaining === 1) return moves.length;
+      let nodes = 0;
+      for (const move of moves) nodes += await count(await play(position, move), remaining - 1);
+      return nodes;
+    };
+
+    try {
+      await provider.loadFen(id, fen);
+      const divide: PerftDivide = {};
+      for (const move of await provider.getLegalMoves(id)) {
+        const key = moveToUCI(move);
+        divide[key] = await count(await play(fen, move), depth - 1);
+        options.onRootMove?.(key, divide[key]);
+      }
+      return divide;
+    } finally {
+      await provider.deleteGame(id).catch(() => undefined);
+    }
+  }
+
+  /** Anything else would recurse past the leaves without ever stopping */
+  private static checkDepth(depth: number, min: number): void {
+    if (!Number.isInteger(depth) || depth < min) {
+      throw new RangeError(`Perft depth must be a whole number of at least ${min}, got ${depth}`);
+    }
+  }
+}
+
+export default Perft;
@@ -0,0 +1,85 @@
+import type { EvalWeights } from './Evaluator';
+
+export type AIPersonality = 'balanced' | 'attacker' | 'positional' | 'gambiteer' | 'simplifier';
+
+export interface PersonalityProfile {
+  label: string;
+  description: string;
+  /** Multipliers applied to the level's evaluation weights; missing terms stay as they are */
+  scale: Partial<Record<keyof EvalWeights, number>>;
+  /** Overrides for terms the level profiles leave at zero */
+  extra: Partial<EvalWeights>;
+  /**
+   * Softmax temperature in centipawns over the best root moves (see
+   * Strength.pickMove), added to any the rating already brings
+   */
+  temperature: number;
+}
+
+export const PERSONALITIES: Record<AIPersonality, PersonalityProfile> = {
+  balanced: {
+    label: 'Balanced',
+    description: 'Plays the level as it is',
+    scale: {},
+    extra: {},
+    temperature: 0,
+  },
+  attacker: {
+    label: 'Attacker',
+    description: 'Goes after the king and keeps pieces active',
+    scale: { kingShield: 2, kingOpenFile: 2.5, mobility: 1.5 },
+    extra: { kingAttack: 8 },
+    temperature: 10,
+  },
+  positional: {
+    label: 'Positional',
+    description: 'Good squares, sound pawns and the bishop pair',
+    scale: { pieceSquare: 1.5, doubledPawn: 1.5, isolatedPawn: 1.5, bishopPair: 1.25 },
+    extra: {},
+    temperature: 0,
+  },
+  gambiteer: {
+    label: 'Gambiteer',
+    description: 'Gives up pawns for development and initiative',
+    scale: { material: 0.85, mobility: 2.5, pieceSquare: 1.3 },
+    extra: {},
+    temperature: 25,
+  },
+  simplifier: {
+    label: 'Simplifier',
+    description: 'Trades pieces when ahead and heads for the endgame',
+    scale: { passedPawn: 1.5, mobility: 0.5, kingShield: 0.5 },
+    extra: { simplification: 4 },
+    temperature: 5,
+  },
+};
+
+/**
+ * Playing styles layered on top of a difficulty level or rating: they
+ * reweight the evaluation and add some randomness to the move choice. Weak
+ * levels that ignore positional terms only show a style through material and
+ * randomness.
+ */
+export class Personality {
+  static readonly IDS = Object.keys(PERSONALITIES) as AIPersonality[];
+
+  static isPersonality(value: unknown): value is AIPersonality {
+    return typeof value === 'string' && (this.IDS as string[]).includes(value);
+  }
+
+  /** The level's weights reshaped by a personality */
+  static weights(base: EvalWeights, personality: AIPersonality): EvalWeights {
+    const { scale, extra } = PERSONALITIES[personality];
+    const weights = { ...base, ...extra };
+    for (const [term, factor] of Object.entries(scale) as [keyof EvalWeights, number][]) {
+      weights[term] *= factor;
+    }
+    return weights;
+  }
+
+  static temperature(personality: AIPersonality | undefined): number {
+    return personality ? PERSONALITIES[personality].temperature : 0;
+  }
+}
+
+export default Personality;
@@ -0,0 +1,154 @@
+import type { NormGameState } from '../providers/types';
+import { samePosition } from './GameTree';
+
+export type RemoteOpKind = 'move' | 'undo' | 'load';
+
+/** An operation already applied to the local engine, to be mirrored on the server */
+export interface RemoteOp {
+  kind: RemoteOpKind;
+  /** Send the operation; resolves with the server's state after it */
+  send: () => Promise<NormGameState>;
+  /** Fetch the server's state, used to tell a refusal from a lost connection */
+  fetch: () => Promise<NormGameState>;
+  /** Position the server should report once the operation applied */
+  expectedFen: string;
+  /** Position the server was at before; a refused operation should leave it there */
+  previousFen: string;
+}
+
+export type SyncOutcome =
+  | { type: 'confirmed'; state: NormGameState }
+  /** The server refused the operation and stayed put: undo it locally */
+  | { type: 'rejected'; state: NormGameState; error: unknown }
+  /** The server is at some other position: adopt its state */
+  | { type: 'diverged'; state: NormGameState }
+  /** Neither the operation nor a state fetch got through, and the error was not an offline one */
+  | { type: 'unreachable'; error: unknown }
+  /** Not sent: the game was reset, or an earlier operation it built on failed */
+  | { type: 'dropped' };
+
+export interface RemoteSyncOptions {
+  /** Errors meaning the server is out of reach; an operation failing with one is held */
+  isOffline?: (error: unknown) => boolean;
+  /** Called when operations start being held, and when resume() or reset() lets them go */
+  onOfflineChange?: (offline: boolean) => void;
+}
+
+/**
+ * Reconciles optimistic local moves with an authoritative server. Operations
+ * are sent one at a time in the order they were played, and the FEN each one
+ * returns is checked against the local engine's. Once one is refused or the
+ * server turns out to be elsewhere, the operations queued behind it are
+ * dropped: they were played on a position the server never reached.
+ *
+ * An operation that fails because the server is out of reach is held, along
+ * with everything queued behind it, until resume() replays them in order.
+ */
+export class RemoteSync {
+  private queue: Promise<unknown> = Promise.resolve();
+  /** Bumped to drop every queued operation */
+  private generation = 0;
+  private waiting = 0;
+  /** Released by resume(); set while operations are held */
+  private reconnected: { promise: Promise<void>; release: () => void } | null = null;
+  private readonly options: RemoteSyncOptions;
+
+  constructor(options: RemoteSyncOptions = {}) {
+    this.options = options;
+  }
+
+  /** Operations sent or queued but not settled */
+  get pending(): number {
+    return this.waiting;
+  }
+
+  /** Operations are held until the server is reachable again */
+  get offline(): boolean {
+    return this.reconnected !== null;
+  }
+
+  enqueue(op: RemoteOp): Promise<SyncOutcome> {
+    const generation = this.generation;
+    this.waiting++;
+    const outcome = this.queue.then(async () => {
+      try {
+        return generation === this.generation
+          ? await this.runWhenReachable(op, generation)
+          : { type: 'dropped' as const };
+      } finally {
+        this.waiting--;
+      }
+    });
+    this.queue = outcome;
+    return outcome;
+  }
+
+  /** Resolves once every operation queued so far has settled */
+  idle(): Promise<void> {
+    return this.queue.then(() => undefined);
+  }
+
+  /** Drop everything queued, e.g. when a new game replaces the current one */
+  reset(): void {
+    this.generation++;
+    this.resume();
+  }
+
+  /** The server is reachable again: replay the held operations in order */
+  resume(): void {
+    const reconnected = this.reconnected;
+    if (!reconnected) return;
+    this.reconnected = null;
+    this.options.onOfflineChange?.(false);
+    reconnected.release();
+  }
+
+  /** Run `op`, and again after each resume() for as long as it fails offline */
+  private async runWhenReachable(op: RemoteOp, generation: number): Promise<SyncOutcome> {
+    for (;;) {
+      const outcome = await this.run(op);
+      if (outcome.type !== 'unreachable' || !this.options.isOffline?.(outcome.error)) {
+        return outcome;
+      }
+      await this.waitForServer();
+      if (generation !== this.generation) return { type: 'dropped' };
+    }
+  }
+
+  private waitForServer(): Promise<void> {
+    if (!this.reconnected) {
+      let release!: () => void;
+      const promise = new Promise<void>((resolve) => (release = resolve));
+      this.reconnected = { promise, release };
+      this.options.onOfflineChange?.(true);
+    }
+    return this.reconnected.promise;
+  }
+
+  private async run(op: RemoteOp): Promise<SyncOutcome> {
+    let state: NormGameState;
+    try {
+      state = await op.send();
+    } catch (error) {
+      let current: NormGameState;
+      try {
+        current = await op.fetch();
+      } catch {
+        return { type: 'unreachable', error };
+      }
+      // The operation may have landed with only its response lost (a timeout)
+      if (samePosition(current.fen, op.expectedFen)) {
+        return { type: 'confirmed', state: current };
+      }
+      this.reset();
+      return samePosition(current.fen, op.previousFen)
+        ? { type: 'rejected', state: current, error }
+        : { type: 'diverged', state: current };
+    }
+    if (samePosition(state.fen, op.expectedFen)) return { type: 'confirmed', state };
+    this.reset();
+    return { type: 'diverged', state };
+  }
+}
+
+export default RemoteSync;
@@ -0,0 +1,141 @@
+import { ChessAI, type SearchOptions } from './ChessAI';
+import { ChessEngine } from './ChessEngine';
+import { moveToUCI } from '../utils/chessNotation';
+
+export type GameOutcome = '1-0' | '0-1' | '1/2-1/2';
+
+export interface SelfPlayGame {
+  result: GameOutcome;
+  plies: number;
+  /** Moves in coordinate notation, e.g. "e2e4" or "e7e8q" */
+  moves: string[];
+}
+
+export interface SelfPlayOptions {
+  /** Games still running after this many plies are scored as draws */
+  maxPlies?: number;
+  startFen?: string;
+  /** Base seed; each game and side derives its own so matches are reproducible */
+  seed?: number;
+}
+
+export interface MatchResult {
+  games: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  /** Points scored by the first player, draws counting half */
+  score: number;
+  /** Rating difference implied by the score, first player minus second */
+  eloDifference: number;
+}
+
+export interface LadderRung {
+  /** Nominal rating of the rung (see Strength) */
+  elo: number;
+  /** Rating measured by chaining match results up from the first rung */
+  measured: number;
+  /** Result against the rung below; null for the first rung */
+  match: MatchResult | null;
+}
+
+const DEFAULT_MAX_PLIES = 160;
+/** Scores are clamped this far from 0% and 100% so a clean sweep has a finite Elo gap */
+const SCORE_EPSILON = 0.5;
+
+/**
+ * Engine-versus-engine games for calibrating the strength model. Everything
+ * runs synchronously on the calling thread, so use small budgets or call it
+ * from a worker or test.
+ */
+export class SelfPlay {
+  /** Play one game between two option sets, white first */
+  static playGame(
+    white: SearchOptions,
+    black: SearchOptions,
+    options: SelfPlayOptions = {}
+  ): SelfPlayGame {
+    const engine = new ChessEngine(options.startFen);
+    const maxPlies = options.maxPlies ?? DEFAULT_MAX_PLIES;
+    const moves: string[] = [];
+    while (!engine.isGameOver() && moves.length < maxPlies) {
+      const side = engine.getTurn() === 'white' ? white : black;
+      const seed = options.seed === undefined ? undefined : options.seed * 1000 + moves.length;
+      const { bestMove } = ChessAI.search(engine, { ...side, seed });
+      if (!bestMove || !engine.makeMove(bestMove.from, bestMove.to, bestMove.promotion)) break;
+      moves.push(moveToUCI(bestMove));
+    }
+    const result = engine.isGameOver() ? engine.getResult() : '1/2-1/2';
+    return {
+      result: result === '1-0' || result === '0-1' ? result : '1/2-1/2',
+      plies: moves.length,
+      moves,
+    };
+  }
+
+  /** Play `games` games, alternating colours, and score them for `first` */
+  static match(
+    first: SearchOptions,
+    second: SearchOptions,
+    games: number,
+    options: SelfPlayOptions = {}
+  ): MatchResult {
+    let wins = 0;
+    let draws = 0;
+    for (let i = 0; i < games; i++) {
+      const firstIsWhite = i % 2 === 0;
+      const seed = options.seed === undefined ? undefined : options.seed + i;
+      const { result } = firstIsWhite
+        ? this.playGame(first, second, { ...options, seed })
+        : this.playGame(second, first, { ...options, seed });
+      if (result === '1/2-1/2') draws++;
+      else if ((result === '1-0') === firstIsWhite) wins++;
+    }
+    const score = wins + draws / 2;
+    return {
+      games,
+      wins,
+      draws,
+      losses: games - wins - draws,
+      score,
+      eloDifference: this.eloDifference(score, games),
+    };
+  }
+
+  /** Logistic rating difference for a score, the usual 400-point scale */
+  static eloDifference(score: number, games: number): number {
+    if (games === 0) return 0;
+    const clamped = Math.min(Math.max(score, SCORE_EPSILON), games - SCORE_EPSILON);
+    const expected = clamped / games;
+    // `+ 0` turns the -0 of an even score into 0
+    return Math.round(-400 * Math.log10(1 / expected - 1)) + 0;
+  }
+
+  /**
+   * Measure a ladder of ratings: each rung plays the one below it and its
+   * measured rating is the lower rung's plus the gap the match implies. The
+   * first rung is anchored at its nominal rating.
+   */
+  static ladder(
+    elos: number[],
+    gamesPerMatch: number,
+    options: SelfPlayOptions & { base?: Omit<SearchOptions, 'elo'> } = {}
+  ): LadderRung[] {
+    const base: Omit<SearchOptions, 'elo'> = options.base ?? { level: 'medium', useBook: false };
+    const rungs: LadderRung[] = [];
+    elos.forEach((elo, i) => {
+      if (i === 0) {
+        rungs.push({ elo, measured: elo, match: null });
+        return;
+      }
+      const match = this.match({ ...base, elo }, { ...base, elo: elos[i - 1] }, gamesPerMatch, {
+        ...options,
+        seed: options.seed === undefined ? undefined : options.seed + i * gamesPerMatch,
+      });
+      rungs.push({ elo, measured: rungs[i - 1].measured + match.eloDifference, match });
+    });
+    return rungs;
+  }
+}
+
+export default SelfPlay;
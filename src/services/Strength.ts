@@ -0,0 +1,127 @@
+import type { AIDifficulty, SearchBudget, SearchClock } from './ChessAI';
+import { EVAL_PROFILES, type EvalWeights } from './Evaluator';
+
+/** How an engine rated at `elo` searches and how often it goes wrong */
+export interface StrengthProfile extends SearchBudget {
+  elo: number;
+  /** Capture plies resolved past the horizon; fewer means longer tactics go unseen */
+  quiescencePlies: number;
+  /**
+   * Softmax temperature over the root move scores, in centipawns. 0 always
+   * plays the best move; higher values pick the second or third best more often.
+   */
+  temperature: number;
+  /** Play tablebase endgames perfectly */
+  tablebases: boolean;
+  weights: EvalWeights;
+}
+
+export interface ScoredMove<M> {
+  move: M;
+  score: number;
+}
+
+type Anchor = Omit<StrengthProfile, 'tablebases' | 'weights'>;
+
+/**
+ * Nominal anchors between which profiles are interpolated. The ratings are
+ * estimates, not FIDE ratings; SelfPlay.ladder measures the gaps between them.
+ */
+// prettier-ignore
+const ANCHORS: Anchor[] = [
+  { elo: 400, maxDepth: 1, timeMs: 100, nodes: 1_000, quiescencePlies: 0, temperature: 300 },
+  { elo: 800, maxDepth: 1, timeMs: 200, nodes: 3_000, quiescencePlies: 1, temperature: 150 },
+  { elo: 1100, maxDepth: 2, timeMs: 400, nodes: 10_000, quiescencePlies: 2, temperature: 80 },
+  { elo: 1400, maxDepth: 2, timeMs: 750, nodes: 25_000, quiescencePlies: 4, temperature: 40 },
+  { elo: 1700, maxDepth: 3, timeMs: 1_500, nodes: 100_000, quiescencePlies: 6, temperature: 20 },
+  { elo: 2000, maxDepth: 4, timeMs: 3_000, nodes: 300_000, quiescencePlies: 8, temperature: 8 },
+  { elo: 2300, maxDepth: 5, timeMs: 6_000, nodes: 1_000_000, quiescencePlies: 8, temperature: 0 },
+];
+
+/** Only this many of the best root moves are ever considered */
+export const CANDIDATE_MOVES = 3;
+/** Below this much clock an engine starts to crack */
+const PRESSURE_MS = 30_000;
+/** Temperature added with the clock all but gone */
+const PRESSURE_TEMPERATURE = 80;
+
+/**
+ * Human-like weakening keyed to a target rating: shallower search, capture
+ * sequences cut short so long tactics are missed, and a softmax over the best
+ * few root moves instead of always playing the top one. Short clocks make
+ * every level sloppier.
+ */
+export class Strength {
+  static readonly MIN_ELO = ANCHORS[0].elo;
+  static readonly MAX_ELO = ANCHORS[ANCHORS.length - 1].elo;
+
+  /** Profile for a rating, clamped to the supported range */
+  static forElo(elo: number): StrengthProfile {
+    const target = Math.min(Math.max(elo, this.MIN_ELO), this.MAX_ELO);
+    const upper = ANCHORS.findIndex((a) => a.elo >= target);
+    const high = ANCHORS[upper];
+    const low = ANCHORS[Math.max(upper - 1, 0)];
+    const t = high.elo === low.elo ? 1 : (target - low.elo) / (high.elo - low.elo);
+    const lerp = (a: number, b: number) => a + (b - a) * t;
+    return {
+      elo: target,
+      // Depth only steps up once the next anchor is reached
+      maxDepth: t === 1 ? high.maxDepth : low.maxDepth,
+      timeMs: Math.round(lerp(low.timeMs, high.timeMs)),
+      nodes: Math.round(lerp(low.nodes, high.nodes)),
+      quiescencePlies: Math.floor(lerp(low.quiescencePlies, high.quiescencePlies)),
+      temperature: lerp(low.temperature, high.temperature),
+      tablebases: target >= 1500,
+      weights: EVAL_PROFILES[this.levelFor(target)],
+    };
+  }
+
+  /** The difficulty level closest to a rating, for its opening book and evaluation */
+  static levelFor(elo: number): AIDifficulty {
+    if (elo < 1000) return 'easy';
+    if (elo < 1400) return 'medium';
+    if (elo < 1700) return 'hard';
+    if (elo < 2000) return 'expert';
+    return 'godlike';
+  }
+
+  /**
+   * Weaken a profile as the clock runs down: a hotter softmax, shorter
+   * capture sequences and, in a real scramble, one ply less.
+   */
+  static underPressure(profile: StrengthProfile, clock?: SearchClock): StrengthProfile {
+    if (!clock) return profile;
+    const pressure = Math.max(0, 1 - clock.remainingMs / PRESSURE_MS);
+    if (pressure === 0) return profile;
+    return {
+      ...profile,
+      temperature: profile.temperature + pressure * PRESSURE_TEMPERATURE,
+      quiescencePlies: Math.floor(profile.quiescencePlies * (1 - pressure / 2)),
+      maxDepth: pressure > 0.5 ? Math.max(1, profile.maxDepth - 1) : profile.maxDepth,
+    };
+  }
+
+  /**
+   * Choose among the best few moves with probability proportional to
+   * exp((score - best) / temperature)
+   */
+  static pickMove<M>(
+    scored: ScoredMove<M>[],
+    temperature: number,
+    random: () => number = Math.random
+  ): ScoredMove<M> | null {
+    if (!scored.length) return null;
+    const candidates = [...scored].sort((a, b) => b.score - a.score).slice(0, CANDIDATE_MOVES);
+    if (temperature <= 0) return candidates[0];
+    const best = candidates[0].score;
+    const weights = candidates.map((c) => Math.exp((c.score - best) / temperature));
+    let roll = random() * weights.reduce((sum, w) => sum + w, 0);
+    for (let i = 0; i < candidates.length; i++) {
+      roll -= weights[i];
+      if (roll < 0) return candidates[i];
+    }
+    return candidates[candidates.length - 1];
+  }
+}
+
+export default Strength;
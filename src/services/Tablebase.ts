@@ -0,0 +1,729 @@
+/** Endgames with a generated tablebase: the strong side's pieces against a lone king */
+export type TablebaseMaterial = 'KQK' | 'KRK' | 'KPK' | 'KBNK';
+
+export interface TablebaseProbe {
+  /** Outcome for the side to move with perfect play */
+  result: 'win' | 'loss' | 'draw';
+  /** Plies to mate with perfect play (0 when drawn or already mated) */
+  dtm: number;
+}
+
+export interface TablebaseMove extends TablebaseProbe {
+  /** A move keeping the result: fastest mate when winning, longest defence when losing */
+  move: { from: string; to: string; promotion?: string } | null;
+}
+
+export interface TablebaseStats {
+  material: TablebaseMaterial;
+  /** Table entries, including the unreachable ones */
+  size: number;
+  /** Positions won by the strong side, whoever is to move */
+  wins: number;
+  /** Longest forced mate, in plies */
+  maxDtm: number;
+  elapsedMs: number;
+}
+
+/** A built table's distances to mate, enough to restore it elsewhere (e.g. in another worker) */
+export interface TablebaseData {
+  material: TablebaseMaterial;
+  values: Uint8Array;
+}
+
+type PieceType = 'Q' | 'R' | 'B' | 'N' | 'P';
+
+/** Strong side pieces besides the king, in the order they are indexed */
+const MATERIAL_PIECES: Record<TablebaseMaterial, PieceType[]> = {
+  KQK: ['Q'],
+  KRK: ['R'],
+  KPK: ['P'],
+  KBNK: ['B', 'N'],
+};
+
+// Side to move in a normalized position: the strong side always plays white
+const STRONG = 0;
+const WEAK = 1;
+// values[] holds plies to mate + 1; 0 is a draw (or a position that can't occur)
+const UNKNOWN = 0;
+/** Move count marking a weak-to-move position that can take a piece */
+const NEVER_LOST = 255;
+
+// ---------------------------------------------------------------------------
+// Board geometry (a1 = 0, h8 = 63, as squareIndex)
+// ---------------------------------------------------------------------------
+
+const fileOf = (s: number) => s & 7;
+const rankOf = (s: number) => s >> 3;
+
+const KING_STEPS = [-9, -8, -7, -1, 1, 7, 8, 9];
+const KNIGHT_JUMPS = [
+  [1, 2],
+  [2, 1],
+  [2, -1],
+  [1, -2],
+  [-1, -2],
+  [-2, -1],
+  [-2, 1],
+  [-1, 2],
+];
+const ORTHOGONAL = [
+  [1, 0],
+  [-1, 0],
+  [0, 1],
+  [0, -1],
+];
+const DIAGONAL = [
+  [1, 1],
+  [1, -1],
+  [-1, 1],
+  [-1, -1],
+];
+
+function squaresFrom(s: number, steps: number[][], slide: boolean): number[][] {
+  return steps.map(([df, dr]) => {
+    const ray: number[] = [];
+    let f = fileOf(s) + df;
+    let r = rankOf(s) + dr;
+    while (f >= 0 && f < 8 && r >= 0 && r < 8) {
+      ray.push(r * 8 + f);
+      if (!slide) break;
+      f += df;
+      r += dr;
+    }
+    return ray;
+  });
+}
+
+const KING_TARGETS: number[][] = [];
+const KNIGHT_TARGETS: number[][] = [];
+const ORTHOGONAL_RAYS: number[][][] = [];
+const DIAGONAL_RAYS: number[][][] = [];
+const KING_ADJACENT = new Uint8Array(64 * 64);
+const KNIGHT_ADJACENT = new Uint8Array(64 * 64);
+const ON_ORTHOGONAL = new Uint8Array(64 * 64);
+const ON_DIAGONAL = new Uint8Array(64 * 64);
+/** BETWEEN[(a * 64 + b) * 64 + s] is set when s lies strictly between a and b on a line */
+const BETWEEN = new Uint8Array(64 * 64 * 64);
+
+for (let s = 0; s < 64; s++) {
+  KING_TARGETS[s] = KING_STEPS.filter((d) => {
+    const t = s + d;
+    return t >= 0 && t < 64 && Math.abs(fileOf(t) - fileOf(s)) <= 1;
+  }).map((d) => s + d);
+  KNIGHT_TARGETS[s] = squaresFrom(s, KNIGHT_JUMPS, false).flat();
+  ORTHOGONAL_RAYS[s] = squaresFrom(s, ORTHOGONAL, true);
+  DIAGONAL_RAYS[s] = squaresFrom(s, DIAGONAL, true);
+  for (const t of KING_TARGETS[s]) KING_ADJACENT[s * 64 + t] = 1;
+  for (const t of KNIGHT_TARGETS[s]) KNIGHT_ADJACENT[s * 64 + t] = 1;
+  const mark = (rays: number[][], line: Uint8Array) =>
+    rays.forEach((ray) =>
+      ray.forEach((t, i) => {
+        line[s * 64 + t] = 1;
+        for (const between of ray.slice(0, i)) BETWEEN[(s * 64 + t) * 64 + between] = 1;
+      })
+    );
+  mark(ORTHOGONAL_RAYS[s], ON_ORTHOGONAL);
+  mark(DIAGONAL_RAYS[s], ON_DIAGONAL);
+}
+
+// The eight symmetries of the board. Transform t transposes (bit 2), then
+// mirrors the files (bit 0) and the ranks (bit 1).
+const TRANSFORMS: Uint8Array[] = [];
+const INVERSE_TRANSFORMS: Uint8Array[] = [];
+for (let t = 0; t < 8; t++) {
+  const map = new Uint8Array(64);
+  const inverse = new Uint8Array(64);
+  for (let s = 0; s < 64; s++) {
+    let f = fileOf(s);
+    let r = rankOf(s);
+    if (t & 4) [f, r] = [r, f];
+    if (t & 1) f = 7 - f;
+    if (t & 2) r = 7 - r;
+    map[s] = r * 8 + f;
+    inverse[r * 8 + f] = s;
+  }
+  TRANSFORMS.push(map);
+  INVERSE_TRANSFORMS.push(inverse);
+}
+/** THEN_TRANSPOSE[t] is transform t followed by a transpose */
+const THEN_TRANSPOSE = TRANSFORMS.map((map) =>
+  TRANSFORMS.findIndex((other) => other.every((s, i) => s === TRANSFORMS[4][map[i]]))
+);
+
+/**
+ * Positions are stored with the strong king in a canonical region: the
+ * a1-d1-d4 triangle without pawns, the a-d files with pawns (which only allow
+ * a mirror). Each king square maps to the symmetry that brings it there.
+ */
+interface Symmetry {
+  transformFor: Int8Array;
+  /** Slot of each canonical king square in the table, -1 elsewhere */
+  kingSlot: Int8Array;
+  kingSquares: number[];
+}
+
+function symmetry(pawns: boolean): Symmetry {
+  const isCanonical = (s: number) =>
+    pawns ? fileOf(s) <= 3 : fileOf(s) <= 3 && rankOf(s) <= fileOf(s);
+  const transforms = pawns ? [0, 1] : [0, 1, 2, 3, 4, 5, 6, 7];
+  const transformFor = new Int8Array(64);
+  const kingSlot = new Int8Array(64).fill(-1);
+  const kingSquares: number[] = [];
+  for (let s = 0; s < 64; s++) {
+    transformFor[s] = transforms.find((t) => isCanonical(TRANSFORMS[t][s]))!;
+    if (isCanonical(s)) {
+      kingSlot[s] = kingSquares.length;
+      kingSquares.push(s);
+    }
+  }
+  return { transformFor, kingSlot, kingSquares };
+}
+
+const PAWNLESS = symmetry(false);
+const WITH_PAWNS = symmetry(true);
+
+// ---------------------------------------------------------------------------
+// Positions: the strong king, the weak king and the strong pieces
+// ---------------------------------------------------------------------------
+
+/** Decoded table entry; `pieces` follows MATERIAL_PIECES order */
+interface Position {
+  turn: number;
+  strongKing: number;
+  weakKing: number;
+  pieces: number[];
+}
+
+interface Table {
+  material: TablebaseMaterial;
+  types: PieceType[];
+  symmetry: Symmetry;
+  values: Uint8Array;
+}
+
+function indexOf(
+  table: Table,
+  turn: number,
+  strongKing: number,
+  weakKing: number,
+  pieces: number[]
+) {
+  const slots = table.symmetry.kingSquares.length;
+  let index = (turn * slots + table.symmetry.kingSlot[strongKing]) * 64 + weakKing;
+  for (const s of pieces) index = index * 64 + s;
+  return index;
+}
+
+function decode(table: Table, index: number): Position {
+  const pieces: number[] = new Array(table.types.length);
+  for (let i = pieces.length - 1; i >= 0; i--) {
+    pieces[i] = index % 64;
+    index = Math.floor(index / 64);
+  }
+  const weakKing = index % 64;
+  index = Math.floor(index / 64);
+  const slots = table.symmetry.kingSquares.length;
+  return {
+    turn: Math.floor(index / slots),
+    strongKing: table.symmetry.kingSquares[index % slots],
+    weakKing,
+    pieces,
+  };
+}
+
+/** Index of a position whose strong king may be outside the canonical region */
+function normalizedIndex(
+  table: Table,
+  turn: number,
+  strongKing: number,
+  weakKing: number,
+  pieces: number[],
+  transform: number = table.symmetry.transformFor[strongKing]
+): number {
+  const map = TRANSFORMS[transform];
+  const slots = table.symmetry.kingSquares.length;
+  let index = (turn * slots + table.symmetry.kingSlot[map[strongKing]]) * 64 + map[weakKing];
+  for (const s of pieces) index = index * 64 + map[s];
+  return index;
+}
+
+/**
+ * Whether the strong side attacks `target`. The weak king never blocks: it
+ * is either standing on the target or moving away from it. `skip` is a piece
+ * being captured.
+ */
+function attacked(
+  types: PieceType[],
+  strongKing: number,
+  pieces: number[],
+  target: number,
+  skip = -1
+): boolean {
+  if (KING_ADJACENT[strongKing * 64 + target]) return true;
+  for (let i = 0; i < pieces.length; i++) {
+    if (i === skip) continue;
+    const from = pieces[i];
+    const type = types[i];
+    const line = from * 64 + target;
+    if (type === 'N') {
+      if (KNIGHT_ADJACENT[line]) return true;
+      continue;
+    }
+    if (type === 'P') {
+      if (rankOf(target) === rankOf(from) + 1 && Math.abs(fileOf(target) - fileOf(from)) === 1) {
+        return true;
+      }
+      continue;
+    }
+    const aligned =
+      (type !== 'B' && ON_ORTHOGONAL[line] === 1) || (type !== 'R' && ON_DIAGONAL[line] === 1);
+    if (!aligned) continue;
+    let blocked = BETWEEN[line * 64 + strongKing] === 1;
+    for (let j = 0; j < pieces.length && !blocked; j++) {
+      if (j !== i && j !== skip && BETWEEN[line * 64 + pieces[j]]) blocked = true;
+    }
+    if (!blocked) return true;
+  }
+  return false;
+}
+
+function occupied(position: Position, s: number): boolean {
+  return s === position.strongKing || s === position.weakKing || position.pieces.includes(s);
+}
+
+/** Distinct squares, pawns off the back ranks and kings apart */
+function isValid(table: Table, { strongKing, weakKing, pieces }: Position): boolean {
+  if (KING_ADJACENT[strongKing * 64 + weakKing] || strongKing === weakKing) return false;
+  for (let i = 0; i < pieces.length; i++) {
+    const s = pieces[i];
+    if (s === strongKing || s === weakKing || pieces.indexOf(s) !== i) return false;
+    if (table.types[i] === 'P' && (rankOf(s) === 0 || rankOf(s) === 7)) return false;
+  }
+  return true;
+}
+
+/** Legal positions also never leave the weak king in check with the strong side to move */
+function isLegal(table: Table, position: Position): boolean {
+  if (!isValid(table, position)) return false;
+  return (
+    position.turn === WEAK ||
+    !attacked(table.types, position.strongKing, position.pieces, position.weakKing)
+  );
+}
+
+interface WeakMove {
+  to: number;
+  /** Index of the captured piece, -1 for a quiet move */
+  captured: number;
+}
+
+function weakMoves(table: Table, { strongKing, weakKing, pieces }: Position): WeakMove[] {
+  const moves: WeakMove[] = [];
+  for (const to of KING_TARGETS[weakKing]) {
+    if (to === strongKing) continue;
+    const captured = pieces.indexOf(to);
+    if (!attacked(table.types, strongKing, pieces, to, captured)) moves.push({ to, captured });
+  }
+  return moves;
+}
+
+interface StrongMove {
+  /** -1 for the king, otherwise the index of the moving piece */
+  piece: number;
+  from: number;
+  to: number;
+  promotion?: 'Q' | 'R';
+}
+
+function strongMoves(table: Table, position: Position): StrongMove[] {
+  const moves: StrongMove[] = [];
+  const { strongKing, weakKing, pieces } = position;
+  for (const to of KING_TARGETS[strongKing]) {
+    if (!occupied(position, to) && !KING_ADJACENT[weakKing * 64 + to]) {
+      moves.push({ piece: -1, from: strongKing, to });
+    }
+  }
+  pieces.forEach((from, piece) => {
+    for (const to of pieceTargets(table.types[piece], from, position, false)) {
+      if (table.types[piece] === 'P' && rankOf(to) === 7) {
+        moves.push({ piece, from, to, promotion: 'Q' }, { piece, from, to, promotion: 'R' });
+      } else {
+        moves.push({ piece, from, to });
+      }
+    }
+  });
+  return moves;
+}
+
+/** Empty squares a piece moves to, or (`retro`) came from */
+function pieceTargets(type: PieceType, from: number, position: Position, retro: boolean): number[] {
+  if (type === 'N') return KNIGHT_TARGETS[from].filter((s) => !occupied(position, s));
+  if (type === 'P') {
+    const step = retro ? -8 : 8;
+    const one = from + step;
+    if (occupied(position, one) || (retro && rankOf(one) === 0)) return [];
+    const two = one + step;
+    const double = retro ? rankOf(from) === 3 : rankOf(from) === 1;
+    return double && !occupied(position, two) ? [one, two] : [one];
+  }
+  const rays = [
+    ...(type !== 'B' ? ORTHOGONAL_RAYS[from] : []),
+    ...(type !== 'R' ? DIAGONAL_RAYS[from] : []),
+  ];
+  const targets: number[] = [];
+  for (const ray of rays) {
+    for (const s of ray) {
+      if (occupied(position, s)) break;
+      targets.push(s);
+    }
+  }
+  return targets;
+}
+
+// ---------------------------------------------------------------------------
+// Generation
+// ---------------------------------------------------------------------------
+
+function createTable(material: TablebaseMaterial): Table {
+  const types = MATERIAL_PIECES[material];
+  const sym = types.includes('P') ? WITH_PAWNS : PAWNLESS;
+  const size = 2 * sym.kingSquares.length * 64 * 64 ** types.length;
+  return { material, types, symmetry: sym, values: new Uint8Array(size) };
+}
+
+/** Every canonical position with the given side to move */
+function forEachPosition(table: Table, turn: number, visit: (p: Position, index: number) => void) {
+  const perTurn = table.values.length / 2;
+  for (let index = turn * perTurn; index < (turn + 1) * perTurn; index++) {
+    const position = decode(table, index);
+    if (isLegal(table, position)) visit(position, index);
+  }
+}
+
+/**
+ * Retrograde analysis. Checkmates seed ply 0; each ply then walks the moves
+ * back from the positions just resolved. A strong-to-move predecessor of a
+ * loss is a win one ply longer; a weak-to-move predecessor of a win is lost
+ * once its last move is known to lose. Promotions seed wins from the
+ * pawnless tables at their own ply.
+ */
+function generate(material: TablebaseMaterial, lookup: (m: TablebaseMaterial) => Table): Table {
+  const table = createTable(material);
+  const { values, types } = table;
+  const buckets: number[][] = [[]];
+  const resolve = (index: number, plies: number) => {
+    values[index] = plies + 1;
+    (buckets[plies] ??= []).push(index);
+  };
+
+  // Weak king moves keep the strong king where it is, so each move of a
+  // weak-to-move position matches exactly one of its children's predecessors
+  const remaining = new Uint8Array(values.length);
+  forEachPosition(table, WEAK, (position, index) => {
+    const moves = weakMoves(table, position);
+    if (moves.length) {
+      // Taking a piece draws, so such a position is never lost
+      remaining[index] = moves.some((m) => m.captured !== -1) ? NEVER_LOST : moves.length;
+    } else if (attacked(types, position.strongKing, position.pieces, position.weakKing)) {
+      resolve(index, 0);
+    }
+  });
+
+  if (types.includes('P')) {
+    forEachPosition(table, STRONG, (position, index) => {
+      let best = Infinity;
+      for (const move of strongMoves(table, position)) {
+        if (!move.promotion) continue;
+        const promoted = lookup(move.promotion === 'Q' ? 'KQK' : 'KRK');
+        const value =
+          promoted.values[
+            normalizedIndex(promoted, WEAK, position.strongKing, position.weakKing, [move.to])
+          ];
+        if (value !== UNKNOWN) best = Math.min(best, value);
+      }
+      if (best < Infinity) resolve(index, best);
+    });
+  }
+
+  for (let plies = 0; plies < buckets.length; plies++) {
+    for (const index of buckets[plies] ?? []) {
+      // Promotion seeds may have been beaten by a faster mate
+      if (values[index] !== plies + 1) continue;
+      const position = decode(table, index);
+      if (position.turn === WEAK) {
+        const improves = (index: number) => values[index] === UNKNOWN || values[index] > plies + 2;
+        for (const predecessor of strongPredecessors(table, position, improves)) {
+          resolve(predecessor, plies + 1);
+        }
+      } else {
+        for (const predecessor of weakPredecessors(table, position)) {
+          if (remaining[predecessor] === NEVER_LOST) continue;
+          if (--remaining[predecessor] === 0) resolve(predecessor, plies + 1);
+        }
+      }
+    }
+  }
+  return table;
+}
+
+/**
+ * Legal strong-to-move positions one move before a weak-to-move position,
+ * limited to those `wanted` accepts (checked first, as it is cheaper)
+ */
+function strongPredecessors(
+  table: Table,
+  position: Position,
+  wanted: (index: number) => boolean
+): number[] {
+  const { strongKing, weakKing, pieces } = position;
+  const predecessors: number[] = [];
+  const add = (index: number, king: number, from: number[]) => {
+    // A position symmetric about the diagonal can come up twice
+    if (!wanted(index) || predecessors.includes(index)) return;
+    if (!attacked(table.types, king, from, weakKing)) predecessors.push(index);
+  };
+  const pawnless = !table.types.includes('P');
+  for (const s of KING_TARGETS[strongKing]) {
+    if (occupied(position, s) || KING_ADJACENT[weakKing * 64 + s]) continue;
+    const transform = table.symmetry.transformFor[s];
+    add(normalizedIndex(table, STRONG, s, weakKing, pieces, transform), s, pieces);
+    // A king moving onto the long diagonal reaches both of its stored forms
+    const canonical = TRANSFORMS[transform][s];
+    if (pawnless && fileOf(canonical) === rankOf(canonical)) {
+      add(
+        normalizedIndex(table, STRONG, s, weakKing, pieces, THEN_TRANSPOSE[transform]),
+        s,
+        pieces
+      );
+    }
+  }
+  // Other pieces leave the strong king in place, and the position in its frame
+  const from = pieces.slice();
+  pieces.forEach((square, i) => {
+    for (const s of pieceTargets(table.types[i], square, position, true)) {
+      from[i] = s;
+      add(indexOf(table, STRONG, strongKing, weakKing, from), strongKing, from);
+    }
+    from[i] = square;
+  });
+  return predecessors;
+}
+
+/** Weak-to-move positions one king move before a strong-to-move position */
+function weakPredecessors(table: Table, position: Position): number[] {
+  const { strongKing, weakKing, pieces } = position;
+  return KING_TARGETS[weakKing]
+    .filter((s) => !occupied(position, s) && !KING_ADJACENT[strongKing * 64 + s])
+    .map((s) => indexOf(table, WEAK, strongKing, s, pieces));
+}
+
+// ---------------------------------------------------------------------------
+// Probing
+// ---------------------------------------------------------------------------
+
+const PROMOTION_NAMES = { Q: 'queen', R: 'rook' } as const;
+const squareName = (s: number) => String.fromCharCode(97 + fileOf(s)) + (rankOf(s) + 1);
+
+/** A FEN position mapped into a table, with the way back to board squares */
+interface Placement {
+  table: Table;
+  position: Position;
+  /** Board square of a normalized square */
+  toBoard: (s: number) => number;
+}
+
+/**
+ * Endgame tablebases generated in the browser by retrograde analysis. Each
+ * table stores the distance to mate of every position of its material with
+ * the strong side's king folded onto a canonical region by symmetry. Tables
+ * are built on first use and cached for the rest of the session.
+ */
+export class Tablebase {
+  static readonly MATERIALS: readonly TablebaseMaterial[] = ['KQK', 'KRK', 'KPK', 'KBNK'];
+  private static tables = new Map<TablebaseMaterial, Table>();
+  private static stats = new Map<TablebaseMaterial, TablebaseStats>();
+
+  /** The table covering a FEN position's material, or null */
+  static materialOf(fen: string): TablebaseMaterial | null {
+    const pieces = fen.split(' ')[0].replace(/[\d/]/g, '');
+    const white = pieces.replace(/[a-z]/g, '');
+    const black = pieces.replace(/[A-Z]/g, '').toUpperCase();
+    const [strong, weak] = white.length >= black.length ? [white, black] : [black, white];
+    if (weak !== 'K') return null;
+    const order = 'QRBNP';
+    const extras = [...strong.replace('K', '')].sort((a, b) => order.indexOf(a) - order.indexOf(b));
+    const key = `K${extras.join('')}K`;
+    return (this.MATERIALS as string[]).includes(key) ? (key as TablebaseMaterial) : null;
+  }
+
+  static isGenerated(material: TablebaseMaterial): boolean {
+    return this.tables.has(material);
+  }
+
+  /** Build a table (and the tables it depends on) unless it is cached */
+  static generate(material: TablebaseMaterial): TablebaseStats {
+    this.table(material);
+    return this.stats.get(material)!;
+  }
+
+  /** Every table built so far, to hand to `restore` */
+  static export(): TablebaseData[] {
+    return [...this.tables.values()].map(({ material, values }) => ({ material, values }));
+  }
+
+  /** Cache tables exported elsewhere instead of generating them */
+  static restore(data: readonly TablebaseData[]): void {
+    for (const { material, values } of data) {
+      if (this.tables.has(material)) continue;
+      const table = createTable(material);
+      if (table.values.length !== values.length) continue;
+      table.values.set(values);
+      this.store(table, 0);
+    }
+  }
+
+  /** Drop every cached table */
+  static clear(): void {
+    this.tables.clear();
+    this.stats.clear();
+  }
+
+  /**
+   * Result and distance to mate for the side to move, or null when the
+   * material has no table, castling is still possible or (with `generate`
+   * off) the table hasn't been built yet.
+   */
+  static probe(fen: string, generate: boolean = true): TablebaseProbe | null {
+    const placement = this.place(fen, generate);
+    if (!placement) return null;
+    const { table, position } = placement;
+    const { turn, strongKing, weakKing, pieces } = position;
+    return this.resultOf(table.values[indexOf(table, turn, strongKing, weakKing, pieces)], turn);
+  }
+
+  /** The tablebase result with a move that keeps it */
+  static bestMove(fen: string, generate: boolean = true): TablebaseMove | null {
+    const placement = this.place(fen, generate);
+    if (!placement) return null;
+    const { table, position, toBoard } = placement;
+    const here = this.resultOf(
+      table.values[
+        indexOf(table, position.turn, position.strongKing, position.weakKing, position.pieces)
+      ],
+      position.turn
+    );
+
+    const candidates: { from: number; to: number; promotion?: 'Q' | 'R'; child: TablebaseProbe }[] =
+      [];
+    if (position.turn === WEAK) {
+      for (const { to, captured } of weakMoves(table, position)) {
+        const child: TablebaseProbe =
+          captured === -1
+            ? this.resultOf(
+                table.values[indexOf(table, STRONG, position.strongKing, to, position.pieces)],
+                STRONG
+              )
+            : { result: 'draw', dtm: 0 };
+        candidates.push({ from: position.weakKing, to, child });
+      }
+    } else {
+      for (const move of strongMoves(table, position)) {
+        const king = move.piece === -1 ? move.to : position.strongKing;
+        const pieces = position.pieces.map((s, i) => (i === move.piece ? move.to : s));
+        const target = move.promotion ? this.table(move.promotion === 'Q' ? 'KQK' : 'KRK') : table;
+        const value = target.values[normalizedIndex(target, WEAK, king, position.weakKing, pieces)];
+        candidates.push({ ...move, child: this.resultOf(value, WEAK) });
+      }
+    }
+    if (!candidates.length) return { ...here, move: null };
+
+    // From the mover's side: the fastest win, else a draw, else the longest defence
+    const rank = ({ result, dtm }: TablebaseProbe) =>
+      result === 'loss' ? 1000 - dtm : result === 'draw' ? 0 : dtm - 1000;
+    const chosen = candidates.reduce((a, b) => (rank(b.child) > rank(a.child) ? b : a));
+    const move = { from: squareName(toBoard(chosen.from)), to: squareName(toBoard(chosen.to)) };
+    return {
+      ...here,
+      move: chosen.promotion ? { ...move, promotion: PROMOTION_NAMES[chosen.promotion] } : move,
+    };
+  }
+
+  private static table(material: TablebaseMaterial): Table {
+    let table = this.tables.get(material);
+    if (!table) {
+      const start = Date.now();
+      table = generate(material, (m) => this.table(m));
+      this.store(table, Date.now() - start);
+    }
+    return table;
+  }
+
+  private static store(table: Table, elapsedMs: number): void {
+    let wins = 0;
+    let maxDtm = 0;
+    for (const value of table.values) {
+      if (value === UNKNOWN) continue;
+      wins++;
+      maxDtm = Math.max(maxDtm, value - 1);
+    }
+    this.tables.set(table.material, table);
+    this.stats.set(table.material, {
+      material: table.material,
+      size: table.values.length,
+      wins,
+      maxDtm,
+      elapsedMs,
+    });
+  }
+
+  private static resultOf(value: number, turn: number): TablebaseProbe {
+    if (value === UNKNOWN) return { result: 'draw', dtm: 0 };
+    return { result: turn === STRONG ? 'win' : 'loss', dtm: value - 1 };
+  }
+
+  /**
+   * Map a FEN onto its table: the strong side becomes white (mirroring the
+   * ranks when it is black) and the symmetry of the strong king is applied.
+   */
+  private static place(fen: string, generate: boolean): Placement | null {
+    const material = this.materialOf(fen);
+    if (!material || (!generate && !this.tables.has(material))) return null;
+    const [placement, turn, castling = '-'] = fen.split(' ');
+    if (castling !== '-') return null;
+
+    const squares: { piece: string; square: number }[] = [];
+    placement
+      .split('/')
+      .reverse()
+      .forEach((rank, row) => {
+        let file = 0;
+        for (const ch of rank) {
+          if (/\d/.test(ch)) file += Number(ch);
+          else squares.push({ piece: ch, square: row * 8 + file++ });
+        }
+      });
+    const strongIsWhite = squares.filter(({ piece }) => piece === piece.toUpperCase()).length > 1;
+    const flip = (s: number) => (strongIsWhite ? s : s ^ 56);
+    const isStrong = (piece: string) => (piece === piece.toUpperCase()) === strongIsWhite;
+
+    const table = this.table(material);
+    const strongKing = flip(squares.find((p) => isStrong(p.piece) && /k/i.test(p.piece))!.square);
+    const weakKing = flip(squares.find((p) => !isStrong(p.piece))!.square);
+    const pieces = table.types.map((type) =>
+      flip(squares.find((p) => isStrong(p.piece) && p.piece.toUpperCase() === type)!.square)
+    );
+
+    const t = table.symmetry.transformFor[strongKing];
+    const map = TRANSFORMS[t];
+    const position: Position = {
+      turn: (turn === 'w') === strongIsWhite ? STRONG : WEAK,
+      strongKing: map[strongKing],
+      weakKing: map[weakKing],
+      pieces: pieces.map((s) => map[s]),
+    };
+    if (!isLegal(table, position)) return null;
+    return { table, position, toBoard: (s) => flip(INVERSE_TRANSFORMS[t][s]) };
+  }
+}
+
+export default Tablebase;
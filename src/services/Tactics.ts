@@ -0,0 +1,298 @@
+import type { Color, Piece as ChessPiece, Square as ChessSquare } from '@rumenx/chess/types';
+import { AttackMap, EXCHANGE_VALUES, opponent, type BoardGrid } from './AttackMap';
+import type { SearchMove } from './ChessAI';
+import { ChessEngine } from './ChessEngine';
+import { onBoard, pieceAt, toCoords, toSquare } from '../utils/boardGeometry';
+
+export type MotifType =
+  | 'fork'
+  | 'discovered-attack'
+  | 'skewer'
+  | 'pin'
+  | 'overloaded-defender'
+  | 'hanging-piece'
+  | 'back-rank';
+
+export interface TacticalMotif {
+  type: MotifType;
+  /** Side that can exploit the motif */
+  color: Color;
+  /**
+   * The piece carrying it out (forking piece, pinner, discovering slider),
+   * or the weak piece itself for hanging pieces, back ranks and overloads
+   */
+  square: ChessSquare;
+  piece: ChessPiece;
+  /** Enemy pieces involved */
+  targets: ChessSquare[];
+  /** Short English description, e.g. "Knight fork on c7: king and rook" */
+  description: string;
+}
+
+/** Most forcing first; also the order motifs are reported in */
+const PRIORITY: MotifType[] = [
+  'fork',
+  'discovered-attack',
+  'skewer',
+  'pin',
+  'overloaded-defender',
+  'hanging-piece',
+  'back-rank',
+];
+
+export const capitalize = (word: string) => word[0].toUpperCase() + word.slice(1);
+/** A motif description to follow other words, e.g. "Allows the knight fork…" */
+export const uncapitalize = (text: string) => text[0].toLowerCase() + text.slice(1);
+const value = (piece: ChessPiece) => EXCHANGE_VALUES[piece.type];
+
+/** "king", "king and rook", "king, rook and queen" */
+function listNames(names: string[]): string {
+  return names.length < 2 ? names.join('') : `${names.slice(0, -1).join(', ')} and ${names.at(-1)}`;
+}
+
+function occupiedSquares(board: BoardGrid, color: Color): ChessSquare[] {
+  const squares: ChessSquare[] = [];
+  board.forEach((row, r) =>
+    row.forEach((piece, c) => {
+      if (piece?.color === color) squares.push(toSquare(r, c));
+    })
+  );
+  return squares;
+}
+
+/** Identifies a motif across positions, whatever order its targets were found in */
+export const motifKey = (m: TacticalMotif) =>
+  `${m.type}:${m.square}:${[...m.targets].sort().join(',')}`;
+
+/**
+ * Tactical pattern spotting on top of AttackMap. It reads the board as it
+ * stands, without searching, so it names what is there (a fork, a pin) rather
+ * than proving it wins anything; pair it with a search score before
+ * presenting it as the reason for a move.
+ */
+export class Tactics {
+  /** Motifs `color` could exploit in this position, most forcing first */
+  static inPosition(board: BoardGrid, color: Color): TacticalMotif[] {
+    const motifs = [
+      ...this.forks(board, color),
+      ...this.linesThrough(board, color),
+      ...this.overloadedDefenders(board, color),
+      ...this.hangingPieces(board, color),
+      ...this.backRank(board, color),
+    ];
+    return this.sorted(motifs);
+  }
+
+  /**
+   * Motifs a move creates for the side playing it: those present afterwards
+   * but not before, plus attacks it uncovers. Returns [] for an illegal move.
+   */
+  static afterMove(fen: string, move: SearchMove): TacticalMotif[] {
+    const engine = new ChessEngine(fen);
+    const color = engine.getTurn();
+    const before = engine.getBoard();
+    const existing = new Set(this.inPosition(before, color).map(motifKey));
+    if (!engine.makeMove(move.from, move.to, move.promotion)) return [];
+    const after = engine.getBoard();
+    const created = this.inPosition(after, color).filter((m) => !existing.has(motifKey(m)));
+    const seen = new Set(created.map(motifKey));
+    const discovered = this.discovered(before, after, color, move.to as ChessSquare).filter(
+      (m) => !seen.has(motifKey(m))
+    );
+    return this.sorted([...discovered, ...created]);
+  }
+
+  // -- motifs ---------------------------------------------------------------
+
+  /** One piece hitting two or more worthwhile targets */
+  private static forks(board: BoardGrid, color: Color): TacticalMotif[] {
+    const pinned = new Set(AttackMap.pins(board, color).map((p) => p.square));
+    const motifs: TacticalMotif[] = [];
+    for (const square of occupiedSquares(board, color)) {
+      if (pinned.has(square)) continue;
+      const piece = pieceAt(board, square)!;
+      const targets = AttackMap.attackedFrom(board, square).filter((target) =>
+        this.isWorthAttacking(board, piece, target)
+      );
+      if (targets.length < 2) continue;
+      const names = targets.map((t) => pieceAt(board, t)!.type);
+      motifs.push({
+        type: 'fork',
+        color,
+        square,
+        piece,
+        targets,
+        description: `${capitalize(piece.type)} fork on ${square}: ${listNames(names)}`,
+      });
+    }
+    return motifs;
+  }
+
+  /**
+   * Sliders lined up on an enemy piece through another: a pin when the front
+   * piece is worth less, a skewer when it is worth more, and a discovered
+   * attack waiting to happen when the front piece is the slider's own
+   */
+  private static linesThrough(board: BoardGrid, color: Color): TacticalMotif[] {
+    const motifs: TacticalMotif[] = [];
+    for (const target of occupiedSquares(board, opponent(color))) {
+      const back = pieceAt(board, target)!;
+      for (const xRay of AttackMap.xRayAttackers(board, target, color)) {
+        const front = pieceAt(board, xRay.through)!;
+        const slider = capitalize(xRay.piece.type);
+        const base = { color, square: xRay.square, piece: xRay.piece };
+        if (front.color === color) {
+          if (!this.isWorthAttacking(board, xRay.piece, target)) continue;
+          motifs.push({
+            ...base,
+            type: 'discovered-attack',
+            targets: [target],
+            description:
+              back.type === 'king'
+                ? `Discovered check by moving the ${front.type} on ${xRay.through}`
+                : `Discovered attack on the ${back.type} by moving the ${front.type} on ${xRay.through}`,
+          });
+        } else if (front.type !== 'king' && (back.type === 'king' || value(back) > value(front))) {
+          motifs.push({
+            ...base,
+            type: 'pin',
+            targets: [xRay.through, target],
+            description: `${slider} on ${xRay.square} pins the ${front.type} on ${xRay.through} to the ${back.type}`,
+          });
+        } else if (
+          (front.type === 'king' || value(front) > value(back)) &&
+          value(back) >= EXCHANGE_VALUES.knight
+        ) {
+          motifs.push({
+            ...base,
+            type: 'skewer',
+            targets: [xRay.through, target],
+            description: `${slider} skewer from ${xRay.square}: ${front.type} and ${back.type}`,
+          });
+        }
+      }
+    }
+    return motifs;
+  }
+
+  /** Enemy pieces left en prise */
+  private static hangingPieces(board: BoardGrid, color: Color): TacticalMotif[] {
+    return AttackMap.threatenedPieces(board, opponent(color))
+      .filter((t) => t.hanging)
+      .map((t) => ({
+        type: 'hanging-piece' as const,
+        color,
+        square: t.square,
+        piece: t.piece,
+        targets: [t.square],
+        description: `Hanging ${t.piece.type} on ${t.square}`,
+      }));
+  }
+
+  /** A single enemy defender holding two attacked pieces at once */
+  private static overloadedDefenders(board: BoardGrid, color: Color): TacticalMotif[] {
+    const duties = new Map<ChessSquare, ChessSquare[]>();
+    for (const threat of AttackMap.threatenedPieces(board, opponent(color))) {
+      if (threat.hanging || threat.defenders.length !== 1) continue;
+      const defender = threat.defenders[0].square;
+      duties.set(defender, [...(duties.get(defender) ?? []), threat.square]);
+    }
+    return [...duties]
+      .filter(([, guarded]) => guarded.length >= 2)
+      .map(([square, guarded]) => {
+        const piece = pieceAt(board, square)!;
+        return {
+          type: 'overloaded-defender' as const,
+          color,
+          square,
+          piece,
+          targets: guarded,
+          description: `Overloaded ${piece.type} on ${square}: guards ${listNames(guarded)}`,
+        };
+      });
+  }
+
+  /** Enemy king on its back rank with every square in front of it covered */
+  private static backRank(board: BoardGrid, color: Color): TacticalMotif[] {
+    const enemy = opponent(color);
+    const king = AttackMap.findKing(board, enemy);
+    const backRank = enemy === 'white' ? '1' : '8';
+    if (!king || king[1] !== backRank) return [];
+    const hasHeavyPiece = occupiedSquares(board, color).some((s) =>
+      ['rook', 'queen'].includes(pieceAt(board, s)!.type)
+    );
+    if (!hasHeavyPiece) return [];
+    const forward = enemy === 'white' ? 1 : 6;
+    const [, col] = toCoords(king);
+    const escapes = [col - 1, col, col + 1]
+      .filter((c) => onBoard(forward, c))
+      .map((c) => toSquare(forward, c));
+    const boxedIn = escapes.every(
+      (s) => pieceAt(board, s)?.color === enemy || AttackMap.attackers(board, s, color).length > 0
+    );
+    if (!boxedIn) return [];
+    return [
+      {
+        type: 'back-rank',
+        color,
+        square: king,
+        piece: pieceAt(board, king)!,
+        targets: [king],
+        description: `Back-rank weakness: the king on ${king} has no escape square`,
+      },
+    ];
+  }
+
+  /** Worthwhile targets a move uncovers for pieces other than the one that moved */
+  private static discovered(
+    before: BoardGrid,
+    after: BoardGrid,
+    color: Color,
+    moved: ChessSquare
+  ): TacticalMotif[] {
+    const motifs: TacticalMotif[] = [];
+    for (const square of occupiedSquares(after, color)) {
+      const piece = pieceAt(after, square)!;
+      if (square === moved || !['bishop', 'rook', 'queen'].includes(piece.type)) continue;
+      const earlier = new Set(AttackMap.attackedFrom(before, square));
+      const targets = AttackMap.attackedFrom(after, square).filter(
+        (t) => !earlier.has(t) && this.isWorthAttacking(after, piece, t)
+      );
+      for (const target of targets) {
+        const victim = pieceAt(after, target)!;
+        motifs.push({
+          type: 'discovered-attack',
+          color,
+          square,
+          piece,
+          targets: [target],
+          description:
+            victim.type === 'king'
+              ? `Discovered check from the ${piece.type} on ${square}`
+              : `Discovered attack on the ${victim.type} from the ${piece.type} on ${square}`,
+        });
+      }
+    }
+    return motifs;
+  }
+
+  // -- helpers --------------------------------------------------------------
+
+  /** An enemy piece on `target` that `attacker` would gain from hitting */
+  private static isWorthAttacking(
+    board: BoardGrid,
+    attacker: ChessPiece,
+    target: ChessSquare
+  ): boolean {
+    const victim = pieceAt(board, target);
+    if (!victim || victim.color === attacker.color) return false;
+    if (victim.type === 'king' || value(victim) > value(attacker)) return true;
+    return !AttackMap.defenders(board, target).some((d) => !d.pinned);
+  }
+
+  private static sorted(motifs: TacticalMotif[]): TacticalMotif[] {
+    return [...motifs].sort((a, b) => PRIORITY.indexOf(a.type) - PRIORITY.indexOf(b.type));
+  }
+}
+
+export default Tactics;
@@ -0,0 +1,76 @@
+/**
+ * How a stored score relates to the true value: exact, or a bound from an
+ * alpha-beta cut-off (lower: at least this good, upper: at most this good)
+ */
+export type Bound = 'exact' | 'lower' | 'upper';
+
+export interface TableEntry {
+  depth: number;
+  bound: Bound;
+  score: number;
+  /** Encoded best move (see ChessAI), or null when every move failed low */
+  bestMove: number | null;
+}
+
+const BOUNDS: Bound[] = ['exact', 'lower', 'upper'];
+const NO_MOVE = -1;
+const EMPTY = -1;
+
+/**
+ * Fixed-size transposition table indexed by the low bits of a Zobrist key.
+ * Entries live in typed arrays so the table's memory is bounded up front;
+ * a colliding store replaces the slot unless it holds a deeper result for
+ * the same position.
+ */
+export class TranspositionTable {
+  private readonly mask: number;
+  private readonly keys: Float64Array;
+  private readonly depths: Int8Array;
+  private readonly bounds: Uint8Array;
+  private readonly scores: Int32Array;
+  private readonly moves: Int32Array;
+
+  /** @param sizeBits - log2 of the number of slots */
+  constructor(sizeBits: number = 16) {
+    const size = 1 << sizeBits;
+    this.mask = size - 1;
+    this.keys = new Float64Array(size).fill(EMPTY);
+    this.depths = new Int8Array(size);
+    this.bounds = new Uint8Array(size);
+    this.scores = new Int32Array(size);
+    this.moves = new Int32Array(size).fill(NO_MOVE);
+  }
+
+  get size(): number {
+    return this.keys.length;
+  }
+
+  probe(key: number): TableEntry | null {
+    const slot = key & this.mask;
+    if (this.keys[slot] !== key) return null;
+    const move = this.moves[slot];
+    return {
+      depth: this.depths[slot],
+      bound: BOUNDS[this.bounds[slot]],
+      score: this.scores[slot],
+      bestMove: move === NO_MOVE ? null : move,
+    };
+  }
+
+  store(key: number, entry: TableEntry): void {
+    const slot = key & this.mask;
+    if (this.keys[slot] === key && this.depths[slot] > entry.depth) return;
+    this.keys[slot] = key;
+    this.depths[slot] = entry.depth;
+    this.bounds[slot] = BOUNDS.indexOf(entry.bound);
+    this.scores[slot] = entry.score;
+    this.moves[slot] = entry.bestMove ?? NO_MOVE;
+  }
+
+  clear(): void {
+    this.keys.fill(EMPTY);
+    this.moves.fill(NO_MOVE);
+  }
+}
+
+export default TranspositionTable;
@@ -0,0 +1,68 @@
+import type { Piece as ChessPiece } from '@rumenx/chess/types';
+import { mulberry32 } from '../utils/random';
+import type { ChessEngine } from './ChessEngine';
+
+const PIECE_INDEX: Record<ChessPiece['type'], number> = {
+  pawn: 0,
+  knight: 1,
+  bishop: 2,
+  rook: 3,
+  queen: 4,
+  king: 5,
+};
+
+// Key layout: 12 pieces x 64 squares, 4 castling rights, 8 en passant files, side to move
+const CASTLING_OFFSET = 12 * 64;
+const EN_PASSANT_OFFSET = CASTLING_OFFSET + 4;
+const SIDE_OFFSET = EN_PASSANT_OFFSET + 8;
+const KEY_COUNT = SIDE_OFFSET + 1;
+
+// Each key is split in two 32-bit halves: XOR stays in int32 range and the
+// halves combine into a 53-bit number that is safe to use as a Map key.
+const random = mulberry32(0x5eed);
+const KEYS_HI = Uint32Array.from({ length: KEY_COUNT }, () => random());
+const KEYS_LO = Uint32Array.from({ length: KEY_COUNT }, () => random());
+
+/** Board index of a square: a1 = 0, h8 = 63 */
+export function squareIndex(square: string): number {
+  return (square.charCodeAt(1) - 49) * 8 + (square.charCodeAt(0) - 97);
+}
+
+/**
+ * Zobrist hashing: XOR of random keys for every piece on its square, the
+ * castling rights, the en passant file and the side to move. Equal
+ * positions hash equally whatever move order reached them.
+ */
+export class Zobrist {
+  static hash(engine: ChessEngine): number {
+    let hi = 0;
+    let lo = 0;
+    const toggle = (index: number) => {
+      hi ^= KEYS_HI[index];
+      lo ^= KEYS_LO[index];
+    };
+
+    engine.getBoard().forEach((rowPieces, row) =>
+      rowPieces.forEach((piece, file) => {
+        if (!piece) return;
+        const kind = PIECE_INDEX[piece.type] + (piece.color === 'white' ? 0 : 6);
+        toggle(kind * 64 + row * 8 + file);
+      })
+    );
+
+    const castling = engine.getCastlingRights();
+    if (castling.whiteKingSide) toggle(CASTLING_OFFSET);
+    if (castling.whiteQueenSide) toggle(CASTLING_OFFSET + 1);
+    if (castling.blackKingSide) toggle(CASTLING_OFFSET + 2);
+    if (castling.blackQueenSide) toggle(CASTLING_OFFSET + 3);
+
+    const enPassant = engine.getEnPassantSquare();
+    if (enPassant) toggle(EN_PASSANT_OFFSET + (enPassant.charCodeAt(0) - 97));
+
+    if (engine.getTurn() === 'black') toggle(SIDE_OFFSET);
+
+    return (hi >>> 11) * 0x100000000 + (lo >>> 0);
+  }
+}
+
+export default Zobrist;
@@ -0,0 +1,51 @@
+/**
+ * AI search worker. Runs ChessAI.search and ChessAI.analyze off the main
+ * thread and streams progress back to AIService (see AIWorkerRequest /
+ * AIWorkerResponse).
+ */
+import { ChessAI } from './ChessAI';
+import { ChessEngine } from './ChessEngine';
+import { Tablebase, type TablebaseMaterial } from './Tablebase';
+import type { AIWorkerRequest, AIWorkerResponse } from './AIService';
+
+/** Tables AIService already holds */
+const sharedTables = new Set<TablebaseMaterial>();
+
+function reply(message: AIWorkerResponse): void {
+  self.postMessage(message);
+}
+
+/** Send tables built by the last job back, so a restarted worker need not build them again */
+function shareNewTables(): void {
+  const tables = Tablebase.export().filter(({ material }) => !sharedTables.has(material));
+  if (!tables.length) return;
+  tables.forEach(({ material }) => sharedTables.add(material));
+  reply({ type: 'tables', tables });
+}
+
+self.addEventListener('message', (event: MessageEvent<AIWorkerRequest>) => {
+  const request = event.data;
+  if (request.type === 'tables') {
+    Tablebase.restore(request.tables);
+    request.tables.forEach(({ material }) => sharedTables.add(material));
+    return;
+  }
+  const { id } = request;
+  try {
+    const engine = new ChessEngine(request.fen);
+    if (request.type === 'analyze') {
+      const result = ChessAI.analyze(engine, request.options, (progress) =>
+        reply({ type: 'analysis-progress', id, progress })
+      );
+      reply({ type: 'analysis', id, result });
+    } else {
+      const result = ChessAI.search(engine, request.options, (progress) =>
+        reply({ type: 'progress', id, progress })
+      );
+      reply({ type: 'result', id, result });
+    }
+  } catch (err) {
+    reply({ type: 'error', id, message: err instanceof Error ? err.message : String(err) });
+  }
+  shareNewTables();
+});
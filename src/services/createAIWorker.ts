@@ -0,0 +1,7 @@
+/**
+ * Spawns the AI search worker. Kept in its own module because `import.meta`
+ * only exists in the bundled app; AIService imports it lazily.
+ */
+export function createAIWorker(): Worker {
+  return new Worker(new URL('./ai.worker.ts', import.meta.url), { type: 'module' });
+}
@@ -0,0 +1,44 @@
+/**
+ * Bundled opening book in the LineBook text format: a weight followed by
+ * SAN moves from the initial position. Weights roughly follow how often the
+ * lines are played; shared prefixes add up.
+ */
+export const OPENING_LINES = `
+# Open games
+40 e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Be7 Re1 b5 Bb3 d6 c3 O-O
+15 e4 e5 Nf3 Nc6 Bb5 Nf6 O-O Nxe4 d4 Nd6 Bxc6 dxc6 dxe5 Nf5
+20 e4 e5 Nf3 Nc6 Bc4 Bc5 c3 Nf6 d3 d6 O-O O-O
+10 e4 e5 Nf3 Nc6 Bc4 Nf6 d3 Be7 O-O O-O
+12 e4 e5 Nf3 Nc6 d4 exd4 Nxd4 Nf6 Nxc6 bxc6 e5 Qe7
+10 e4 e5 Nf3 Nf6 Nxe5 d6 Nf3 Nxe4 d4 d5 Bd3
+
+# Sicilian
+30 e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 a6 Be3 e5 Nb3 Be6
+15 e4 c5 Nf3 Nc6 d4 cxd4 Nxd4 Nf6 Nc3 e5 Ndb5 d6
+15 e4 c5 Nf3 e6 d4 cxd4 Nxd4 Nc6 Nc3 Qc7
+8 e4 c5 c3 Nf6 e5 Nd5 d4 cxd4 Nf3
+
+# French, Caro-Kann, Scandinavian
+20 e4 e6 d4 d5 Nc3 Nf6 Bg5 Be7 e5 Nfd7 Bxe7 Qxe7
+10 e4 e6 d4 d5 e5 c5 c3 Nc6 Nf3 Qb6
+20 e4 c6 d4 d5 Nc3 dxe4 Nxe4 Bf5 Ng3 Bg6 h4 h6
+8 e4 c6 d4 d5 e5 Bf5 Nf3 e6 Be2
+6 e4 d5 exd5 Qxd5 Nc3 Qa5 d4 Nf6 Nf3 c6
+
+# Queen's pawn
+30 d4 d5 c4 e6 Nc3 Nf6 Bg5 Be7 e3 O-O Nf3 h6
+20 d4 d5 c4 c6 Nf3 Nf6 Nc3 dxc4 a4 Bf5
+10 d4 d5 c4 dxc4 Nf3 Nf6 e3 e6 Bxc4 c5 O-O a6
+25 d4 Nf6 c4 e6 Nc3 Bb4 e3 O-O Bd3 d5 Nf3 c5
+20 d4 Nf6 c4 e6 Nf3 b6 g3 Ba6 b3 Bb4+ Bd2 Be7
+25 d4 Nf6 c4 g6 Nc3 Bg7 e4 d6 Nf3 O-O Be2 e5 O-O Nc6 d5 Ne7
+12 d4 Nf6 c4 g6 Nc3 d5 cxd5 Nxd5 e4 Nxc3 bxc3 Bg7
+8 d4 Nf6 c4 c5 d5 e6 Nc3 exd5 cxd5 d6 e4 g6
+8 d4 Nf6 Nf3 d5 Bf4 e6 e3 c5 c3 Nc6
+
+# Flank openings
+15 c4 e5 Nc3 Nf6 Nf3 Nc6 g3 d5 cxd5 Nxd5
+10 c4 Nf6 Nc3 e6 e4 d5 e5 d4
+12 Nf3 d5 g3 Nf6 Bg2 c6 O-O Bg4
+6 Nf3 Nf6 c4 g6 Nc3 Bg7 e4 d6 d4 O-O
+`;
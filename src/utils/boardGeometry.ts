@@ -0,0 +1,47 @@
+import type { Piece as ChessPiece, Square as ChessSquare } from '@rumenx/chess/types';
+
+// Board arrays as ChessEngine.getBoard returns them: row 0 = rank 1, col 0 = a-file
+
+/** A [row, col] offset */
+export type Step = readonly [number, number];
+
+export const KNIGHT_STEPS: readonly Step[] = [
+  [1, 2],
+  [2, 1],
+  [2, -1],
+  [1, -2],
+  [-1, -2],
+  [-2, -1],
+  [-2, 1],
+  [-1, 2],
+];
+export const DIAGONALS: readonly Step[] = [
+  [1, 1],
+  [1, -1],
+  [-1, 1],
+  [-1, -1],
+];
+export const LINES: readonly Step[] = [
+  [1, 0],
+  [-1, 0],
+  [0, 1],
+  [0, -1],
+];
+/** One step in every direction: the king's moves and the queen's rays */
+export const KING_STEPS: readonly Step[] = [...DIAGONALS, ...LINES];
+
+export const onBoard = (row: number, col: number) => row >= 0 && row < 8 && col >= 0 && col < 8;
+
+/** Square name for board coordinates, e.g. (0, 4) is "e1" */
+export function toSquare(row: number, col: number): ChessSquare {
+  return `${String.fromCharCode(97 + col)}${row + 1}` as ChessSquare;
+}
+
+export function toCoords(square: ChessSquare): [row: number, col: number] {
+  return [Number(square[1]) - 1, square.charCodeAt(0) - 97];
+}
+
+export function pieceAt(board: (ChessPiece | null)[][], square: ChessSquare): ChessPiece | null {
+  const [row, col] = toCoords(square);
+  return board[row][col];
+}
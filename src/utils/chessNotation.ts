@@ -2,11 +2,39 @@ import type { Move, Piece } from '@rumenx/chess/types';
 import { ChessEngine } from '../services/ChessEngine';
 
 // Generate Standard Algebraic Notation (simplified)
+// Disambiguation is computed against whatever position engineForContext holds,
+// so it is only correct when that engine sits right before `move`. Use
+// moveToSAN / notateGame for notation of past moves.
 export function formatMove(
   move: Move,
   _unusedIndex?: number,
   engineForContext?: ChessEngine
 ): string {
+  let disambiguation = '';
+  if (engineForContext && needsDisambiguationCheck(move)) {
+    disambiguation = computeDisambiguation(engineForContext, move);
+  }
+  let san = sanBody(move, disambiguation);
+  if (move.checkmate) san += '#';
+  else if (move.check) san += '+';
+  return san;
+}
+
+const pieceLetterMap: Record<string, string> = {
+  king: 'K',
+  queen: 'Q',
+  rook: 'R',
+  bishop: 'B',
+  knight: 'N',
+  pawn: '',
+};
+
+function needsDisambiguationCheck(move: Move): boolean {
+  return move.piece.type !== 'pawn' && move.piece.type !== 'king';
+}
+
+/** SAN without the check / mate suffix */
+function sanBody(move: Move, disambiguation: string): string {
   // Castling
   if (move.castling) {
     return move.to[0] === 'g' ? 'O-O' : 'O-O-O';
@@ -17,12 +45,6 @@ export function formatMove(
   let san = '';
   const pieceLetter = isPawn ? '' : pieceLetterMap[piece.type] || piece.type[0].toUpperCase();
 
-  // Disambiguation (basic): if engine context provided, check for other pieces of same type that can move to target
-  let disambiguation = '';
-  if (engineForContext && !isPawn && piece.type !== 'king') {
-    disambiguation = computeDisambiguation(engineForContext, move);
-  }
-
   if (!isPawn) san += pieceLetter + disambiguation;
 
   if (move.captured) {
@@ -40,25 +62,13 @@ export function formatMove(
     san += '=' + pieceLetterMap[move.promotion];
   }
 
-  if (move.checkmate) san += '#';
-  else if (move.check) san += '+';
-
   return san;
 }
 
-const pieceLetterMap: Record<string, string> = {
-  king: 'K',
-  queen: 'Q',
-  rook: 'R',
-  bishop: 'B',
-  knight: 'N',
-  pawn: '',
-};
-
 function computeDisambiguation(engine: ChessEngine, move: Move): string {
   // Look for other same-type pieces of same color that can also move to move.to
   const board = engine.getBoard();
-  const candidates: { square: string; piece: Piece }[] = [];
+  const candidates: string[] = [];
   for (let r = 0; r < 8; r++) {
     for (let c = 0; c < 8; c++) {
       const p = board[r][c];
@@ -69,21 +79,136 @@ function computeDisambiguation(engine: ChessEngine, move: Move): string {
           const legalFrom = engine
             .getLegalMovesFrom(square)
             .some((m) => m.to === move.to && m.piece.type === move.piece.type);
-          if (legalFrom) candidates.push({ square, piece: p });
+          if (legalFrom) candidates.push(square);
         }
       }
     }
   }
-  if (candidates.length === 0) return '';
+  return disambiguate(move, candidates);
+}
+
+/** Pick the shortest from-square prefix that separates `move` from rival origins */
+function disambiguate(move: Move, rivals: string[]): string {
+  if (rivals.length === 0) return '';
   const fromFile = move.from[0];
   const fromRank = move.from[1];
-  const conflictSameFile = candidates.some((c) => c.square[0] === fromFile);
-  const conflictSameRank = candidates.some((c) => c.square[1] === fromRank);
+  const conflictSameFile = rivals.some((sq) => sq[0] === fromFile);
+  const conflictSameRank = rivals.some((sq) => sq[1] === fromRank);
   if (!conflictSameFile) return fromFile; // file disambiguation enough
   if (!conflictSameRank) return fromRank; // rank disambiguation enough
   return move.from; // need both
 }
 
+/** Disambiguation from the legal moves of the position before `move` */
+function legalDisambiguation(engine: ChessEngine, move: Move): string {
+  if (!needsDisambiguationCheck(move)) return '';
+  const rivals = engine
+    .getLegalMoves()
+    .filter((m) => m.to === move.to && m.from !== move.from && m.piece.type === move.piece.type)
+    .map((m) => m.from);
+  return disambiguate(move, [...new Set(rivals)]);
+}
+
+function sanSuffix(engine: ChessEngine): string {
+  if (engine.getStatus() === 'checkmate') return '#';
+  return engine.isInCheck() ? '+' : '';
+}
+
+/**
+ * SAN for a move in the position the engine currently holds (i.e. before the
+ * move is played). Check and mate are derived by playing the move and undoing
+ * it, so the engine is left unchanged.
+ */
+export function moveToSAN(move: Move, engine: ChessEngine): string {
+  const body = sanBody(move, legalDisambiguation(engine, move));
+  if (!engine.makeMove(move.from, move.to, move.promotion)) return body;
+  const suffix = sanSuffix(engine);
+  engine.undo();
+  return body + suffix;
+}
+
+/**
+ * Coordinate (UCI) notation, e.g. "e2e4" or "e7e8n". Promotions may be given
+ * as a piece name or letter.
+ */
+export function moveToUCI(move: { from: string; to: string; promotion?: string }): string {
+  const { promotion } = move;
+  if (!promotion) return move.from + move.to;
+  const letter = pieceLetterMap[promotion]?.toLowerCase() || promotion[0].toLowerCase();
+  return move.from + move.to + letter;
+}
+
+/** Same from, to and promotion; promotions compare as given, so both sides use one form */
+export function sameMove(
+  a: { from: string; to: string; promotion?: string },
+  b: { from: string; to: string; promotion?: string }
+): boolean {
+  return a.from === b.from && a.to === b.to && (a.promotion ?? '') === (b.promotion ?? '');
+}
+
+/** One ply of a replayed game, with notation derived in its own position */
+export interface NotatedMove {
+  /** 0-based ply index */
+  ply: number;
+  /** Full move number as it should be printed */
+  moveNumber: number;
+  color: Move['piece']['color'];
+  move: Move;
+  san: string;
+  check: boolean;
+  checkmate: boolean;
+  /** FEN after the move */
+  fen: string;
+}
+
+/**
+ * Replay a game from its starting FEN and derive SAN, check and mate for
+ * every ply in the position it was played from.
+ * If a move cannot be replayed (e.g. wrong starting FEN), the remaining plies
+ * fall back to formatMove using the flags stored on the moves.
+ */
+export function notateGame(moves: Move[], startFen?: string): NotatedMove[] {
+  const engine = new ChessEngine(startFen);
+  const result: NotatedMove[] = [];
+  let replaying = true;
+  for (let ply = 0; ply < moves.length; ply++) {
+    const move = moves[ply];
+    const moveNumber = engine.getFullMoveNumber();
+    const color = engine.getTurn();
+    if (replaying) {
+      const disambiguation = legalDisambiguation(engine, move);
+      const applied = engine.makeMove(move.from, move.to, move.promotion);
+      if (applied) {
+        const suffix = sanSuffix(engine);
+        result.push({
+          ply,
+          moveNumber,
+          color,
+          move: applied,
+          san: sanBody(applied, disambiguation) + suffix,
+          check: suffix !== '',
+          checkmate: suffix === '#',
+          fen: engine.getFEN(),
+        });
+        continue;
+      }
+      replaying = false;
+    }
+    const prev = result[result.length - 1];
+    result.push({
+      ply,
+      moveNumber: prev ? prev.moveNumber + (prev.color === 'black' ? 1 : 0) : moveNumber,
+      color: move.piece.color,
+      move,
+      san: formatMove(move),
+      check: Boolean(move.check || move.checkmate),
+      checkmate: Boolean(move.checkmate),
+      fen: '',
+    });
+  }
+  return result;
+}
+
 export function chunkMoves(moves: Move[]): { fullMove: number; white?: Move; black?: Move }[] {
   const result: { fullMove: number; white?: Move; black?: Move }[] = [];
   for (let i = 0; i < moves.length; i += 2) {
@@ -95,3 +220,109 @@ export function chunkMoves(moves: Move[]): { fullMove: number; white?: Move; bla
   }
   return result;
 }
+
+// ---------------------------------------------------------------------------
+// SAN parsing
+// ---------------------------------------------------------------------------
+
+const sanPieceMap: Record<string, Piece['type']> = {
+  K: 'king',
+  Q: 'queen',
+  R: 'rook',
+  B: 'bishop',
+  N: 'knight',
+};
+
+export type SANErrorReason = 'syntax' | 'illegal' | 'ambiguous';
+
+/** Raised by resolveSAN when a SAN token cannot be matched to exactly one legal move */
+export class SANError extends Error {
+  readonly reason: SANErrorReason;
+  readonly san: string;
+
+  constructor(reason: SANErrorReason, san: string, message: string) {
+    super(message);
+    this.name = 'SANError';
+    this.reason = reason;
+    this.san = san;
+  }
+}
+
+const SAN_PIECE_RE = /^([KQRBN])([a-h])?([1-8])?(x)?([a-h][1-8])$/;
+const SAN_PAWN_RE = /^(?:([a-h])x)?([a-h][1-8])(?:=?([QRBN]))?$/;
+
+/**
+ * Resolve a SAN token (e.g. "Nbd7", "exd6", "e8=Q+", "O-O") against the
+ * position the engine currently holds.
+ * Check, mate and annotation suffixes (+ # ! ?) are ignored.
+ * @returns The matching legal move (promotion set from the token)
+ * @throws SANError when the token is malformed, illegal or ambiguous
+ */
+export function resolveSAN(san: string, engine: ChessEngine): Move {
+  const clean = san.replace(/[+#!?]+$/, '').replace(/e\.p\.$/, '');
+  const legal = engine.getLegalMoves();
+
+  if (/^[O0]-[O0](-[O0])?$/.test(clean)) {
+    const side = clean.length > 3 ? 'queenside' : 'kingside';
+    const file = side === 'kingside' ? 'g' : 'c';
+    const castle = legal.find(
+      (m) => m.piece.type === 'king' && (m.castling === side || (m.castling && m.to[0] === file))
+    );
+    if (!castle) throw new SANError('illegal', san, `Castling ${clean} is not legal here`);
+    return castle;
+  }
+
+  let pieceType: Piece['type'];
+  let fromFile: string | undefined;
+  let fromRank: string | undefined;
+  let to: string;
+  let capture = false;
+  let promotion: Piece['type'] | undefined;
+
+  const pieceMatch = SAN_PIECE_RE.exec(clean);
+  const pawnMatch = pieceMatch ? null : SAN_PAWN_RE.exec(clean);
+  if (pieceMatch) {
+    pieceType = sanPieceMap[pieceMatch[1]];
+    fromFile = pieceMatch[2];
+    fromRank = pieceMatch[3];
+    capture = Boolean(pieceMatch[4]);
+    to = pieceMatch[5];
+  } else if (pawnMatch) {
+    pieceType = 'pawn';
+    to = pawnMatch[2];
+    capture = Boolean(pawnMatch[1]);
+    fromFile = pawnMatch[1] ?? to[0];
+    promotion = pawnMatch[3] ? sanPieceMap[pawnMatch[3]] : undefined;
+  } else {
+    throw new SANError('syntax', san, `Unrecognised SAN "${san}"`);
+  }
+
+  // Promotions may be listed once per piece type or once with a default
+  // piece, so match on squares and apply the requested piece afterwards.
+  const seen = new Set<string>();
+  const candidates = legal.filter((m) => {
+    if (m.piece.type !== pieceType || m.to !== to) return false;
+    if (fromFile && m.from[0] !== fromFile) return false;
+    if (fromRank && m.from[1] !== fromRank) return false;
+    if (capture && !m.captured && !m.enPassant) return false;
+    const key = m.from + m.to;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  if (candidates.length === 0) {
+    throw new SANError('illegal', san, `No legal move matches "${san}"`);
+  }
+  if (candidates.length > 1) {
+    const froms = candidates.map((m) => m.from).join(', ');
+    throw new SANError('ambiguous', san, `"${san}" is ambiguous (from ${froms})`);
+  }
+
+  const match = candidates[0];
+  const needsPromotion = pieceType === 'pawn' && (to[1] === '8' || to[1] === '1');
+  if (needsPromotion && !promotion) {
+    throw new SANError('syntax', san, `"${san}" is missing a promotion piece`);
+  }
+  return needsPromotion ? { ...match, promotion } : match;
+}
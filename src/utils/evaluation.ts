@@ -0,0 +1,63 @@
+import { ChessAI, MATE_SCORE, type AnalysisProgress } from '../services/ChessAI';
+import { ChessEngine } from '../services/ChessEngine';
+import type { NormAnalysis, PlayerColor } from '../providers/types';
+
+/** An engine score from white's point of view */
+export interface EvalScore {
+  /** Centipawns; mates are ±MATE_SCORE less the plies to mate */
+  cp: number;
+  /** Moves to mate: positive when white mates, negative when black does; 0 once mated */
+  mate: number | null;
+}
+
+/** Scale of the win-probability curve: +400cp is roughly an 83% expectation */
+const WIN_CURVE = 0.004;
+
+/** Convert a ChessAI score (side to move) to white's point of view */
+export function toWhiteScore(score: number, turn: PlayerColor): EvalScore {
+  const cp = turn === 'white' ? score : -score;
+  return { cp, mate: ChessAI.mateIn(cp) };
+}
+
+/** Score from a provider analysis, whose evaluation is in pawns from white's side */
+export function fromNormAnalysis(analysis: NormAnalysis): EvalScore {
+  if (analysis.mate) {
+    const cp = Math.sign(analysis.mate) * (MATE_SCORE - Math.abs(analysis.mate) * 2);
+    return { cp, mate: analysis.mate };
+  }
+  return { cp: Math.round(analysis.evaluation * 100), mate: null };
+}
+
+/** Side to move in a FEN */
+export function turnOf(fen: string): PlayerColor {
+  return fen.split(' ')[1] === 'b' ? 'black' : 'white';
+}
+
+/** Score of a finished game from its result string */
+export function resultScore(result: string): EvalScore {
+  if (result === '1-0') return { cp: MATE_SCORE, mate: 0 };
+  if (result === '0-1') return { cp: -MATE_SCORE, mate: 0 };
+  return { cp: 0, mate: null };
+}
+
+/** Score of an analysed position; one without lines is a finished game */
+export function analysisScore(progress: AnalysisProgress, fen: string): EvalScore {
+  const [best] = progress.lines;
+  return best
+    ? toWhiteScore(best.score, turnOf(fen))
+    : resultScore(new ChessEngine(fen).getResult());
+}
+
+/** Display text: "+1.25", "-0.40", "M3", "-M2", or the result once mated */
+export function formatEval(score: EvalScore): string {
+  if (score.mate === 0) return score.cp > 0 ? '1-0' : '0-1';
+  if (score.mate !== null) return score.mate > 0 ? `M${score.mate}` : `-M${-score.mate}`;
+  const pawns = score.cp / 100;
+  return `${pawns > 0 ? '+' : ''}${pawns.toFixed(2)}`;
+}
+
+/** White's expected score between 0 and 1, for bar and graph heights */
+export function whiteExpectation(score: EvalScore): number {
+  if (score.mate !== null) return score.cp > 0 ? 1 : 0;
+  return 1 / (1 + Math.exp(-WIN_CURVE * score.cp));
+}
@@ -1,6 +1,10 @@
 import type { Move } from '@rumenx/chess/types';
-import { formatMove, chunkMoves } from './chessNotation';
-import type { ChessEngine } from '../services/ChessEngine';
+import { notateGame, resolveSAN } from './chessNotation';
+import { ChessEngine } from '../services/ChessEngine';
+import { GameTree, ROOT_NODE_ID, type GameNode } from '../services/GameTree';
+import { GameReview, type GameReviewResult } from '../services/GameReview';
+
+export const STANDARD_START_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
 
 interface PGNOptions {
   event?: string;
@@ -10,6 +14,9 @@ interface PGNOptions {
   white?: string;
   black?: string;
   result?: string; // 1-0, 0-1, 1/2-1/2, *
+  startFen?: string; // defaults to the standard start; emitted as SetUp/FEN tags otherwise
+  tree?: GameTree; // when given, movetext (with variations) and start FEN come from the tree
+  review?: GameReviewResult; // flagged moves get their glyph as a NAG and the better move as a comment
 }
 
 export function buildPGN(moves: Move[], engine: ChessEngine, opts: PGNOptions = {}): string {
@@ -22,26 +29,349 @@ export function buildPGN(moves: Move[], engine: ChessEngine, opts: PGNOptions =
     Black: opts.black || 'Black',
     Result: opts.result || engine.getResult() || '*',
   };
+  const startFen = opts.tree?.startFen ?? opts.startFen;
+  if (startFen && startFen !== STANDARD_START_FEN) {
+    headers.SetUp = '1';
+    headers.FEN = startFen;
+  }
 
   const headerSection = Object.entries(headers)
     .map(([k, v]) => `[${k} "${v}"]`)
     .join('\n');
 
-  const rows = chunkMoves(moves);
+  // SAN is derived by replaying from the start so every ply is disambiguated
+  // in its own position rather than against the final board
   const moveTextParts: string[] = [];
-  rows.forEach((row) => {
-    const moveNumber = `${row.fullMove}.`;
-    const whiteSan = row.white ? formatMove(row.white, (row.fullMove - 1) * 2, engine) : '';
-    const blackSan = row.black ? formatMove(row.black, (row.fullMove - 1) * 2 + 1, engine) : '';
-    if (blackSan) {
-      moveTextParts.push(`${moveNumber} ${whiteSan} ${blackSan}`.trim());
+  if (opts.tree) {
+    moveTextParts.push(treeMoveText(opts.tree, opts.review));
+  } else {
+    const annotations = reviewAnnotations(opts.review);
+    const byPly = new Map(opts.review?.moves.map((m) => [m.ply, annotations.get(m.nodeId)]));
+    let needNumber = true;
+    notateGame(moves, startFen).forEach((entry, i) => {
+      const annotation = byPly.get(i + 1);
+      if (entry.color === 'white') moveTextParts.push(`${entry.moveNumber}.`);
+      else if (needNumber) moveTextParts.push(`${entry.moveNumber}...`);
+      moveTextParts.push(...annotatedTokens(entry.san, [], undefined, annotation));
+      needNumber = Boolean(annotation);
+    });
+  }
+
+  const result = headers.Result;
+  const body = moveTextParts.filter(Boolean).join(' ') + (result ? ` ${result}` : '');
+
+  return `${headerSection}\n\n${body}`.trim();
+}
+
+// ---------------------------------------------------------------------------
+// Import
+// ---------------------------------------------------------------------------
+
+const RESULT_TOKENS = new Set(['1-0', '0-1', '1/2-1/2', '*']);
+
+/** A single half-move read from PGN movetext */
+export interface PGNPly {
+  /** SAN derived in the position the move was played from */
+  san: string;
+  move: Move;
+  /** FEN after the move has been played */
+  fen: string;
+  /** Numeric annotation glyphs ($1, $2, ... and !, ?, !!, ??, !?, ?!) */
+  nags: number[];
+  comment?: string;
+}
+
+export interface ParsedPGN {
+  tags: Record<string, string>;
+  /** Starting position (FEN tag or the standard start) */
+  startFen: string;
+  moves: Move[];
+  plies: PGNPly[];
+  /** Game termination marker from the movetext, falling back to the Result tag */
+  result: string;
+  /** Engine holding the final mainline position with the full move history */
+  engine: ChessEngine;
+  /** Every line of the game, including variations, comments and NAGs */
+  tree: GameTree;
+}
+
+/** Raised by parsePGN; `ply` is 1-based and `token` is the offending SAN */
+export class PGNParseError extends Error {
+  readonly ply: number;
+  readonly token: string;
+
+  constructor(ply: number, token: string, message: string) {
+    super(message);
+    this.name = 'PGNParseError';
+    this.ply = ply;
+    this.token = token;
+  }
+}
+
+const SUFFIX_NAGS: Record<string, number> = {
+  '!': 1,
+  '?': 2,
+  '!!': 3,
+  '??': 4,
+  '!?': 5,
+  '?!': 6,
+};
+
+type MoveTextToken =
+  | { kind: 'san'; value: string }
+  | { kind: 'nag'; value: number }
+  | { kind: 'comment'; value: string }
+  | { kind: 'result'; value: string }
+  | { kind: 'open' }
+  | { kind: 'close' };
+
+function parseTags(text: string): { tags: Record<string, string>; rest: string } {
+  const tags: Record<string, string> = {};
+  const tagRe = /^\s*\[\s*([A-Za-z0-9_]+)\s+"((?:[^"\\]|\\.)*)"\s*\]/;
+  let rest = text;
+  for (let m = tagRe.exec(rest); m; m = tagRe.exec(rest)) {
+    tags[m[1]] = m[2].replace(/\\(["\\])/g, '$1');
+    rest = rest.slice(m[0].length);
+  }
+  return { tags, rest };
+}
+
+function tokenizeMoveText(text: string): MoveTextToken[] {
+  const tokens: MoveTextToken[] = [];
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === '{') {
+      const end = text.indexOf('}', i);
+      const body = text.slice(i + 1, end === -1 ? text.length : end);
+      tokens.push({ kind: 'comment', value: body.trim() });
+      i = end === -1 ? text.length : end + 1;
+    } else if (ch === ';' || (ch === '%' && (i === 0 || text[i - 1] === '\n'))) {
+      const end = text.indexOf('\n', i);
+      if (ch === ';') {
+        tokens.push({
+          kind: 'comment',
+          value: text.slice(i + 1, end === -1 ? undefined : end).trim(),
+        });
+      }
+      i = end === -1 ? text.length : end + 1;
+    } else if (ch === '(' || ch === ')') {
+      tokens.push({ kind: ch === '(' ? 'open' : 'close' });
+      i++;
     } else {
-      moveTextParts.push(`${moveNumber} ${whiteSan}`.trim());
+      let j = i;
+      while (j < text.length && !/[\s{}();]/.test(text[j])) j++;
+      pushWord(text.slice(i, j), tokens);
+      i = j;
     }
+  }
+  return tokens;
+}
+
+function pushWord(word: string, tokens: MoveTextToken[]): void {
+  if (RESULT_TOKENS.has(word)) {
+    tokens.push({ kind: 'result', value: word });
+    return;
+  }
+  if (/^\$\d+$/.test(word)) {
+    tokens.push({ kind: 'nag', value: parseInt(word.slice(1), 10) });
+    return;
+  }
+  // Strip move numbers ("12." / "12..." / "12...Nf6") and en passant markers ("exd6 e.p.")
+  const stripped = word.replace(/^\d+\.+/, '').replace(/e\.p\.$/, '');
+  if (!stripped) return;
+  if (SUFFIX_NAGS[stripped] !== undefined) {
+    tokens.push({ kind: 'nag', value: SUFFIX_NAGS[stripped] });
+    return;
+  }
+  const suffix = /[!?]+$/.exec(stripped)?.[0];
+  const san = suffix ? stripped.slice(0, -suffix.length) : stripped;
+  tokens.push({ kind: 'san', value: san });
+  if (suffix && SUFFIX_NAGS[suffix] !== undefined) {
+    tokens.push({ kind: 'nag', value: SUFFIX_NAGS[suffix] });
+  }
+}
+
+function moveLabel(engine: ChessEngine, san: string): string {
+  const fullMove = engine.getFullMoveNumber();
+  return engine.getTurn() === 'white' ? `${fullMove}. ${san}` : `${fullMove}... ${san}`;
+}
+
+/**
+ * Parse a single PGN game: tag pairs plus movetext (SAN with check, mate and
+ * promotion suffixes, move numbers, comments, NAGs, RAV variations and the
+ * result marker). The mainline is replayed through ChessEngine.makeMove so the
+ * returned engine is a playable game; variations are kept in `tree`.
+ * @throws PGNParseError naming the ply and token of the first bad move
+ */
+export function parsePGN(pgn: string): ParsedPGN {
+  const { tags, rest } = parseTags(pgn.replace(/\r\n?/g, '\n'));
+  const startFen = tags.FEN || STANDARD_START_FEN;
+
+  let tree: GameTree;
+  try {
+    tree = new GameTree(startFen);
+  } catch (err) {
+    const detail = err instanceof Error ? err.message : String(err);
+    throw new PGNParseError(0, startFen, `Invalid FEN tag "${startFen}": ${detail}`);
+  }
+
+  let result = tags.Result || '*';
+  let current = ROOT_NODE_ID;
+  // Node to return to when the innermost open variation closes
+  const variationStack: string[] = [];
+  // Comments at the start of the game or of a variation belong to the move after them
+  let lineStart = true;
+  const commentsBefore: string[] = [];
+
+  for (const token of tokenizeMoveText(rest)) {
+    if (token.kind === 'comment') {
+      if (lineStart) {
+        commentsBefore.push(token.value);
+        continue;
+      }
+      const { comment } = tree.getNode(current);
+      tree.setComment(current, comment ? `${comment} ${token.value}` : token.value);
+    } else if (token.kind === 'nag') {
+      if (lineStart) continue;
+      tree.setNags(current, [...(tree.getNode(current).nags ?? []), token.value]);
+    } else if (token.kind === 'open') {
+      const ply = tree.getNode(current).ply;
+      if (current === ROOT_NODE_ID) {
+        throw new PGNParseError(ply, '(', 'Variation opened before any move');
+      }
+      // A variation is an alternative to the last move, so it starts from its parent
+      variationStack.push(current);
+      current = tree.getNode(current).parentId!;
+      lineStart = true;
+      commentsBefore.length = 0;
+    } else if (token.kind === 'close') {
+      const resume = variationStack.pop();
+      if (!resume) {
+        throw new PGNParseError(tree.getNode(current).ply, ')', 'Unbalanced ")" in movetext');
+      }
+      current = resume;
+      lineStart = false;
+      commentsBefore.length = 0;
+    } else if (token.kind === 'result') {
+      if (variationStack.length) continue;
+      result = token.value;
+      break;
+    } else {
+      const ply = tree.getNode(current).ply + 1;
+      const position = new ChessEngine(tree.getNode(current).fen);
+      const label = moveLabel(position, token.value);
+      try {
+        current = tree.addMove(current, resolveSAN(token.value, position)).id;
+      } catch (err) {
+        const detail = err instanceof Error ? err.message : String(err);
+        throw new PGNParseError(ply, token.value, `Ply ${ply} (${label}): ${detail}`);
+      }
+      if (lineStart) {
+        tree.setCommentBefore(current, commentsBefore.join(' '));
+        commentsBefore.length = 0;
+        lineStart = false;
+      }
+    }
+  }
+
+  if (variationStack.length) {
+    throw new PGNParseError(tree.getNode(current).ply, '(', 'Unterminated variation');
+  }
+
+  const engine = new ChessEngine(startFen);
+  const plies: PGNPly[] = tree.getMainline().map((node) => {
+    const move = node.move!;
+    engine.makeMove(move.from, move.to, move.promotion);
+    return {
+      san: node.san,
+      move: engine.getHistory()[node.ply - 1] ?? move,
+      fen: node.fen,
+      nags: node.nags ?? [],
+      comment: node.comment,
+    };
   });
 
-  const result = headers.Result;
-  const body = moveTextParts.join(' ') + (result ? ` ${result}` : '');
+  return {
+    tags,
+    startFen,
+    moves: plies.map((p) => p.move),
+    plies,
+    result,
+    engine,
+    tree,
+  };
+}
 
-  return `${headerSection}\n\n${body}`.trim();
+// ---------------------------------------------------------------------------
+// Movetext with variations
+// ---------------------------------------------------------------------------
+
+/** NAG and comment a review adds to a flagged move */
+interface Annotation {
+  nag: number;
+  comment: string;
+}
+
+function reviewAnnotations(review: GameReviewResult | undefined): Map<string, Annotation> {
+  const annotations = new Map<string, Annotation>();
+  for (const move of review?.moves ?? []) {
+    const nag = GameReview.nag(move.classification);
+    if (nag !== undefined) annotations.set(move.nodeId, { nag, comment: GameReview.comment(move) });
+  }
+  return annotations;
+}
+
+/** SAN, NAGs and comment; a review annotation is merged into the move's own */
+function annotatedTokens(
+  san: string,
+  nags: number[],
+  comment: string | undefined,
+  annotation?: Annotation
+): string[] {
+  const tokens = [san];
+  const allNags = annotation && !nags.includes(annotation.nag) ? [...nags, annotation.nag] : nags;
+  for (const nag of allNags) tokens.push(`$${nag}`);
+  const text = [comment, annotation?.comment].filter(Boolean).join(' ');
+  if (text) tokens.push(`{${text.replace(/}/g, ')')}}`);
+  return tokens;
+}
+
+function nodeTokens(node: GameNode, withNumber: boolean, annotation?: Annotation): string[] {
+  const tokens: string[] = [];
+  if (node.commentBefore) tokens.push(`{${node.commentBefore.replace(/}/g, ')')}}`);
+  if (node.color === 'white') tokens.push(`${node.moveNumber}.`);
+  else if (withNumber || node.commentBefore) tokens.push(`${node.moveNumber}...`);
+  tokens.push(...annotatedTokens(node.san, node.nags ?? [], node.comment, annotation));
+  return tokens;
+}
+
+function lineTokens(
+  tree: GameTree,
+  first: GameNode,
+  annotations: ReadonlyMap<string, Annotation>
+): string[] {
+  const tokens: string[] = [];
+  let needNumber = true;
+  for (let node: GameNode | null = first; node; node = tree.child(node.id)) {
+    const annotation = annotations.get(node.id);
+    tokens.push(...nodeTokens(node, needNumber, annotation));
+    needNumber = Boolean(node.comment || annotation);
+    const parent = tree.parent(node.id)!;
+    if (parent.children[0] === node.id) {
+      for (const altId of parent.children.slice(1)) {
+        tokens.push(`(${lineTokens(tree, tree.getNode(altId), annotations).join(' ')})`);
+        needNumber = true;
+      }
+    }
+  }
+  return tokens;
+}
+
+/** Movetext (without result) for a tree, with RAV parentheses for sidelines */
+export function treeMoveText(tree: GameTree, review?: GameReviewResult): string {
+  const first = tree.child(ROOT_NODE_ID);
+  return first ? lineTokens(tree, first, reviewAnnotations(review)).join(' ') : '';
 }
@@ -0,0 +1,198 @@
+/**
+ * Tests for game event streaming — RemoteProvider.subscribe over GameStream,
+ * against a local mock WebSocket server.
+ */
+import { GameStream } from '../../src/providers/GameStream';
+import { RemoteProvider } from '../../src/providers/RemoteProvider';
+import { rustNormEvent } from '../../src/providers/adapters';
+import type { GameStreamStatus, GameSubscription, NormGameEvent } from '../../src/providers/types';
+import { MockWebSocketServer } from '../setup/mockWebSocketServer';
+
+const AFTER_E4 = 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq e3 0 1';
+
+const RUST_GAME = {
+  id: 'g1',
+  fen: AFTER_E4,
+  currentPlayer: 'black',
+  status: 'active',
+  check: false,
+  moveHistory: [{ from: 'e2', to: 'e4', san: 'e4' }],
+};
+
+const GO_GAME = {
+  id: 'g1',
+  fen: AFTER_E4,
+  active_color: 'black',
+  status: 'in_progress',
+  move_history: [{ from: 'e2', to: 'e4', notation: 'e4' }],
+};
+
+/** Collects a subscription's events and statuses, with waits on both */
+function recorder() {
+  const events: NormGameEvent[] = [];
+  const statuses: GameStreamStatus[] = [];
+  const waitFor = async (check: () => boolean) => {
+    for (let i = 0; i < 200 && !check(); i++) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    if (!check()) throw new Error('Timed out waiting for the stream');
+  };
+  return {
+    events,
+    statuses,
+    handlers: {
+      onEvent: (event: NormGameEvent) => events.push(event),
+      onStatus: (status: GameStreamStatus) => statuses.push(status),
+    },
+    waitForEvents: (count: number) => waitFor(() => events.length >= count),
+    waitForStatus: (status: GameStreamStatus, count = 1) =>
+      waitFor(() => statuses.filter((s) => s === status).length >= count),
+  };
+}
+
+describe('Game streaming', () => {
+  let server: MockWebSocketServer;
+  let subscription: GameSubscription | null;
+
+  beforeEach(async () => {
+    server = await MockWebSocketServer.start();
+    subscription = null;
+  });
+
+  afterEach(async () => {
+    subscription?.close();
+    await server.close();
+  });
+
+  it('should connect to the rust stream path and deliver normalised events', async () => {
+    const provider = new RemoteProvider('rust', server.url);
+    const stream = recorder();
+    subscription = provider.subscribe('g1', stream.handlers);
+    await stream.waitForStatus('open');
+    expect(server.paths).toEqual(['/api/games/g1/ws']);
+
+    server.send({ type: 'move', move: { from: 'e2', to: 'e4', san: 'e4' }, game: RUST_GAME });
+    server.send({
+      type: 'aiThinking',
+      depth: 6,
+      nodes: 12000,
+      evaluation: 0.3,
+      bestMove: { from: 'e7', to: 'e5' },
+    });
+    server.send({ type: 'clock', whiteTimeMs: 295000, blackTimeMs: 300000 });
+    await stream.waitForEvents(3);
+
+    const [move, thinking, clock] = stream.events;
+    expect(move.type).toBe('move');
+    if (move.type === 'move') {
+      expect(move.move.san).toBe('e4');
+      expect(move.game.fen).toBe(AFTER_E4);
+      expect(move.game.turn).toBe('black');
+    }
+    expect(thinking).toEqual({
+      type: 'thinking',
+      depth: 6,
+      nodes: 12000,
+      evaluation: 0.3,
+      bestMove: expect.objectContaining({ from: 'e7', to: 'e5' }),
+    });
+    expect(clock).toEqual({ type: 'clock', whiteMs: 295000, blackMs: 300000 });
+  });
+
+  it('should normalise go-chess snake_case events', async () => {
+    const provider = new RemoteProvider('go', server.url);
+    const stream = recorder();
+    subscription = provider.subscribe('g1', stream.handlers);
+    await stream.waitForStatus('open');
+    expect(server.paths).toEqual(['/api/ws/games/g1']);
+
+    server.send({ type: 'ai_thinking', depth: 4, best_move: { from: 'g8', to: 'f6' } });
+    server.send({ type: 'clock', white_time_ms: 1000, black_time_ms: 2000 });
+    server.send({ type: 'game_over', result: '1-0', reason: 'timeout', game: GO_GAME });
+    await stream.waitForEvents(3);
+
+    expect(stream.events[0]).toMatchObject({ type: 'thinking', depth: 4, bestMove: { to: 'f6' } });
+    expect(stream.events[1]).toEqual({ type: 'clock', whiteMs: 1000, blackMs: 2000 });
+    expect(stream.events[2]).toMatchObject({
+      type: 'gameOver',
+      result: '1-0',
+      reason: 'timeout',
+      game: { fen: AFTER_E4 },
+    });
+  });
+
+  it('should skip malformed and unknown messages', async () => {
+    const provider = new RemoteProvider('rust', server.url);
+    const stream = recorder();
+    subscription = provider.subscribe('g1', stream.handlers);
+    await stream.waitForStatus('open');
+
+    server.send('not json');
+    server.send({ type: 'chatMessage', text: 'hi' });
+    server.send({ type: 'move', move: { from: 'e2', to: 'e4' } }); // no game
+    server.send({ type: 'state', game: RUST_GAME });
+    await stream.waitForEvents(1);
+
+    expect(stream.events).toHaveLength(1);
+    expect(stream.events[0].type).toBe('state');
+  });
+
+  it('should reconnect after the connection drops', async () => {
+    const stream = recorder();
+    subscription = new GameStream({
+      url: server.url.replace('http', 'ws') + '/stream',
+      normEvent: rustNormEvent,
+      handlers: stream.handlers,
+      reconnectDelaysMs: [20],
+    });
+    await stream.waitForStatus('open');
+
+    server.dropConnections();
+    await stream.waitForStatus('open', 2);
+    expect(stream.statuses).toEqual(['open', 'connecting', 'open']);
+    expect(server.paths).toHaveLength(2);
+
+    server.send({ type: 'state', game: RUST_GAME });
+    await stream.waitForEvents(1);
+    expect(stream.events[0].type).toBe('state');
+  });
+
+  it('should stop for good once closed', async () => {
+    const stream = recorder();
+    const gameStream = new GameStream({
+      url: server.url.replace('http', 'ws') + '/stream',
+      normEvent: rustNormEvent,
+      handlers: stream.handlers,
+      reconnectDelaysMs: [20],
+    });
+    await stream.waitForStatus('open');
+
+    gameStream.close();
+    await server.waitForDisconnect();
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(gameStream.status).toBe('closed');
+    expect(stream.statuses).toEqual(['open', 'closed']);
+    expect(server.paths).toHaveLength(1);
+  });
+
+  it('should close open streams on dispose', async () => {
+    const provider = new RemoteProvider('rust', server.url);
+    const first = recorder();
+    const second = recorder();
+    provider.subscribe('g1', first.handlers);
+    provider.subscribe('g2', second.handlers);
+    await first.waitForStatus('open');
+    await second.waitForStatus('open');
+    expect(server.openConnections).toBe(2);
+
+    provider.dispose();
+    await server.waitForDisconnect();
+    expect(first.statuses.at(-1)).toBe('closed');
+    expect(second.statuses.at(-1)).toBe('closed');
+  });
+
+  it('should refuse to subscribe on backends without streaming', () => {
+    const provider = new RemoteProvider('js', server.url);
+    expect(() => provider.subscribe('g1', recorder().handlers)).toThrow(/not supported/);
+  });
+});
@@ -2,6 +2,7 @@
  * Tests for LocalProvider — in-browser chess engine wrapper.
  */
 import { LocalProvider } from '../../src/providers/LocalProvider';
+import { AIService } from '../../src/services/AIService';
 
 describe('LocalProvider', () => {
   let provider: LocalProvider;
@@ -24,7 +25,7 @@ describe('LocalProvider', () => {
         undo: true,
         ai: true,
         hint: true,
-        analysis: false,
+        analysis: true,
         chat: false,
         websocket: false,
         pgn: true,
@@ -82,6 +83,18 @@ describe('LocalProvider', () => {
     });
   });
 
+  describe('listGames', () => {
+    it('should list the games it holds', async () => {
+      const first = await provider.createGame();
+      const second = await provider.createGame();
+      await provider.makeMove(second.id, 'e2', 'e4');
+      await provider.deleteGame(first.id);
+      const games = await provider.listGames();
+      expect(games.map((g) => g.id)).toEqual([second.id]);
+      expect(games[0].moveCount).toBe(1);
+    });
+  });
+
   describe('makeMove', () => {
     it('should make a legal move', async () => {
       const game = await provider.createGame();
@@ -154,6 +167,30 @@ describe('LocalProvider', () => {
       expect(result.game.turn).toBe('white');
       expect(result.thinkingTimeMs).toBeDefined();
     });
+
+    it("should report the evaluation in pawns from white's point of view", async () => {
+      // Black to move, a queen and four pawns down
+      const game = await provider.createGame({ fen: '4k3/pppp4/8/8/8/8/PPPPPPPP/3QK3 b - - 0 1' });
+      const result = await provider.aiMove(game.id, 'easy');
+      expect(result.evaluation).toBeGreaterThan(5);
+      expect(result.evaluation).toBeLessThan(100);
+    });
+
+    it('should search with the personality the game was created with', async () => {
+      const search = jest.spyOn(AIService, 'search');
+      const game = await provider.createGame({ aiPersonality: 'positional' });
+      await provider.aiMove(game.id, 'easy');
+      expect(search.mock.calls[0][0].options).toMatchObject({ personality: 'positional' });
+      search.mockRestore();
+    });
+
+    it('should ignore unknown personalities', async () => {
+      const search = jest.spyOn(AIService, 'search');
+      const game = await provider.createGame({ aiPersonality: 'berserker' });
+      await provider.aiMove(game.id, 'easy');
+      expect(search.mock.calls[0][0].options.personality).toBeUndefined();
+      search.mockRestore();
+    });
   });
 
   describe('aiHint', () => {
@@ -186,11 +223,25 @@ describe('LocalProvider', () => {
   });
 
   describe('getAnalysis', () => {
-    it('should throw (not supported in local mode)', async () => {
-      const game = await provider.createGame();
-      await expect(provider.getAnalysis(game.id)).rejects.toThrow(
-        'Analysis not supported in local mode',
-      );
+    it('should return several lines scored from white’s point of view', async () => {
+      const game = await provider.createGame({ fen: '4k3/8/8/3q4/8/8/3Q4/6K1 b - - 0 1' });
+      const analysis = await provider.getAnalysis(game.id, 2, { lines: 3 });
+      expect(analysis.lines).toHaveLength(3);
+      // Black wins the queen
+      expect(analysis.bestMove).toMatchObject({ from: 'd5', to: 'd2', san: 'Qxd2' });
+      expect(analysis.evaluation).toBeLessThan(-5);
+      expect(analysis.pv).toEqual(analysis.lines![0].pv);
+      expect(analysis.depth).toBe(2);
+      expect(analysis.nodes).toBeGreaterThan(0);
+    });
+
+    it('should report mates and pass each depth to onUpdate', async () => {
+      const game = await provider.createGame({ fen: 'k7/8/1K6/8/8/8/8/7R w - - 0 1' });
+      const onUpdate = jest.fn();
+      const analysis = await provider.getAnalysis(game.id, 2, { lines: 1, onUpdate });
+      expect(analysis.mate).toBe(1);
+      expect(analysis.bestMove).toMatchObject({ from: 'h1', to: 'h8' });
+      expect(onUpdate).toHaveBeenCalledTimes(2);
     });
   });
 
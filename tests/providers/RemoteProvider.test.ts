@@ -132,6 +132,13 @@ describe('RemoteProvider', () => {
       expect(state.status).toBe('active');
     });
 
+    it('should send the AI personality on createGame', async () => {
+      fetchMock.mockReturnValue(mockJsonResponse(RUST_GAME));
+      await provider.createGame({ aiPersonality: 'gambiteer' });
+      const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+      expect(body.aiPersonality).toBe('gambiteer');
+    });
+
     it('should GET /api/games/:id on getGame', async () => {
       fetchMock.mockReturnValue(mockJsonResponse(RUST_GAME));
       await provider.getGame('uuid-1');
@@ -150,6 +157,15 @@ describe('RemoteProvider', () => {
       );
     });
 
+    it('should GET /api/games on listGames', async () => {
+      fetchMock.mockReturnValue(
+        mockJsonResponse({ games: [RUST_GAME, { ...RUST_GAME, id: 'uuid-2' }] }),
+      );
+      const games = await provider.listGames();
+      expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:8082/api/games');
+      expect(games.map((g) => g.id)).toEqual(['uuid-1', 'uuid-2']);
+    });
+
     it('should POST to /api/games/:id/moves on makeMove', async () => {
       fetchMock.mockReturnValue(mockJsonResponse(RUST_GAME));
       await provider.makeMove('uuid-1', 'e2', 'e4');
@@ -230,6 +246,14 @@ describe('RemoteProvider', () => {
         expect.anything(),
       );
     });
+
+    it('should ask for several analysis lines', async () => {
+      fetchMock.mockReturnValue(mockJsonResponse({ evaluation: 0.5 }));
+      await provider.getAnalysis('uuid-1', 3, { lines: 3 });
+      expect(fetchMock.mock.calls[0][0]).toBe(
+        'http://localhost:8082/api/games/uuid-1/analysis?depth=3&multiPv=3',
+      );
+    });
   });
 
   // -----------------------------------------------------------------------
@@ -266,6 +290,22 @@ describe('RemoteProvider', () => {
       expect(body.aiColor).toBeUndefined();
     });
 
+    it('should use ai_personality for go backend', async () => {
+      fetchMock.mockReturnValue(mockJsonResponse(GO_GAME));
+      await provider.createGame({ aiPersonality: 'attacker' });
+      const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+      expect(body.ai_personality).toBe('attacker');
+      expect(body.aiPersonality).toBeUndefined();
+    });
+
+    it('should use multi_pv for go analysis lines', async () => {
+      fetchMock.mockReturnValue(mockJsonResponse({ evaluation: 0 }));
+      await provider.getAnalysis('1', undefined, { lines: 2 });
+      expect(fetchMock.mock.calls[0][0]).toBe(
+        'http://localhost:8080/api/games/1/analysis?multi_pv=2',
+      );
+    });
+
     it('should throw on undoMove (not supported)', async () => {
       await expect(provider.undoMove('1')).rejects.toThrow('not supported');
     });
@@ -353,6 +393,131 @@ describe('RemoteProvider', () => {
     });
   });
 
+  // -----------------------------------------------------------------------
+  // Timeouts and retries
+  // -----------------------------------------------------------------------
+
+  describe('timeouts and retries', () => {
+    const options = { timeoutMs: 50, retries: 2, retryDelayMs: 1 };
+    let provider: RemoteProvider;
+
+    beforeEach(() => {
+      provider = new RemoteProvider('rust', 'http://localhost:8082', options);
+    });
+
+    it.each([
+      [404, 'not-found'],
+      [422, 'validation'],
+      [503, 'server'],
+    ])('should categorise a %i response as %s', async (status, kind) => {
+      fetchMock.mockReturnValue(mockJsonResponse({ error: 'nope' }, status));
+      await expect(provider.makeMove('uuid-1', 'e2', 'e4')).rejects.toMatchObject({
+        name: 'ApiError',
+        kind,
+        status,
+      });
+    });
+
+    it('should retry idempotent requests that fail on the network', async () => {
+      fetchMock
+        .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+        .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+        .mockReturnValue(mockJsonResponse(RUST_GAME));
+      const state = await provider.getGame('uuid-1');
+      expect(state.id).toBe('uuid-1');
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it('should give up after the configured retries', async () => {
+      fetchMock.mockReturnValue(mockJsonResponse({ error: 'down' }, 502));
+      await expect(provider.getGame('uuid-1')).rejects.toMatchObject({ kind: 'server' });
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not retry moves or client errors', async () => {
+      fetchMock.mockRejectedValue(new TypeError('Failed to fetch'));
+      await expect(provider.makeMove('uuid-1', 'e2', 'e4')).rejects.toMatchObject({
+        kind: 'network',
+        status: 0,
+      });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+
+      fetchMock.mockReset();
+      fetchMock.mockReturnValue(mockJsonResponse({ error: 'missing' }, 404));
+      await expect(provider.getGame('gone')).rejects.toMatchObject({ kind: 'not-found' });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should treat a retried DELETE that finds the game gone as deleted', async () => {
+      fetchMock
+        .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+        .mockReturnValue(mockJsonResponse({ error: 'Game not found' }, 404));
+      await expect(provider.deleteGame('uuid-1')).resolves.toBeUndefined();
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+
+      fetchMock.mockReset();
+      fetchMock.mockReturnValue(mockJsonResponse({ error: 'Game not found' }, 404));
+      await expect(provider.deleteGame('uuid-1')).rejects.toMatchObject({ kind: 'not-found' });
+    });
+
+    it('should time out a request that gets no response', async () => {
+      fetchMock.mockImplementation(
+        (_url: string, init: RequestInit) =>
+          new Promise((_resolve, reject) => {
+            init.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+          }),
+      );
+      const noRetry = new RemoteProvider('rust', 'http://localhost:8082', {
+        ...options,
+        retries: 0,
+      });
+      await expect(noRetry.getGame('uuid-1')).rejects.toMatchObject({ kind: 'timeout' });
+    });
+
+    it.each([
+      ['application/json', 'json'],
+      ['text/plain', 'text'],
+    ])('should time out a %s body that stops arriving', async (contentType, reader) => {
+      fetchMock.mockImplementation((_url: string, init: RequestInit) => {
+        const stalled = () =>
+          new Promise((_resolve, reject) => {
+            init.signal?.addEventListener('abort', () =>
+              reject(new DOMException('Aborted', 'AbortError')),
+            );
+          });
+        return Promise.resolve({
+          ok: true,
+          status: 200,
+          statusText: 'OK',
+          headers: new Headers({ 'content-type': contentType }),
+          json: reader === 'json' ? stalled : () => Promise.reject(new Error('not json')),
+          text: reader === 'text' ? stalled : () => Promise.resolve(''),
+        });
+      });
+      const noRetry = new RemoteProvider('rust', 'http://localhost:8082', {
+        ...options,
+        retries: 0,
+      });
+      const request = reader === 'json' ? noRetry.getGame('uuid-1') : noRetry.getPgn('uuid-1');
+      await expect(request).rejects.toMatchObject({ name: 'ApiError', kind: 'timeout' });
+    });
+
+    it('should pass a caller abort through without retrying', async () => {
+      const controller = new AbortController();
+      const abortError = new DOMException('Aborted', 'AbortError');
+      fetchMock.mockImplementation(
+        (_url: string, init: RequestInit) =>
+          new Promise((_resolve, reject) => {
+            init.signal?.addEventListener('abort', () => reject(abortError));
+          }),
+      );
+      const analysis = provider.getAnalysis('uuid-1', 4, { signal: controller.signal });
+      controller.abort();
+      await expect(analysis).rejects.toBe(abortError);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+  });
+
   // -----------------------------------------------------------------------
   // dispose
   // -----------------------------------------------------------------------
@@ -7,10 +7,13 @@ import {
   rustNormLegalMoves,
   rustNormAiMove,
   rustNormAnalysis,
+  rustNormEvent,
   goNormGame,
+  goNormGameList,
   goNormLegalMoves,
   goNormAiMove,
   goNormAnalysis,
+  goNormEvent,
   jsNormGame,
   jsNormLegalMoves,
   jsNormAiMove,
@@ -160,6 +163,46 @@ describe('rust-chess adapter', () => {
       const analysis = rustNormAnalysis({});
       expect(analysis.evaluation).toBe(0);
       expect(analysis.bestMove).toBeUndefined();
+      expect(analysis.lines).toBeUndefined();
+    });
+
+    it('should normalise multiple lines with their PVs', () => {
+      const analysis = rustNormAnalysis({
+        evaluation: 0.4,
+        depth: 12,
+        nodes: 50000,
+        lines: [
+          {
+            evaluation: 0.4,
+            depth: 12,
+            pv: [
+              { from: 'e2', to: 'e4', san: 'e4' },
+              { from: 'e7', to: 'e5' },
+            ],
+          },
+          { evaluation: 0.3, depth: 12, pv: [{ from: 'd2', to: 'd4', san: 'd4' }] },
+        ],
+      });
+      expect(analysis.lines).toHaveLength(2);
+      expect(analysis.lines![1].pv[0].san).toBe('d4');
+      // The best move and PV fall back to the first line
+      expect(analysis.bestMove!.san).toBe('e4');
+      expect(analysis.pv).toHaveLength(2);
+      expect(analysis.nodes).toBe(50000);
+    });
+  });
+
+  describe('rustNormEvent', () => {
+    it('should derive the game-over result from the game when none is given', () => {
+      const event = rustNormEvent({
+        type: 'gameOver',
+        game: { id: 'g1', fen: '', currentPlayer: 'white', status: 'checkmate', moveHistory: [] },
+      });
+      expect(event).toMatchObject({ type: 'gameOver', result: '0-1' });
+    });
+
+    it('should return null for unknown event types', () => {
+      expect(rustNormEvent({ type: 'chatMessage' })).toBeNull();
     });
   });
 });
@@ -238,6 +281,15 @@ describe('go-chess adapter', () => {
     });
   });
 
+  describe('goNormGameList', () => {
+    it('should accept a bare array or a games wrapper', () => {
+      const game = { id: 7, fen: 'x', active_color: 'black', status: 'in_progress' };
+      expect(goNormGameList([game])[0]).toMatchObject({ id: '7', turn: 'black' });
+      expect(goNormGameList({ games: [game, game] })).toHaveLength(2);
+      expect(goNormGameList({})).toEqual([]);
+    });
+  });
+
   describe('goNormLegalMoves', () => {
     it('should normalise legal_moves key', () => {
       const raw = {
@@ -281,6 +333,38 @@ describe('go-chess adapter', () => {
       expect(analysis.evaluation).toBe(150);
       expect(analysis.bestMove!.from).toBe('e2');
     });
+
+    it('should normalise snake_case lines and mates', () => {
+      const analysis = goNormAnalysis({
+        evaluation_cp: 9990,
+        mate_in: 2,
+        pv: [{ from: 'h1', to: 'h7', notation: 'Rh7' }],
+        lines: [
+          { evaluation_cp: 9990, mate_in: 2, pv: [{ from: 'h1', to: 'h7', notation: 'Rh7' }] },
+        ],
+      });
+      expect(analysis.mate).toBe(2);
+      expect(analysis.pv![0].san).toBe('Rh7');
+      expect(analysis.lines![0]).toMatchObject({ evaluation: 9990, mate: 2 });
+    });
+  });
+
+  describe('goNormEvent', () => {
+    it('should normalise a move event with its snake_case game', () => {
+      const event = goNormEvent({
+        type: 'move',
+        move: { from: 'e7', to: 'e5', notation: 'e5' },
+        game: { id: 1, fen: 'x', active_color: 'white', status: 'in_progress', move_history: [] },
+      });
+      expect(event).toMatchObject({ type: 'move', move: { san: 'e5' }, game: { turn: 'white' } });
+    });
+
+    it('should fall back to evaluation_cp for AI progress', () => {
+      expect(goNormEvent({ type: 'ai_thinking', evaluation_cp: 35 })).toMatchObject({
+        type: 'thinking',
+        evaluation: 35,
+      });
+    });
   });
 });
 
@@ -443,6 +527,19 @@ describe('js-chess adapter', () => {
       expect(analysis.bestMove!.san).toBe('d5');
       expect(analysis.depth).toBe(5);
     });
+
+    it('should keep a top-level PV alongside the lines', () => {
+      const analysis = jsNormAnalysis({
+        evaluation: 0.2,
+        pv: [
+          { from: 'g1', to: 'f3', san: 'Nf3' },
+          { from: 'g8', to: 'f6', san: 'Nf6' },
+        ],
+        lines: [{ evaluation: 0.2, pv: [{ from: 'g1', to: 'f3', san: 'Nf3' }] }],
+      });
+      expect(analysis.pv!.map((m) => m.san)).toEqual(['Nf3', 'Nf6']);
+      expect(analysis.lines![0].pv).toHaveLength(1);
+    });
   });
 });
 
@@ -471,6 +568,12 @@ describe('ADAPTERS registry', () => {
     expect(ADAPTERS.js.apiPrefix).toBe('/api/v1');
   });
 
+  it('should give a stream path to rust and go only', () => {
+    expect(ADAPTERS.rust.streamPath?.('g1')).toBe('/games/g1/ws');
+    expect(ADAPTERS.go.streamPath?.('g1')).toBe('/ws/games/g1');
+    expect(ADAPTERS.js.streamPath).toBeUndefined();
+  });
+
   it('should use "level" for go, "difficulty" for rust and js', () => {
     expect(ADAPTERS.rust.aiDifficultyField).toBe('difficulty');
     expect(ADAPTERS.go.aiDifficultyField).toBe('level');
@@ -0,0 +1,280 @@
+import { AIService, AISearchAbortedError } from '../../src/services/AIService';
+import type { AIWorkerRequest, AIWorkerResponse } from '../../src/services/AIService';
+import type { SearchProgress } from '../../src/services/ChessAI';
+
+const START_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+/** Out of the opening book, so searches go to the worker */
+const ENDGAME_FEN = '4k3/8/8/8/8/8/4P3/4K3 w - - 0 1';
+
+/** Minimal stand-in for a Web Worker that records posted requests */
+class FakeWorker {
+  static instances: FakeWorker[] = [];
+  posted: AIWorkerRequest[] = [];
+  terminated = false;
+  private listeners: ((e: MessageEvent<AIWorkerResponse>) => void)[] = [];
+
+  constructor() {
+    FakeWorker.instances.push(this);
+  }
+
+  addEventListener(type: string, listener: (e: MessageEvent<AIWorkerResponse>) => void) {
+    if (type === 'message') this.listeners.push(listener);
+  }
+
+  postMessage(message: AIWorkerRequest) {
+    this.posted.push(message);
+  }
+
+  /** Posted searches and analyses, leaving out tablebase restores */
+  get jobs() {
+    return this.posted.filter(
+      (m): m is Exclude<AIWorkerRequest, { type: 'tables' }> => m.type !== 'tables'
+    );
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+
+  emit(data: AIWorkerResponse) {
+    for (const listener of this.listeners) listener({ data } as MessageEvent<AIWorkerResponse>);
+  }
+}
+
+jest.mock('../../src/services/createAIWorker', () => ({
+  createAIWorker: () => new FakeWorker(),
+}));
+
+/** Let pending promise callbacks (lazy worker import, dispatch) run */
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('AIService', () => {
+  afterEach(() => {
+    AIService.cancelAll();
+  });
+
+  describe('without Worker support', () => {
+    it('should search on the calling thread and report progress', async () => {
+      const progress: SearchProgress[] = [];
+      const result = await AIService.search({
+        fen: START_FEN,
+        options: { level: 'easy', useBook: false },
+        onProgress: (p) => progress.push(p),
+      });
+      expect(result.bestMove).not.toBeNull();
+      expect(result.depth).toBe(1);
+      expect(progress.length).toBeGreaterThan(0);
+    });
+
+    it('should answer book positions without searching', async () => {
+      const onProgress = jest.fn();
+      const result = await AIService.search({
+        fen: START_FEN,
+        options: { level: 'hard' },
+        onProgress,
+      });
+      expect(result).toEqual(expect.objectContaining({ fromBook: true, depth: 0, nodes: 0 }));
+      expect(onProgress).not.toHaveBeenCalled();
+    });
+
+    it('should reject immediately when the signal is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+      await expect(
+        AIService.search({ fen: START_FEN, options: { level: 'easy' }, signal: controller.signal })
+      ).rejects.toBeInstanceOf(AISearchAbortedError);
+    });
+
+    it('should analyse on the calling thread and report each depth', async () => {
+      const onProgress = jest.fn();
+      const result = await AIService.analyze({
+        fen: ENDGAME_FEN,
+        options: { lines: 2, depth: 2 },
+        onProgress,
+      });
+      expect(result.lines).toHaveLength(2);
+      expect(result.depth).toBe(2);
+      expect(onProgress).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('with a worker', () => {
+    beforeAll(() => {
+      (globalThis as unknown as { Worker: unknown }).Worker = FakeWorker;
+    });
+
+    afterAll(() => {
+      delete (globalThis as unknown as { Worker?: unknown }).Worker;
+    });
+
+    beforeEach(() => {
+      AIService.cancelAll();
+      FakeWorker.instances = [];
+    });
+
+    it('should post the position to the worker and stream progress back', async () => {
+      const onProgress = jest.fn();
+      const promise = AIService.search({
+        fen: ENDGAME_FEN,
+        options: { level: 'hard' },
+        onProgress,
+      });
+      await flush();
+
+      const worker = FakeWorker.instances[0];
+      const [request] = worker.jobs;
+      expect(request).toEqual(
+        expect.objectContaining({
+          type: 'search',
+          fen: ENDGAME_FEN,
+          // The book was already checked on this thread
+          options: { level: 'hard', useBook: false },
+        })
+      );
+
+      const bestMove = { from: 'e2', to: 'e4' };
+      const progress = { depth: 3, nodes: 120, bestMove, score: 30 };
+      worker.emit({ type: 'progress', id: request.id, progress });
+      worker.emit({ type: 'result', id: request.id, result: { ...progress, elapsedMs: 5 } });
+
+      expect(onProgress).toHaveBeenCalledWith(progress);
+      await expect(promise).resolves.toEqual(expect.objectContaining({ bestMove, nodes: 120 }));
+    });
+
+    it('should route analysis requests and their progress', async () => {
+      const onProgress = jest.fn();
+      const promise = AIService.analyze({ fen: START_FEN, options: { lines: 2 }, onProgress });
+      await flush();
+
+      const worker = FakeWorker.instances[0];
+      const [request] = worker.jobs;
+      expect(request).toEqual(
+        expect.objectContaining({ type: 'analyze', fen: START_FEN, options: { lines: 2 } })
+      );
+
+      const line = { score: 20, pv: [{ from: 'e2', to: 'e4' }] };
+      const progress = { depth: 4, nodes: 900, lines: [line] };
+      // Search progress is not meant for an analysis
+      const searchProgress = { depth: 4, nodes: 900, bestMove: null, score: 0 };
+      worker.emit({ type: 'progress', id: request.id, progress: searchProgress });
+      worker.emit({ type: 'analysis-progress', id: request.id, progress });
+      worker.emit({ type: 'analysis', id: request.id, result: { ...progress, elapsedMs: 40 } });
+
+      expect(onProgress).toHaveBeenCalledTimes(1);
+      expect(onProgress).toHaveBeenCalledWith(progress);
+      await expect(promise).resolves.toEqual(expect.objectContaining({ lines: [line] }));
+    });
+
+    it('should post one job at a time and the next once it settles', async () => {
+      const first = AIService.search({
+        fen: START_FEN,
+        options: { level: 'easy', useBook: false },
+      });
+      const second = AIService.analyze({ fen: START_FEN, options: { lines: 1 } });
+      await flush();
+
+      const worker = FakeWorker.instances[0];
+      expect(worker.jobs.map((r) => r.type)).toEqual(['search']);
+      const result = { depth: 1, nodes: 20, bestMove: null, score: 0, elapsedMs: 1 };
+      worker.emit({ type: 'result', id: worker.jobs[0].id, result });
+      await expect(first).resolves.toEqual(result);
+      await flush();
+
+      expect(worker.jobs.map((r) => r.type)).toEqual(['search', 'analyze']);
+      AIService.cancelAll();
+      await expect(second).rejects.toBeInstanceOf(AISearchAbortedError);
+    });
+
+    it('should drop a waiting job on abort without stopping the running one', async () => {
+      const running = AIService.search({
+        fen: START_FEN,
+        options: { level: 'easy', useBook: false },
+      });
+      const controller = new AbortController();
+      const waiting = AIService.search({
+        fen: START_FEN,
+        options: { level: 'hard', useBook: false },
+        signal: controller.signal,
+      });
+      await flush();
+
+      controller.abort();
+      await expect(waiting).rejects.toBeInstanceOf(AISearchAbortedError);
+      const worker = FakeWorker.instances[0];
+      expect(worker.terminated).toBe(false);
+      const result = { depth: 1, nodes: 20, bestMove: null, score: 0, elapsedMs: 1 };
+      worker.emit({ type: 'result', id: worker.jobs[0].id, result });
+      await expect(running).resolves.toEqual(result);
+      await flush();
+      expect(worker.jobs).toHaveLength(1);
+    });
+
+    it('should terminate the worker when the running job aborts and dispatch the next', async () => {
+      const controller = new AbortController();
+      const aborted = AIService.search({
+        fen: START_FEN,
+        options: { level: 'godlike', useBook: false },
+        signal: controller.signal,
+      });
+      const other = AIService.search({
+        fen: START_FEN,
+        options: { level: 'easy', useBook: false },
+      });
+      await flush();
+
+      const first = FakeWorker.instances[0];
+      expect(first.jobs).toHaveLength(1);
+      controller.abort();
+      await expect(aborted).rejects.toBeInstanceOf(AISearchAbortedError);
+      await flush();
+
+      expect(first.terminated).toBe(true);
+      const second = FakeWorker.instances[1];
+      expect(second.jobs).toHaveLength(1);
+      const [request] = second.jobs;
+      const result = { depth: 1, nodes: 20, bestMove: null, score: 0, elapsedMs: 1 };
+      second.emit({ type: 'result', id: request.id, result });
+      await expect(other).resolves.toEqual(result);
+    });
+
+    it('should hand the tablebases a worker built to its replacement', async () => {
+      const controller = new AbortController();
+      const aborted = AIService.search({
+        fen: ENDGAME_FEN,
+        options: { level: 'hard' },
+        signal: controller.signal,
+      });
+      await flush();
+
+      const tables = [{ material: 'KPK' as const, values: new Uint8Array([1, 2, 3]) }];
+      FakeWorker.instances[0].emit({ type: 'tables', tables });
+      controller.abort();
+      await expect(aborted).rejects.toBeInstanceOf(AISearchAbortedError);
+      AIService.search({ fen: ENDGAME_FEN, options: { level: 'hard' } }).catch(() => {});
+      await flush();
+
+      const [restore, search] = FakeWorker.instances[1].posted;
+      expect(restore).toEqual({ type: 'tables', tables });
+      expect(search.type).toBe('search');
+    });
+
+    it('should reject searches the worker reports as failed', async () => {
+      const promise = AIService.search({ fen: 'bad fen', options: { level: 'easy' } });
+      await flush();
+      const worker = FakeWorker.instances[0];
+      worker.emit({ type: 'error', id: worker.jobs[0].id, message: 'Invalid FEN' });
+      await expect(promise).rejects.toThrow('Invalid FEN');
+    });
+
+    it('should reject everything on cancelAll', async () => {
+      const promise = AIService.search({
+        fen: START_FEN,
+        options: { level: 'easy', useBook: false },
+      });
+      await flush();
+      AIService.cancelAll();
+      await expect(promise).rejects.toBeInstanceOf(AISearchAbortedError);
+      expect(FakeWorker.instances[0].terminated).toBe(true);
+    });
+  });
+});
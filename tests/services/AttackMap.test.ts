@@ -0,0 +1,112 @@
+import { AttackMap } from '../../src/services/AttackMap';
+import { ChessEngine } from '../../src/services/ChessEngine';
+
+const squares = (found: { square: string }[]) => found.map((f) => f.square).sort();
+
+describe('AttackMap', () => {
+  describe('attackers', () => {
+    it('should see attacks by the side not to move', () => {
+      const engine = new ChessEngine('r3k3/8/8/8/8/8/8/4K3 w - - 0 1');
+      expect(engine.isSquareUnderAttack('a1', 'black')).toBe(true);
+      expect(engine.isSquareUnderAttack('b2', 'black')).toBe(false);
+      expect(squares(engine.getAttackers('a1', 'black'))).toEqual(['a8']);
+    });
+
+    it('should find every kind of attacker and stop sliders at blockers', () => {
+      // Pawn f3, knight d2, king d3 and rook e1 reach e4; the h1 bishop is blocked by f3
+      const board = new ChessEngine('4k3/8/8/8/8/3K1P2/3N4/4R2B w - - 0 1').getBoard();
+      expect(squares(AttackMap.attackers(board, 'e4', 'white'))).toEqual(['d2', 'd3', 'e1', 'f3']);
+      expect(squares(AttackMap.xRayAttackers(board, 'e4', 'white'))).toEqual(['h1']);
+    });
+
+    it('should attack with black pawns downwards', () => {
+      const engine = new ChessEngine('4k3/8/8/3p4/8/8/8/4K3 w - - 0 1');
+      expect(squares(engine.getAttackers('e4', 'black'))).toEqual(['d5']);
+      expect(engine.getAttackers('e6', 'black')).toEqual([]);
+    });
+  });
+
+  describe('defenders and x-rays', () => {
+    // Pawn e4 is hit by the d5 pawn, guarded by the c3 knight, and the b7 bishop looks through d5
+    const engine = new ChessEngine('4k3/1b6/8/3p4/4P3/2N5/8/4K3 w - - 0 1');
+
+    it('should list defenders of the occupant', () => {
+      expect(squares(engine.getDefenders('e4'))).toEqual(['c3']);
+      expect(squares(engine.getDefenders('d5'))).toEqual(['b7']);
+      expect(engine.getDefenders('e5')).toEqual([]);
+    });
+
+    it('should find sliders behind one piece', () => {
+      expect(engine.getXRayAttackers('e4', 'black')).toEqual([
+        { square: 'b7', piece: { type: 'bishop', color: 'black' }, through: 'd5' },
+      ]);
+      expect(engine.getXRayAttackers('e4', 'white')).toEqual([]);
+    });
+
+    it('should count a battery as an x-ray', () => {
+      const battery = new ChessEngine('4k3/8/8/8/8/8/R7/R3K3 w - - 0 1');
+      expect(battery.getXRayAttackers('a8', 'white')).toEqual([
+        { square: 'a1', piece: { type: 'rook', color: 'white' }, through: 'a2' },
+      ]);
+    });
+  });
+
+  describe('pins', () => {
+    it('should find pieces pinned to their king', () => {
+      const engine = new ChessEngine('4k3/4r3/8/8/8/8/4N3/4K3 w - - 0 1');
+      expect(engine.getPinnedPieces('white')).toEqual([
+        { square: 'e2', piece: { type: 'knight', color: 'white' }, pinnedBy: 'e7', king: 'e1' },
+      ]);
+      expect(engine.getPinnedPieces('black')).toEqual([]);
+    });
+
+    it('should flag pinned attackers that cannot capture on the square', () => {
+      const knight = new ChessEngine('4k3/4r3/8/8/8/8/4N3/4K3 w - - 0 1');
+      expect(knight.getAttackers('d4', 'white')).toEqual([
+        { square: 'e2', piece: { type: 'knight', color: 'white' }, pinned: true },
+      ]);
+      // A pinned piece still controls the square for king moves
+      expect(knight.isSquareUnderAttack('d4', 'white')).toBe(true);
+
+      const rook = new ChessEngine('4k3/4r3/8/8/8/8/4R3/4K3 w - - 0 1');
+      expect(rook.getAttackers('e7', 'white')[0].pinned).toBe(false);
+      expect(rook.getAttackers('d2', 'white').find((a) => a.square === 'e2')?.pinned).toBe(true);
+    });
+
+    it('should not pin across a second own piece', () => {
+      const engine = new ChessEngine('4k3/4r3/8/8/4N3/8/4N3/4K3 w - - 0 1');
+      expect(engine.getPinnedPieces('white')).toEqual([]);
+    });
+  });
+
+  describe('threatenedPieces', () => {
+    it('should mark an undefended attacked piece as hanging', () => {
+      const engine = new ChessEngine('4k3/8/8/3q4/8/8/8/3RK3 w - - 0 1');
+      const [queen] = engine.getThreatenedPieces('black');
+      expect(queen).toMatchObject({ square: 'd5', hanging: true });
+      expect(squares(queen.attackers)).toEqual(['d1']);
+      // The queen hits the rook back, but the king guards it
+      expect(engine.getThreatenedPieces('white')).toMatchObject([{ square: 'd1', hanging: false }]);
+    });
+
+    it('should mark a defended piece attacked by a cheaper one as hanging', () => {
+      const engine = new ChessEngine('4k3/8/2p5/3q4/8/8/8/3RK3 w - - 0 1');
+      const [queen] = engine.getThreatenedPieces('black');
+      expect(squares(queen.defenders)).toEqual(['c6']);
+      expect(queen.hanging).toBe(true);
+    });
+
+    it('should not mark an equal trade as hanging', () => {
+      const engine = new ChessEngine('4k3/1b6/8/3p4/4P3/2N5/8/4K3 w - - 0 1');
+      const threats = engine.getThreatenedPieces('white');
+      expect(threats).toHaveLength(1);
+      expect(threats[0]).toMatchObject({ square: 'e4', hanging: false });
+    });
+
+    it('should ignore attacks by pinned pieces', () => {
+      // The e2 knight would take the d4 rook, but it is pinned
+      const engine = new ChessEngine('4k3/4r3/8/8/3r4/8/4N3/4K3 w - - 0 1');
+      expect(engine.getThreatenedPieces('black')).toEqual([]);
+    });
+  });
+});
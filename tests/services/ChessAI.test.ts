@@ -1,5 +1,8 @@
-import { ChessAI, type AIDifficulty } from '../../src/services/ChessAI';
+import { ChessAI, MATE_SCORE, type AIDifficulty } from '../../src/services/ChessAI';
 import { ChessEngine } from '../../src/services/ChessEngine';
+import { EVAL_PROFILES } from '../../src/services/Evaluator';
+import { LineBook } from '../../src/services/OpeningBook';
+import { OPENING_LINES } from '../../src/services/openingLines';
 
 describe('ChessAI', () => {
   describe('depthForLevel', () => {
@@ -123,7 +126,7 @@ describe('ChessAI', () => {
     it('should prefer captures at higher levels', () => {
       // Position where there's a free piece to capture
       engine.loadFEN('rnbqkbnr/pppp1ppp/8/4p3/4P3/8/PPPPQPPP/RNB1KBNR w KQkq - 0 1');
-      
+
       const move = ChessAI.computeBestMove(engine, 'medium');
       expect(move).not.toBeNull();
       // At depth 2+, AI should find Qxe5 capturing the pawn
@@ -135,7 +138,7 @@ describe('ChessAI', () => {
     it('should find checkmate in one move', () => {
       // Fool's mate position - this IS checkmate already
       engine.loadFEN('rnb1kbnr/pppp1ppp/8/4p3/6Pq/5P2/PPPPP2P/RNBQKBNR w KQkq - 1 3');
-      
+
       // White is checkmated, should have no legal moves
       const legalMoves = engine.getLegalMoves();
       expect(legalMoves.length).toBe(0);
@@ -166,4 +169,344 @@ describe('ChessAI', () => {
       expect(move).not.toBeNull();
     });
   });
+
+  describe('search', () => {
+    it('should report depth, nodes, best move and score', () => {
+      const engine = new ChessEngine('6k1/5ppp/8/8/8/8/5PPP/R5K1 w - - 0 1');
+      const progress: number[] = [];
+      const result = ChessAI.search(engine, { level: 'easy', depth: 2 }, (p) =>
+        progress.push(p.nodes)
+      );
+      expect(result.depth).toBe(2);
+      expect(result.bestMove).toEqual(expect.objectContaining({ from: 'a1', to: 'a8' }));
+      expect(result.score).toBe(MATE_SCORE - 1);
+      expect(result.nodes).toBeGreaterThan(progress.length);
+      expect(progress.length).toBeGreaterThan(0);
+      expect(progress).toEqual([...progress].sort((a, b) => a - b));
+    });
+
+    it('should score quiet positions with the evaluation profile', () => {
+      const engine = new ChessEngine();
+      const materialOnly = ChessAI.search(engine, { level: 'easy', depth: 1, useBook: false });
+      const positional = ChessAI.search(engine, {
+        level: 'easy',
+        depth: 1,
+        weights: EVAL_PROFILES.expert,
+        useBook: false,
+      });
+      expect(materialOnly.score).toBe(0);
+      expect(positional.score).toBeGreaterThan(0);
+    });
+
+    it('should leave the engine position untouched', () => {
+      const engine = new ChessEngine();
+      const fen = engine.getFEN();
+      ChessAI.search(engine, { level: 'medium', useBook: false });
+      expect(engine.getFEN()).toBe(fen);
+      expect(engine.getHistory()).toHaveLength(0);
+    });
+
+    it('should return a plain serializable move', () => {
+      const engine = new ChessEngine();
+      const { bestMove } = ChessAI.search(engine, { level: 'easy' });
+      expect(JSON.parse(JSON.stringify(bestMove))).toEqual(bestMove);
+    });
+
+    it('should still pick a move when every move loses', () => {
+      // Black is mated whatever it plays: Qg7# follows any reply
+      const engine = new ChessEngine('7k/8/6KQ/8/8/8/8/8 b - - 0 1');
+      const result = ChessAI.search(engine, { level: 'medium' });
+      expect(result.bestMove).not.toBeNull();
+      expect(ChessAI.mateIn(result.score)).toBe(-1);
+    });
+  });
+
+  describe('mate scores', () => {
+    it('should encode moves to mate', () => {
+      expect(ChessAI.mateIn(MATE_SCORE - 1)).toBe(1);
+      expect(ChessAI.mateIn(MATE_SCORE - 3)).toBe(2);
+      expect(ChessAI.mateIn(-(MATE_SCORE - 2))).toBe(-1);
+      expect(ChessAI.mateIn(250)).toBeNull();
+    });
+
+    it('should find a mate in two', () => {
+      // Rook ladder: Ra7 (or Rb7) and mate on the back rank next move
+      const engine = new ChessEngine('7k/8/8/8/8/8/R7/1R4K1 w - - 0 1');
+      const result = ChessAI.search(engine, { level: 'expert', depth: 2 });
+      expect(ChessAI.mateIn(result.score)).toBe(2);
+    });
+
+    it('should prefer the fastest mate', () => {
+      // Slower mates exist within the horizon, but Ra8# ends it now
+      const engine = new ChessEngine('6k1/5ppp/8/8/8/8/5PPP/R5K1 w - - 0 1');
+      const result = ChessAI.search(engine, { level: 'expert', depth: 3 });
+      expect(result.bestMove).toEqual(expect.objectContaining({ from: 'a1', to: 'a8' }));
+      expect(result.score).toBe(MATE_SCORE - 1);
+    });
+
+    it('should prefer the slowest loss', () => {
+      // Every move loses, but only interposing the bishop survives the next move
+      const engine = new ChessEngine('k7/8/1K6/2Q5/8/8/8/7b b - - 0 1');
+      const result = ChessAI.search(engine, { level: 'expert', depth: 2 });
+      expect(['Bc6', 'Bb7']).toContain(result.bestMove?.san);
+    });
+  });
+
+  describe('quiescence', () => {
+    it('should not grab a defended pawn at the horizon', () => {
+      const engine = new ChessEngine('4k3/8/4p3/3p4/8/8/8/3QK3 w - - 0 1');
+      const result = ChessAI.search(engine, { level: 'easy', depth: 1 });
+      expect(result.bestMove).not.toEqual(expect.objectContaining({ from: 'd1', to: 'd5' }));
+      expect(result.score).toBeGreaterThan(0);
+    });
+
+    it('should take a hanging piece', () => {
+      const engine = new ChessEngine('4k3/8/8/3r4/8/8/8/3QK3 w - - 0 1');
+      const result = ChessAI.search(engine, { level: 'easy', depth: 1 });
+      expect(result.bestMove).toEqual(expect.objectContaining({ from: 'd1', to: 'd5' }));
+    });
+
+    it('should see a losing exchange started at the last ply', () => {
+      // Rxd5 wins a pawn on the surface but the c6 pawn recaptures the rook
+      const engine = new ChessEngine('4k3/8/2p5/3p4/8/8/8/3RK3 w - - 0 1');
+      const result = ChessAI.search(engine, { level: 'easy', depth: 1 });
+      expect(result.bestMove?.san).not.toBe('Rxd5');
+    });
+  });
+
+  describe('opening book', () => {
+    afterEach(() => {
+      ChessAI.setOpeningBook(LineBook.parse(OPENING_LINES));
+    });
+
+    it('should play book moves without searching', () => {
+      const engine = new ChessEngine();
+      const result = ChessAI.search(engine, { level: 'hard' });
+      expect(result.fromBook).toBe(true);
+      expect(result.nodes).toBe(0);
+      expect(['e4', 'd4', 'c4', 'Nf3']).toContain(result.bestMove?.san);
+    });
+
+    it('should follow the book into the opening', () => {
+      // 1.e4 e5 2.Nf3 Nc6 3.Bb5 a6 - the Ruy Lopez continues with Ba4
+      const engine = new ChessEngine(
+        'r1bqkbnr/1ppp1ppp/p1n5/1B2p3/4P3/5N2/PPPP1PPP/RNBQK2R w KQkq - 0 4'
+      );
+      const move = ChessAI.bookMove(engine, 'godlike');
+      expect(move).toEqual(expect.objectContaining({ from: 'b5', to: 'a4' }));
+    });
+
+    it('should leave the book to the search once out of it', () => {
+      const engine = new ChessEngine('4k3/8/8/8/8/8/4P3/4K3 w - - 0 1');
+      expect(ChessAI.bookMove(engine, 'hard')).toBeNull();
+      expect(ChessAI.search(engine, { level: 'easy' }).fromBook).toBeUndefined();
+    });
+
+    it('should not use the book at the random level', () => {
+      expect(ChessAI.bookMove(new ChessEngine(), 'harmless')).toBeNull();
+    });
+
+    it('should use a replacement book and skip illegal entries', () => {
+      const book = new LineBook();
+      const start = new ChessEngine().getFEN();
+      book.add(start, { from: 'e2', to: 'e5' }, 100);
+      book.add(start, { from: 'g2', to: 'g3' }, 1);
+      ChessAI.setOpeningBook(book);
+      expect(ChessAI.bookMove(new ChessEngine(), 'godlike')).toEqual(
+        expect.objectContaining({ from: 'g2', to: 'g3' })
+      );
+      ChessAI.setOpeningBook(null);
+      expect(ChessAI.bookMove(new ChessEngine(), 'godlike')).toBeNull();
+    });
+
+    it('should go back to the bundled lines when the book is unset', () => {
+      ChessAI.setOpeningBook(null);
+      ChessAI.setOpeningBook(undefined);
+      expect(ChessAI.getOpeningBook()?.movesFor(new ChessEngine().getFEN()).length).toBeGreaterThan(
+        0
+      );
+    });
+  });
+
+  describe('tablebases', () => {
+    it('should play tablebase endgames without searching', () => {
+      const engine = new ChessEngine('k7/8/1K6/8/8/8/8/7R w - - 0 1');
+      const result = ChessAI.search(engine, { level: 'medium' });
+      expect(result.fromTablebase).toBe(true);
+      expect(result.nodes).toBe(0);
+      expect(result.bestMove).toMatchObject({ from: 'h1', to: 'h8' });
+      expect(ChessAI.mateIn(result.score)).toBe(1);
+    });
+
+    it('should search when tablebases are off', () => {
+      const engine = new ChessEngine('k7/8/1K6/8/8/8/8/7R w - - 0 1');
+      const result = ChessAI.search(engine, { level: 'medium', useTablebase: false });
+      expect(result.fromTablebase).toBeUndefined();
+      expect(result.depth).toBeGreaterThan(0);
+    });
+
+    it('should score a capture into a tablebase endgame as a mate', () => {
+      // Qxd5 leaves king and queen against king
+      const fen = '4k3/8/8/3p4/8/8/8/K2Q4 w - - 0 1';
+      const result = ChessAI.search(new ChessEngine(fen), { level: 'medium', depth: 1 });
+      expect(result.bestMove).toMatchObject({ from: 'd1', to: 'd5' });
+      expect(ChessAI.mateIn(result.score)).toBeGreaterThan(0);
+
+      const without = ChessAI.search(new ChessEngine(fen), {
+        level: 'medium',
+        depth: 1,
+        useTablebase: false,
+      });
+      expect(ChessAI.mateIn(without.score)).toBeNull();
+    });
+  });
+
+  describe('budgets', () => {
+    it('should give harder levels more time and nodes', () => {
+      const easy = ChessAI.budgetForLevel('easy');
+      const godlike = ChessAI.budgetForLevel('godlike');
+      expect(easy.maxDepth).toBe(1);
+      expect(godlike.maxDepth).toBe(5);
+      expect(godlike.timeMs).toBeGreaterThan(easy.timeMs);
+      expect(godlike.nodes).toBeGreaterThan(easy.nodes);
+    });
+
+    it('should keep the level budget without a clock', () => {
+      expect(ChessAI.allocateTime(3000)).toBe(3000);
+    });
+
+    it('should share out a short clock instead of flagging', () => {
+      // 3+0 with 20 seconds left: well under the level budget
+      const ms = ChessAI.allocateTime(6000, { remainingMs: 20_000, incrementMs: 0 });
+      expect(ms).toBeLessThan(1000);
+      expect(ms).toBeGreaterThan(0);
+    });
+
+    it('should spend most of the increment when the clock is low', () => {
+      const ms = ChessAI.allocateTime(6000, { remainingMs: 3_000, incrementMs: 2_000 });
+      expect(ms).toBe(300);
+      expect(ChessAI.allocateTime(6000, { remainingMs: 0, incrementMs: 0 })).toBeGreaterThan(0);
+    });
+  });
+
+  describe('iterative deepening', () => {
+    it('should report every completed iteration', () => {
+      const engine = new ChessEngine();
+      const depths: number[] = [];
+      const result = ChessAI.search(engine, { level: 'medium', useBook: false }, (p) =>
+        depths.push(p.depth)
+      );
+      expect(depths).toEqual([1, 2]);
+      expect(result.depth).toBe(2);
+    });
+
+    it('should stop at the node budget and keep the last completed iteration', () => {
+      const engine = new ChessEngine();
+      const result = ChessAI.search(engine, { level: 'godlike', nodeLimit: 500, useBook: false });
+      expect(result.depth).toBeGreaterThanOrEqual(1);
+      expect(result.depth).toBeLessThan(5);
+      expect(result.bestMove).not.toBeNull();
+      // Overshoot is bounded by the check interval
+      expect(result.nodes).toBeLessThan(500 + 128);
+    });
+
+    it('should prune most of the tree with the table and move ordering', () => {
+      // A plain alpha-beta search over captures-first ordering needs several thousand nodes
+      const engine = new ChessEngine();
+      const result = ChessAI.search(engine, { level: 'expert', depth: 3, useBook: false });
+      expect(result.depth).toBe(3);
+      expect(result.nodes).toBeLessThan(1500);
+    });
+
+    it('should stop at the time budget', () => {
+      const engine = new ChessEngine();
+      const result = ChessAI.search(engine, { level: 'godlike', timeLimitMs: 200, useBook: false });
+      expect(result.bestMove).not.toBeNull();
+      expect(result.depth).toBeLessThan(5);
+      expect(result.elapsedMs).toBeLessThan(2000);
+    });
+  });
+
+  describe('strength', () => {
+    const start = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+    const moveFor = (options: Parameters<typeof ChessAI.search>[1]) => {
+      const { bestMove } = ChessAI.search(new ChessEngine(start), { useBook: false, ...options });
+      return bestMove && bestMove.from + bestMove.to;
+    };
+
+    it('should vary its moves at a low rating', () => {
+      const moves = new Set(
+        [1, 2, 3, 4, 5, 6, 7, 8].map((seed) => moveFor({ level: 'easy', elo: 400, seed }))
+      );
+      expect(moves.size).toBeGreaterThan(1);
+    });
+
+    it('should repeat a move for the same seed', () => {
+      expect(moveFor({ level: 'easy', elo: 800, seed: 42 })).toBe(
+        moveFor({ level: 'easy', elo: 800, seed: 42 })
+      );
+    });
+
+    it('should still take a free queen at a low rating', () => {
+      const engine = new ChessEngine('4k3/8/8/3q4/8/8/8/3QK3 w - - 0 1');
+      const { bestMove } = ChessAI.search(engine, { level: 'easy', elo: 800, seed: 1 });
+      expect(bestMove).toMatchObject({ from: 'd1', to: 'd5' });
+    });
+  });
+
+  describe('analyze', () => {
+    it('should report the requested number of lines, best first', () => {
+      const engine = new ChessEngine('rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1');
+      const result = ChessAI.analyze(engine, { lines: 4, depth: 2 });
+      expect(result.depth).toBe(2);
+      expect(result.lines).toHaveLength(4);
+      const scores = result.lines.map((line) => line.score);
+      expect(scores).toEqual([...scores].sort((a, b) => b - a));
+      expect(new Set(result.lines.map((line) => line.pv[0].san)).size).toBe(4);
+    });
+
+    it('should score every line exactly', () => {
+      // Winning the queen is clearly best; the next lines are exact, not bounds
+      const fen = '4k3/8/8/3q4/8/8/8/3QK3 w - - 0 1';
+      const { lines } = ChessAI.analyze(new ChessEngine(fen), { lines: 2, depth: 2 });
+      expect(lines[0].pv[0]).toMatchObject({ from: 'd1', to: 'd5' });
+      const second = lines[1].pv[0];
+      const engine = new ChessEngine(fen);
+      engine.makeMove(second.from, second.to, second.promotion);
+      const reply = ChessAI.search(engine, {
+        level: 'godlike',
+        depth: 1,
+        useBook: false,
+        useTablebase: false,
+      });
+      expect(lines[1].score).toBe(-reply.score);
+    });
+
+    it('should follow principal variations with legal moves', () => {
+      // Mate in two with king and rook
+      const fen = 'k7/8/2K5/8/8/8/8/7R w - - 0 1';
+      const engine = new ChessEngine(fen);
+      const { lines } = ChessAI.analyze(engine, { lines: 1, depth: 3 });
+      expect(engine.getFEN()).toBe(fen);
+      expect(ChessAI.mateIn(lines[0].score)).toBe(2);
+      expect(lines[0].pv).toHaveLength(3);
+      for (const move of lines[0].pv) {
+        expect(engine.makeMove(move.from, move.to, move.promotion)).toBeTruthy();
+      }
+      expect(engine.getResult()).toBe('1-0');
+    });
+
+    it('should stream every completed depth', () => {
+      const depths: number[] = [];
+      ChessAI.analyze(new ChessEngine('4k3/8/8/8/8/8/4P3/4K3 w - - 0 1'), { depth: 3 }, (p) =>
+        depths.push(p.depth)
+      );
+      expect(depths).toEqual([1, 2, 3]);
+    });
+
+    it('should return no lines when there are no moves', () => {
+      const mated = new ChessEngine('k7/1Q6/1K6/8/8/8/8/8 b - - 0 1');
+      expect(ChessAI.analyze(mated, { depth: 2 }).lines).toEqual([]);
+    });
+  });
 });
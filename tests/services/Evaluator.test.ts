@@ -0,0 +1,195 @@
+import {
+  DEFAULT_WEIGHTS,
+  EVAL_PROFILES,
+  Evaluator,
+  type EvalWeights,
+} from '../../src/services/Evaluator';
+import { boardOf } from '../setup/test-utils';
+
+const START_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+
+/** Weights with every term switched off except the ones given */
+const only = (terms: Partial<EvalWeights>): EvalWeights => ({
+  material: 0,
+  pieceSquare: 0,
+  doubledPawn: 0,
+  isolatedPawn: 0,
+  passedPawn: 0,
+  kingShield: 0,
+  kingOpenFile: 0,
+  kingAttack: 0,
+  mobility: 0,
+  bishopPair: 0,
+  simplification: 0,
+  ...terms,
+});
+
+describe('Evaluator', () => {
+  describe('evaluate', () => {
+    it('should score the starting position as equal', () => {
+      expect(Evaluator.evaluate(boardOf(START_FEN))).toBe(0);
+    });
+
+    it('should score from white’s point of view', () => {
+      const whiteUp = boardOf('rnb1kbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1');
+      const blackUp = boardOf('rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNB1KBNR w KQkq - 0 1');
+      expect(Evaluator.evaluate(whiteUp)).toBeGreaterThan(800);
+      expect(Evaluator.evaluate(blackUp)).toBeLessThan(-800);
+    });
+
+    it('should sum the weighted terms', () => {
+      const board = boardOf('r1bqkbnr/pppp1ppp/2n5/4p3/4P3/5N2/PPPP1PPP/RNBQKB1R w KQkq - 2 3');
+      const { total, ...terms } = Evaluator.breakdown(board);
+      const sum = Object.values(terms).reduce((a, b) => a + b, 0);
+      expect(total).toBe(Math.round(sum));
+    });
+
+    it('should let weaker profiles ignore positional terms', () => {
+      // Equal material, but white is developed and black is not
+      const board = boardOf('rnbqkbnr/pppppppp/8/8/3PP3/2N2N2/PPP2PPP/R1BQKB1R w KQkq - 0 1');
+      expect(Evaluator.evaluate(board, EVAL_PROFILES.easy)).toBe(0);
+      expect(Evaluator.evaluate(board, EVAL_PROFILES.expert)).toBeGreaterThan(0);
+    });
+  });
+
+  describe('phase', () => {
+    it('should be 24 with all pieces and 0 with kings and pawns', () => {
+      expect(Evaluator.phase(boardOf(START_FEN))).toBe(24);
+      expect(Evaluator.phase(boardOf('4k3/4p3/8/8/8/8/4P3/4K3 w - - 0 1'))).toBe(0);
+    });
+
+    it('should count minor, rook and queen weights', () => {
+      expect(Evaluator.phase(boardOf('4k3/8/8/8/8/8/8/RNBQK3 w - - 0 1'))).toBe(8);
+    });
+  });
+
+  describe('material', () => {
+    it('should ignore kings and balance equal material', () => {
+      expect(Evaluator.material(boardOf(START_FEN))).toBe(0);
+      expect(Evaluator.material(boardOf('4k3/8/8/8/8/8/8/4K3 w - - 0 1'))).toBe(0);
+    });
+
+    it('should count the missing piece', () => {
+      const board = boardOf('rnbqkb1r/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1');
+      expect(Evaluator.material(board)).toBe(320);
+    });
+  });
+
+  describe('pieceSquare', () => {
+    it('should prefer a centralised knight to a cornered one', () => {
+      const central = boardOf('k7/8/8/8/4N3/8/8/K7 w - - 0 1');
+      const corner = boardOf('k7/8/8/8/8/8/8/K6N w - - 0 1');
+      expect(Evaluator.pieceSquare(central, 24)).toBeGreaterThan(Evaluator.pieceSquare(corner, 24));
+    });
+
+    it('should mirror the tables for black', () => {
+      expect(Evaluator.pieceSquare(boardOf(START_FEN), 24)).toBe(0);
+    });
+
+    it('should taper the king from sheltered to central', () => {
+      // White king on e4, black king at home
+      const board = boardOf('4k3/8/8/8/4K3/8/8/8 w - - 0 1');
+      expect(Evaluator.pieceSquare(board, 24)).toBeLessThan(0);
+      expect(Evaluator.pieceSquare(board, 0)).toBeGreaterThan(0);
+    });
+  });
+
+  describe('pawnStructure', () => {
+    it('should penalise doubled pawns', () => {
+      const board = boardOf('4k3/8/8/8/8/4P3/4P3/4K3 w - - 0 1');
+      expect(Evaluator.pawnStructure(board, 0, only({ doubledPawn: 10 }))).toBe(-10);
+    });
+
+    it('should penalise isolated pawns', () => {
+      // White a- and c-pawns are isolated; black's b- and c-pawns support each other
+      const board = boardOf('4k3/1pp5/8/8/8/8/P1P5/4K3 w - - 0 1');
+      expect(Evaluator.pawnStructure(board, 0, only({ isolatedPawn: 12 }))).toBe(-24);
+    });
+
+    it('should reward passed pawns more in the endgame', () => {
+      // The e5 pawn is passed; the a-pawns block each other
+      const board = boardOf('4k3/p7/8/4P3/8/8/P7/4K3 w - - 0 1');
+      const weights = only({ passedPawn: 1 });
+      expect(Evaluator.pawnStructure(board, 0, weights)).toBe(35);
+      expect(Evaluator.pawnStructure(board, 24, weights)).toBe(17.5);
+    });
+
+    it('should not treat a pawn facing an enemy pawn on a neighbouring file as passed', () => {
+      const board = boardOf('4k3/3p4/8/4P3/8/8/8/4K3 w - - 0 1');
+      expect(Evaluator.pawnStructure(board, 0, only({ passedPawn: 1 }))).toBe(0);
+    });
+  });
+
+  describe('kingSafety', () => {
+    // White is castled behind f2-g2-h2; black's king has no pawns at all
+    const board = boardOf('4k3/8/8/8/8/8/5PPP/6K1 w - - 0 1');
+    const weights = only({ kingShield: 10, kingOpenFile: 20 });
+
+    it('should reward a pawn shield and penalise open files', () => {
+      expect(Evaluator.kingSafety(board, 24, weights)).toBe(30 + 60);
+    });
+
+    it('should fade out in the endgame', () => {
+      expect(Evaluator.kingSafety(board, 12, weights)).toBe(45);
+      expect(Evaluator.kingSafety(board, 0, weights)).toBe(0);
+    });
+  });
+
+  describe('kingAttack', () => {
+    // The rook hits f8 and g8, the knight g7; the d2 rook is nowhere near the black king
+    const board = boardOf('R5k1/8/8/5N2/8/8/3R4/4K3 w - - 0 1');
+
+    it('should count hits around the enemy king only', () => {
+      expect(Evaluator.kingAttack(board, 24)).toBe(3);
+      expect(Evaluator.kingAttack(boardOf(START_FEN), 24)).toBe(0);
+    });
+
+    it('should fade out in the endgame and stay off by default', () => {
+      expect(Evaluator.kingAttack(board, 12)).toBe(1.5);
+      expect(Evaluator.breakdown(board).kingAttack).toBe(0);
+      expect(Evaluator.breakdown(board, only({ kingAttack: 8 })).total).toBe(
+        Math.round((8 * 3 * Evaluator.phase(board)) / 24)
+      );
+    });
+  });
+
+  describe('mobility', () => {
+    it('should be balanced in the starting position', () => {
+      expect(Evaluator.mobility(boardOf(START_FEN))).toBe(0);
+    });
+
+    it('should count knight jumps', () => {
+      expect(Evaluator.mobility(boardOf('k7/8/8/8/4N3/8/8/K7 w - - 0 1'))).toBe(8);
+    });
+
+    it('should stop sliders at own pieces and include captures', () => {
+      // a2-a7, the king on a8 and b1-d1 before the white king on e1
+      expect(Evaluator.mobility(boardOf('k7/8/8/8/8/8/8/R3K3 w - - 0 1'))).toBe(10);
+    });
+  });
+
+  describe('bishopPair', () => {
+    it('should reward only the side with both bishops', () => {
+      const board = boardOf('rn1qkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1');
+      expect(Evaluator.bishopPair(board)).toBe(1);
+      expect(Evaluator.bishopPair(boardOf(START_FEN))).toBe(0);
+      expect(Evaluator.breakdown(board, DEFAULT_WEIGHTS).bishopPair).toBe(
+        DEFAULT_WEIGHTS.bishopPair
+      );
+    });
+  });
+
+  describe('simplification', () => {
+    it('should count traded material for the side ahead', () => {
+      // White is a rook up with only rooks left: 20 of 24 phase units are gone
+      const board = boardOf('4k3/8/8/8/8/8/8/R3K2R w - - 0 1');
+      expect(Evaluator.simplification(board)).toBe(20);
+      expect(Evaluator.simplification(boardOf('r3k2r/8/8/8/8/8/8/R3K3 w - - 0 1'))).toBe(-18);
+      expect(Evaluator.breakdown(board, only({ simplification: 4 })).total).toBe(80);
+    });
+
+    it('should be zero with material level', () => {
+      expect(Evaluator.simplification(boardOf('4k3/4p3/8/8/8/8/4P3/4K3 w - - 0 1'))).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { GameReview, type PositionVerdict } from '../../src/services/GameReview';
+import { GameTree } from '../../src/services/GameTree';
+import { STANDARD_START_FEN } from '../../src/utils/pgn';
+import { playMoves } from '../setup/test-utils';
+
+const verdict = (cp: number, from?: string, to?: string): PositionVerdict => ({
+  score: { cp, mate: null },
+  bestMove: from && to ? { from, to } : null,
+});
+
+describe('GameReview', () => {
+  describe('classify', () => {
+    it('should grade moves by the expected score they lose', () => {
+      expect(GameReview.classify(0)).toBe('good');
+      expect(GameReview.classify(0.04)).toBe('good');
+      expect(GameReview.classify(0.05)).toBe('inaccuracy');
+      expect(GameReview.classify(0.12)).toBe('mistake');
+      expect(GameReview.classify(0.4)).toBe('blunder');
+    });
+  });
+
+  describe('moveAccuracy', () => {
+    it('should be 100 for a lossless move and fall with the loss', () => {
+      expect(GameReview.moveAccuracy(0)).toBeCloseTo(100, 2);
+      expect(GameReview.moveAccuracy(0.1)).toBeLessThan(GameReview.moveAccuracy(0.05));
+      expect(GameReview.moveAccuracy(1)).toBe(0);
+    });
+  });
+
+  describe('review', () => {
+    // 1. e4 f6?? where 1... e5 keeps the balance
+    const line = GameTree.fromMoves(
+      playMoves([
+        ['e2', 'e4'],
+        ['f7', 'f6'],
+      ])
+    ).getMainline();
+    const verdicts = [verdict(30, 'e2', 'e4'), verdict(30, 'e7', 'e5'), verdict(250, 'd2', 'd4')];
+
+    it('should mark the engine move as best and a costly one as a blunder', () => {
+      const { moves } = GameReview.review(STANDARD_START_FEN, line, verdicts);
+      expect(moves.map((m) => m.classification)).toEqual(['best', 'blunder']);
+      expect(moves[0].bestSan).toBeUndefined();
+      expect(moves[1]).toMatchObject({ ply: 2, color: 'black', san: 'f6', bestSan: 'e5' });
+      expect(moves[1].loss).toBeGreaterThan(0.15);
+    });
+
+    it('should average move accuracy per side', () => {
+      const { accuracy } = GameReview.review(STANDARD_START_FEN, line, verdicts);
+      expect(accuracy.white).toBeCloseTo(100, 2);
+      expect(accuracy.black).toBeLessThan(50);
+    });
+
+    it('should describe flagged moves with the score swing and the better move', () => {
+      const { moves } = GameReview.review(STANDARD_START_FEN, line, verdicts);
+      expect(GameReview.isFlagged(moves[0])).toBe(false);
+      expect(GameReview.isFlagged(moves[1])).toBe(true);
+      expect(GameReview.glyph(moves[1].classification)).toBe('??');
+      expect(GameReview.nag(moves[1].classification)).toBe(4);
+      expect(GameReview.comment(moves[1])).toBe('(+0.30 → +2.50) Blunder. e5 was best.');
+    });
+
+    it('should name the tactic a flagged move allows', () => {
+      // 1... Ra8?? walks into Nc7+
+      const fen = '4k3/8/r7/1N6/8/8/8/4K3 b - - 0 1';
+      const line = GameTree.fromMoves(playMoves([['a6', 'a8']], fen), fen).getMainline();
+      const { moves } = GameReview.review(fen, line, [
+        verdict(0, 'a6', 'a5'),
+        verdict(500, 'b5', 'c7'),
+      ]);
+      expect(moves[0].motif).toBe('Knight fork on c7: king and rook');
+      expect(GameReview.comment(moves[0])).toBe(
+        '(0.00 → +5.00) Blunder. Ra5 was best. Allows knight fork on c7: king and rook.'
+      );
+    });
+  });
+
+  describe('analyze', () => {
+    it('should analyse every position and report progress', async () => {
+      // Kc6 and Rh1 against Ka8: Rh2 still wins, it just takes longer than the mate in two
+      const fen = 'k7/8/2K5/8/8/8/8/7R w - - 0 1';
+      const line = GameTree.fromMoves(playMoves([['h1', 'h2']], fen), fen).getMainline();
+      const progress: number[] = [];
+      const review = await GameReview.analyze(fen, line, {
+        onProgress: (done, total) => progress.push(done / total),
+      });
+      expect(progress).toEqual([0.5, 1]);
+      expect(review.moves).toHaveLength(1);
+      expect(review.moves[0].scoreBefore.mate).toBe(2);
+      expect(review.moves[0].classification).toBe('good');
+      expect(review.moves[0].bestSan).toBeDefined();
+    });
+  });
+});
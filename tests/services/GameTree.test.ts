@@ -0,0 +1,197 @@
+import { GameTree, ROOT_NODE_ID, samePosition } from '../../src/services/GameTree';
+import { playMoves } from '../setup/test-utils';
+
+describe('GameTree', () => {
+  let tree: GameTree;
+  // 1. e4 e5 2. Nf3
+  let e4: string;
+  let e5: string;
+  let nf3: string;
+
+  beforeEach(() => {
+    tree = GameTree.fromMoves(
+      playMoves([
+        ['e2', 'e4'],
+        ['e7', 'e5'],
+        ['g1', 'f3'],
+      ])
+    );
+    [e4, e5, nf3] = tree.getMainline().map((n) => n.id);
+  });
+
+  describe('addMove', () => {
+    it('should record SAN, move number and FEN for each node', () => {
+      const node = tree.getNode(nf3);
+      expect(node.san).toBe('Nf3');
+      expect(node.moveNumber).toBe(2);
+      expect(node.color).toBe('white');
+      expect(node.ply).toBe(3);
+      expect(node.fen).toBe('rnbqkbnr/pppp1ppp/8/4p3/4P3/5N2/PPPP1PPP/RNBQKB1R b KQkq - 1 2');
+    });
+
+    it('should start a sideline when playing from a past position', () => {
+      const [c5] = playMoves([['c7', 'c5']], tree.getNode(e4).fen);
+      const sideline = tree.addMove(e4, c5);
+      expect(tree.getNode(e4).children).toEqual([e5, sideline.id]);
+      expect(tree.getMainline().map((n) => n.san)).toEqual(['e4', 'e5', 'Nf3']);
+      expect(tree.getLine(sideline.id).map((n) => n.san)).toEqual(['e4', 'c5']);
+    });
+
+    it('should reuse an existing child for the same move', () => {
+      const [again] = playMoves([['e7', 'e5']], tree.getNode(e4).fen);
+      expect(tree.addMove(e4, again).id).toBe(e5);
+      expect(tree.getNode(e4).children).toHaveLength(1);
+    });
+
+    it('should reject an illegal move', () => {
+      const [e4Again] = playMoves([['e2', 'e4']]);
+      expect(() => tree.addMove(e4, e4Again)).toThrow(/Illegal move/);
+    });
+
+    it('should number moves from a custom start', () => {
+      const fen = '4k3/8/8/8/8/8/4P3/4K3 b - - 0 30';
+      const custom = GameTree.fromMoves(playMoves([['e8', 'd7']], fen), fen);
+      const [kd7] = custom.getMainline();
+      expect(custom.startFen).toBe(fen);
+      expect(kd7.moveNumber).toBe(30);
+      expect(kd7.color).toBe('black');
+    });
+  });
+
+  describe('navigation', () => {
+    let c5: string;
+
+    beforeEach(() => {
+      c5 = tree.addMove(e4, playMoves([['c7', 'c5']], tree.getNode(e4).fen)[0]).id;
+    });
+
+    it('should walk parent and child nodes', () => {
+      expect(tree.parent(e5)!.id).toBe(e4);
+      expect(tree.parent(e4)!.id).toBe(ROOT_NODE_ID);
+      expect(tree.parent(ROOT_NODE_ID)).toBeNull();
+      expect(tree.child(e4)!.id).toBe(e5);
+      expect(tree.child(e4, 1)!.id).toBe(c5);
+      expect(tree.child(nf3)).toBeNull();
+    });
+
+    it('should cycle through siblings', () => {
+      expect(tree.siblings(c5).map((n) => n.id)).toEqual([e5, c5]);
+      expect(tree.sibling(e5, 1)!.id).toBe(c5);
+      expect(tree.sibling(e5, -1)!.id).toBe(c5);
+      expect(tree.sibling(nf3, 1)).toBeNull();
+    });
+
+    it('should tell mainline nodes from sidelines', () => {
+      expect(tree.isMainline(nf3)).toBe(true);
+      expect(tree.isMainline(c5)).toBe(false);
+      expect(tree.isAncestor(e4, c5)).toBe(true);
+      expect(tree.isAncestor(e5, c5)).toBe(false);
+    });
+  });
+
+  describe('editing', () => {
+    let c5: string;
+    let nc3: string;
+
+    beforeEach(() => {
+      const moves = playMoves(
+        [
+          ['c7', 'c5'],
+          ['b1', 'c3'],
+        ],
+        tree.getNode(e4).fen
+      );
+      c5 = tree.addMove(e4, moves[0]).id;
+      nc3 = tree.addMove(c5, moves[1]).id;
+    });
+
+    it('should promote a sideline to the mainline', () => {
+      tree.promoteToMainline(nc3);
+      expect(tree.getMainline().map((n) => n.san)).toEqual(['e4', 'c5', 'Nc3']);
+      expect(tree.isMainline(nf3)).toBe(false);
+    });
+
+    it('should move a variation up one place', () => {
+      const d5 = tree.addMove(e4, playMoves([['d7', 'd5']], tree.getNode(e4).fen)[0]).id;
+      tree.promoteVariation(d5);
+      expect(tree.getNode(e4).children).toEqual([e5, d5, c5]);
+      tree.promoteVariation(nc3);
+      expect(tree.getNode(e4).children).toEqual([e5, c5, d5]);
+    });
+
+    it('should delete a branch and everything after it', () => {
+      const parent = tree.deleteBranch(c5);
+      expect(parent.id).toBe(e4);
+      expect(tree.getNode(e4).children).toEqual([e5]);
+      expect(tree.hasNode(nc3)).toBe(false);
+      expect(() => tree.deleteBranch(ROOT_NODE_ID)).toThrow();
+    });
+
+    it('should store comments and NAGs', () => {
+      tree.setComment(c5, 'Sicilian');
+      tree.setNags(c5, [1]);
+      expect(tree.getNode(c5).comment).toBe('Sicilian');
+      expect(tree.getNode(c5).nags).toEqual([1]);
+      tree.setComment(c5, '');
+      tree.setNags(c5, []);
+      expect(tree.getNode(c5).comment).toBeUndefined();
+      expect(tree.getNode(c5).nags).toBeUndefined();
+    });
+  });
+
+  describe('fromHistory', () => {
+    const BLACK_START = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR b KQkq - 0 1';
+    const STANDARD_START = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+
+    it('should replay the history from the first matching start', () => {
+      const moves = playMoves(
+        [
+          ['e7', 'e5'],
+          ['e2', 'e4'],
+        ],
+        BLACK_START
+      );
+      const fen = 'rnbqkbnr/pppp1ppp/8/4p3/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 2';
+      const rebuilt = GameTree.fromHistory(moves, fen, [STANDARD_START, BLACK_START]);
+      expect(rebuilt.startFen).toBe(BLACK_START);
+      expect(rebuilt.getMainline().map((n) => n.san)).toEqual(['e5', 'e4']);
+    });
+
+    it('should accept single-letter promotion pieces', () => {
+      const fen = '4k3/P7/8/8/8/8/8/4K3 w - - 0 1';
+      const rebuilt = GameTree.fromHistory(
+        [{ from: 'a7', to: 'a8', promotion: 'q' }],
+        'Q3k3/8/8/8/8/8/8/4K3 b - - 0 1',
+        [fen]
+      );
+      expect(rebuilt.getMainline()[0].san).toBe('a8=Q+');
+    });
+
+    it('should fall back to the current position when no start fits', () => {
+      const fen = '4k3/8/8/8/8/8/8/4K3 w - - 0 50';
+      const rebuilt = GameTree.fromHistory([{ from: 'e2', to: 'e4' }], fen, [STANDARD_START]);
+      expect(rebuilt.startFen).toBe(fen);
+      expect(rebuilt.getMainline()).toHaveLength(0);
+    });
+  });
+
+  describe('samePosition', () => {
+    it('should ignore the move clocks', () => {
+      expect(samePosition('4k3/8/8/8/8/8/8/4K3 w - - 0 1', '4k3/8/8/8/8/8/8/4K3 w - - 12 40')).toBe(
+        true
+      );
+      expect(samePosition('4k3/8/8/8/8/8/8/4K3 w - - 0 1', '4k3/8/8/8/8/8/8/4K3 b - - 0 1')).toBe(
+        false
+      );
+    });
+
+    it('should ignore the en passant square', () => {
+      expect(
+        samePosition(
+          'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq e3 0 1',
+          'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1'
+        )
+      ).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { Hints, type Hint } from '../../src/services/Hints';
+import { MATE_SCORE } from '../../src/services/ChessAI';
+
+const START = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+
+describe('Hints', () => {
+  describe('explain', () => {
+    it('should lead with a mate', () => {
+      const reasons = Hints.explain('6k1/5ppp/8/8/8/8/8/R5K1 w - - 0 1', {
+        move: { from: 'a1', to: 'a8' },
+        score: MATE_SCORE - 1,
+      });
+      expect(reasons[0]).toBe('Checkmate');
+    });
+
+    it('should name a piece won outright', () => {
+      const reasons = Hints.explain('4k3/8/8/3n4/8/1B6/8/4K3 w - - 0 1', {
+        move: { from: 'b3', to: 'd5' },
+        score: 300,
+      });
+      expect(reasons[0]).toBe('Wins a knight');
+    });
+
+    it('should count material along the expected reply and name the tactic', () => {
+      const reasons = Hints.explain('r3k3/8/8/1N6/8/8/8/4K3 w - - 0 1', {
+        move: { from: 'b5', to: 'c7' },
+        score: 500,
+        reply: [
+          { from: 'e8', to: 'd7' },
+          { from: 'c7', to: 'a8' },
+        ],
+      });
+      expect(reasons).toEqual(['Wins a rook', 'Knight fork on c7: king and rook']);
+    });
+
+    it('should point out a mate threat', () => {
+      const reasons = Hints.explain('k7/8/1K6/8/8/8/6R1/8 w - - 0 1', {
+        move: { from: 'g2', to: 'h2' },
+        score: 0,
+      });
+      expect(reasons).toContain('Threatens Rh8#');
+    });
+
+    it('should credit saving a hanging piece', () => {
+      const reasons = Hints.explain('4k3/8/8/3N4/8/8/7K/3r4 w - - 0 1', {
+        move: { from: 'd5', to: 'b4' },
+        score: 0,
+      });
+      expect(reasons).toEqual(['Saves the knight on d5']);
+    });
+
+    it('should credit stopping a mate threat', () => {
+      const reasons = Hints.explain('3r2k1/8/8/8/8/8/5PPP/6K1 w - - 0 1', {
+        move: { from: 'h2', to: 'h3' },
+        score: -500,
+      });
+      expect(reasons).toContain('Stops Rd1#');
+    });
+
+    it('should fall back to the evaluation', () => {
+      const reasons = Hints.explain(START, { move: { from: 'e2', to: 'e4' }, score: 30 });
+      expect(reasons).toEqual(["Best by the engine's reckoning (+0.30)"]);
+    });
+  });
+
+  describe('tiers', () => {
+    const hint = Hints.create(START, { move: { from: 'g1', to: 'f3' }, score: 20 }) as Hint;
+
+    it('should reveal the piece, then the square, then the explained move', () => {
+      expect(Hints.text(hint, 'piece')).toBe('Look at your knight on g1');
+      expect(Hints.text(hint, 'square')).toBe('Knight to f3');
+      expect(Hints.text(hint, 'move')).toBe("Nf3: Best by the engine's reckoning (+0.20).");
+    });
+
+    it('should step through the tiers and stop after the move', () => {
+      expect(Hints.nextTier(null)).toBe('piece');
+      expect(Hints.nextTier('piece')).toBe('square');
+      expect(Hints.nextTier('square')).toBe('move');
+      expect(Hints.nextTier('move')).toBeNull();
+    });
+
+    it('should not build a hint from an illegal move', () => {
+      expect(Hints.create(START, { move: { from: 'e2', to: 'e5' }, score: 0 })).toBeNull();
+    });
+  });
+
+  describe('record', () => {
+    it('should keep one record per position at its furthest tier', () => {
+      let records = Hints.record([], START, 0, 'piece');
+      records = Hints.record(records, START, 0, 'move');
+      records = Hints.record(records, START, 0, 'square');
+      records = Hints.record(records, '8/8/8/8/8/8/8/K1k5 w - - 0 1', 4, 'piece');
+      expect(records.map((r) => r.tier)).toEqual(['move', 'piece']);
+    });
+  });
+
+  describe('explainMove', () => {
+    it('should score a mate from the position it leaves', async () => {
+      const hint = await Hints.explainMove('6k1/5ppp/8/8/8/8/8/R5K1 w - - 0 1', {
+        move: { from: 'a1', to: 'a8' },
+      });
+      expect(hint).toMatchObject({ san: 'Ra8#', piece: 'rook', score: MATE_SCORE - 1 });
+      expect(hint?.reasons[0]).toBe('Checkmate');
+    });
+
+    it('should read material won from the analysed reply', async () => {
+      const hint = await Hints.explainMove('r3k3/8/8/1N6/8/8/8/4K3 w - - 0 1', {
+        move: { from: 'b5', to: 'c7' },
+      });
+      expect(hint?.reasons).toEqual(['Wins a rook', 'Knight fork on c7: king and rook']);
+    });
+  });
+});
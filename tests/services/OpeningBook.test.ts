@@ -0,0 +1,203 @@
+import {
+  BookFormatError,
+  LineBook,
+  PolyglotBook,
+  bookKey,
+  bookMoveKey,
+  pickBookMove,
+  type BookMove,
+} from '../../src/services/OpeningBook';
+import { OPENING_LINES } from '../../src/services/openingLines';
+
+const START_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+
+/** Stand-in for the Polyglot Random64 table: any distinct 64-bit values will do */
+const RANDOM = Array.from(
+  { length: PolyglotBook.RANDOM_COUNT },
+  (_, i) => (BigInt(i + 1) * 0x9e3779b97f4a7c15n) & 0xffffffffffffffffn
+);
+
+/** Encode Polyglot entries: 16 bytes each, big-endian */
+function polyglotBinary(entries: { fen: string; move: number; weight: number }[]): Uint8Array {
+  const bytes = new Uint8Array(entries.length * 16);
+  const view = new DataView(bytes.buffer);
+  entries.forEach(({ fen, move, weight }, i) => {
+    view.setBigUint64(i * 16, PolyglotBook.key(fen, RANDOM));
+    view.setUint16(i * 16 + 8, move);
+    view.setUint16(i * 16 + 10, weight);
+  });
+  return bytes;
+}
+
+/** Polyglot move bits: to file/row, from file/row, promotion piece */
+function polyglotMove(from: string, to: string, promotion = 0): number {
+  const file = (sq: string) => sq.charCodeAt(0) - 97;
+  const row = (sq: string) => Number(sq[1]) - 1;
+  return (promotion << 12) | (row(from) << 9) | (file(from) << 6) | (row(to) << 3) | file(to);
+}
+
+describe('OpeningBook', () => {
+  describe('bookKey', () => {
+    it('should ignore move counters and the en passant square', () => {
+      expect(bookKey('4k3/8/8/8/3pP3/8/8/4K3 b - e3 0 1')).toBe(
+        bookKey('4k3/8/8/8/3pP3/8/8/4K3 b - - 7 30')
+      );
+      expect(bookMoveKey(START_FEN, { from: 'e2', to: 'e4' })).toBe(
+        'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq e2e4'
+      );
+    });
+  });
+
+  describe('pickBookMove', () => {
+    const moves: BookMove[] = [
+      { from: 'e2', to: 'e4', weight: 30 },
+      { from: 'd2', to: 'd4', weight: 10 },
+    ];
+
+    it('should return null without moves', () => {
+      expect(pickBookMove([], 0.5)).toBeNull();
+    });
+
+    it('should always pick the heaviest move with no variety', () => {
+      expect(pickBookMove(moves, 0, () => 0.99)?.to).toBe('e4');
+    });
+
+    it('should pick in proportion to weight at half variety', () => {
+      expect(pickBookMove(moves, 0.5, () => 0.7)?.to).toBe('e4');
+      expect(pickBookMove(moves, 0.5, () => 0.8)?.to).toBe('d4');
+    });
+
+    it('should pick uniformly at full variety', () => {
+      expect(pickBookMove(moves, 1, () => 0.45)?.to).toBe('e4');
+      expect(pickBookMove(moves, 1, () => 0.55)?.to).toBe('d4');
+    });
+  });
+
+  describe('LineBook', () => {
+    it('should add up weights along shared prefixes', () => {
+      const book = LineBook.parse(`
+        # two lines sharing 1.e4
+        3 e4 e5 Nf3
+        2 e4 c5
+      `);
+      expect(book.movesFor(START_FEN)).toEqual([
+        expect.objectContaining({ from: 'e2', to: 'e4', san: 'e4', weight: 5 }),
+      ]);
+      const afterE4 = 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq e3 0 1';
+      expect(book.movesFor(afterE4).map((m) => [m.san, m.weight])).toEqual([
+        ['e5', 3],
+        ['c5', 2],
+      ]);
+      expect(book.size).toBe(3);
+    });
+
+    it('should report the line of a bad weight', () => {
+      expect(() => LineBook.parse('1 e4\nlots e4')).toThrow(BookFormatError);
+      expect(() => LineBook.parse('1 e4\nlots e4')).toThrow(/^Line 2: /);
+    });
+
+    it('should report the line of an illegal move', () => {
+      let error: unknown;
+      try {
+        LineBook.parse('5 e4 e5\n5 e4 e4');
+      } catch (err) {
+        error = err;
+      }
+      expect(error).toBeInstanceOf(BookFormatError);
+      expect((error as BookFormatError).line).toBe(2);
+    });
+
+    it('should parse the bundled lines', () => {
+      const book = LineBook.parse(OPENING_LINES);
+      const first = book.movesFor(START_FEN).map((m) => m.san);
+      expect(first).toEqual(expect.arrayContaining(['e4', 'd4', 'c4', 'Nf3']));
+      expect(book.size).toBeGreaterThan(100);
+    });
+  });
+
+  describe('PolyglotBook', () => {
+    it('should look up weighted moves for a position', () => {
+      const book = PolyglotBook.fromBinary(
+        polyglotBinary([
+          { fen: START_FEN, move: polyglotMove('e2', 'e4'), weight: 10 },
+          { fen: START_FEN, move: polyglotMove('d2', 'd4'), weight: 5 },
+        ]),
+        RANDOM
+      );
+      expect(book.movesFor(START_FEN)).toEqual([
+        { from: 'e2', to: 'e4', weight: 10 },
+        { from: 'd2', to: 'd4', weight: 5 },
+      ]);
+      expect(book.movesFor('4k3/8/8/8/8/8/8/4K3 w - - 0 1')).toEqual([]);
+    });
+
+    it('should accept an ArrayBuffer', () => {
+      const bytes = polyglotBinary([{ fen: START_FEN, move: polyglotMove('c2', 'c4'), weight: 1 }]);
+      const book = PolyglotBook.fromBinary(bytes.buffer as ArrayBuffer, RANDOM);
+      expect(book.movesFor(START_FEN)).toHaveLength(1);
+    });
+
+    it('should translate king-takes-rook castling', () => {
+      const fen = 'r3k2r/8/8/8/8/8/8/R3K2R w KQkq - 0 1';
+      const book = PolyglotBook.fromBinary(
+        polyglotBinary([
+          { fen, move: polyglotMove('e1', 'h1'), weight: 1 },
+          { fen, move: polyglotMove('e1', 'a1'), weight: 1 },
+        ]),
+        RANDOM
+      );
+      expect(book.movesFor(fen).map((m) => m.to)).toEqual(['g1', 'c1']);
+    });
+
+    it('should decode promotions', () => {
+      const fen = '8/4P1k1/8/8/8/8/8/4K3 w - - 0 1';
+      const book = PolyglotBook.fromBinary(
+        polyglotBinary([{ fen, move: polyglotMove('e7', 'e8', 4), weight: 1 }]),
+        RANDOM
+      );
+      expect(book.movesFor(fen)).toEqual([{ from: 'e7', to: 'e8', promotion: 'queen', weight: 1 }]);
+    });
+
+    it('should hash positions with the standard Random64 keys', () => {
+      // Reference keys from the Polyglot book format description
+      expect(PolyglotBook.key(START_FEN)).toBe(0x463b96181691fc9cn);
+      expect(PolyglotBook.key('rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq e3 0 1')).toBe(
+        0x823c9b50fd114196n
+      );
+      expect(
+        PolyglotBook.key('rnbqkbnr/ppp1pppp/8/3p4/4P3/8/PPPP1PPP/RNBQKBNR w KQkq d6 0 2')
+      ).toBe(0x0756b94461c50fb0n);
+      expect(
+        PolyglotBook.key('rnbqkbnr/ppp1p1pp/8/3pPp2/8/8/PPPP1PPP/RNBQKBNR w KQkq f6 0 3')
+      ).toBe(0x22a48b5a8e47ff78n);
+    });
+
+    it('should read a book keyed with the standard table by default', () => {
+      const bytes = new Uint8Array(16);
+      const view = new DataView(bytes.buffer);
+      view.setBigUint64(0, 0x463b96181691fc9cn);
+      view.setUint16(8, polyglotMove('g1', 'f3'));
+      view.setUint16(10, 3);
+      expect(PolyglotBook.fromBinary(bytes).movesFor(START_FEN)).toEqual([
+        { from: 'g1', to: 'f3', weight: 3 },
+      ]);
+    });
+
+    it('should only hash an en passant file that can be taken', () => {
+      // No black pawn next to e4: the e3 square is irrelevant
+      expect(PolyglotBook.key('4k3/8/8/8/4P3/8/8/4K3 b - e3 0 1', RANDOM)).toBe(
+        PolyglotBook.key('4k3/8/8/8/4P3/8/8/4K3 b - - 0 1', RANDOM)
+      );
+      expect(PolyglotBook.key('4k3/8/8/8/3pP3/8/8/4K3 b - e3 0 1', RANDOM)).not.toBe(
+        PolyglotBook.key('4k3/8/8/8/3pP3/8/8/4K3 b - - 0 1', RANDOM)
+      );
+    });
+
+    it('should reject truncated data and a wrong random table', () => {
+      expect(() => PolyglotBook.fromBinary(new Uint8Array(20), RANDOM)).toThrow(BookFormatError);
+      expect(() => PolyglotBook.fromBinary(new Uint8Array(16), RANDOM.slice(1))).toThrow(
+        /781 random keys/
+      );
+    });
+  });
+});
@@ -0,0 +1,223 @@
+import { Perft, type PerftDivide } from '../../src/services/Perft';
+import { ChessEngine } from '../../src/services/ChessEngine';
+import { LocalProvider } from '../../src/providers/LocalProvider';
+import { RemoteProvider } from '../../src/providers/RemoteProvider';
+import type { BackendId } from '../../src/providers/types';
+
+const START = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+const KIWIPETE = 'r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1';
+
+interface PerftCase {
+  name: string;
+  fen: string;
+  /** Depth run by default, kept to about a second */
+  depth: number;
+  nodes: number;
+  /** Published count at a depth too slow for every test run */
+  deep?: { depth: number; nodes: number };
+}
+
+// The chessprogramming.org perft positions and Martin Sedlak's edge cases
+const CASES: PerftCase[] = [
+  {
+    name: 'start position',
+    fen: START,
+    depth: 3,
+    nodes: 8_902,
+    deep: { depth: 4, nodes: 197_281 },
+  },
+  {
+    name: 'Kiwipete',
+    fen: KIWIPETE,
+    depth: 2,
+    nodes: 2_039,
+    deep: { depth: 3, nodes: 97_862 },
+  },
+  {
+    name: 'position 3 (en passant pins along the rank)',
+    fen: '8/2p5/3p4/KP5r/1R3p1k/8/4P1P1/8 w - - 0 1',
+    depth: 3,
+    nodes: 2_812,
+    deep: { depth: 4, nodes: 43_238 },
+  },
+  {
+    name: 'position 4 (promotions and castling out of check)',
+    fen: 'r3k2r/Pppp1ppp/1b3nbN/nP6/BBP1P3/q4N2/Pp1P2PP/R2Q1RK1 w kq - 0 1',
+    depth: 2,
+    nodes: 264,
+    deep: { depth: 3, nodes: 9_467 },
+  },
+  {
+    name: 'position 5',
+    fen: 'rnbq1k1r/pp1Pbppp/2p5/8/2B5/8/PPP1NnPP/RNBQK2R w KQ - 1 8',
+    depth: 2,
+    nodes: 1_486,
+    deep: { depth: 3, nodes: 62_379 },
+  },
+  {
+    name: 'position 6',
+    fen: 'r4rk1/1pp1qppp/p1np1n2/2b1p1B1/2B1P1b1/P1NP1N2/1PP1QPPP/R4RK1 w - - 0 10',
+    depth: 2,
+    nodes: 2_079,
+    deep: { depth: 3, nodes: 89_890 },
+  },
+  {
+    name: 'en passant that would expose the king',
+    fen: '3k4/3p4/8/K1P4r/8/8/8/8 b - - 0 1',
+    depth: 3,
+    nodes: 1_670,
+    deep: { depth: 6, nodes: 1_134_888 },
+  },
+  {
+    name: 'en passant capture gives check',
+    fen: '8/8/1k6/2b5/2pP4/8/5K2/8 b - d3 0 1',
+    depth: 3,
+    nodes: 1_928,
+    deep: { depth: 6, nodes: 1_440_467 },
+  },
+  {
+    name: 'short castling gives check',
+    fen: '5k2/8/8/8/8/8/8/4K2R w K - 0 1',
+    depth: 3,
+    nodes: 1_198,
+    deep: { depth: 6, nodes: 661_072 },
+  },
+  {
+    name: 'promotion out of check',
+    fen: '2K2r2/4P3/8/8/8/8/8/3k4 w - - 0 1',
+    depth: 3,
+    nodes: 1_442,
+    deep: { depth: 6, nodes: 3_821_001 },
+  },
+  {
+    name: 'promotion gives check',
+    fen: '4k3/1P6/8/8/8/8/K7/8 w - - 0 1',
+    depth: 4,
+    nodes: 2_661,
+    deep: { depth: 6, nodes: 217_342 },
+  },
+  {
+    name: 'under-promotion gives check',
+    fen: '8/P1k5/K7/8/8/8/8/8 w - - 0 1',
+    depth: 4,
+    nodes: 1_329,
+    deep: { depth: 6, nodes: 92_683 },
+  },
+  {
+    name: 'self stalemate',
+    fen: 'K1k5/8/P7/8/8/8/8/8 w - - 0 1',
+    depth: 6,
+    nodes: 2_217,
+  },
+  {
+    name: 'stalemate and checkmate',
+    fen: '8/k1P5/8/1K6/8/8/8/8 w - - 0 1',
+    depth: 4,
+    nodes: 926,
+    deep: { depth: 7, nodes: 567_584 },
+  },
+  {
+    name: 'double check',
+    fen: '8/5k2/8/5N2/5Q2/2K5/8/8 w - - 0 1',
+    depth: 2,
+    nodes: 183,
+    deep: { depth: 4, nodes: 23_527 },
+  },
+];
+
+describe('Perft', () => {
+  describe('count', () => {
+    it.each(CASES)('should count $name to depth $depth', ({ fen, depth, nodes }) => {
+      expect(Perft.count(new ChessEngine(fen), depth)).toBe(nodes);
+    });
+
+    // Minutes rather than seconds: PERFT_DEEP=1 npm run test:perft
+    const deep = process.env.PERFT_DEEP ? it : it.skip;
+    deep.each(CASES.filter((c) => c.deep))(
+      'should match the published count for $name',
+      ({ fen, deep: published }) => {
+        expect(Perft.count(new ChessEngine(fen), published!.depth)).toBe(published!.nodes);
+      },
+      1_800_000
+    );
+
+    it('should count the root only at depth 0', () => {
+      expect(Perft.count(new ChessEngine(START), 0)).toBe(1);
+    });
+
+    it('should leave the engine in its starting position', () => {
+      const engine = new ChessEngine(KIWIPETE);
+      Perft.count(engine, 2);
+      expect(engine.getFEN()).toBe(KIWIPETE);
+    });
+  });
+
+  describe('divide', () => {
+    it('should split the count by root move in coordinate notation', () => {
+      const divide = Perft.divide(new ChessEngine(START), 2);
+      expect(Object.keys(divide)).toHaveLength(20);
+      expect(divide.e2e4).toBe(20);
+      expect(divide.g1f3).toBe(20);
+      expect(Perft.total(divide)).toBe(400);
+    });
+
+    it('should list each promotion piece separately', () => {
+      const divide = Perft.divide(new ChessEngine('4k3/1P6/8/8/8/8/K7/8 w - - 0 1'), 1);
+      expect(Object.keys(divide).filter((m) => m.startsWith('b7b8'))).toEqual(
+        expect.arrayContaining(['b7b8q', 'b7b8r', 'b7b8b', 'b7b8n'])
+      );
+    });
+
+    it('should format divide output with a total', () => {
+      const divide: PerftDivide = { e2e4: 20, a2a3: 20 };
+      expect(Perft.format(divide)).toBe('a2a3: 20\ne2e4: 20\n\nNodes searched: 40');
+    });
+
+    it('should reject depths that have no root moves to split', async () => {
+      expect(() => Perft.count(new ChessEngine(START), -1)).toThrow(RangeError);
+      expect(() => Perft.count(new ChessEngine(START), 1.5)).toThrow(RangeError);
+      expect(() => Perft.divide(new ChessEngine(START), 0)).toThrow(RangeError);
+      const provider = new LocalProvider();
+      await expect(Perft.divideProvider(provider, START, 0)).rejects.toThrow(RangeError);
+    });
+  });
+
+  describe('compare', () => {
+    it('should report differing counts and moves only one side has', () => {
+      const expected: PerftDivide = { e2e4: 20, d2d4: 20, g1f3: 20 };
+      const actual: PerftDivide = { e2e4: 20, d2d4: 19, e1g1: 1 };
+      expect(Perft.compare(expected, actual)).toEqual([
+        { move: 'd2d4', expected: 20, actual: 19 },
+        { move: 'e1g1', expected: null, actual: 1 },
+        { move: 'g1f3', expected: 20, actual: null },
+      ]);
+      expect(Perft.compare(expected, expected)).toEqual([]);
+    });
+  });
+
+  describe('divideProvider', () => {
+    it('should agree with the local engine when run through LocalProvider', async () => {
+      const provider = new LocalProvider();
+      const fen = 'r3k2r/Pppp1ppp/1b3nbN/nP6/BBP1P3/q4N2/Pp1P2PP/R2Q1RK1 w kq - 0 1';
+      const seen: string[] = [];
+      const divide = await Perft.divideProvider(provider, fen, 2, {
+        onRootMove: (move) => seen.push(move),
+      });
+      expect(Perft.compare(Perft.divide(new ChessEngine(fen), 2), divide)).toEqual([]);
+      expect(seen).toEqual(Object.keys(divide));
+    });
+
+    // Needs a running backend: PERFT_BACKEND=rust PERFT_URL=http://localhost:8082 npm run test:perft
+    const backend = process.env.PERFT_BACKEND as BackendId | undefined;
+    const remote = backend && process.env.PERFT_URL ? it : it.skip;
+    remote.each(CASES.slice(0, 4))(
+      'should match the local engine on the remote backend for $name',
+      async ({ fen }) => {
+        const provider = new RemoteProvider(backend!, process.env.PERFT_URL!);
+        const divide = await Perft.divideProvider(provider, fen, 2);
+        expect(Perft.compare(Perft.divide(new ChessEngine(fen), 2), divide)).toEqual([]);
+      },
+      600_000
+    );
+  });
+});
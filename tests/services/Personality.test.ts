@@ -0,0 +1,88 @@
+import { Personality, PERSONALITIES } from '../../src/services/Personality';
+import {
+  DEFAULT_WEIGHTS,
+  EVAL_PROFILES,
+  Evaluator,
+  type EvalWeights,
+} from '../../src/services/Evaluator';
+import { ChessAI } from '../../src/services/ChessAI';
+import { ChessEngine } from '../../src/services/ChessEngine';
+import { boardOf } from '../setup/test-utils';
+
+describe('Personality', () => {
+  describe('isPersonality', () => {
+    it('should accept only known styles', () => {
+      expect(Personality.isPersonality('gambiteer')).toBe(true);
+      expect(Personality.isPersonality('berserker')).toBe(false);
+      expect(Personality.isPersonality(undefined)).toBe(false);
+    });
+  });
+
+  describe('weights', () => {
+    it('should leave the level alone when balanced', () => {
+      expect(Personality.weights(DEFAULT_WEIGHTS, 'balanced')).toEqual(DEFAULT_WEIGHTS);
+    });
+
+    it('should scale terms without touching the base weights', () => {
+      const weights = Personality.weights(DEFAULT_WEIGHTS, 'attacker');
+      expect(weights.kingOpenFile).toBe(DEFAULT_WEIGHTS.kingOpenFile * 2.5);
+      expect(weights.material).toBe(DEFAULT_WEIGHTS.material);
+      expect(DEFAULT_WEIGHTS.kingOpenFile).toBe(20);
+    });
+
+    it('should keep zeroed terms off for weak levels', () => {
+      const weights = Personality.weights(EVAL_PROFILES.easy, 'positional');
+      expect(weights).toEqual(EVAL_PROFILES.easy);
+    });
+
+    it('should make the gambiteer value activity over a pawn', () => {
+      // White has given the e-pawn for a lead in development
+      const board = boardOf('r1bqkbnr/pppp1ppp/2n5/8/2B5/5N2/PPPP1PPP/RNBQK2R w KQkq - 0 4');
+      const balanced = Evaluator.evaluate(board, DEFAULT_WEIGHTS);
+      const gambiteer = Evaluator.evaluate(
+        board,
+        Personality.weights(DEFAULT_WEIGHTS, 'gambiteer')
+      );
+      expect(gambiteer).toBeGreaterThan(balanced);
+    });
+
+    it('should make the simplifier want trades when ahead', () => {
+      const weights = Personality.weights(DEFAULT_WEIGHTS, 'simplifier');
+      // A piece up, with and without the queens
+      const queens = boardOf('3qk3/pppppppp/8/8/8/8/PPPPPPPP/2BQKN2 w - - 0 1');
+      const traded = boardOf('4k3/pppppppp/8/8/8/8/PPPPPPPP/2B1KN2 w - - 0 1');
+      const gain = (w: typeof weights) =>
+        Evaluator.evaluate(traded, w) - Evaluator.evaluate(queens, w);
+      expect(gain(weights)).toBeGreaterThan(gain(DEFAULT_WEIGHTS));
+    });
+  });
+
+  describe('temperature', () => {
+    it('should be zero without a personality', () => {
+      expect(Personality.temperature(undefined)).toBe(0);
+      expect(Personality.temperature('gambiteer')).toBe(PERSONALITIES.gambiteer.temperature);
+    });
+  });
+
+  describe('in search', () => {
+    it('should take the free queen whatever the style', () => {
+      for (const personality of Personality.IDS) {
+        const engine = new ChessEngine('4k3/8/8/3q4/8/8/8/3QK3 w - - 0 1');
+        const { bestMove } = ChessAI.search(engine, { level: 'medium', personality, seed: 1 });
+        expect(bestMove).toMatchObject({ from: 'd1', to: 'd5' });
+      }
+    });
+
+    it('should make the attacker go for the enemy king', () => {
+      // Black has castled short; Ng5 eyes f7 and h7 where the level develops with Be2
+      const fen = 'r1bqr1k1/pp1nbppp/2p2n2/3p4/3P4/2NBPN2/PPQ2PPP/R3KB1R w KQ - 0 9';
+      const bestMove = (weights: EvalWeights) =>
+        ChessAI.search(new ChessEngine(fen), { level: 'hard', weights, useBook: false }).bestMove;
+      expect(bestMove(EVAL_PROFILES.hard)).toMatchObject({ from: 'f1', to: 'e2' });
+      expect(bestMove(Personality.weights(EVAL_PROFILES.hard, 'attacker'))).toMatchObject({
+        from: 'f3',
+        to: 'g5',
+      });
+    });
+  });
+});
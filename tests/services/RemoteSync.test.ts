@@ -0,0 +1,191 @@
+import { RemoteSync, type RemoteOp } from '../../src/services/RemoteSync';
+import type { NormGameState } from '../../src/providers/types';
+
+const START = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+const AFTER_E4 = 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq e3 0 1';
+const AFTER_D4 = 'rnbqkbnr/pppppppp/8/8/3P4/8/PPP1PPPP/RNBQKBNR b KQkq d3 0 1';
+
+const state = (fen: string): NormGameState => ({
+  id: 'g1',
+  fen,
+  turn: fen.split(' ')[1] === 'b' ? 'black' : 'white',
+  status: 'active',
+  check: false,
+  moveCount: 0,
+  moveHistory: [],
+  result: '*',
+  gameOver: false,
+});
+
+const op = (overrides: Partial<RemoteOp> = {}): RemoteOp => ({
+  kind: 'move',
+  send: () => Promise.resolve(state(AFTER_E4)),
+  fetch: () => Promise.resolve(state(START)),
+  expectedFen: AFTER_E4,
+  previousFen: START,
+  ...overrides,
+});
+
+describe('RemoteSync', () => {
+  it('should confirm an operation the server agrees with', async () => {
+    const outcome = await new RemoteSync().enqueue(op());
+    expect(outcome.type).toBe('confirmed');
+  });
+
+  it('should confirm a server FEN that omits the en passant square', async () => {
+    const outcome = await new RemoteSync().enqueue(
+      op({ send: () => Promise.resolve(state(AFTER_E4.replace(' e3 ', ' - '))) })
+    );
+    expect(outcome.type).toBe('confirmed');
+  });
+
+  it('should report a refused operation when the server stayed put', async () => {
+    const error = new Error('Illegal move');
+    const outcome = await new RemoteSync().enqueue(op({ send: () => Promise.reject(error) }));
+    expect(outcome).toMatchObject({ type: 'rejected', error });
+  });
+
+  it('should report divergence when the server answers with another position', async () => {
+    const outcome = await new RemoteSync().enqueue(
+      op({ send: () => Promise.resolve(state(AFTER_D4)) })
+    );
+    expect(outcome).toMatchObject({ type: 'diverged', state: { fen: AFTER_D4 } });
+  });
+
+  it('should report divergence when a refused operation left the server elsewhere', async () => {
+    const outcome = await new RemoteSync().enqueue(
+      op({
+        send: () => Promise.reject(new Error('Conflict')),
+        fetch: () => Promise.resolve(state(AFTER_D4)),
+      })
+    );
+    expect(outcome.type).toBe('diverged');
+  });
+
+  it('should report an unreachable server when the state cannot be fetched either', async () => {
+    const outcome = await new RemoteSync().enqueue(
+      op({
+        send: () => Promise.reject(new Error('offline')),
+        fetch: () => Promise.reject(new Error('offline')),
+      })
+    );
+    expect(outcome.type).toBe('unreachable');
+  });
+
+  it('should send operations one at a time in order', async () => {
+    const sync = new RemoteSync();
+    const sent: string[] = [];
+    let release!: () => void;
+    const first = sync.enqueue(
+      op({
+        send: () =>
+          new Promise((resolve) => {
+            sent.push('first');
+            release = () => resolve(state(AFTER_E4));
+          }),
+      })
+    );
+    const second = sync.enqueue(
+      op({
+        send: () => {
+          sent.push('second');
+          return Promise.resolve(state(AFTER_E4));
+        },
+      })
+    );
+    await Promise.resolve();
+    expect(sent).toEqual(['first']);
+    expect(sync.pending).toBe(2);
+    release();
+    await Promise.all([first, second]);
+    expect(sent).toEqual(['first', 'second']);
+    expect(sync.pending).toBe(0);
+  });
+
+  it('should drop operations queued behind a refused one', async () => {
+    const sync = new RemoteSync();
+    const send = jest.fn(() => Promise.resolve(state(AFTER_E4)));
+    const refused = sync.enqueue(op({ send: () => Promise.reject(new Error('Illegal move')) }));
+    const queued = sync.enqueue(op({ send }));
+    expect((await refused).type).toBe('rejected');
+    expect((await queued).type).toBe('dropped');
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it('should drop queued operations on reset', async () => {
+    const sync = new RemoteSync();
+    const send = jest.fn(() => Promise.resolve(state(AFTER_E4)));
+    const queued = sync.enqueue(op({ send }));
+    sync.reset();
+    expect((await queued).type).toBe('dropped');
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it('should confirm an operation that landed although its response was lost', async () => {
+    const outcome = await new RemoteSync().enqueue(
+      op({
+        send: () => Promise.reject(new Error('timed out')),
+        fetch: () => Promise.resolve(state(AFTER_E4)),
+      })
+    );
+    expect(outcome.type).toBe('confirmed');
+  });
+
+  describe('offline', () => {
+    const isOffline = (err: unknown) => err instanceof Error && err.message === 'offline';
+
+    it('should hold operations while offline and replay them in order on resume', async () => {
+      let reachable = false;
+      const sent: string[] = [];
+      const changes: boolean[] = [];
+      const sync = new RemoteSync({ isOffline, onOfflineChange: (o) => changes.push(o) });
+      const send = (name: string, fen: string) => () => {
+        if (!reachable) return Promise.reject(new Error('offline'));
+        sent.push(name);
+        return Promise.resolve(state(fen));
+      };
+      const fetch = () =>
+        reachable ? Promise.resolve(state(START)) : Promise.reject(new Error('offline'));
+      const first = sync.enqueue(op({ send: send('e4', AFTER_E4), fetch }));
+      const second = sync.enqueue(
+        op({ send: send('d4', AFTER_D4), fetch, expectedFen: AFTER_D4, previousFen: AFTER_E4 })
+      );
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(sync.offline).toBe(true);
+      expect(sync.pending).toBe(2);
+
+      reachable = true;
+      sync.resume();
+      expect((await first).type).toBe('confirmed');
+      expect((await second).type).toBe('confirmed');
+      expect(sent).toEqual(['e4', 'd4']);
+      expect(changes).toEqual([true, false]);
+      expect(sync.offline).toBe(false);
+    });
+
+    it('should report errors that are not offline ones as unreachable', async () => {
+      const outcome = await new RemoteSync({ isOffline }).enqueue(
+        op({
+          send: () => Promise.reject(new Error('Internal error')),
+          fetch: () => Promise.reject(new Error('Internal error')),
+        })
+      );
+      expect(outcome.type).toBe('unreachable');
+    });
+
+    it('should drop held operations on reset', async () => {
+      const sync = new RemoteSync({ isOffline });
+      const held = sync.enqueue(
+        op({
+          send: () => Promise.reject(new Error('offline')),
+          fetch: () => Promise.reject(new Error('offline')),
+        })
+      );
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(sync.offline).toBe(true);
+      sync.reset();
+      expect((await held).type).toBe('dropped');
+      expect(sync.offline).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { SelfPlay } from '../../src/services/SelfPlay';
+
+describe('SelfPlay', () => {
+  describe('eloDifference', () => {
+    it('should be zero for an even score and grow with the margin', () => {
+      expect(SelfPlay.eloDifference(5, 10)).toBe(0);
+      expect(SelfPlay.eloDifference(7.5, 10)).toBe(191);
+      expect(SelfPlay.eloDifference(2.5, 10)).toBe(-191);
+    });
+
+    it('should stay finite for a clean sweep', () => {
+      expect(Number.isFinite(SelfPlay.eloDifference(10, 10))).toBe(true);
+      expect(SelfPlay.eloDifference(0, 0)).toBe(0);
+    });
+  });
+
+  describe('playGame', () => {
+    it('should stop at the ply cap and score it as a draw', () => {
+      const game = SelfPlay.playGame(
+        { level: 'harmless' },
+        { level: 'harmless' },
+        { maxPlies: 12 }
+      );
+      expect(game.plies).toBe(12);
+      expect(game.moves).toHaveLength(12);
+      expect(game.result).toBe('1/2-1/2');
+    });
+
+    it('should replay a seeded game move for move', () => {
+      const play = () =>
+        SelfPlay.playGame({ level: 'harmless' }, { level: 'harmless' }, { maxPlies: 16, seed: 7 });
+      expect(play().moves).toEqual(play().moves);
+    });
+
+    it('should report a mate for the side that delivers it', () => {
+      const game = SelfPlay.playGame(
+        { level: 'easy', useTablebase: false },
+        { level: 'harmless' },
+        { startFen: 'k7/8/1K6/8/8/8/8/7R w - - 0 1' }
+      );
+      expect(game).toMatchObject({ result: '1-0', plies: 1, moves: ['h1h8'] });
+    });
+
+    it('should write underpromotions with the UCI piece letter', () => {
+      const game = SelfPlay.playGame(
+        { level: 'easy', useTablebase: false },
+        { level: 'harmless' },
+        { startFen: '6nr/5Ppk/6pp/8/8/8/8/K7 w - - 0 1' }
+      );
+      expect(game).toMatchObject({ result: '1-0', plies: 1, moves: ['f7f8n'] });
+    });
+  });
+
+  describe('match', () => {
+    it('should alternate colours and add up the score', () => {
+      const result = SelfPlay.match({ level: 'harmless' }, { level: 'harmless' }, 4, {
+        maxPlies: 10,
+        seed: 1,
+      });
+      expect(result.wins + result.draws + result.losses).toBe(4);
+      expect(result.score).toBe(result.wins + result.draws / 2);
+    });
+  });
+
+  describe('ladder', () => {
+    it('should anchor the first rung and chain the measured gaps', () => {
+      const rungs = SelfPlay.ladder([400, 500], 2, { maxPlies: 6, seed: 3 });
+      expect(rungs[0]).toEqual({ elo: 400, measured: 400, match: null });
+      expect(rungs[1].measured).toBe(400 + rungs[1].match!.eloDifference);
+    });
+
+    // Measuring the real ladder takes a while: SELF_PLAY_LADDER=1 npm run test:ladder
+    const measure = process.env.SELF_PLAY_LADDER ? it : it.skip;
+    measure(
+      'should measure every rung above the one below it',
+      () => {
+        const rungs = SelfPlay.ladder([400, 800, 1100, 1400, 1700], 10, {
+          seed: 1,
+          maxPlies: 120,
+        });
+        const measured = rungs.map((rung) => rung.measured);
+        expect(measured).toEqual([...measured].sort((a, b) => a - b));
+        rungs.slice(1).forEach((rung) => expect(rung.match!.score).toBeGreaterThan(5));
+      },
+      1_800_000
+    );
+  });
+});
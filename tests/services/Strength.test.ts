@@ -0,0 +1,86 @@
+import { Strength } from '../../src/services/Strength';
+
+describe('Strength', () => {
+  describe('forElo', () => {
+    it('should clamp to the supported range', () => {
+      expect(Strength.forElo(0).elo).toBe(Strength.MIN_ELO);
+      expect(Strength.forElo(5000).elo).toBe(Strength.MAX_ELO);
+    });
+
+    it('should interpolate between anchors', () => {
+      const profile = Strength.forElo(1250);
+      expect(profile.maxDepth).toBe(2);
+      expect(profile.temperature).toBe(60);
+      expect(profile.quiescencePlies).toBe(3);
+    });
+
+    it('should get stronger as the rating rises', () => {
+      let previous = Strength.forElo(Strength.MIN_ELO);
+      for (let elo = Strength.MIN_ELO + 100; elo <= Strength.MAX_ELO; elo += 100) {
+        const profile = Strength.forElo(elo);
+        expect(profile.maxDepth).toBeGreaterThanOrEqual(previous.maxDepth);
+        expect(profile.quiescencePlies).toBeGreaterThanOrEqual(previous.quiescencePlies);
+        expect(profile.temperature).toBeLessThanOrEqual(previous.temperature);
+        previous = profile;
+      }
+      expect(previous.temperature).toBe(0);
+    });
+  });
+
+  describe('levelFor', () => {
+    it('should map ratings onto the difficulty levels', () => {
+      expect(Strength.levelFor(400)).toBe('easy');
+      expect(Strength.levelFor(1500)).toBe('hard');
+      expect(Strength.levelFor(2300)).toBe('godlike');
+    });
+  });
+
+  describe('underPressure', () => {
+    const profile = Strength.forElo(1700);
+
+    it('should leave a comfortable clock alone', () => {
+      expect(Strength.underPressure(profile)).toBe(profile);
+      expect(Strength.underPressure(profile, { remainingMs: 60_000, incrementMs: 0 })).toBe(
+        profile
+      );
+    });
+
+    it('should play hotter and shallower in a scramble', () => {
+      const rushed = Strength.underPressure(profile, { remainingMs: 3_000, incrementMs: 0 });
+      expect(rushed.temperature).toBeGreaterThan(profile.temperature);
+      expect(rushed.quiescencePlies).toBeLessThan(profile.quiescencePlies);
+      expect(rushed.maxDepth).toBe(profile.maxDepth - 1);
+    });
+  });
+
+  describe('pickMove', () => {
+    const scored = [
+      { move: 'a', score: 100 },
+      { move: 'b', score: 100 },
+      { move: 'c', score: 0 },
+      { move: 'd', score: 0 },
+    ];
+
+    it('should return null without moves', () => {
+      expect(Strength.pickMove([], 50)).toBeNull();
+    });
+
+    it('should always play the best move at zero temperature', () => {
+      expect(Strength.pickMove(scored, 0, () => 0.99)?.move).toBe('a');
+    });
+
+    it('should weight moves by softmax of their scores', () => {
+      // Weights 1, 1 and e^-2 for the third
+      expect(Strength.pickMove(scored, 50, () => 0.4)?.move).toBe('a');
+      expect(Strength.pickMove(scored, 50, () => 0.6)?.move).toBe('b');
+      expect(Strength.pickMove(scored, 50, () => 0.99)?.move).toBe('c');
+    });
+
+    it('should only consider the best three moves', () => {
+      const picks = new Set(
+        Array.from({ length: 20 }, (_, i) => Strength.pickMove(scored, 1e9, () => i / 20)?.move)
+      );
+      expect([...picks].sort()).toEqual(['a', 'b', 'c']);
+    });
+  });
+});
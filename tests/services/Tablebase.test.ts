@@ -0,0 +1,109 @@
+import { Tablebase } from '../../src/services/Tablebase';
+import { ChessEngine } from '../../src/services/ChessEngine';
+
+describe('Tablebase', () => {
+  describe('materialOf', () => {
+    it('should name the table for either colour', () => {
+      expect(Tablebase.materialOf('8/8/8/4k3/8/8/8/KQ6 w - - 0 1')).toBe('KQK');
+      expect(Tablebase.materialOf('8/8/8/4K3/8/8/8/kr6 w - - 0 1')).toBe('KRK');
+      expect(Tablebase.materialOf('8/8/8/4k3/8/8/8/KNB5 w - - 0 1')).toBe('KBNK');
+    });
+
+    it('should return null for other material', () => {
+      expect(Tablebase.materialOf('8/8/8/4k3/8/8/8/KR1R4 w - - 0 1')).toBeNull();
+      expect(Tablebase.materialOf('8/8/8/4k3/8/8/8/K7 w - - 0 1')).toBeNull();
+      expect(Tablebase.materialOf('8/8/8/3qk3/8/8/8/KQ6 w - - 0 1')).toBeNull();
+    });
+  });
+
+  describe('generate', () => {
+    it('should find the longest forced mates', () => {
+      // Mate in 10 with the queen and in 16 with the rook, counted with the loser to move
+      expect(Tablebase.generate('KQK').maxDtm).toBe(20);
+      expect(Tablebase.generate('KRK').maxDtm).toBe(32);
+    });
+
+    it('should cache tables', () => {
+      Tablebase.generate('KQK');
+      expect(Tablebase.isGenerated('KQK')).toBe(true);
+      Tablebase.clear();
+      expect(Tablebase.isGenerated('KQK')).toBe(false);
+    });
+
+    it('should restore exported tables without generating them again', () => {
+      const fen = '8/8/8/8/8/2k5/8/K1Q5 b - - 0 1';
+      const probe = Tablebase.probe(fen);
+      const exported = Tablebase.export();
+      Tablebase.clear();
+      Tablebase.restore(exported);
+      expect(Tablebase.isGenerated('KQK')).toBe(true);
+      expect(Tablebase.probe(fen, false)).toEqual(probe);
+      expect(Tablebase.generate('KQK')).toMatchObject({ maxDtm: 20, elapsedMs: 0 });
+    });
+  });
+
+  describe('probe', () => {
+    it('should score checkmate and stalemate', () => {
+      expect(Tablebase.probe('k7/1Q6/1K6/8/8/8/8/8 b - - 0 1')).toEqual({ result: 'loss', dtm: 0 });
+      expect(Tablebase.probe('k7/8/1QK5/8/8/8/8/8 b - - 0 1')).toEqual({ result: 'draw', dtm: 0 });
+    });
+
+    it('should count plies to mate for both sides', () => {
+      const win = Tablebase.probe('k7/8/1K6/8/8/8/8/7R w - - 0 1');
+      expect(win).toEqual({ result: 'win', dtm: 1 });
+      const loss = Tablebase.probe('k7/8/2K5/8/8/8/8/7R b - - 0 1');
+      expect(loss?.result).toBe('loss');
+      expect(loss!.dtm % 2).toBe(0);
+    });
+
+    it('should handle black as the strong side', () => {
+      expect(Tablebase.probe('K7/8/1k6/8/8/8/8/7r b - - 0 1')).toEqual({ result: 'win', dtm: 1 });
+    });
+
+    it('should know rook pawns against a cornered king draw', () => {
+      expect(Tablebase.probe('k7/8/8/8/8/8/P7/K7 w - - 0 1')?.result).toBe('draw');
+      expect(Tablebase.probe('4k3/8/4K3/4P3/8/8/8/8 w - - 0 1')?.result).toBe('win');
+    });
+
+    it('should return null for illegal positions and castling rights', () => {
+      // White is in check with black to move
+      expect(Tablebase.probe('8/8/8/8/8/2k5/8/K1q5 b - - 0 1')).toBeNull();
+      expect(Tablebase.probe('4k3/8/8/8/8/8/8/4K2R w K - 0 1')).toBeNull();
+    });
+
+    it('should skip tables not yet built when asked not to generate', () => {
+      Tablebase.clear();
+      expect(Tablebase.probe('k7/8/1K6/8/8/8/8/7R w - - 0 1', false)).toBeNull();
+      expect(Tablebase.isGenerated('KRK')).toBe(false);
+    });
+  });
+
+  describe('bestMove', () => {
+    it('should play the fastest mate', () => {
+      const hit = Tablebase.bestMove('k7/8/1K6/8/8/8/8/7R w - - 0 1');
+      expect(hit?.move).toEqual({ from: 'h1', to: 'h8' });
+    });
+
+    it('should take a hanging piece to draw', () => {
+      const hit = Tablebase.bestMove('8/8/8/8/8/8/1kQ5/7K b - - 0 1');
+      expect(hit?.result).toBe('draw');
+      expect(hit?.move).toEqual({ from: 'b2', to: 'c2' });
+    });
+
+    it('should promote through the pawnless tables', () => {
+      const hit = Tablebase.bestMove('8/4P3/8/8/8/3k4/8/4K3 w - - 0 1');
+      expect(hit?.result).toBe('win');
+      expect(hit?.move).toEqual({ from: 'e7', to: 'e8', promotion: 'queen' });
+    });
+
+    it('should mate in the predicted number of plies with both sides following the table', () => {
+      const engine = new ChessEngine('8/8/8/4k3/8/8/8/KQ6 w - - 0 1');
+      const { dtm } = Tablebase.probe(engine.getFEN())!;
+      for (let ply = 0; ply < dtm; ply++) {
+        const { move } = Tablebase.bestMove(engine.getFEN())!;
+        expect(engine.makeMove(move!.from, move!.to, move!.promotion)).toBeTruthy();
+      }
+      expect(engine.getResult()).toBe('1-0');
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import { Tactics, type MotifType } from '../../src/services/Tactics';
+import { ChessEngine } from '../../src/services/ChessEngine';
+import type { Color } from '@rumenx/chess/types';
+
+const motifs = (fen: string, color: Color) =>
+  Tactics.inPosition(new ChessEngine(fen).getBoard(), color);
+const ofType = (fen: string, color: Color, type: MotifType) =>
+  motifs(fen, color).filter((m) => m.type === type);
+
+describe('Tactics', () => {
+  describe('inPosition', () => {
+    it('should find a knight forking king and rook', () => {
+      const [fork] = ofType('r3k3/2N5/8/8/8/8/8/4K3 b - - 0 1', 'white', 'fork');
+      expect(fork).toMatchObject({ square: 'c7', color: 'white' });
+      expect(fork.targets.sort()).toEqual(['a8', 'e8']);
+      expect(fork.description).toBe('Knight fork on c7: king and rook');
+    });
+
+    it('should not call two defended pieces of equal value a fork', () => {
+      // The knight hits both knights, but the king guards them
+      expect(ofType('8/8/3k4/2n1n3/8/3N4/8/4K3 w - - 0 1', 'white', 'fork')).toEqual([]);
+    });
+
+    it('should find a pin to the king', () => {
+      const [pin] = ofType('4k3/8/2n5/1B6/8/8/8/4K3 w - - 0 1', 'white', 'pin');
+      expect(pin).toMatchObject({ square: 'b5', targets: ['c6', 'e8'] });
+      expect(pin.description).toBe('Bishop on b5 pins the knight on c6 to the king');
+    });
+
+    it('should find a skewer through the king', () => {
+      const [skewer] = ofType('4q3/8/4k3/8/8/8/8/K3R3 b - - 0 1', 'white', 'skewer');
+      expect(skewer).toMatchObject({ square: 'e1', targets: ['e6', 'e8'] });
+      expect(skewer.description).toBe('Rook skewer from e1: king and queen');
+    });
+
+    it('should find a discovered attack waiting behind an own piece', () => {
+      const [discovery] = ofType('4q2k/8/8/8/4N3/8/8/K3R3 w - - 0 1', 'white', 'discovered-attack');
+      expect(discovery).toMatchObject({ square: 'e1', targets: ['e8'] });
+      expect(discovery.description).toBe(
+        'Discovered attack on the queen by moving the knight on e4'
+      );
+    });
+
+    it('should find hanging pieces', () => {
+      const [hanging] = ofType('4k3/8/8/3n4/8/8/8/3QK3 w - - 0 1', 'white', 'hanging-piece');
+      expect(hanging).toMatchObject({ square: 'd5', description: 'Hanging knight on d5' });
+    });
+
+    it('should find a boxed-in king on the back rank', () => {
+      const [weakness] = ofType('6k1/5ppp/8/8/8/8/8/R5K1 w - - 0 1', 'white', 'back-rank');
+      expect(weakness).toMatchObject({ square: 'g8', color: 'white' });
+      // Luft on h6 gives the king a way out
+      expect(ofType('6k1/5pp1/7p/8/8/8/8/R5K1 w - - 0 1', 'white', 'back-rank')).toEqual([]);
+    });
+
+    it('should find a defender holding two attacked pieces', () => {
+      const [overload] = ofType(
+        '3q3k/8/8/b2n4/5N2/8/8/R5K1 w - - 0 1',
+        'white',
+        'overloaded-defender'
+      );
+      expect(overload).toMatchObject({ square: 'd8', targets: ['a5', 'd5'] });
+      expect(overload.description).toBe('Overloaded queen on d8: guards a5 and d5');
+    });
+
+    it('should list the most forcing motifs first', () => {
+      const found = motifs('4k3/8/2n5/1B6/8/8/8/4K3 w - - 0 1', 'white').map((m) => m.type);
+      expect(found.indexOf('pin')).toBeLessThan(found.indexOf('hanging-piece'));
+    });
+  });
+
+  describe('afterMove', () => {
+    it('should explain a forking move', () => {
+      const [motif] = Tactics.afterMove('r3k3/8/8/1N6/8/8/8/4K3 w - - 0 1', {
+        from: 'b5',
+        to: 'c7',
+      });
+      expect(motif.description).toBe('Knight fork on c7: king and rook');
+    });
+
+    it('should report the attack a move uncovers', () => {
+      const found = Tactics.afterMove('4q2k/8/8/8/4N3/8/8/K3R3 w - - 0 1', {
+        from: 'e4',
+        to: 'c5',
+      });
+      expect(found[0]).toMatchObject({ type: 'discovered-attack', square: 'e1', targets: ['e8'] });
+      expect(found[0].description).toBe('Discovered attack on the queen from the rook on e1');
+    });
+
+    it('should leave out motifs that were already there', () => {
+      // The pin on c6 exists before the quiet king move
+      const found = Tactics.afterMove('4k3/8/2n5/1B6/8/8/8/4K3 w - - 0 1', {
+        from: 'e1',
+        to: 'f1',
+      });
+      expect(found.filter((m) => m.type === 'pin')).toEqual([]);
+    });
+
+    it('should return nothing for an illegal move', () => {
+      expect(Tactics.afterMove('4k3/8/8/8/8/8/8/4K3 w - - 0 1', { from: 'e1', to: 'e3' })).toEqual(
+        []
+      );
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import { TranspositionTable } from '../../src/services/TranspositionTable';
+
+describe('TranspositionTable', () => {
+  it('should return stored entries and miss unknown keys', () => {
+    const table = new TranspositionTable(4);
+    table.store(12345, { depth: 3, bound: 'lower', score: -40, bestMove: 796 });
+    expect(table.probe(12345)).toEqual({ depth: 3, bound: 'lower', score: -40, bestMove: 796 });
+    expect(table.probe(54321)).toBeNull();
+  });
+
+  it('should keep a null best move', () => {
+    const table = new TranspositionTable(4);
+    table.store(7, { depth: 1, bound: 'upper', score: 10, bestMove: null });
+    expect(table.probe(7)?.bestMove).toBeNull();
+  });
+
+  it('should have a fixed number of slots', () => {
+    const table = new TranspositionTable(4);
+    expect(table.size).toBe(16);
+    // 1 and 17 share a slot: the later store evicts the earlier one
+    table.store(1, { depth: 2, bound: 'exact', score: 0, bestMove: null });
+    table.store(17, { depth: 1, bound: 'exact', score: 5, bestMove: null });
+    expect(table.probe(1)).toBeNull();
+    expect(table.probe(17)?.score).toBe(5);
+  });
+
+  it('should not replace a deeper result for the same position', () => {
+    const table = new TranspositionTable(4);
+    table.store(3, { depth: 4, bound: 'exact', score: 50, bestMove: 1 });
+    table.store(3, { depth: 2, bound: 'lower', score: 90, bestMove: 2 });
+    expect(table.probe(3)).toEqual({ depth: 4, bound: 'exact', score: 50, bestMove: 1 });
+    table.store(3, { depth: 5, bound: 'upper', score: 20, bestMove: 3 });
+    expect(table.probe(3)?.depth).toBe(5);
+  });
+
+  it('should handle full 53-bit keys', () => {
+    const table = new TranspositionTable(8);
+    const key = 2 ** 52 + 987654321;
+    table.store(key, { depth: 1, bound: 'exact', score: 1, bestMove: null });
+    expect(table.probe(key)?.score).toBe(1);
+    expect(table.probe(key + 2 ** 32)).toBeNull();
+  });
+
+  it('should forget everything on clear', () => {
+    const table = new TranspositionTable(4);
+    table.store(9, { depth: 1, bound: 'exact', score: 1, bestMove: 4 });
+    table.clear();
+    expect(table.probe(9)).toBeNull();
+  });
+});
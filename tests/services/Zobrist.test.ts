@@ -0,0 +1,65 @@
+import { Zobrist, squareIndex } from '../../src/services/Zobrist';
+import { ChessEngine } from '../../src/services/ChessEngine';
+
+const play = (moves: [string, string][], fen?: string) => {
+  const engine = new ChessEngine(fen);
+  for (const [from, to] of moves) engine.makeMove(from, to);
+  return engine;
+};
+
+describe('Zobrist', () => {
+  it('should index squares from a1 to h8', () => {
+    expect(squareIndex('a1')).toBe(0);
+    expect(squareIndex('h1')).toBe(7);
+    expect(squareIndex('e4')).toBe(28);
+    expect(squareIndex('h8')).toBe(63);
+  });
+
+  it('should hash equal positions equally whatever the move order', () => {
+    const a = play([
+      ['g1', 'f3'],
+      ['g8', 'f6'],
+      ['b1', 'c3'],
+      ['b8', 'c6'],
+    ]);
+    const b = play([
+      ['b1', 'c3'],
+      ['b8', 'c6'],
+      ['g1', 'f3'],
+      ['g8', 'f6'],
+    ]);
+    expect(Zobrist.hash(a)).toBe(Zobrist.hash(b));
+  });
+
+  it('should be stable across engine instances', () => {
+    expect(Zobrist.hash(new ChessEngine())).toBe(Zobrist.hash(new ChessEngine()));
+  });
+
+  it('should distinguish the side to move', () => {
+    const white = new ChessEngine('4k3/8/8/8/8/8/8/4K3 w - - 0 1');
+    const black = new ChessEngine('4k3/8/8/8/8/8/8/4K3 b - - 0 1');
+    expect(Zobrist.hash(white)).not.toBe(Zobrist.hash(black));
+  });
+
+  it('should distinguish castling rights', () => {
+    const withRights = new ChessEngine('r3k2r/8/8/8/8/8/8/R3K2R w KQkq - 0 1');
+    const without = new ChessEngine('r3k2r/8/8/8/8/8/8/R3K2R w Kkq - 0 1');
+    expect(Zobrist.hash(withRights)).not.toBe(Zobrist.hash(without));
+  });
+
+  it('should distinguish an en passant square', () => {
+    // Same placement, but only the first allows dxe3 en passant
+    const enPassant = new ChessEngine('4k3/8/8/8/3pP3/8/8/4K3 b - e3 0 1');
+    const none = new ChessEngine('4k3/8/8/8/3pP3/8/8/4K3 b - - 0 1');
+    expect(Zobrist.hash(enPassant)).not.toBe(Zobrist.hash(none));
+  });
+
+  it('should return to the same hash after undo', () => {
+    const engine = new ChessEngine();
+    const before = Zobrist.hash(engine);
+    engine.makeMove('e2', 'e4');
+    expect(Zobrist.hash(engine)).not.toBe(before);
+    engine.undo();
+    expect(Zobrist.hash(engine)).toBe(before);
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * A minimal WebSocket server for tests: the RFC 6455 handshake and unmasked
+ * text frames out, close frames in. Enough for a client that only listens.
+ */
+import { createHash } from 'crypto';
+import { createServer, type IncomingMessage, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import type { Duplex } from 'stream';
+
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const OPCODE_TEXT = 0x1;
+const OPCODE_CLOSE = 0x8;
+
+function frame(opcode: number, payload: Buffer): Buffer {
+  const { length } = payload;
+  let header: Buffer;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header.writeUInt8(0x80 | opcode, 0);
+    header.writeUInt8(126, 1);
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header.writeUInt8(0x80 | opcode, 0);
+    header.writeUInt8(127, 1);
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+export class MockWebSocketServer {
+  /** Request path of every connection accepted, in order */
+  readonly paths: string[] = [];
+  private readonly server: Server;
+  private readonly sockets = new Set<Duplex>();
+  private waiters: { count: number; resolve: () => void }[] = [];
+
+  private constructor(server: Server) {
+    this.server = server;
+    server.on('upgrade', (req, socket) => this.accept(req, socket));
+  }
+
+  static async start(): Promise<MockWebSocketServer> {
+    const mock = new MockWebSocketServer(createServer());
+    await new Promise<void>((resolve) => mock.server.listen(0, '127.0.0.1', resolve));
+    return mock;
+  }
+
+  /** http:// base URL, as a backend URL would be configured */
+  get url(): string {
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  get openConnections(): number {
+    return this.sockets.size;
+  }
+
+  /** Send a JSON message (or raw text) to every open connection */
+  send(message: unknown): void {
+    const text = typeof message === 'string' ? message : JSON.stringify(message);
+    for (const socket of this.sockets) socket.write(frame(OPCODE_TEXT, Buffer.from(text)));
+  }
+
+  /** Cut every connection without a close handshake, as a network drop would */
+  dropConnections(): void {
+    for (const socket of this.sockets) socket.destroy();
+    this.sockets.clear();
+  }
+
+  /** Resolves once `count` connections have been accepted in total */
+  waitForConnections(count = 1): Promise<void> {
+    if (this.paths.length >= count) return Promise.resolve();
+    return new Promise((resolve) => this.waiters.push({ count, resolve }));
+  }
+
+  /** Resolves once no connection is open */
+  async waitForDisconnect(): Promise<void> {
+    while (this.sockets.size > 0) await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+
+  async close(): Promise<void> {
+    this.dropConnections();
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  private accept(req: IncomingMessage, socket: Duplex): void {
+    const key = req.headers['sec-websocket-key'];
+    if (!key) {
+      socket.destroy();
+      return;
+    }
+    const accept = createHash('sha1')
+      .update(key + HANDSHAKE_GUID)
+      .digest('base64');
+    socket.write(
+      'HTTP/1.1 101 Switching Protocols\r\n' +
+        'Upgrade: websocket\r\n' +
+        'Connection: Upgrade\r\n' +
+        `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+    );
+    this.sockets.add(socket);
+    socket.on('data', (data: Buffer) => {
+      // Answer the client's close frame and hang up; other frames are ignored
+      if ((data[0] & 0x0f) === OPCODE_CLOSE) {
+        socket.end(frame(OPCODE_CLOSE, Buffer.alloc(0)));
+        this.sockets.delete(socket);
+      }
+    });
+    socket.on('close', () => this.sockets.delete(socket));
+    socket.on('error', () => this.sockets.delete(socket));
+
+    this.paths.push(req.url ?? '');
+    const ready = this.waiters.filter((w) => this.paths.length >= w.count);
+    this.waiters = this.waiters.filter((w) => this.paths.length < w.count);
+    ready.forEach((w) => w.resolve());
+  }
+}
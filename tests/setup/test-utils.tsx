@@ -1,5 +1,7 @@
 import { ReactElement } from 'react';
 import { render, RenderOptions } from '@testing-library/react';
+import type { Move } from '@rumenx/chess/types';
+import { ChessEngine } from '../../src/services/ChessEngine';
 
 /**
  * Custom render function that wraps components with necessary providers
@@ -12,7 +14,16 @@ function customRender(
   return render(ui, { ...options });
 }
 
+/** Play a sequence of [from, to] pairs and return the resulting moves */
+function playMoves(pairs: [string, string][], fen?: string): Move[] {
+  const engine = new ChessEngine(fen);
+  return pairs.map(([from, to]) => engine.makeMove(from, to)!);
+}
+
+/** The board of a FEN position, as the evaluator takes it */
+const boardOf = (fen: string) => new ChessEngine(fen).getBoard();
+
 // Re-export everything from React Testing Library
 // eslint-disable-next-line react-refresh/only-export-components
 export * from '@testing-library/react';
-export { customRender as render };
+export { customRender as render, playMoves, boardOf };
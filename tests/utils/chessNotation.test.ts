@@ -1,6 +1,48 @@
-import { formatMove, chunkMoves } from '../../src/utils/chessNotation';
+import { formatMove, chunkMoves, moveToSAN, moveToUCI, notateGame } from '../../src/utils/chessNotation';
+import { parsePGN } from '../../src/utils/pgn';
+import { ChessEngine } from '../../src/services/ChessEngine';
 import type { Move } from '@rumenx/chess/types';
 
+// Known games: the SAN written here is what the replay pipeline must reproduce
+const CORPUS: { name: string; fen?: string; moveText: string }[] = [
+  {
+    name: 'Opera Game (Morphy, 1858)',
+    moveText:
+      '1. e4 e5 2. Nf3 d6 3. d4 Bg4 4. dxe5 Bxf3 5. Qxf3 dxe5 6. Bc4 Nf6 7. Qb3 Qe7 8. Nc3 c6 ' +
+      '9. Bg5 b5 10. Nxb5 cxb5 11. Bxb5+ Nbd7 12. O-O-O Rd8 13. Rxd7 Rxd7 14. Rd1 Qe6 ' +
+      '15. Bxd7+ Nxd7 16. Qb8+ Nxb8 17. Rd8#',
+  },
+  {
+    name: 'Immortal Game (Anderssen, 1851)',
+    moveText:
+      '1. e4 e5 2. f4 exf4 3. Bc4 Qh4+ 4. Kf1 b5 5. Bxb5 Nf6 6. Nf3 Qh6 7. d3 Nh5 8. Nh4 Qg5 ' +
+      '9. Nf5 c6 10. g4 Nf6 11. Rg1 cxb5 12. h4 Qg6 13. h5 Qg5 14. Qf3 Ng8 15. Bxf4 Qf6 ' +
+      '16. Nc3 Bc5 17. Nd5 Qxb2 18. Bd6 Bxg1 19. e5 Qxa1+ 20. Ke2 Na6 21. Nxg7+ Kd8 ' +
+      '22. Qf6+ Nxf6 23. Be7#',
+  },
+  {
+    name: 'En passant, opposite castling and rook disambiguation',
+    moveText:
+      '1. e4 d5 2. e5 f5 3. exf6 Nxf6 4. Nf3 Nc6 5. Nc3 Bg4 6. d4 e6 7. Bg5 Be7 8. Qd3 Qd7 ' +
+      '9. O-O-O O-O-O 10. Be2 h6 11. Rhe1 Rhe8 12. Ne5 Nxe5 13. dxe5 Bxe2 14. Nxe2 Ng4 ' +
+      '15. Bxe7 Qxe7 16. Nd4 Nxf2 17. Nb5 Nxd3+',
+  },
+  {
+    name: 'Black to move, rank disambiguation and promotion with check',
+    fen: 'k7/2P5/8/8/8/8/R5K1/R7 b - - 0 40',
+    moveText: '40... Kb7 41. Ra7+ Kc8 42. R1a4 Kd7 43. c8=Q+ Kd6 44. R4a6+',
+  },
+];
+
+function sanTokens(moveText: string): string[] {
+  return moveText.split(/\s+/).filter((t) => !/^\d+\.+$/.test(t));
+}
+
+function corpusPGN(game: (typeof CORPUS)[number]): string {
+  const tags = game.fen ? `[SetUp "1"]\n[FEN "${game.fen}"]\n\n` : '';
+  return `${tags}${game.moveText} *`;
+}
+
 describe('chessNotation', () => {
   describe('formatMove', () => {
     it('should format pawn move without capture', () => {
@@ -154,6 +196,67 @@ describe('chessNotation', () => {
     });
   });
 
+  describe('notateGame', () => {
+    it.each(CORPUS)('should reproduce the SAN of $name', (game) => {
+      const parsed = parsePGN(corpusPGN(game));
+      const notated = notateGame(parsed.moves, game.fen);
+      expect(notated.map((n) => n.san)).toEqual(sanTokens(game.moveText));
+    });
+
+    it('should disambiguate in the position each move was played from', () => {
+      const game = CORPUS[2];
+      const parsed = parsePGN(corpusPGN(game));
+      // Against the final engine the h-rook has long left, so Rhe1 collapses to Re1
+      const rhe1 = parsed.moves[20];
+      expect(formatMove(rhe1, 20, parsed.engine)).not.toBe('Rhe1');
+      expect(notateGame(parsed.moves)[20].san).toBe('Rhe1');
+    });
+
+    it('should track move numbers, colours, check and mate per ply', () => {
+      const notated = notateGame(parsePGN(corpusPGN(CORPUS[3])).moves, CORPUS[3].fen);
+      expect(notated[0]).toMatchObject({ ply: 0, moveNumber: 40, color: 'black', check: false });
+      expect(notated[1]).toMatchObject({ moveNumber: 41, color: 'white', check: true });
+
+      const opera = notateGame(parsePGN(corpusPGN(CORPUS[0])).moves);
+      const last = opera[opera.length - 1];
+      expect(last.checkmate).toBe(true);
+      expect(last.fen.startsWith('1n1Rkb1r/')).toBe(true);
+    });
+
+    it('should fall back to stored flags when a move cannot be replayed', () => {
+      const parsed = parsePGN(corpusPGN(CORPUS[3]));
+      // Wrong start position: the first black king move is not legal from the standard start
+      const notated = notateGame(parsed.moves);
+      expect(notated).toHaveLength(parsed.moves.length);
+      expect(notated[0].san).toBe('Kb7');
+      expect(notated[0].fen).toBe('');
+    });
+  });
+
+  describe('moveToSAN', () => {
+    it('should add the check suffix without changing the engine', () => {
+      const engine = new ChessEngine('4k3/8/8/8/8/8/8/R3K3 w - - 0 1');
+      const fen = engine.getFEN();
+      const move = engine.getLegalMovesFrom('a1').find((m) => m.to === 'a8')!;
+      expect(moveToSAN(move, engine)).toBe('Ra8+');
+      expect(engine.getFEN()).toBe(fen);
+    });
+
+    it('should detect mate', () => {
+      const engine = new ChessEngine('6k1/5ppp/8/8/8/8/8/R5K1 w - - 0 1');
+      const move = engine.getLegalMovesFrom('a1').find((m) => m.to === 'a8')!;
+      expect(moveToSAN(move, engine)).toBe('Ra8#');
+    });
+  });
+
+  describe('moveToUCI', () => {
+    it('should write coordinates with a promotion letter', () => {
+      expect(moveToUCI({ from: 'e2', to: 'e4' })).toBe('e2e4');
+      expect(moveToUCI({ from: 'b7', to: 'b8', promotion: 'knight' })).toBe('b7b8n');
+      expect(moveToUCI({ from: 'b7', to: 'b8', promotion: 'q' })).toBe('b7b8q');
+    });
+  });
+
   describe('chunkMoves', () => {
     it('should chunk empty array', () => {
       expect(chunkMoves([])).toEqual([]);
@@ -0,0 +1,80 @@
+import {
+  formatEval,
+  fromNormAnalysis,
+  resultScore,
+  toWhiteScore,
+  turnOf,
+  whiteExpectation,
+} from '../../src/utils/evaluation';
+import { MATE_SCORE } from '../../src/services/ChessAI';
+
+describe('evaluation', () => {
+  describe('toWhiteScore', () => {
+    it('should keep scores for white to move', () => {
+      expect(toWhiteScore(120, 'white')).toEqual({ cp: 120, mate: null });
+    });
+
+    it('should flip scores for black to move', () => {
+      expect(toWhiteScore(120, 'black')).toEqual({ cp: -120, mate: null });
+    });
+
+    it('should report mates for the side that delivers them', () => {
+      // Black to move and mating in two (three plies)
+      expect(toWhiteScore(MATE_SCORE - 3, 'black')).toEqual({ cp: -(MATE_SCORE - 3), mate: -2 });
+    });
+  });
+
+  describe('fromNormAnalysis', () => {
+    it('should convert pawns to centipawns', () => {
+      expect(fromNormAnalysis({ evaluation: -0.35 })).toEqual({ cp: -35, mate: null });
+    });
+
+    it('should keep mate distances', () => {
+      const score = fromNormAnalysis({ evaluation: 0, mate: 3 });
+      expect(score.mate).toBe(3);
+      expect(score.cp).toBeGreaterThan(MATE_SCORE - 10);
+    });
+  });
+
+  describe('turnOf', () => {
+    it('should read the side to move from a FEN', () => {
+      expect(turnOf('4k3/8/8/8/8/8/8/4K3 b - - 0 1')).toBe('black');
+      expect(turnOf('4k3/8/8/8/8/8/8/4K3 w - - 0 1')).toBe('white');
+    });
+  });
+
+  describe('resultScore', () => {
+    it('should score decisive and drawn results', () => {
+      expect(resultScore('1-0')).toEqual({ cp: MATE_SCORE, mate: 0 });
+      expect(resultScore('0-1')).toEqual({ cp: -MATE_SCORE, mate: 0 });
+      expect(resultScore('1/2-1/2')).toEqual({ cp: 0, mate: null });
+    });
+  });
+
+  describe('formatEval', () => {
+    it('should format centipawn scores as signed pawns', () => {
+      expect(formatEval({ cp: 125, mate: null })).toBe('+1.25');
+      expect(formatEval({ cp: -40, mate: null })).toBe('-0.40');
+      expect(formatEval({ cp: 0, mate: null })).toBe('0.00');
+    });
+
+    it('should format mates and finished games', () => {
+      expect(formatEval({ cp: MATE_SCORE - 5, mate: 3 })).toBe('M3');
+      expect(formatEval({ cp: -(MATE_SCORE - 3), mate: -2 })).toBe('-M2');
+      expect(formatEval(resultScore('0-1'))).toBe('0-1');
+    });
+  });
+
+  describe('whiteExpectation', () => {
+    it('should be even at 0 and grow with white advantage', () => {
+      expect(whiteExpectation({ cp: 0, mate: null })).toBe(0.5);
+      expect(whiteExpectation({ cp: 400, mate: null })).toBeCloseTo(0.83, 2);
+      expect(whiteExpectation({ cp: -400, mate: null })).toBeCloseTo(0.17, 2);
+    });
+
+    it('should be certain once a mate is found', () => {
+      expect(whiteExpectation({ cp: MATE_SCORE - 5, mate: 3 })).toBe(1);
+      expect(whiteExpectation(resultScore('0-1'))).toBe(0);
+    });
+  });
+});
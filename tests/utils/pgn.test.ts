@@ -0,0 +1,244 @@
+import { buildPGN, parsePGN, PGNParseError, STANDARD_START_FEN } from '../../src/utils/pgn';
+import { resolveSAN, SANError } from '../../src/utils/chessNotation';
+import { ChessEngine } from '../../src/services/ChessEngine';
+import { GameReview } from '../../src/services/GameReview';
+
+const OPERA_GAME = `[Event "Paris"]
+[Site "Paris FRA"]
+[Date "1858.??.??"]
+[White "Paul Morphy"]
+[Black "Duke Karl / Count Isouard"]
+[Result "1-0"]
+
+1. e4 e5 2. Nf3 d6 3. d4 Bg4 {This is a weak move already.} 4. dxe5 Bxf3 5. Qxf3 dxe5
+6. Bc4 Nf6 7. Qb3 Qe7 8. Nc3 c6 9. Bg5 b5?! 10. Nxb5! cxb5 11. Bxb5+ Nbd7 12. O-O-O Rd8
+13. Rxd7 Rxd7 14. Rd1 Qe6 15. Bxd7+ Nxd7 16. Qb8+ $1 Nxb8 17. Rd8# 1-0`;
+
+describe('pgn', () => {
+  describe('parsePGN', () => {
+    it('should read tag pairs', () => {
+      const parsed = parsePGN(OPERA_GAME);
+      expect(parsed.tags.White).toBe('Paul Morphy');
+      expect(parsed.tags.Black).toBe('Duke Karl / Count Isouard');
+      expect(parsed.tags.Date).toBe('1858.??.??');
+    });
+
+    it('should unescape quotes in tag values', () => {
+      const parsed = parsePGN('[Event "The \\"Immortal\\" Game"]\n\n1. e4 *');
+      expect(parsed.tags.Event).toBe('The "Immortal" Game');
+    });
+
+    it('should replay the full game into a playable engine', () => {
+      const parsed = parsePGN(OPERA_GAME);
+      expect(parsed.moves).toHaveLength(33);
+      expect(parsed.result).toBe('1-0');
+      expect(parsed.engine.getStatus()).toBe('checkmate');
+      expect(parsed.engine.getHistory()).toHaveLength(33);
+      expect(parsed.startFen).toBe(STANDARD_START_FEN);
+    });
+
+    it('should attach comments and NAGs to the preceding ply', () => {
+      const parsed = parsePGN(OPERA_GAME);
+      const bg4 = parsed.plies[5];
+      expect(bg4.san).toBe('Bg4');
+      expect(bg4.comment).toBe('This is a weak move already.');
+      expect(parsed.plies[17].nags).toEqual([6]); // 9... b5?!
+      expect(parsed.plies[18].nags).toEqual([1]); // 10. Nxb5!
+      expect(parsed.plies[30].nags).toEqual([1]); // 16. Qb8+ $1
+    });
+
+    it('should resolve file disambiguation (Nbd7)', () => {
+      const parsed = parsePGN(OPERA_GAME);
+      expect(parsed.plies[21].move.from).toBe('b8');
+      expect(parsed.plies[21].move.to).toBe('d7');
+    });
+
+    it('should handle castling and black move numbers', () => {
+      const parsed = parsePGN('1. e4 e5 2. Nf3 Nc6 3. Bc4 Bc5 4. O-O 4... Nf6 *');
+      expect(parsed.moves[6].castling).toBe('kingside');
+      expect(parsed.moves[7].to).toBe('f6');
+      expect(parsed.result).toBe('*');
+    });
+
+    it('should handle promotion with and without "="', () => {
+      const fen = '8/P6k/8/8/8/8/1p5K/8 w - - 0 1';
+      const parsed = parsePGN(`[SetUp "1"]\n[FEN "${fen}"]\n\n1. a8=N b1Q *`);
+      expect(parsed.startFen).toBe(fen);
+      expect(parsed.moves[0].promotion).toBe('knight');
+      expect(parsed.moves[1].promotion).toBe('queen');
+    });
+
+    it('should accept an "e.p." marker after an en passant capture', () => {
+      for (const movetext of [
+        '1. e4 a6 2. e5 d5 3. exd6 e.p. *',
+        '1. e4 a6 2. e5 d5 3. exd6e.p. *',
+      ]) {
+        const parsed = parsePGN(movetext);
+        expect(parsed.moves).toHaveLength(5);
+        expect(parsed.moves[4]).toMatchObject({ from: 'e5', to: 'd6' });
+      }
+    });
+
+    it('should skip line comments and escapes and keep variations off the mainline', () => {
+      const parsed = parsePGN(
+        '% exported by test\n1. e4 ; king pawn\n1... c5 (1... e5 2. Nf3) 2. Nf3 1/2-1/2'
+      );
+      expect(parsed.moves.map((m) => m.to)).toEqual(['e4', 'c5', 'f3']);
+      expect(parsed.plies[0].comment).toBe('king pawn');
+      expect(parsed.result).toBe('1/2-1/2');
+    });
+
+    it('should build a tree with nested variations', () => {
+      const parsed = parsePGN(
+        '1. e4 c5 (1... e5 2. Nf3 (2. f4 exf4) 2... Nc6 {Open game}) (1... c6) 2. Nf3 *'
+      );
+      const { tree } = parsed;
+      const e4 = tree.child(tree.root.id)!;
+      expect(e4.children.map((id) => tree.getNode(id).san)).toEqual(['c5', 'e5', 'c6']);
+      const e5 = tree.child(e4.id, 1)!;
+      const nf3 = tree.child(e5.id)!;
+      expect(tree.siblings(nf3.id).map((n) => n.san)).toEqual(['Nf3', 'f4']);
+      expect(tree.getLine(e5.id).map((n) => n.san)).toEqual(['e4', 'e5', 'Nf3', 'Nc6']);
+      expect(tree.lineEnd(e5.id).comment).toBe('Open game');
+    });
+
+    it('should reject unbalanced variations', () => {
+      expect(() => parsePGN('1. e4 (1. d4 *')).toThrow(/Unterminated/);
+      expect(() => parsePGN('1. e4 ) e5 *')).toThrow(/Unbalanced/);
+      expect(() => parsePGN('(1. e4) *')).toThrow(PGNParseError);
+    });
+
+    it('should name the ply of an illegal move inside a variation', () => {
+      try {
+        parsePGN('1. e4 e5 (1... Nf6 2. Ke3) *');
+        throw new Error('expected failure');
+      } catch (err) {
+        expect(err).toBeInstanceOf(PGNParseError);
+        expect((err as PGNParseError).ply).toBe(3);
+      }
+    });
+
+    it('should name the ply and token of an illegal move', () => {
+      expect(() => parsePGN('1. e4 e5 2. Ke3 *')).toThrow(PGNParseError);
+      try {
+        parsePGN('1. e4 e5 2. Ke3 *');
+      } catch (err) {
+        const e = err as PGNParseError;
+        expect(e.ply).toBe(3);
+        expect(e.token).toBe('Ke3');
+        expect(e.message).toContain('Ply 3 (2. Ke3)');
+      }
+    });
+
+    it('should report ambiguous SAN', () => {
+      // Knights on c3 and d4 can both reach b5
+      const pgn = '1. Nf3 d5 2. Nc3 e5 3. Nd4 Nc6 4. Nb5 *';
+      try {
+        parsePGN(pgn);
+        throw new Error('expected failure');
+      } catch (err) {
+        const e = err as PGNParseError;
+        expect(e).toBeInstanceOf(PGNParseError);
+        expect(e.ply).toBe(7);
+        expect(e.token).toBe('Nb5');
+        expect(e.message).toContain('ambiguous');
+      }
+    });
+
+    it('should reject an invalid FEN tag', () => {
+      expect(() => parsePGN('[FEN "not a fen"]\n\n*')).toThrow(PGNParseError);
+    });
+  });
+
+  describe('buildPGN', () => {
+    it('should round-trip a parsed game', () => {
+      const parsed = parsePGN(OPERA_GAME);
+      const pgn = buildPGN(parsed.moves, parsed.engine, { white: 'Paul Morphy' });
+      expect(pgn).toContain('[White "Paul Morphy"]');
+      expect(pgn).toContain('[Result "1-0"]');
+      expect(pgn).toContain('11. Bxb5+ Nbd7 12. O-O-O Rd8');
+      expect(pgn).toMatch(/17\. Rd8# 1-0$/);
+      expect(parsePGN(pgn).moves).toHaveLength(33);
+    });
+
+    it('should emit SetUp/FEN tags and a black move number for custom starts', () => {
+      const fen = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR b KQkq - 0 1';
+      const parsed = parsePGN(`[FEN "${fen}"]\n\n1... e5 2. e4 *`);
+      const pgn = buildPGN(parsed.moves, parsed.engine, { startFen: fen });
+      expect(pgn).toContain('[SetUp "1"]');
+      expect(pgn).toContain(`[FEN "${fen}"]`);
+      expect(pgn).toContain('1... e5 2. e4 *');
+    });
+
+    it('should round-trip variations, comments and NAGs from a tree', () => {
+      const source =
+        '1. e4 c5 (1... e5 2. Nf3 (2. f4 exf4) 2... Nc6 {Open game}) 2. Nf3 $1 d6 {Najdorf soon} 3. d4 *';
+      const parsed = parsePGN(source);
+      const pgn = buildPGN(parsed.moves, parsed.engine, { tree: parsed.tree, result: '*' });
+      expect(pgn).toContain(
+        '1. e4 c5 (1... e5 2. Nf3 (2. f4 exf4) 2... Nc6 {Open game}) 2. Nf3 $1 d6 {Najdorf soon} 3. d4 *'
+      );
+      const again = parsePGN(pgn);
+      expect(buildPGN(again.moves, again.engine, { tree: again.tree, result: '*' })).toBe(pgn);
+    });
+
+    it('should keep comments written before the first move of the game and of a variation', () => {
+      const source =
+        '{Ruy Lopez} 1. e4 e5 2. Nf3 ({Rarely seen} 2. Qh5 Nc6) 2... Nc6 ({Petrov style} 2... Nf6) 3. Bb5 *';
+      const parsed = parsePGN(source);
+      expect(parsed.plies[0].comment).toBeUndefined();
+      expect(parsed.plies[2].comment).toBeUndefined();
+      expect(parsed.plies[3].comment).toBeUndefined();
+      const pgn = buildPGN(parsed.moves, parsed.engine, { tree: parsed.tree, result: '*' });
+      expect(pgn).toContain(source);
+      const again = parsePGN(pgn);
+      expect(buildPGN(again.moves, again.engine, { tree: again.tree, result: '*' })).toBe(pgn);
+    });
+
+    it('should export review verdicts as NAGs and comments', () => {
+      const parsed = parsePGN('1. e4 f6 2. d4 *');
+      const [, f6] = parsed.tree.getMainline();
+      const review = GameReview.review(STANDARD_START_FEN, parsed.tree.getMainline(), [
+        { score: { cp: 30, mate: null }, bestMove: { from: 'e2', to: 'e4' } },
+        { score: { cp: 30, mate: null }, bestMove: { from: 'e7', to: 'e5' } },
+        { score: { cp: 250, mate: null }, bestMove: { from: 'd2', to: 'd4' } },
+        { score: { cp: 260, mate: null }, bestMove: null },
+      ]);
+      const expected = '1. e4 f6 $4 {(+0.30 → +2.50) Blunder. e5 was best.} 2. d4 *';
+      expect(
+        buildPGN(parsed.moves, parsed.engine, { tree: parsed.tree, result: '*', review })
+      ).toContain(expected);
+      expect(buildPGN(parsed.moves, parsed.engine, { result: '*', review })).toContain(expected);
+      // The review leaves the tree itself unannotated
+      expect(f6.nags).toBeUndefined();
+      expect(parsePGN(buildPGN(parsed.moves, parsed.engine, { review })).plies[1].nags).toEqual([
+        4,
+      ]);
+    });
+  });
+
+  describe('resolveSAN', () => {
+    it('should resolve rank disambiguation', () => {
+      const engine = new ChessEngine('4k3/8/8/R7/8/8/8/R3K3 w - - 0 1');
+      const move = resolveSAN('R1a3', engine);
+      expect(move.from).toBe('a1');
+      expect(move.to).toBe('a3');
+    });
+
+    it('should ignore check, mate and annotation suffixes', () => {
+      const engine = new ChessEngine();
+      expect(resolveSAN('e4!?', engine).to).toBe('e4');
+      expect(resolveSAN('Nf3+', engine).from).toBe('g1');
+    });
+
+    it('should throw a syntax error for garbage', () => {
+      const engine = new ChessEngine();
+      expect(() => resolveSAN('Zz9', engine)).toThrow(SANError);
+    });
+
+    it('should require a promotion piece', () => {
+      const engine = new ChessEngine('8/P6k/8/8/8/8/7K/8 w - - 0 1');
+      expect(() => resolveSAN('a8', engine)).toThrow(/promotion/);
+    });
+  });
+});